@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+
+/**
+ * tig - command-line interface for every query engine (see `tig help`)
+ */
+
+require('dotenv').config({ path: require('path').join(__dirname, '..', '..', '.env') });
+
+const { main } = require('../dist/cli');
+
+main(process.argv.slice(2)).then(code => {
+  // Let piped stdout drain before exiting (database pools etc. would otherwise keep the process alive)
+  process.stdout.write('', () => process.exit(code));
+});
@@ -0,0 +1,26 @@
+-- One interaction_embeddings row per searchable unit
+--
+-- Ingestion (src/tools/ingestion.ts) inserts with ON CONFLICT DO NOTHING, so
+-- with this index two runs over the same project (overlapping cron jobs, a
+-- backfill next to an incremental run) can't both write a row. chunk_id is NULL
+-- for prompt_response and full_code_diff rows, hence the COALESCE.
+--
+-- Apply once as the table's owner (or a superuser):
+--   psql "$DATABASE_URL" -f db/embedding_keys.sql
+--
+-- Duplicates written before the index existed are removed first, keeping one
+-- row per unit.
+
+BEGIN;
+
+DELETE FROM interaction_embeddings a
+USING interaction_embeddings b
+WHERE a.interaction_id = b.interaction_id
+  AND a.type = b.type
+  AND COALESCE(a.chunk_id, -1) = COALESCE(b.chunk_id, -1)
+  AND a.embedding_id > b.embedding_id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS interaction_embeddings_unit_key
+  ON interaction_embeddings (interaction_id, type, COALESCE(chunk_id, -1));
+
+COMMIT;
@@ -0,0 +1,130 @@
+-- Project isolation for agent reads: a read-only role and row-level security
+--
+-- With DB_READER_ROLE=tig_reader, the agent (src/db.ts) runs every read in a
+-- transaction that switches to tig_reader and sets app.project_id:
+--
+--   BEGIN READ ONLY;
+--   SET LOCAL ROLE tig_reader;
+--   SELECT set_config('app.project_id', '<project id>', true);
+--
+-- tig_reader can only SELECT, and the policies below only show it rows of the
+-- project in app.project_id. Without a project ID it sees none of them.
+--
+-- Apply once as the tables' owner (or a superuser):
+--   psql "$DATABASE_URL" -v app_role=<role in the agent's DATABASE_URL> -f db/rls.sql
+--
+-- Enabling RLS doesn't affect the tables' owner. Any other role without a
+-- policy (e.g. a separate ingestion role) sees no rows - give it its own policy.
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'tig_reader') THEN
+    CREATE ROLE tig_reader NOLOGIN;
+  END IF;
+END
+$$;
+
+-- The agent's login role switches to tig_reader per transaction
+GRANT tig_reader TO :"app_role";
+
+GRANT USAGE ON SCHEMA public TO tig_reader;
+GRANT SELECT ON
+  projects,
+  conversations,
+  interactions,
+  interaction_diffs,
+  commits,
+  commit_interactions,
+  pull_requests,
+  interaction_embeddings
+TO tig_reader;
+
+-- users.email and users.auth_user_id stay unreadable
+GRANT SELECT (
+  id, github_id, github_username, full_name, company, created_at, updated_at,
+  onboarding_completed, chats_saved, show_tool_bubbles_beta
+) ON users TO tig_reader;
+
+-- The project the current transaction is scoped to (NULL when unset)
+CREATE OR REPLACE FUNCTION tig_current_project_id() RETURNS uuid
+LANGUAGE sql STABLE
+AS $$ SELECT NULLIF(current_setting('app.project_id', true), '')::uuid $$;
+
+GRANT EXECUTE ON FUNCTION tig_current_project_id() TO tig_reader;
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interaction_diffs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pull_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interaction_embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commit_interactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tig_project_read ON conversations;
+CREATE POLICY tig_project_read ON conversations
+  FOR SELECT TO tig_reader
+  USING (project_id = tig_current_project_id());
+
+DROP POLICY IF EXISTS tig_project_read ON commits;
+CREATE POLICY tig_project_read ON commits
+  FOR SELECT TO tig_reader
+  USING (project_id = tig_current_project_id());
+
+DROP POLICY IF EXISTS tig_project_read ON pull_requests;
+CREATE POLICY tig_project_read ON pull_requests
+  FOR SELECT TO tig_reader
+  USING (project_id = tig_current_project_id());
+
+-- Interactions belong to a project through their conversation
+DROP POLICY IF EXISTS tig_project_read ON interactions;
+CREATE POLICY tig_project_read ON interactions
+  FOR SELECT TO tig_reader
+  USING (EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id = interactions.conversation_id
+      AND c.project_id = tig_current_project_id()
+  ));
+
+-- Diffs through their interaction's conversation
+DROP POLICY IF EXISTS tig_project_read ON interaction_diffs;
+CREATE POLICY tig_project_read ON interaction_diffs
+  FOR SELECT TO tig_reader
+  USING (EXISTS (
+    SELECT 1 FROM interactions i
+    JOIN conversations c ON c.id = i.conversation_id
+    WHERE i.id = interaction_diffs.interaction_id
+      AND c.project_id = tig_current_project_id()
+  ));
+
+-- Embeddings through their interaction's conversation
+DROP POLICY IF EXISTS tig_project_read ON interaction_embeddings;
+CREATE POLICY tig_project_read ON interaction_embeddings
+  FOR SELECT TO tig_reader
+  USING (EXISTS (
+    SELECT 1 FROM interactions i
+    JOIN conversations c ON c.id = i.conversation_id
+    WHERE i.id = interaction_embeddings.interaction_id
+      AND c.project_id = tig_current_project_id()
+  ));
+
+-- Commit links when both their commit and their interaction are in the project
+DROP POLICY IF EXISTS tig_project_read ON commit_interactions;
+CREATE POLICY tig_project_read ON commit_interactions
+  FOR SELECT TO tig_reader
+  USING (
+    EXISTS (
+      SELECT 1 FROM commits cm
+      WHERE cm.id = commit_interactions.commit_id
+        AND cm.project_id = tig_current_project_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM interactions i
+      JOIN conversations c ON c.id = i.conversation_id
+      WHERE i.id = commit_interactions.interaction_id
+        AND c.project_id = tig_current_project_id()
+    )
+  );
+
+COMMIT;
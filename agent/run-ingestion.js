@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+/**
+ * Embedding ingestion - embed a project's interactions and diffs that have no embeddings yet
+ *
+ * Usage:
+ *   node run-ingestion.js [projectId] [--backfill] [--since <date>] [--max <n>]
+ */
+
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+
+const { ingestEmbeddings, flushTelemetry } = require('./dist/index');
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log(`
+Embedding ingestion - write prompt_response, full_code_diff and chunked_code_diff embeddings
+
+Usage:
+  node run-ingestion.js [projectId] [--backfill] [--since <date>] [--max <n>]
+
+Options:
+  --backfill      Scan the project's whole history (default: only interactions
+                  created since the newest embedded one)
+  --since <date>  Only interactions created at or after this date
+  --max <n>       Stop after n interactions
+
+Environment Variables:
+  VOYAGE_API_KEY       Required - Voyage AI API key
+  DATABASE_URL         Required - PostgreSQL connection string
+  TEST_PROJECT_ID      Project UUID (uses this if projectId not provided)
+  EMBEDDING_CACHE_DIR  Optional - Reuse embeddings cached on disk by earlier runs
+`);
+    process.exit(0);
+  }
+
+  const options = { mode: 'incremental' };
+  let projectId;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--backfill') {
+      options.mode = 'backfill';
+    } else if (args[i] === '--since') {
+      options.since = args[++i];
+    } else if (args[i] === '--max') {
+      options.maxInteractions = parseInt(args[++i], 10);
+    } else {
+      projectId = args[i];
+    }
+  }
+  projectId = projectId || process.env.TEST_PROJECT_ID;
+
+  if (!projectId) {
+    console.error('Error: TEST_PROJECT_ID environment variable is not set and no projectId provided');
+    process.exit(1);
+  }
+  if (options.since !== undefined && isNaN(new Date(options.since).getTime())) {
+    console.error(`Error: --since "${options.since}" is not a date`);
+    process.exit(1);
+  }
+  if (options.maxInteractions !== undefined && !(options.maxInteractions > 0)) {
+    console.error('Error: --max must be a positive number');
+    process.exit(1);
+  }
+
+  try {
+    const result = await ingestEmbeddings(projectId, {
+      ...options,
+      onProgress: progress => {
+        const percent = progress.interactions_total > 0
+          ? Math.round(100 * progress.interactions_done / progress.interactions_total)
+          : 100;
+        console.log(`[${percent}%] ${progress.interactions_done}/${progress.interactions_total} interactions (${(progress.elapsed_ms / 1000).toFixed(1)}s)`);
+      }
+    });
+
+    const written = result.embeddings_written;
+    console.log(`\n✓ ${result.interactions_done} interactions embedded in ${(result.elapsed_ms / 1000).toFixed(1)}s`);
+    console.log(`  prompt_response: ${written.prompt_response}, full_code_diff: ${written.full_code_diff}, chunked_code_diff: ${written.chunked_code_diff}`);
+  } catch (error) {
+    console.error('\n✗ Ingestion failed');
+    console.error('Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await flushTelemetry();
+  }
+
+  process.exit();
+}
+
+main();
@@ -5,11 +5,12 @@
  * 
  * Usage:
  *   node run-iterative.js "your query" [projectId]
+ *   node run-iterative.js --resume <sessionId> [projectId]
  */
 
 require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
 
-const { exploreIterative } = require('./dist/iterativeOrchestrator');
+const { exploreIterative, resumeIterativeExploration } = require('./dist/iterativeOrchestrator');
 
 async function main() {
   // Parse command line arguments
@@ -21,10 +22,12 @@ Iterative Exploration System - Test the new multi-agent architecture
 
 Usage:
   node run-iterative.js "your query" [projectId]
+  node run-iterative.js --resume <sessionId> [projectId]
 
 Examples:
   node run-iterative.js "What did Matthew work on in October?"
   node run-iterative.js "Explain the auth fix" f0b01975-0226-41d5-b124-802147e02e23
+  node run-iterative.js --resume explore-iter-1729000000000
 
 Environment Variables:
   ANTHROPIC_API_KEY   Required - Your Anthropic API key
@@ -32,14 +35,22 @@ Environment Variables:
   TEST_PROJECT_ID     Required - Project UUID (uses this if projectId not provided)
   S2_API_KEY          Optional - S2 stream API key (uses in-memory if not set)
   S2_ENDPOINT         Optional - S2 endpoint (default: https://api.s2.dev)
+  EXPLORATION_STREAM_DIR  Optional - Persist sessions locally (needed for --resume without S2)
 `);
     process.exit(0);
   }
 
-  const query = args[0];
-  const projectId = args[1]; // Optional, will use TEST_PROJECT_ID if not provided
+  const resumeSessionId = args[0] === '--resume' ? args[1] : null;
+  const query = resumeSessionId ? null : args[0];
+  const projectId = resumeSessionId ? args[2] : args[1]; // Optional, will use TEST_PROJECT_ID if not provided
 
-  if (!query) {
+  if (args[0] === '--resume' && !resumeSessionId) {
+    console.error('Error: Session ID is required');
+    console.error('Usage: node run-iterative.js --resume <sessionId> [projectId]');
+    process.exit(1);
+  }
+
+  if (!resumeSessionId && !query) {
     console.error('Error: Query is required');
     console.error('Usage: node run-iterative.js "your query" [projectId]');
     process.exit(1);
@@ -57,15 +68,18 @@ Environment Variables:
     process.exit(1);
   }
 
-  if (!projectId && !process.env.TEST_PROJECT_ID) {
+  // Resumed sessions recorded their project ID
+  if (!resumeSessionId && !projectId && !process.env.TEST_PROJECT_ID) {
     console.error('Error: TEST_PROJECT_ID environment variable is not set and no projectId provided');
     console.error('Set TEST_PROJECT_ID in .env or pass projectId as second argument');
     process.exit(1);
   }
 
   try {
-    // Run iterative exploration
-    const result = await exploreIterative(query, projectId);
+    // Run (or resume) iterative exploration
+    const result = resumeSessionId
+      ? await resumeIterativeExploration(resumeSessionId, projectId)
+      : await exploreIterative(query, projectId);
 
     // Display results
     console.log('\n' + '='.repeat(80));
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/**
+ * Exploration API server
+ * 
+ * Usage:
+ *   node run-server.js [port]
+ * 
+ * Endpoints:
+ *   POST /explorations              { "query": "...", "engine": "iterative", "project_id": "...", "budget": {...} }
+ *   GET  /explorations/:id          Status, and the result once complete
+ *   GET  /explorations/:id/events   Server-sent events as the exploration runs
+ * 
+ * Engines: explore, iterative (default), agentv2, tigagent
+ * (agentv2 / tigagent need `npm run build` in ../agentv2 and ../anthropic)
+ */
+
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+
+const { startExplorationServer } = require('./dist/index');
+
+const port = process.argv[2] ? parseInt(process.argv[2], 10) : undefined;
+
+startExplorationServer(port).catch(error => {
+  console.error('Failed to start server:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,229 @@
+import { ExplorationEvent } from '../types';
+import { CONVERGENCE_CONFIG } from '../config';
+
+export type ConvergenceAction = 'continue' | 'stop' | 'target_missing';
+
+/**
+ * What the loop does after an iteration, and why (written to the stream as convergence_decision)
+ */
+export interface ConvergenceDecision {
+  iteration: number; // The iteration that just completed
+  action: ConvergenceAction;
+  reason: string;
+  completeness: number | null; // Average worker rating in the latest rated iteration (null if none yet)
+  completeness_gain: number; // Over the best earlier iteration
+  new_findings: number; // Findings in this iteration not seen before
+  missing: string[]; // Open questions, most often reported first
+  targeted_queries: string[]; // Searched next when action is target_missing
+}
+
+interface IterationProgress {
+  scores: number[];
+  missing: Map<string, { question: string; count: number }>; // Normalized question → first wording, reports
+  newFindings: number;
+}
+
+/**
+ * Convergence controller - decides whether the loop keeps going
+ *
+ * A fold over the stream, like the work queue:
+ *   iteration_started    - later events count toward that iteration
+ *   finding              - a worker finding; new if its summary wasn't seen before
+ *   completeness         - a worker's rating of the answer so far, and what's missing
+ *   convergence_decision - earlier decisions (targeted iterations spent, questions searched)
+ *
+ * Feeding it the whole log rebuilds its state on resume.
+ */
+export class ConvergenceController {
+  private iterations: Map<number, IterationProgress> = new Map();
+  private currentIteration: number | null = null;
+  private seenFindings: Set<string> = new Set();
+  private targetedQuestions: Set<string> = new Set();
+  private targetedIterations: number = 0;
+
+  constructor(private options = CONVERGENCE_CONFIG) {}
+
+  observe(event: ExplorationEvent): void {
+    switch (event.action) {
+      case 'iteration_started':
+        this.currentIteration = event.output.iteration;
+        this.getProgress(event.output.iteration);
+        break;
+
+      case 'finding': {
+        const key = normalize(event.output.summary || '');
+        if (!event.agent.startsWith('worker_') || !key || this.seenFindings.has(key)) break;
+        this.seenFindings.add(key);
+        if (this.currentIteration !== null) {
+          this.getProgress(this.currentIteration).newFindings++;
+        }
+        break;
+      }
+
+      case 'completeness': {
+        if (this.currentIteration === null || typeof event.output.score !== 'number') break;
+        const progress = this.getProgress(this.currentIteration);
+        progress.scores.push(Math.min(1, Math.max(0, event.output.score)));
+        for (const question of event.output.missing || []) {
+          const key = normalize(question);
+          if (!key) continue;
+          const entry = progress.missing.get(key) ?? { question: question.trim(), count: 0 };
+          entry.count++;
+          progress.missing.set(key, entry);
+        }
+        break;
+      }
+
+      case 'convergence_decision':
+        if (event.output.action === 'target_missing') {
+          this.targetedIterations++;
+          (event.output.targeted_queries || []).forEach((query: string) => this.targetedQuestions.add(normalize(query)));
+        }
+        break;
+    }
+  }
+
+  /**
+   * Decide what follows a completed iteration, given how many lead searches are pending
+   *
+   * In order: stop when workers rate the answer complete, stop when coverage has
+   * plateaued, continue while there are leads, spend a targeted iteration on the
+   * open questions, otherwise stop.
+   */
+  evaluate(iteration: number, pendingSearches: number): ConvergenceDecision {
+    const completeness = this.latestCompleteness(iteration);
+    const missing = this.openQuestions(iteration);
+    const decision = {
+      iteration,
+      completeness: completeness === null ? null : round(completeness),
+      completeness_gain: round(this.completenessGain(iteration)),
+      new_findings: this.iterations.get(iteration)?.newFindings ?? 0,
+      missing,
+      targeted_queries: [] as string[]
+    };
+
+    if (completeness !== null && completeness >= this.options.targetCompleteness) {
+      return {
+        ...decision,
+        action: 'stop',
+        reason: `Workers rate the answer ${round(completeness)} complete (target ${this.options.targetCompleteness})`
+      };
+    }
+
+    if (this.hasPlateaued(iteration)) {
+      return {
+        ...decision,
+        action: 'stop',
+        reason: `Coverage plateaued - ${this.options.plateauIterations} iterations with fewer than ${this.options.minNewFindings} new finding(s) and under +${this.options.minCompletenessGain} completeness`
+      };
+    }
+
+    if (pendingSearches > 0) {
+      return { ...decision, action: 'continue', reason: `${pendingSearches} lead search(es) pending` };
+    }
+
+    const targets = missing
+      .filter(question => !this.targetedQuestions.has(normalize(question)))
+      .slice(0, this.options.maxTargetedQueries);
+
+    if (targets.length > 0 && this.targetedIterations < this.options.maxTargetedIterations) {
+      return {
+        ...decision,
+        action: 'target_missing',
+        reason: `No leads left - searching for ${targets.length} open question(s) (targeted iteration ${this.targetedIterations + 1} of ${this.options.maxTargetedIterations})`,
+        targeted_queries: targets
+      };
+    }
+
+    return {
+      ...decision,
+      action: 'stop',
+      reason: missing.length === 0
+        ? 'No leads left and no open questions'
+        : 'No leads left and the open questions were already searched'
+    };
+  }
+
+  private getProgress(iteration: number): IterationProgress {
+    let progress = this.iterations.get(iteration);
+    if (!progress) {
+      progress = { scores: [], missing: new Map(), newFindings: 0 };
+      this.iterations.set(iteration, progress);
+    }
+    return progress;
+  }
+
+  /**
+   * Average rating of the iteration (null if no worker rated it)
+   */
+  private completenessOf(iteration: number): number | null {
+    const scores = this.iterations.get(iteration)?.scores ?? [];
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  }
+
+  private latestCompleteness(iteration: number): number | null {
+    for (let i = iteration; i >= 0; i--) {
+      const completeness = this.completenessOf(i);
+      if (completeness !== null) {
+        return completeness;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The iteration's rating minus the best earlier one (0 if either is missing)
+   */
+  private completenessGain(iteration: number): number {
+    const current = this.completenessOf(iteration);
+    const earlier = [...Array(iteration).keys()]
+      .map(i => this.completenessOf(i))
+      .filter((completeness): completeness is number => completeness !== null);
+
+    if (current === null || earlier.length === 0) {
+      return 0;
+    }
+    return current - Math.max(...earlier);
+  }
+
+  /**
+   * The last plateauIterations iterations (not counting the initial search) all added too little
+   */
+  private hasPlateaued(iteration: number): boolean {
+    const window = this.options.plateauIterations;
+    if (window <= 0 || iteration - window + 1 < 1) {
+      return false;
+    }
+
+    for (let i = iteration - window + 1; i <= iteration; i++) {
+      const newFindings = this.iterations.get(i)?.newFindings ?? 0;
+      if (newFindings >= this.options.minNewFindings || this.completenessGain(i) >= this.options.minCompletenessGain) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Questions reported missing in the latest rated iteration, most often reported first
+   */
+  private openQuestions(iteration: number): string[] {
+    for (let i = iteration; i >= 0; i--) {
+      const progress = this.iterations.get(i);
+      if (progress && progress.scores.length > 0) {
+        return [...progress.missing.values()]
+          .sort((a, b) => b.count - a.count)
+          .map(entry => entry.question);
+      }
+    }
+    return [];
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
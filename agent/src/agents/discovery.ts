@@ -1,3 +1,4 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { DiscoveryOutput } from '../types';
 import { semanticSearch } from '../tools/semantic';
@@ -17,17 +18,18 @@ export async function discoveryAgent(
   stream: ExplorationStream,
   projectId: string
 ): Promise<void> {
-  console.log(`[Discovery] Starting discovery for: "${query}"`);
+  const log = getLogger('discovery', { session_id: stream.sessionId });
+  log.info(`Starting discovery for: "${query}"`);
 
   try {
     // 1. Semantic search for relevant interactions using Voyage AI embeddings
-    console.log('[Discovery] Running semantic search...');
+    log.debug('Running semantic search');
     const semanticResults = await semanticSearch(query, projectId, 50);
-    console.log(`[Discovery] Semantic search found ${semanticResults.length} interactions`);
+    log.info(`Semantic search found ${semanticResults.length} interactions`);
     
     if (semanticResults.length > 0) {
       const topSimilarity = (semanticResults[0].similarity * 100).toFixed(1);
-      console.log(`[Discovery] Top similarity: ${topSimilarity}%`);
+      log.info(`Top similarity: ${topSimilarity}%`);
     }
 
     // 2. Extract unique entities from semantic search results
@@ -36,7 +38,7 @@ export async function discoveryAgent(
     const people = [...new Set(semanticResults.map(r => r.author).filter(Boolean))];
 
     // 3. Get related commits and files for these interactions
-    console.log('[Discovery] Fetching related commits and files...');
+    log.debug('Fetching related commits and files');
     const relatedData = interaction_ids.length > 0 ? await executeSqlQuery(
       `
       SELECT DISTINCT 
@@ -45,11 +47,12 @@ export async function discoveryAgent(
         id2.file_path
       FROM interactions i
       LEFT JOIN commit_interactions ci ON i.id = ci.interaction_id
-      LEFT JOIN commits c ON ci.commit_id = c.id
+      LEFT JOIN commits c ON ci.commit_id = c.id AND c.project_id = $2
       LEFT JOIN interaction_diffs id2 ON i.id = id2.interaction_id
       WHERE i.id = ANY($1)
       `,
-      [interaction_ids]
+      [interaction_ids, projectId],
+      { projectId }
     ) : [];
 
     const commit_hashes = [...new Set(relatedData.map(r => r.commit_hash).filter(Boolean))];
@@ -64,7 +67,7 @@ export async function discoveryAgent(
     // This ensures we get commits from people mentioned in conversations even if
     // those commits aren't linked to the top semantic search results
     if (uniquePeople.length > 0) {
-      console.log(`[Discovery] Fetching commits by identified people: ${uniquePeople.join(', ')}`);
+      log.debug(`Fetching commits by identified people: ${uniquePeople.join(', ')}`);
       const authorCommits = await executeSqlQuery(
         `
         SELECT DISTINCT
@@ -78,23 +81,24 @@ export async function discoveryAgent(
         ORDER BY c.committed_at DESC
         LIMIT 50
         `,
-        [projectId, uniquePeople]
+        [projectId, uniquePeople],
+        { projectId }
       );
       
-      console.log(`[Discovery] Found ${authorCommits.length} commits by identified authors`);
+      log.info(`Found ${authorCommits.length} commits by identified authors`);
       
       // Debug: Show author breakdown
       const authorBreakdown: { [key: string]: number } = {};
       authorCommits.forEach(c => {
         authorBreakdown[c.commit_author] = (authorBreakdown[c.commit_author] || 0) + 1;
       });
-      console.log(`[Discovery] Author breakdown:`, authorBreakdown);
+      log.debug('Author breakdown', { authors: authorBreakdown });
       
       // Merge with existing commit data
       const newCommitHashes = authorCommits.map(r => r.commit_hash).filter(Boolean);
       const beforeMerge = commit_hashes.length;
       commit_hashes.push(...newCommitHashes.filter(h => !commit_hashes.includes(h)));
-      console.log(`[Discovery] Added ${commit_hashes.length - beforeMerge} new commit hashes from author query`);
+      log.info(`Added ${commit_hashes.length - beforeMerge} new commit hashes from author query`);
     }
 
     // 5. Create output summary
@@ -112,8 +116,7 @@ export async function discoveryAgent(
       }
     };
 
-    console.log(`[Discovery] Found:`, output.counts);
-    console.log(`[Discovery] Commit hashes collected:`, commit_hashes.length);
+    log.info('Seeds found', { ...output.counts, commit_hashes: commit_hashes.length });
 
     // 6. Store full semantic search results in stream storage
     const semanticStorageKey = await stream.put('semantic_results', semanticResults);
@@ -131,9 +134,9 @@ export async function discoveryAgent(
       }
     });
 
-    console.log('[Discovery] Seeds written to stream');
+    log.info('Seeds written to stream');
   } catch (error) {
-    console.error('[Discovery] Error:', error);
+    log.error('Failed', { error });
     
     // Write error event to stream
     await stream.append({
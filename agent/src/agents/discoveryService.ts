@@ -1,30 +1,67 @@
+import { Logger, getLogger, generateQueryEmbedding } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
-import { SearchRequest, Interaction } from '../types';
-import { semanticSearch } from '../tools/semantic';
+import { SearchRequest, Interaction, ExplorationEvent, CodeSearchResult, PullRequestContext } from '../types';
+import { semanticSearch, hybridSearch, codeSearch } from '../tools/semantic';
 import { executeSqlQuery } from '../tools/sql';
+import { rerankInteractions } from '../tools/rerank';
+import { resolveDateRange } from '../tools/dates';
+import { resolveAuthorIdentities } from '../tools/identity';
+
+// "Where did we change X", "which files implement Y" - worth searching the diffs for
+const CODE_QUESTION_PATTERN = /\b(where|which files?|what files?)\b.*\b(change[sd]?|modif\w*|implement\w*|refactor\w*|code|function|fix(ed)?)\b/i;
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Interactions returned per conversation_reference search (whole threads, oldest first)
+const THREAD_LIMIT = 30;
+
+// Pull requests a pr_reference or commit_reference search resolves to, and the interactions returned for them
+const PULL_REQUEST_LIMIT = 3;
+const PULL_REQUEST_INTERACTION_LIMIT = 30;
 
 /**
  * Discovery Service - Search engine that responds to search requests
  * 
  * Handles:
  * - Initial semantic searches
- * - Targeted searches from worker leads
+ * - Targeted searches from worker leads (an iteration's searches run in parallel)
  * - Deduplication of results
+ * - Reranking, so only the relevant head of each result set reaches the judges
+ * - Recording the pull requests behind searched commits for synthesis
  * - Dynamic judge spawning
  */
 export class DiscoveryService {
   private processedInteractionIds: Set<string> = new Set();
+  private recordedPullRequests: Set<number> = new Set();
+  private searchCount = 0; // Keeps storage keys unique when searches finish in the same millisecond
+  
+  private log: Logger;
   
   constructor(
     private projectId: string,
     private stream: ExplorationStream
-  ) {}
+  ) {
+    this.log = getLogger('discovery', { session_id: stream.sessionId });
+  }
+
+  /**
+   * Rebuild dedup state from a previous run's search_complete and pull_request events
+   */
+  restore(events: ExplorationEvent[]): void {
+    for (const event of events) {
+      if (event.agent === 'discovery' && event.action === 'search_complete') {
+        (event.output.interaction_ids || []).forEach((id: string) => this.processedInteractionIds.add(id));
+      } else if (event.agent === 'discovery' && event.action === 'pull_request') {
+        this.recordedPullRequests.add(event.output.pull_request.pr_number);
+      }
+    }
+  }
 
   /**
    * Handle a search request from initial query or worker lead
    */
   async handleSearchRequest(request: SearchRequest): Promise<Interaction[]> {
-    console.log(`[Discovery] Iteration ${request.iteration}: ${request.lead_type} search for "${request.query}"`);
+    this.log.info(`${request.lead_type} search for "${request.query}"`, { iteration: request.iteration });
     
     let results: any[];
     
@@ -58,20 +95,34 @@ export class DiscoveryService {
         results = await this.searchByConversation(request);
         break;
         
+      case 'code_reference':
+        results = await this.searchByCode(request.query);
+        break;
+        
+      case 'pr_reference':
+        results = await this.searchByPullRequest(request);
+        break;
+        
       default:
         results = await semanticSearch(request.query, this.projectId, 20);
     }
     
-    // Filter out already-seen interactions
-    const newResults = results.filter(r => !this.processedInteractionIds.has(r.id));
-    newResults.forEach(r => this.processedInteractionIds.add(r.id));
+    // Filter out already-seen interactions, and claim the rest before awaiting the
+    // reranker - searches run in parallel, and two of them must not both keep one
+    const unseen = results.filter(r => !this.processedInteractionIds.has(r.id));
+    const duplicates = results.length - unseen.length;
+    unseen.forEach(r => this.processedInteractionIds.add(r.id));
     
-    const duplicates = results.length - newResults.length;
-    console.log(`[Discovery] Found ${newResults.length} NEW interactions (${duplicates} already seen)`);
+    // Drop the long tail before judging - dropped interactions stay unseen, so another lead can surface them
+    const { kept: newResults, dropped } = await rerankInteractions(request.query, unseen, request.lead_type, this.log);
+    const keptIds = new Set(newResults.map(r => r.id));
+    unseen.filter(r => !keptIds.has(r.id)).forEach(r => this.processedInteractionIds.delete(r.id));
+    
+    this.log.info(`Found ${newResults.length} new interactions (${duplicates} already seen, ${dropped} below the rerank cutoff)`, { iteration: request.iteration });
     
     // Write search results to stream
     const storageKey = await this.stream.put(
-      `search_iter${request.iteration}_${Date.now()}`, 
+      `search_iter${request.iteration}_${Date.now()}_${++this.searchCount}`, 
       newResults
     );
     
@@ -86,6 +137,7 @@ export class DiscoveryService {
         lead_type: request.lead_type,
         results_found: newResults.length,
         duplicates_filtered: duplicates,
+        reranked_out: dropped,
         interaction_ids: newResults.map(r => r.id)
       },
       storage: {
@@ -98,14 +150,40 @@ export class DiscoveryService {
   }
   
   /**
-   * Initial broad semantic search
+   * Initial broad search - vector and full-text, so exact identifiers in the query still match
+   * Questions about code changes also search the diffs themselves
    */
   private async initialSearch(query: string): Promise<any[]> {
-    return await semanticSearch(query, this.projectId, 10);
+    if (!CODE_QUESTION_PATTERN.test(query)) {
+      return await hybridSearch(query, this.projectId, 10);
+    }
+    
+    const [conversational, code] = await Promise.all([
+      hybridSearch(query, this.projectId, 10),
+      this.searchByCode(query)
+    ]);
+    
+    // Interactions found both ways keep their code matches
+    const codeById = new Map(code.map(i => [i.id, i]));
+    const merged = conversational.map(i => codeById.has(i.id) ? { ...i, code_matches: codeById.get(i.id)!.code_matches } : i);
+    const seen = new Set(merged.map(i => i.id));
+    return [...merged, ...code.filter(i => !seen.has(i.id))];
+  }
+  
+  /**
+   * Search code diffs - returns the interactions that made the matching changes,
+   * each with the diff chunks that matched (code_matches)
+   */
+  private async searchByCode(query: string): Promise<Interaction[]> {
+    const results = await codeSearch(query, this.projectId, 10);
+    this.log.info(`Code search matched ${results.length} changed files`, {
+      files: [...new Set(results.map(r => r.file_path))]
+    });
+    return groupByInteraction(results);
   }
   
   /**
-   * Search for interactions related to a specific commit
+   * Search for interactions related to a specific commit, recording the pull request that shipped it
    */
   private async searchByCommit(request: SearchRequest): Promise<any[]> {
     if (!request.filters?.commit_hash) {
@@ -113,6 +191,12 @@ export class DiscoveryService {
       return await semanticSearch(request.query, this.projectId, 10);
     }
     
+    const pullRequests = await this.findPullRequests(
+      '(pr.head_sha = $2 OR pr.head_branch = (SELECT shipped.branch FROM commits shipped WHERE shipped.project_id = $1 AND shipped.hash = $2 LIMIT 1))',
+      [request.filters.commit_hash]
+    );
+    await this.recordPullRequests(pullRequests, request);
+    
     const results = await executeSqlQuery(
       `
       SELECT DISTINCT
@@ -129,9 +213,10 @@ export class DiscoveryService {
       JOIN commits c ON ci.commit_id = c.id
       JOIN interactions i ON ci.interaction_id = i.id
       JOIN conversations c2 ON i.conversation_id = c2.id
-      WHERE c.hash = $1 AND c2.project_id = $2
+      WHERE c.hash = $1 AND c.project_id = $2 AND c2.project_id = $2
       `,
-      [request.filters.commit_hash, this.projectId]
+      [request.filters.commit_hash, this.projectId],
+      { projectId: this.projectId }
     );
     
     return results;
@@ -139,22 +224,66 @@ export class DiscoveryService {
   
   /**
    * Search for interactions about a specific entity/concept
+   * 
+   * Literal matches of the entity's names (filters.aliases) in prompts, responses,
+   * diffs and linked commit messages come first, then hybrid search hits.
    */
   private async searchByEntity(request: SearchRequest): Promise<any[]> {
-    // Use semantic search for entity mentions
-    return await semanticSearch(request.query, this.projectId, 15);
+    // Entities are often identifiers (function names, error strings) - hybrid search matches them literally too
+    const aliases = (request.filters?.aliases || []).map(a => a.trim()).filter(a => a.length >= 3);
+    if (aliases.length === 0) {
+      return await hybridSearch(request.query, this.projectId, 15);
+    }
+    
+    const [exact, related] = await Promise.all([
+      this.searchByAliases(aliases),
+      hybridSearch(request.query, this.projectId, 15)
+    ]);
+    this.log.info(`Entity ${aliases.map(a => `"${a}"`).join(', ')} matched literally in ${exact.length} interactions`);
+    
+    // Literal matches found by hybrid search too keep its scores
+    const relatedById = new Map(related.map(i => [i.id, i]));
+    const merged = exact.map(i => relatedById.has(i.id) ? { ...relatedById.get(i.id)!, matched_in: i.matched_in } : i);
+    const seen = new Set(merged.map(i => i.id));
+    return [...merged, ...related.filter(i => !seen.has(i.id))];
   }
   
   /**
-   * Search for interactions by a specific person
+   * Interactions whose prompt, response, diffs or linked commit messages contain
+   * one of the names as a whole word (case-insensitive) - most sources first
    */
-  private async searchByPerson(request: SearchRequest): Promise<any[]> {
-    if (!request.filters?.author) {
-      return await semanticSearch(request.query, this.projectId, 10);
-    }
+  private async searchByAliases(aliases: string[]): Promise<Interaction[]> {
+    const patterns = aliases.map(alias =>
+      `(^|[^[:alnum:]_])${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^[:alnum:]_])`
+    );
     
-    const results = await executeSqlQuery(
+    return await executeSqlQuery(
       `
+      WITH patterns AS (
+        SELECT unnest($2::text[]) as pattern
+      ),
+      matches AS (
+        SELECT i.id, 'prompt' as source
+        FROM interactions i
+        JOIN conversations c ON i.conversation_id = c.id
+        WHERE c.project_id = $1 AND EXISTS (SELECT 1 FROM patterns p WHERE i.prompt_text ~* p.pattern)
+        UNION
+        SELECT i.id, 'response' as source
+        FROM interactions i
+        JOIN conversations c ON i.conversation_id = c.id
+        WHERE c.project_id = $1 AND EXISTS (SELECT 1 FROM patterns p WHERE i.response_text ~* p.pattern)
+        UNION
+        SELECT d.interaction_id, 'diff' as source
+        FROM interaction_diffs d
+        JOIN interactions i ON d.interaction_id = i.id
+        JOIN conversations c ON i.conversation_id = c.id
+        WHERE c.project_id = $1 AND EXISTS (SELECT 1 FROM patterns p WHERE d.diff_chunks::text ~* p.pattern)
+        UNION
+        SELECT ci.interaction_id, 'commit' as source
+        FROM commits cm
+        JOIN commit_interactions ci ON ci.commit_id = cm.id
+        WHERE cm.project_id = $1 AND EXISTS (SELECT 1 FROM patterns p WHERE cm.message ~* p.pattern)
+      )
       SELECT
         i.id,
         i.conversation_id,
@@ -164,28 +293,71 @@ export class DiscoveryService {
         i.prompt_ts,
         c.title as conversation_title,
         c.platform,
-        0.8 as similarity
-      FROM interactions i
+        array_agg(m.source ORDER BY m.source) as matched_in,
+        0.85 as similarity
+      FROM matches m
+      JOIN interactions i ON m.id = i.id
       JOIN conversations c ON i.conversation_id = c.id
-      WHERE i.author = $1 AND c.project_id = $2
-      ORDER BY i.prompt_ts DESC
+      WHERE c.project_id = $1
+      GROUP BY i.id, c.id
+      ORDER BY COUNT(*) DESC, i.prompt_ts DESC
       LIMIT 15
       `,
-      [request.filters.author, this.projectId]
+      [this.projectId, patterns],
+      { projectId: this.projectId }
     );
+  }
+  
+  /**
+   * Search for interactions by a specific person - any of their names or handles
+   */
+  private async searchByPerson(request: SearchRequest): Promise<any[]> {
+    if (!request.filters?.author) {
+      return await semanticSearch(request.query, this.projectId, 10);
+    }
     
-    return results;
+    const authors = await resolveAuthorIdentities(request.filters.author, this.projectId);
+    if (authors.length === 0) {
+      this.log.info(`No author matches "${request.filters.author}" - falling back to semantic search`);
+      return await semanticSearch(request.query, this.projectId, 10);
+    }
+    
+    this.log.info(`"${request.filters.author}" resolved to ${authors.join(', ')}`);
+    return await this.searchRankedByQuery(request.query, 'i.author = ANY($4)', [authors], 15);
   }
   
   /**
-   * Search for interactions around a specific date
+   * Search for interactions on a day, in a range or in a relative window
    */
   private async searchByDate(request: SearchRequest): Promise<any[]> {
-    if (!request.filters?.date) {
+    const range = resolveDateRange(request.filters, request.query);
+    if (!range) {
       return await semanticSearch(request.query, this.projectId, 10);
     }
     
-    const results = await executeSqlQuery(
+    this.log.info(`Date reference resolved to ${range.from} - ${range.to}`);
+    return await this.searchRankedByQuery(
+      request.query,
+      'i.prompt_ts >= $4::date AND i.prompt_ts < $5::date + 1',
+      [range.from, range.to],
+      20
+    );
+  }
+  
+  /**
+   * Interactions matching a SQL condition (parameters from $4), most similar to
+   * the lead's query first. Without a query embedding (Voyage unavailable) or a
+   * stored one, newest first.
+   */
+  private async searchRankedByQuery(query: string, condition: string, params: unknown[], limit: number): Promise<any[]> {
+    let vectorString: string | null = null;
+    try {
+      vectorString = `[${(await generateQueryEmbedding(query)).join(',')}]`;
+    } catch (error) {
+      this.log.warn('Could not embed the lead query - ordering by time', { error });
+    }
+    
+    return await executeSqlQuery(
       `
       SELECT
         i.id,
@@ -196,16 +368,125 @@ export class DiscoveryService {
         i.prompt_ts,
         c.title as conversation_title,
         c.platform,
-        0.7 as similarity
+        COALESCE(1 - (ie.embedding <=> $1::vector), 0.5) as similarity
       FROM interactions i
       JOIN conversations c ON i.conversation_id = c.id
-      WHERE DATE(i.prompt_ts) = $1 AND c.project_id = $2
-      ORDER BY i.prompt_ts
+      LEFT JOIN interaction_embeddings ie ON ie.interaction_id = i.id AND ie.type = 'prompt_response'
+      WHERE c.project_id = $2 AND ${condition}
+      ORDER BY ie.embedding <=> $1::vector NULLS LAST, i.prompt_ts DESC
+      LIMIT $3
       `,
-      [request.filters.date, this.projectId]
+      [vectorString, this.projectId, limit, ...params],
+      { projectId: this.projectId }
     );
+  }
+  
+  /**
+   * Search for the discussion behind a pull request
+   * 
+   * Resolves filters.pr_number, or PRs whose title contains the query or whose
+   * head branch is the query, and records each for synthesis. Returns the
+   * interactions linked to the PRs' commits (head SHA or branch) from before
+   * they merged, oldest first. Failing a PR, semantic search.
+   */
+  private async searchByPullRequest(request: SearchRequest): Promise<any[]> {
+    const reference = request.query.trim();
+    const pullRequests = request.filters?.pr_number !== undefined
+      ? await this.findPullRequests('pr.pr_number = $2', [request.filters.pr_number])
+      : reference
+        ? await this.findPullRequests('(pr.title ILIKE $2 OR pr.head_branch = $3)', [`%${reference.replace(/[\\%_]/g, '\\$&')}%`, reference])
+        : [];
     
-    return results;
+    if (pullRequests.length === 0) {
+      this.log.info(`No pull request matches "${request.filters?.pr_number ?? reference}" - falling back to semantic search`);
+      return await semanticSearch(request.query, this.projectId, 10);
+    }
+    
+    await this.recordPullRequests(pullRequests, request);
+    
+    return await executeSqlQuery(
+      `
+      SELECT DISTINCT
+        i.id,
+        i.conversation_id,
+        i.prompt_text,
+        i.response_text,
+        i.author,
+        i.prompt_ts,
+        c.title as conversation_title,
+        c.platform,
+        0.9 as similarity
+      FROM pull_requests pr
+      JOIN commits cm ON cm.project_id = pr.project_id AND (cm.hash = pr.head_sha OR cm.branch = pr.head_branch)
+      JOIN commit_interactions ci ON ci.commit_id = cm.id
+      JOIN interactions i ON ci.interaction_id = i.id
+      JOIN conversations c ON i.conversation_id = c.id
+      WHERE pr.project_id = $1 AND cm.project_id = $1 AND c.project_id = $1
+        AND pr.pr_number = ANY($2::int[])
+        AND (pr.merged_at IS NULL OR i.prompt_ts IS NULL OR i.prompt_ts <= pr.merged_at)
+      ORDER BY i.prompt_ts
+      LIMIT $3
+      `,
+      [this.projectId, pullRequests.map(pr => pr.pr_number), PULL_REQUEST_INTERACTION_LIMIT],
+      { projectId: this.projectId }
+    );
+  }
+  
+  /**
+   * Pull requests matching a SQL condition (parameters from $2), with the
+   * commits at their head SHA or on their branch - merged most recently first
+   */
+  private async findPullRequests(condition: string, params: unknown[]): Promise<PullRequestContext[]> {
+    return await executeSqlQuery(
+      `
+      SELECT
+        pr.pr_number,
+        pr.title,
+        pr.state,
+        pr.author,
+        pr.head_branch,
+        pr.base_branch,
+        pr.head_sha,
+        pr.github_url,
+        pr.created_at,
+        pr.merged_at,
+        array_remove(array_agg(DISTINCT cm.hash), NULL) as commit_hashes
+      FROM pull_requests pr
+      LEFT JOIN commits cm ON cm.project_id = pr.project_id AND (cm.hash = pr.head_sha OR cm.branch = pr.head_branch)
+      WHERE pr.project_id = $1 AND ${condition}
+      GROUP BY pr.id
+      ORDER BY pr.merged_at DESC NULLS LAST, pr.pr_number DESC
+      LIMIT ${PULL_REQUEST_LIMIT}
+      `,
+      [this.projectId, ...params],
+      { projectId: this.projectId }
+    );
+  }
+  
+  /**
+   * Write each pull request not yet recorded to the stream, for synthesis to cite
+   */
+  private async recordPullRequests(pullRequests: PullRequestContext[], request: SearchRequest): Promise<void> {
+    for (const pullRequest of pullRequests) {
+      if (this.recordedPullRequests.has(pullRequest.pr_number)) {
+        continue;
+      }
+      this.recordedPullRequests.add(pullRequest.pr_number);
+      
+      this.log.info(`Pull request #${pullRequest.pr_number} "${pullRequest.title}" (${pullRequest.state})`, { iteration: request.iteration });
+      await this.stream.append({
+        agent: 'discovery',
+        phase: 'search',
+        action: 'pull_request',
+        output: {
+          iteration: request.iteration,
+          query: request.query,
+          lead_type: request.lead_type,
+          pull_request: pullRequest
+        },
+        references: request.source !== 'user_query' ? [request.source] : undefined
+      });
+    }
   }
   
   /**
@@ -213,7 +494,8 @@ export class DiscoveryService {
    */
   private async searchByFile(request: SearchRequest): Promise<any[]> {
     if (!request.filters?.file_path) {
-      return await semanticSearch(request.query, this.projectId, 10);
+      // No path to look up - find the file by what changed in it
+      return await this.searchByCode(request.query);
     }
     
     const results = await executeSqlQuery(
@@ -235,18 +517,80 @@ export class DiscoveryService {
       ORDER BY i.prompt_ts DESC
       LIMIT 15
       `,
-      [request.filters.file_path, this.projectId]
+      [request.filters.file_path, this.projectId],
+      { projectId: this.projectId }
     );
     
     return results;
   }
   
   /**
-   * Search within a specific conversation
+   * Return the thread a conversation lead points at
+   * 
+   * Resolves a conversation ID in filters.conversation_id or the query, else
+   * a title match (a filter that isn't a UUID never reaches the ::uuid[] cast).
+   * Failing those, the thread of the best semantic match.
    */
   private async searchByConversation(request: SearchRequest): Promise<any[]> {
-    // Extract conversation ID from query or use semantic search
-    return await semanticSearch(request.query, this.projectId, 10);
+    const reference = request.query.trim();
+    const conversationId = [request.filters?.conversation_id, reference].find(value => value && UUID_PATTERN.test(value));
+    
+    let conversationIds = conversationId ? [conversationId] : await this.findConversationsByTitle(reference);
+    
+    if (conversationIds.length === 0) {
+      const hits = await semanticSearch(request.query, this.projectId, 10);
+      if (hits.length === 0) {
+        return [];
+      }
+      conversationIds = [hits[0].conversation_id];
+      this.log.info(`No conversation titled "${reference}" - following the best semantic match's thread`, {
+        conversation_id: hits[0].conversation_id
+      });
+    }
+    
+    return await executeSqlQuery(
+      `
+      SELECT
+        i.id,
+        i.conversation_id,
+        i.prompt_text,
+        i.response_text,
+        i.author,
+        i.prompt_ts,
+        c.title as conversation_title,
+        c.platform,
+        0.9 as similarity
+      FROM interactions i
+      JOIN conversations c ON i.conversation_id = c.id
+      WHERE c.id = ANY($1::uuid[]) AND c.project_id = $2
+      ORDER BY array_position($1::uuid[], c.id), i.prompt_ts
+      LIMIT $3
+      `,
+      [conversationIds, this.projectId, THREAD_LIMIT],
+      { projectId: this.projectId }
+    );
+  }
+  
+  /**
+   * Conversations whose title contains the text - exact title first, then the shortest (closest) titles
+   */
+  private async findConversationsByTitle(title: string): Promise<string[]> {
+    if (!title) {
+      return [];
+    }
+    
+    const rows = await executeSqlQuery(
+      `
+      SELECT c.id
+      FROM conversations c
+      WHERE c.project_id = $1 AND c.title ILIKE $2
+      ORDER BY lower(c.title) = lower($3) DESC, length(c.title), c.created_at DESC
+      LIMIT 3
+      `,
+      [this.projectId, `%${title.replace(/[\\%_]/g, '\\$&')}%`, title],
+      { projectId: this.projectId }
+    );
+    return rows.map(row => row.id);
   }
   
   /**
@@ -261,5 +605,20 @@ export class DiscoveryService {
    */
   reset(): void {
     this.processedInteractionIds.clear();
+    this.recordedPullRequests.clear();
+  }
+}
+
+/**
+ * One Interaction per code search hit's interaction, carrying all of its matching chunks
+ */
+function groupByInteraction(results: CodeSearchResult[]): Interaction[] {
+  const byId = new Map<string, Interaction>();
+  for (const result of results) {
+    const interaction = byId.get(result.interaction.id) || { ...result.interaction, code_matches: [] };
+    interaction.code_matches!.push(...result.chunks);
+    interaction.similarity = Math.max(interaction.similarity ?? 0, result.similarity);
+    byId.set(interaction.id, interaction);
   }
+  return [...byId.values()];
 }
@@ -1,6 +1,7 @@
+import { Logger, getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
-import { Finding } from '../types';
-import { createAnthropicClient, AGENT_MODELS } from '../config';
+import { Finding, PullRequestContext } from '../types';
+import { BudgetTracker, BudgetExceededError } from '../budget';
 
 /**
  * Incremental Synthesis Agent - Builds answer as findings arrive
@@ -8,23 +9,33 @@ import { createAnthropicClient, AGENT_MODELS } from '../config';
  * Watches the stream for new findings from workers and continuously
  * updates the answer. Provides progress feedback and finalizes when
  * exploration completes.
+ * 
+ * Pull requests Discovery resolved (pull_request events) go into every prompt,
+ * so the answer can name the PR that shipped a change and tell what was
+ * discussed before it merged from what came after.
  */
 export class IncrementalSynthesisAgent {
   private currentAnswer: string = '';
   private findings: Finding[] = [];
-  private lastProcessedEventId: string | null = null;
+  private cursor: number = 0; // Stream sequence number we've read up to
+  private pullRequests: Map<number, PullRequestContext> = new Map(); // By PR number
+  private pullRequestCursor: number = 0;
   private isFinalized: boolean = false;
+  private log: Logger;
   
   constructor(
     private query: string,
-    private stream: ExplorationStream
-  ) {}
+    private stream: ExplorationStream,
+    private budget: BudgetTracker
+  ) {
+    this.log = getLogger('synthesis', { session_id: stream.sessionId });
+  }
   
   /**
    * Start synthesis - run in background, watching for findings
    */
   async start(): Promise<void> {
-    console.log('[Synthesis] Starting incremental answer building...');
+    this.log.info('Starting incremental answer building');
     
     await this.stream.append({
       agent: 'synthesis',
@@ -37,6 +48,55 @@ export class IncrementalSynthesisAgent {
     });
   }
   
+  /**
+   * Rebuild state from a previous run of this session instead of start()
+   * 
+   * Restores the last stored draft, the findings it incorporated and every
+   * pull request recorded so far; findings written after that draft are
+   * picked up by the next checkForUpdates().
+   */
+  async restore(): Promise<void> {
+    const events = await this.stream.read();
+    
+    const lastUpdate = [...events].reverse().find(
+      e => e.agent === 'synthesis' && e.action === 'intermediate_update' && e.storage?.answer
+    );
+    const incorporated: number = lastUpdate ? lastUpdate.output.findings_count : 0;
+    
+    let seen = 0;
+    for (let seq = 0; seq < events.length && seen < incorporated; seq++) {
+      const event = events[seq];
+      if (event.agent.startsWith('worker_') && event.action === 'finding') {
+        this.findings.push(event.output as Finding);
+        seen++;
+        this.cursor = seq + 1;
+      }
+    }
+    
+    for (const event of events) {
+      if (event.agent === 'discovery' && event.action === 'pull_request') {
+        this.addPullRequest(event.output.pull_request);
+      }
+    }
+    this.pullRequestCursor = events.length;
+    
+    if (lastUpdate) {
+      this.currentAnswer = await this.stream.get(lastUpdate.storage!.answer);
+    }
+    
+    this.log.info(`Restored draft with ${this.findings.length} findings and ${this.pullRequests.size} pull requests`);
+    
+    await this.stream.append({
+      agent: 'synthesis',
+      phase: 'synthesis',
+      action: 'resumed',
+      output: {
+        query: this.query,
+        findings_restored: this.findings.length
+      }
+    });
+  }
+  
   /**
    * Update answer with new findings (call periodically or when notified)
    */
@@ -45,32 +105,50 @@ export class IncrementalSynthesisAgent {
       return false;
     }
     
-    // Get new events since last check
-    const newEvents = await this.stream.read({ 
-      since_id: this.lastProcessedEventId || undefined 
+    // Pull requests only give findings context - they don't trigger an update on their own
+    const pullRequestPage = await this.stream.readFrom(this.pullRequestCursor, {
+      agent_prefix: 'discovery',
+      action: 'pull_request'
     });
+    this.pullRequestCursor = pullRequestPage.next_seq;
+    pullRequestPage.events.forEach(e => this.addPullRequest(e.output.pull_request));
     
-    if (newEvents.length === 0) {
-      return false;
-    }
+    // Get new findings since last check
+    const page = await this.stream.readFrom(this.cursor, {
+      agent_prefix: 'worker_',
+      action: 'finding'
+    });
+    this.cursor = page.next_seq;
     
-    // Filter for new findings
-    const newFindings = newEvents
-      .filter(e => e.agent.startsWith('worker_') && e.action === 'finding')
-      .map(e => e.output as Finding);
+    const newFindings = page.events.map(e => e.output as Finding);
     
     if (newFindings.length === 0) {
-      this.lastProcessedEventId = newEvents[newEvents.length - 1].event_id || null;
       return false;
     }
     
-    console.log(`[Synthesis] Received ${newFindings.length} new findings`);
+    // Out of budget - keep collecting findings for finalize(), but stop drafting
+    if (this.budget.isExhausted()) {
+      this.findings.push(...newFindings);
+      return false;
+    }
+    
+    this.log.debug(`Received ${newFindings.length} new findings`);
     this.findings.push(...newFindings);
     
     // Update answer with new information
-    await this.updateAnswer(newFindings);
+    try {
+      await this.log.span('synthesis', () => this.updateAnswer(newFindings), {
+        mode: 'update',
+        new_findings: newFindings.length
+      });
+    } catch (error) {
+      // Budget ran out between the check above and the call - finalize() still has the findings
+      if (error instanceof BudgetExceededError) {
+        return false;
+      }
+      throw error;
+    }
     
-    this.lastProcessedEventId = newEvents[newEvents.length - 1].event_id || null;
     return true;
   }
   
@@ -78,12 +156,9 @@ export class IncrementalSynthesisAgent {
    * Update the answer to incorporate new findings
    */
   private async updateAnswer(newFindings: Finding[]): Promise<void> {
-    const client = createAnthropicClient();
-    
     const isFirstUpdate = this.currentAnswer === '';
     
-    const response = await client.messages.create({
-      model: AGENT_MODELS.synthesis,
+    const response = await this.budget.complete('synthesis', 'synthesis', {
       max_tokens: 6000,
       system: `You are building an answer by incrementally incorporating findings from ongoing investigation.`,
       messages: [{
@@ -99,7 +174,7 @@ NEW FINDINGS DISCOVERED:
 ${JSON.stringify(newFindings, null, 2)}
 
 TOTAL FINDINGS SO FAR: ${this.findings.length}
-
+${this.formatPullRequests()}
 ---
 
 YOUR TASK:
@@ -120,19 +195,21 @@ FORMAT REQUIREMENTS:
 - Specific with evidence (quote findings, cite authors/dates)
 - Use [INVESTIGATING: topic] for incomplete areas
 - Connect findings temporally and causally when relevant
+- If pull requests are listed, name the one that shipped the change (number, title, merge date) and keep what was discussed before it merged apart from later work
 
 RESPOND WITH THE UPDATED ANSWER (plain text, not JSON):`
       }]
     });
     
-    const textContent = response.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       throw new Error('No text content in synthesis update response');
     }
     
-    this.currentAnswer = textContent.text;
+    this.currentAnswer = response.text;
+    
+    // Write intermediate answer to stream (full draft in storage so a resumed run can pick it up)
+    const draftKey = await this.stream.put(`draft_${this.findings.length}`, this.currentAnswer);
     
-    // Write intermediate answer to stream
     await this.stream.append({
       agent: 'synthesis',
       phase: 'synthesis',
@@ -142,10 +219,13 @@ RESPOND WITH THE UPDATED ANSWER (plain text, not JSON):`
         findings_count: this.findings.length,
         word_count: this.currentAnswer.split(/\s+/).length,
         completeness: this.estimateCompleteness()
+      },
+      storage: {
+        answer: draftKey
       }
     });
     
-    console.log(`[Synthesis] Answer updated (${this.findings.length} findings incorporated, ${this.currentAnswer.length} chars)`);
+    this.log.info(`Answer updated (${this.findings.length} findings incorporated, ${this.currentAnswer.length} chars)`);
   }
   
   /**
@@ -156,7 +236,7 @@ RESPOND WITH THE UPDATED ANSWER (plain text, not JSON):`
       return this.currentAnswer;
     }
     
-    console.log('[Synthesis] Finalizing answer...');
+    this.log.info('Finalizing answer');
     
     // One last check for any remaining findings
     await this.checkForUpdates();
@@ -166,11 +246,18 @@ RESPOND WITH THE UPDATED ANSWER (plain text, not JSON):`
       return this.createFallbackAnswer();
     }
     
-    // Finalize the answer
-    const client = createAnthropicClient();
-    
-    const response = await client.messages.create({
-      model: AGENT_MODELS.synthesis,
+    return this.log.span('synthesis', () => this.writeFinalAnswer(), {
+      mode: 'finalize',
+      findings_count: this.findings.length
+    });
+  }
+  
+  /**
+   * Polish the draft into the final answer and record it on the stream
+   */
+  private async writeFinalAnswer(): Promise<string> {
+    // Finalize the answer (exempt from caps so a run that ran out of budget still gets an answer)
+    const response = await this.budget.complete('synthesis', 'synthesis', {
       max_tokens: 8000,
       system: `You are finalizing an answer after a complete investigation.`,
       messages: [{
@@ -183,7 +270,7 @@ ${this.currentAnswer}
 ALL FINDINGS (${this.findings.length} total):
 ${JSON.stringify(this.findings.slice(0, 50), null, 2)}
 ${this.findings.length > 50 ? `\n... and ${this.findings.length - 50} more findings` : ''}
-
+${this.formatPullRequests()}
 ---
 
 YOUR TASK: Create the final, polished answer.
@@ -193,6 +280,7 @@ YOUR TASK: Create the final, polished answer.
 3. Ensure coherent narrative flow
 4. Add a brief summary if answer is long (>3 paragraphs)
 5. Include 3-5 follow-up questions based on what was discovered
+6. If pull requests are listed and the query asks what shipped a change, name the PR (number, title, link, merge date) and summarize what was discussed before it merged - findings dated after merged_at are follow-up work
 
 STRUCTURE:
 [Direct answer to the query - 2-4 paragraphs with specific evidence]
@@ -209,14 +297,13 @@ Be comprehensive but concise. Use evidence from findings.
 
 RESPOND WITH FINAL ANSWER (plain text):`
       }]
-    });
+    }, { exempt: true });
     
-    const textContent = response.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!response.text) {
       throw new Error('No text content in synthesis finalize response');
     }
     
-    this.currentAnswer = textContent.text;
+    this.currentAnswer = response.text;
     this.isFinalized = true;
     
     // Write final answer to stream
@@ -237,11 +324,32 @@ RESPOND WITH FINAL ANSWER (plain text):`
       }
     });
     
-    console.log(`[Synthesis] Answer finalized (${this.currentAnswer.length} chars, ${this.findings.length} findings)`);
+    this.log.info(`Answer finalized (${this.currentAnswer.length} chars, ${this.findings.length} findings)`);
     
     return this.currentAnswer;
   }
   
+  /**
+   * Keep one entry per PR number - a later event for the same PR replaces the earlier one
+   */
+  private addPullRequest(pullRequest: PullRequestContext): void {
+    this.pullRequests.set(pullRequest.pr_number, pullRequest);
+  }
+  
+  /**
+   * Prompt section listing the pull requests found so far (empty without any)
+   */
+  private formatPullRequests(): string {
+    if (this.pullRequests.size === 0) {
+      return '';
+    }
+    
+    return `
+PULL REQUESTS (${this.pullRequests.size}, resolved from searched commits and PR references):
+${JSON.stringify([...this.pullRequests.values()], null, 2)}
+`;
+  }
+  
   /**
    * Create fallback answer if no findings were discovered
    */
@@ -7,3 +7,5 @@ export { knowledgeMiningAgent } from './knowledgeMining';
 export { temporalContextAgent } from './temporalContext';
 export { synthesisAgent } from './synthesis';
 export { WorkerAgent, spawnWorkerPool } from './worker';
+export { ConvergenceController } from './convergence';
+export type { ConvergenceAction, ConvergenceDecision } from './convergence';
@@ -1,6 +1,8 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { Interaction, JudgeScore, WorkItem } from '../types';
-import { createAnthropicClient, AGENT_MODELS } from '../config';
+import { BudgetTracker } from '../budget';
+import { JudgeResponseSchema } from '../schemas';
 
 /**
  * Judge Agent - Scores interactions for relevance
@@ -13,9 +15,11 @@ export async function judgeAgent(
   iteration: number,
   interactions: Interaction[],
   query: string,
-  stream: ExplorationStream
+  stream: ExplorationStream,
+  budget: BudgetTracker
 ): Promise<void> {
-  console.log(`[Judge ${judgeId}] Iteration ${iteration}: Scoring ${interactions.length} interactions`);
+  const log = getLogger('judge', { session_id: stream.sessionId, judge_id: judgeId, iteration });
+  log.info(`Scoring ${interactions.length} interactions`);
   
   try {
     // Send full text to judge for accurate scoring
@@ -27,13 +31,16 @@ export async function judgeAgent(
       conversation_title: i.conversation_title,
       prompt_text: i.prompt_text,
       response_text: i.response_text,
-      similarity: i.similarity
+      similarity: i.similarity,
+      lexical_score: i.lexical_score,
+      matched_in: i.matched_in,
+      rerank_score: i.rerank_score,
+      code_matches: i.code_matches?.map(m => ({ file_path: m.file_path, chunk_text: m.chunk_text }))
     }));
     
     // Use Claude to score all interactions in batch
-    const client = createAnthropicClient();
-    const response = await client.messages.create({
-      model: AGENT_MODELS.judge,
+    // Reply is validated against JudgeResponseSchema (malformed replies get a repair prompt)
+    const { data: parsed } = await budget.completeStructured(`judge_${judgeId}`, 'judge', {
       max_tokens: 2000,
       system: `You are evaluating conversation interactions for relevance to a user's query. Your job is to score each interaction 0-10 for how likely it contains information that would help answer the query.`,
       messages: [{
@@ -63,24 +70,11 @@ Respond with JSON only (no markdown):
   ]
 }`
       }]
-    });
-    
-    // Parse response
-    const textContent = response.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in judge response');
-    }
+    }, JudgeResponseSchema, { name: 'JudgeScores', phase: 'judging' });
     
-    // Extract JSON from response (handle markdown code blocks if present)
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in judge response');
-    }
-    
-    const parsed = JSON.parse(jsonMatch[0]);
     const scores: JudgeScore[] = parsed.scores;
     
-    console.log(`[Judge ${judgeId}] Scored ${scores.length} interactions`);
+    log.info(`Scored ${scores.length} interactions`);
     
     // Write scores to stream
     await stream.append({
@@ -90,6 +84,7 @@ Respond with JSON only (no markdown):
       output: {
         iteration,
         batch_size: interactions.length,
+        interaction_ids: interactions.map(i => i.id),
         scores_count: scores.length,
         high_scores: scores.filter(s => s.score >= 7).length,
         average_score: scores.reduce((sum, s) => sum + s.score, 0) / scores.length
@@ -98,7 +93,7 @@ Respond with JSON only (no markdown):
     
     // Add high-scoring interactions to investigation queue
     const highScores = scores.filter(s => s.score >= 7);
-    console.log(`[Judge ${judgeId}] Adding ${highScores.length} high-scoring interactions to queue`);
+    log.info(`Adding ${highScores.length} high-scoring interactions to queue`);
     
     for (const score of highScores) {
       const interaction = interactions.find(i => i.id === score.interaction_id);
@@ -122,10 +117,10 @@ Respond with JSON only (no markdown):
       });
     }
     
-    console.log(`[Judge ${judgeId}] Complete`);
+    log.debug('Complete');
     
   } catch (error) {
-    console.error(`[Judge ${judgeId}] Error:`, error);
+    log.error('Scoring failed', { error });
     
     // Write error to stream
     await stream.append({
@@ -150,31 +145,34 @@ export async function spawnJudges(
   interactions: Interaction[],
   iteration: number,
   query: string,
-  stream: ExplorationStream
+  stream: ExplorationStream,
+  budget: BudgetTracker
 ): Promise<void> {
+  const log = getLogger('judge_spawner', { session_id: stream.sessionId, iteration });
+  
   if (interactions.length === 0) {
-    console.log('[JudgeSpawner] No interactions to judge');
+    log.info('No interactions to judge');
     return;
   }
   
   const judgeCount = Math.ceil(interactions.length / 10);
   const batchSize = Math.ceil(interactions.length / judgeCount);
   
-  console.log(`[JudgeSpawner] Spawning ${judgeCount} judges for ${interactions.length} interactions`);
+  log.info(`Spawning ${judgeCount} judges for ${interactions.length} interactions`);
   
-  // Spawn judges in parallel
+  // Spawn judges in parallel - their LLM calls queue in the provider's scheduler lane
   const judgePromises: Promise<void>[] = [];
   
   for (let i = 0; i < judgeCount; i++) {
     const batch = interactions.slice(i * batchSize, (i + 1) * batchSize);
     if (batch.length === 0) continue;
     
-    judgePromises.push(judgeAgent(i, iteration, batch, query, stream));
+    judgePromises.push(judgeAgent(i, iteration, batch, query, stream, budget));
   }
   
   // Wait for all judges to complete
   await Promise.all(judgePromises);
   
-  console.log(`[JudgeSpawner] All ${judgeCount} judges complete`);
+  log.info(`All ${judgeCount} judges complete`);
 }
 
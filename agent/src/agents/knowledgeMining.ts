@@ -1,6 +1,8 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { KnowledgeMiningOutput, KnowledgeAnalysis } from '../types';
-import { createAnthropicClient, AGENT_MODELS, AGENT_PROMPTS } from '../config';
+import { AGENT_PROMPTS } from '../config';
+import { BudgetTracker } from '../budget';
 
 /**
  * Knowledge Mining Agent - Extracts wisdom from conversations
@@ -13,9 +15,11 @@ import { createAnthropicClient, AGENT_MODELS, AGENT_PROMPTS } from '../config';
  */
 export async function knowledgeMiningAgent(
   stream: ExplorationStream,
-  projectId: string
+  projectId: string,
+  budget: BudgetTracker
 ): Promise<void> {
-  console.log(`[KnowledgeMining] Starting knowledge extraction...`);
+  const log = getLogger('knowledge_mining', { session_id: stream.sessionId });
+  log.info(`Starting knowledge extraction`);
   const agentStart = Date.now();
 
   try {
@@ -29,17 +33,17 @@ export async function knowledgeMiningAgent(
     }
     
     const streamReadTime = Date.now() - streamReadStart;
-    console.log(`[KnowledgeMining] Stream read completed in ${(streamReadTime / 1000).toFixed(2)}s`);
+    log.debug(`Stream read completed in ${(streamReadTime / 1000).toFixed(2)}s`);
 
     // 2. Get full interaction text from storage
-    console.log('[KnowledgeMining] Retrieving interaction data...');
+    log.debug('Retrieving interaction data');
     const dataFetchStart = Date.now();
     const semanticResults = await stream.get(discoveryEvent.storage!.semantic_results);
     const dataFetchTime = Date.now() - dataFetchStart;
-    console.log(`[KnowledgeMining] Data fetch completed in ${(dataFetchTime / 1000).toFixed(2)}s`);
+    log.debug(`Data fetch completed in ${(dataFetchTime / 1000).toFixed(2)}s`);
     
     if (!semanticResults || semanticResults.length === 0) {
-      console.log('[KnowledgeMining] No interactions to analyze');
+      log.info('No interactions to analyze');
       
       await stream.append({
         agent: 'knowledge_mining',
@@ -67,14 +71,11 @@ export async function knowledgeMiningAgent(
       timestamp: r.prompt_ts
     }));
 
-    console.log(`[KnowledgeMining] Analyzing ${interactionsToAnalyze.length} interactions with Claude...`);
+    log.debug(`Analyzing ${interactionsToAnalyze.length} interactions with Claude`);
 
     // 4. Use Claude to extract knowledge
     const apiCallStart = Date.now();
-    const client = createAnthropicClient();
-    
-    const analysisResponse = await client.messages.create({
-      model: AGENT_MODELS.knowledgeMining,
+    const analysisResponse = await budget.complete('knowledge_mining', 'knowledgeMining', {
       max_tokens: 4000,
       system: AGENT_PROMPTS.knowledgeMining,
       messages: [{
@@ -124,26 +125,25 @@ Focus on actionable insights that would help someone understand WHY code exists
     });
     
     const apiCallTime = Date.now() - apiCallStart;
-    console.log(`[KnowledgeMining] Claude API call completed in ${(apiCallTime / 1000).toFixed(1)}s`);
+    log.debug(`Claude API call completed in ${(apiCallTime / 1000).toFixed(1)}s`);
 
     // 5. Parse the analysis
     const parseStart = Date.now();
     let analysis: KnowledgeAnalysis;
     try {
-      const textContent = analysisResponse.content.find(block => block.type === 'text');
-      if (!textContent || textContent.type !== 'text') {
+      if (!analysisResponse.text) {
         throw new Error('No text content in response');
       }
       
       // Try to extract JSON from the response
-      const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = analysisResponse.text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in response');
       }
       
       analysis = JSON.parse(jsonMatch[0]);
     } catch (parseError) {
-      console.error('[KnowledgeMining] Failed to parse Claude response:', parseError);
+      log.warn('Failed to parse Claude response', { error: parseError });
       // Fallback to empty analysis
       analysis = {
         decisions: [],
@@ -154,7 +154,7 @@ Focus on actionable insights that would help someone understand WHY code exists
     }
     
     const parseTime = Date.now() - parseStart;
-    console.log(`[KnowledgeMining] Response parsing completed in ${(parseTime / 1000).toFixed(2)}s`);
+    log.debug(`Response parsing completed in ${(parseTime / 1000).toFixed(2)}s`);
 
     // 6. Create output summary
     const output: KnowledgeMiningOutput = {
@@ -167,7 +167,7 @@ Focus on actionable insights that would help someone understand WHY code exists
                `${analysis.patterns?.length || 0} patterns`
     };
 
-    console.log(`[KnowledgeMining] Results:`, output);
+    log.info(output.summary);
 
     // 7. Store full analysis in stream storage
     const streamWriteStart = Date.now();
@@ -186,13 +186,13 @@ Focus on actionable insights that would help someone understand WHY code exists
     });
     
     const streamWriteTime = Date.now() - streamWriteStart;
-    console.log(`[KnowledgeMining] Stream write completed in ${(streamWriteTime / 1000).toFixed(2)}s`);
+    log.debug(`Stream write completed in ${(streamWriteTime / 1000).toFixed(2)}s`);
     
     const totalTime = Date.now() - agentStart;
-    console.log(`[KnowledgeMining] Total agent time: ${(totalTime / 1000).toFixed(1)}s (API: ${(apiCallTime / 1000).toFixed(1)}s, Parse: ${(parseTime / 1000).toFixed(2)}s, Stream: ${(streamWriteTime / 1000).toFixed(2)}s)`);
-    console.log('[KnowledgeMining] Analysis written to stream');
+    log.info(`Total agent time: ${(totalTime / 1000).toFixed(1)}s (API: ${(apiCallTime / 1000).toFixed(1)}s, Parse: ${(parseTime / 1000).toFixed(2)}s, Stream: ${(streamWriteTime / 1000).toFixed(2)}s)`);
+    log.info('Analysis written to stream');
   } catch (error) {
-    console.error('[KnowledgeMining] Error:', error);
+    log.error('Failed', { error });
     
     // Write error event to stream
     await stream.append({
@@ -1,6 +1,11 @@
+import { Logger, getLogger, getScheduler } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
-import { SearchRequest } from '../types';
+import { SearchRequest, ExplorationEvent, Interaction } from '../types';
+import { WorkQueue } from '../s2/workQueue';
+import { BudgetTracker, BudgetExceededError } from '../budget';
+import { DEFAULT_BUDGET } from '../config';
 import { DiscoveryService } from './discoveryService';
+import { ConvergenceController, ConvergenceDecision } from './convergence';
 import { spawnJudges } from './judge';
 import { spawnWorkerPool } from './worker';
 
@@ -12,176 +17,387 @@ import { spawnWorkerPool } from './worker';
  * 2. Judges score results  
  * 3. Workers investigate and find leads
  * 4. Workers request new searches
- * 5. Repeat until convergence
+ * 5. Repeat until convergence (see ConvergenceController)
  */
 export class LoopManager {
-  private maxIterations: number = 5;
-  private maxWorkers: number = 5;
+  private maxIterations: number;
+  private maxWorkers: number;
   private currentIteration: number = 0;
+  private queue: WorkQueue;
+  
+  // Incremental view of the stream - only events past the cursor are read on each sync
+  private cursor: number = 0;
+  private searchRequestEvents: ExplorationEvent[] = [];
+  private fulfilledSources: Set<string> = new Set();
+  private convergence: ConvergenceController = new ConvergenceController();
+  private log: Logger;
   
   constructor(
     private query: string,
     private projectId: string,
-    private stream: ExplorationStream
-  ) {}
+    private stream: ExplorationStream,
+    private budget: BudgetTracker
+  ) {
+    this.queue = new WorkQueue(stream);
+    this.maxIterations = budget.maxIterations ?? DEFAULT_BUDGET.max_iterations;
+    this.maxWorkers = budget.maxWorkers ?? DEFAULT_BUDGET.max_workers;
+    this.log = getLogger('loop_manager', { session_id: stream.sessionId });
+  }
   
   /**
    * Run the complete iterative loop
    */
   async run(): Promise<void> {
-    console.log('\n' + '='.repeat(80));
-    console.log('ITERATIVE EXPLORATION LOOP');
-    console.log('='.repeat(80));
-    console.log(`Query: "${this.query}"`);
-    console.log(`Max iterations: ${this.maxIterations}`);
-    console.log(`Max workers: ${this.maxWorkers}`);
-    console.log('='.repeat(80) + '\n');
+    this.log.info('Starting iterative exploration loop', {
+      query: this.query,
+      max_iterations: this.maxIterations,
+      max_workers: this.maxWorkers
+    });
     
     const discovery = new DiscoveryService(this.projectId, this.stream);
     
-    // ITERATION 0: Initial search
-    await this.runIteration(0, discovery, [{
-      query: this.query,
-      iteration: 0,
-      source: 'user_query',
-      lead_type: 'initial'
-    }]);
+    try {
+      // ITERATION 0: Initial search
+      await this.runIteration(0, discovery, [this.getInitialRequest()]);
+      
+      // ITERATIONS 1-N: Follow leads until convergence
+      await this.followLeads(discovery, 1);
+    } catch (error) {
+      this.stopOnBudget(error);
+    }
+  }
+  
+  /**
+   * Resume an interrupted loop from the iteration checkpoints in the stream
+   * 
+   * Everything already in the log (searches, scores, claims, findings) is kept:
+   * discovery dedup is rebuilt from search_complete events, the interrupted
+   * iteration's searches that never completed are run again, results that were
+   * found but never scored are judged, the queue is drained, and pending
+   * request_search events are followed as usual.
+   */
+  async resume(): Promise<void> {
+    this.log.info('Resuming iterative exploration loop', { query: this.query });
     
-    // ITERATIONS 1-N: Follow leads until convergence
-    for (this.currentIteration = 1; this.currentIteration < this.maxIterations; this.currentIteration++) {
-      // Check for pending search requests from workers
-      const searchRequests = await this.getPendingSearchRequests();
+    const events = await this.stream.read();
+    const discovery = new DiscoveryService(this.projectId, this.stream);
+    discovery.restore(events);
+    
+    try {
+      const startedIndex = findLastIndex(events, e => e.action === 'iteration_started');
+      if (startedIndex === -1) {
+        // Died before the first checkpoint - start over (dedup still applies)
+        await this.runIteration(0, discovery, [this.getInitialRequest()]);
+        await this.followLeads(discovery, 1);
+        return;
+      }
+      
+      const lastIteration: number = events[startedIndex].output.iteration;
+      const completed = events
+        .slice(startedIndex)
+        .some(e => e.action === 'iteration_complete' && e.output.iteration === lastIteration);
+      
+      if (!completed) {
+        this.log.info(`Iteration ${lastIteration} was interrupted - finishing it`, { iteration: lastIteration });
+        
+        // Claims held by the dead run will never be completed - hand them out again now
+        const released = await this.queue.releaseOpenClaims('loop_manager');
+        if (released > 0) {
+          this.log.info(`Released ${released} abandoned claim(s)`, { iteration: lastIteration });
+        }
+        
+        const unjudged = await this.getUnjudgedResults(events.slice(startedIndex));
+        const searchRequests = this.getInterruptedRequests(events, startedIndex, lastIteration);
+        if (searchRequests.length > 0) {
+          this.log.info(`Re-running ${searchRequests.length} search(es) that never completed`, { iteration: lastIteration });
+          unjudged.push(...await this.runSearches(discovery, searchRequests));
+        }
+        
+        if (unjudged.length > 0) {
+          this.log.info(`Judging ${unjudged.length} interactions that were never scored`, { iteration: lastIteration });
+          await spawnJudges(unjudged, lastIteration, this.query, this.stream, this.budget);
+        }
+        
+        await this.investigate(lastIteration, this.log);
+        await this.checkpoint('iteration_complete', lastIteration);
+      }
+      
+      await this.followLeads(discovery, lastIteration + 1);
+    } catch (error) {
+      this.stopOnBudget(error);
+    }
+  }
+  
+  /**
+   * Follow worker leads until convergence or the iteration limit
+   */
+  private async followLeads(discovery: DiscoveryService, startIteration: number): Promise<void> {
+    for (this.currentIteration = startIteration; this.currentIteration < this.maxIterations; this.currentIteration++) {
+      if (this.budget.isExhausted()) {
+        this.log.info(`Iteration ${this.currentIteration}: Budget exhausted - stopping`, { iteration: this.currentIteration });
+        break;
+      }
+      
+      // Check for pending search requests from workers, then whether they're still worth following
+      const pendingRequests = await this.getPendingSearchRequests();
+      const decision = this.convergence.evaluate(this.currentIteration - 1, pendingRequests.length);
+      const decisionId = await this.recordDecision(decision);
       
-      if (searchRequests.length === 0) {
-        console.log(`\n[LoopManager] Iteration ${this.currentIteration}: No more search requests - exploration converged\n`);
+      if (decision.action === 'stop') {
+        this.log.info(`Iteration ${this.currentIteration}: ${decision.reason} - exploration converged`, { iteration: this.currentIteration });
         break;
       }
       
-      console.log(`\n[LoopManager] Iteration ${this.currentIteration}: Processing ${searchRequests.length} search requests\n`);
+      const searchRequests = decision.action === 'target_missing'
+        ? this.getTargetedRequests(decision, decisionId, this.currentIteration)
+        : pendingRequests;
+      
+      this.log.info(`Iteration ${this.currentIteration}: Processing ${searchRequests.length} search requests (${decision.reason})`, { iteration: this.currentIteration });
       
       // Run iteration with discovered leads
       await this.runIteration(this.currentIteration, discovery, searchRequests);
     }
     
     if (this.currentIteration >= this.maxIterations) {
-      console.log(`\n[LoopManager] Reached max iterations (${this.maxIterations})\n`);
+      this.log.info(`Reached max iterations (${this.maxIterations})`);
     }
     
-    console.log('\n' + '='.repeat(80));
-    console.log('EXPLORATION LOOP COMPLETE');
-    console.log('='.repeat(80));
-    console.log(`Total iterations: ${this.currentIteration}`);
-    console.log('='.repeat(80) + '\n');
+    this.log.info('Exploration loop complete', { iterations: this.currentIteration });
   }
   
   /**
-   * Run a single iteration: Search → Judge → Investigate
+   * Run a single iteration between checkpoint events, so resume() knows where it stopped
    */
   private async runIteration(
     iteration: number,
     discovery: DiscoveryService,
     searchRequests: SearchRequest[]
   ): Promise<void> {
-    console.log(`┌─ ITERATION ${iteration} ─────────────────────────────────────┐`);
-    
-    // STEP 1: Discovery searches
-    console.log(`│ [1] Discovery: Running ${searchRequests.length} search(es)...`);
-    const searchStart = Date.now();
-    
-    const allResults = [];
-    for (const request of searchRequests) {
-      const results = await discovery.handleSearchRequest(request);
-      allResults.push(...results);
-    }
-    
-    const searchTime = Date.now() - searchStart;
-    console.log(`│     Found ${allResults.length} new interactions (${(searchTime / 1000).toFixed(1)}s)`);
+    await this.log.span('iteration', async log => {
+      await this.checkpoint('iteration_started', iteration);
+      await this.executeIteration(iteration, discovery, searchRequests, log);
+      await this.checkpoint('iteration_complete', iteration);
+    }, { iteration, search_requests: searchRequests.length });
+  }
+  
+  /**
+   * Search → Judge → Investigate, each step timed as a span of the iteration
+   */
+  private async executeIteration(
+    iteration: number,
+    discovery: DiscoveryService,
+    searchRequests: SearchRequest[],
+    log: Logger
+  ): Promise<void> {
+    // STEP 1: Discovery searches, in parallel up to the scheduler's search limit
+    const allResults = await log.span('discovery', async () => {
+      const results = await this.runSearches(discovery, searchRequests);
+      log.info(`Found ${results.length} new interactions`, { iteration });
+      return results;
+    }, { iteration, searches: searchRequests.length });
     
     if (allResults.length === 0) {
-      console.log(`└─────────────────────────────────────────────────────────────┘`);
       return;
     }
     
     // STEP 2: Spawn judges
-    console.log(`│ [2] Judges: Spawning judges for ${allResults.length} interactions...`);
-    const judgeStart = Date.now();
+    await log.span('judging', () =>
+      spawnJudges(allResults, iteration, this.query, this.stream, this.budget),
+    { iteration, interactions: allResults.length });
     
-    await spawnJudges(allResults, iteration, this.query, this.stream);
-    
-    const judgeTime = Date.now() - judgeStart;
-    console.log(`│     Judging complete (${(judgeTime / 1000).toFixed(1)}s)`);
-    
-    // STEP 3: Check queue size
+    // STEP 3-4: Drain the investigation queue
+    await this.investigate(iteration, log);
+  }
+  
+  /**
+   * Run searches in parallel up to the scheduler's search limit - the new interactions they found
+   */
+  private async runSearches(discovery: DiscoveryService, searchRequests: SearchRequest[]): Promise<Interaction[]> {
+    const perRequest = await getScheduler().map('search', searchRequests, request => discovery.handleSearchRequest(request));
+    return perRequest.flat();
+  }
+  
+  /**
+   * Spawn workers for whatever is in the queue (returns false if it was empty)
+   */
+  private async investigate(iteration: number, log: Logger): Promise<boolean> {
     const queueSize = await this.getQueueSize();
-    console.log(`│     Investigation queue: ${queueSize} items`);
+    log.info(`Investigation queue: ${queueSize} items`, { iteration });
     
     if (queueSize === 0) {
-      console.log(`└─────────────────────────────────────────────────────────────┘`);
-      return;
+      return false;
     }
     
-    // STEP 4: Spawn workers
     const workerCount = Math.min(queueSize, this.maxWorkers);
-    console.log(`│ [3] Workers: Spawning ${workerCount} investigator(s)...`);
-    const workerStart = Date.now();
+    await log.span('investigation', () =>
+      spawnWorkerPool(workerCount, this.query, this.projectId, this.stream, this.budget),
+    { iteration, workers: workerCount, queue_size: queueSize });
     
-    await spawnWorkerPool(workerCount, this.query, this.stream);
+    return true;
+  }
+  
+  /**
+   * A budget stop ends the loop normally (synthesis then finalizes) - anything else propagates
+   */
+  private stopOnBudget(error: unknown): void {
+    if (!(error instanceof BudgetExceededError)) {
+      throw error;
+    }
+    this.log.info(`Budget exceeded (${error.limit}) at iteration ${this.currentIteration} - stopping`, { limit: error.limit });
+  }
+  
+  /**
+   * Record iteration progress in the stream
+   */
+  private async checkpoint(action: 'iteration_started' | 'iteration_complete', iteration: number): Promise<void> {
+    await this.stream.append({
+      agent: 'loop_manager',
+      phase: 'search',
+      action,
+      output: { iteration }
+    });
+  }
+  
+  /**
+   * Write a convergence decision (with its rationale) to the stream
+   */
+  private async recordDecision(decision: ConvergenceDecision): Promise<string> {
+    return this.stream.append({
+      agent: 'loop_manager',
+      phase: 'search',
+      action: 'convergence_decision',
+      output: decision
+    });
+  }
+  
+  /**
+   * Searches for the open questions a target_missing decision picked
+   */
+  private getTargetedRequests(decision: ConvergenceDecision, decisionId: string, iteration: number): SearchRequest[] {
+    return decision.targeted_queries.map(question => ({
+      query: question,
+      iteration,
+      source: decisionId,
+      lead_type: 'initial',
+      context: 'Open question workers reported as missing'
+    }));
+  }
+  
+  private getInitialRequest(): SearchRequest {
+    return {
+      query: this.query,
+      iteration: 0,
+      source: 'user_query',
+      lead_type: 'initial'
+    };
+  }
+  
+  /**
+   * The searches an interrupted iteration started that have no search_complete -
+   * the user query for iteration 0; after that, the targeted questions when the
+   * decision before it was target_missing, else the worker leads pending then
+   */
+  private getInterruptedRequests(events: ExplorationEvent[], startedIndex: number, iteration: number): SearchRequest[] {
+    const before = events.slice(0, startedIndex);
+    const decision = iteration > 0 ? before[findLastIndex(before, e => e.action === 'convergence_decision')] : undefined;
     
-    const workerTime = Date.now() - workerStart;
-    console.log(`│     Investigation complete (${(workerTime / 1000).toFixed(1)}s)`);
+    let requests: SearchRequest[];
+    if (iteration === 0) {
+      requests = [this.getInitialRequest()];
+    } else if (decision?.output.action === 'target_missing') {
+      requests = this.getTargetedRequests(decision.output as ConvergenceDecision, decision.event_id!, iteration);
+    } else {
+      requests = before
+        .filter(e => e.action === 'request_search' && e.agent.startsWith('worker_'))
+        .map(e => this.toSearchRequest(e, iteration));
+    }
     
-    const totalTime = Date.now() - searchStart;
-    console.log(`└─ Iteration ${iteration} complete (${(totalTime / 1000).toFixed(1)}s total) ─┘`);
+    // Targeted questions share their decision as source, so a search is its source and query
+    const completed = new Set(events
+      .filter(e => e.action === 'search_complete')
+      .map(e => `${e.output.source}\n${e.output.query}`));
+    return requests.filter(request => !completed.has(`${request.source}\n${request.query}`));
   }
   
   /**
-   * Get pending search requests from workers
+   * Interactions returned by searches (since the checkpoint) that no judge scored
    */
-  private async getPendingSearchRequests(): Promise<SearchRequest[]> {
-    const events = await this.stream.read();
+  private async getUnjudgedResults(events: ExplorationEvent[]): Promise<Interaction[]> {
+    const scoredIds = new Set<string>();
+    for (const event of events) {
+      if (event.action === 'scored_batch') {
+        (event.output.interaction_ids || []).forEach((id: string) => scoredIds.add(id));
+      }
+    }
     
-    // Find search requests that haven't been fulfilled
-    const searchRequestEvents = events.filter(e => 
-      e.agent.startsWith('worker_') && 
-      e.action === 'request_search'
-    );
+    const unjudged: Interaction[] = [];
+    for (const event of events) {
+      if (event.action !== 'search_complete' || !event.storage?.results) continue;
+      
+      const results: Interaction[] = await this.stream.get(event.storage.results);
+      unjudged.push(...results.filter(r => !scoredIds.has(r.id)));
+    }
     
-    // Check which ones have been fulfilled (have a corresponding search_complete)
-    const fulfilledSources = new Set(
-      events
-        .filter(e => e.action === 'search_complete')
-        .map(e => e.output.source)
-    );
+    return unjudged;
+  }
+  
+  /**
+   * Fold events appended since the last sync into the loop's state
+   */
+  private async syncState(): Promise<void> {
+    const page = await this.stream.readFrom(this.cursor, {
+      action: ['request_search', 'search_complete', 'iteration_started', 'finding', 'completeness', 'convergence_decision']
+    });
+    this.cursor = page.next_seq;
+    
+    for (const event of page.events) {
+      this.convergence.observe(event);
+      switch (event.action) {
+        case 'request_search':
+          if (event.agent.startsWith('worker_')) {
+            this.searchRequestEvents.push(event);
+          }
+          break;
+        case 'search_complete':
+          this.fulfilledSources.add(event.output.source);
+          break;
+      }
+    }
+  }
+  
+  /**
+   * Get pending search requests from workers
+   */
+  private async getPendingSearchRequests(): Promise<SearchRequest[]> {
+    await this.syncState();
     
-    const pendingRequests = searchRequestEvents
-      .filter(e => !fulfilledSources.has(e.event_id!))
-      .map(e => ({
-        query: e.output.query,
-        iteration: this.currentIteration + 1,
-        source: e.event_id!,
-        lead_type: e.output.lead_type,
-        context: e.output.reason,
-        filters: e.output.filters
-      } as SearchRequest));
+    // Find search requests that haven't been fulfilled (no corresponding search_complete)
+    const pendingRequests = this.searchRequestEvents
+      .filter(e => !this.fulfilledSources.has(e.event_id!))
+      .map(e => this.toSearchRequest(e, this.currentIteration + 1));
     
     return pendingRequests;
   }
   
+  /**
+   * A worker's request_search event as a search request
+   */
+  private toSearchRequest(event: ExplorationEvent, iteration: number): SearchRequest {
+    return {
+      query: event.output.query,
+      iteration,
+      source: event.event_id!,
+      lead_type: event.output.lead_type,
+      context: event.output.reason,
+      filters: event.output.filters
+    } as SearchRequest;
+  }
+  
   /**
    * Get current size of investigation queue
    */
   private async getQueueSize(): Promise<number> {
-    const events = await this.stream.read();
-    
-    const queueEvents = events.filter(e => e.action === 'add_to_queue');
-    const claimedEvents = events.filter(e => e.action === 'claim_work');
-    const claimedIds = new Set(claimedEvents.map(e => e.output.interaction_id));
-    
-    const unclaimedCount = queueEvents.filter(e => 
-      !claimedIds.has(e.output.interaction_id)
-    ).length;
-    
-    return unclaimedCount;
+    return this.queue.pendingCount();
   }
   
   /**
@@ -223,3 +439,9 @@ export class LoopManager {
   }
 }
 
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
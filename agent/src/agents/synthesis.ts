@@ -1,5 +1,7 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
-import { createAnthropicClient, AGENT_MODELS, AGENT_PROMPTS } from '../config';
+import { AGENT_PROMPTS } from '../config';
+import { BudgetTracker } from '../budget';
 
 /**
  * Synthesis Agent - Directly answers the query using all findings
@@ -15,14 +17,16 @@ import { createAnthropicClient, AGENT_MODELS, AGENT_PROMPTS } from '../config';
 export async function synthesisAgent(
   stream: ExplorationStream,
   projectId: string,
-  originalQuery: string
+  originalQuery: string,
+  budget: BudgetTracker
 ): Promise<string> {
-  console.log(`[Synthesis] Starting synthesis for query: "${originalQuery}"`);
+  const log = getLogger('synthesis', { session_id: stream.sessionId });
+  log.info(`Starting synthesis for query: "${originalQuery}"`);
 
   try {
     // 1. Read entire stream (all events)
     const events = await stream.read();
-    console.log(`[Synthesis] Processing ${events.length} events from stream`);
+    log.debug(`Processing ${events.length} events from stream`);
 
     // 2. Find all agent findings
     const discovery = events.find(e => e.agent === 'discovery' && e.action === 'find_seeds');
@@ -35,7 +39,7 @@ export async function synthesisAgent(
     }
 
     // 3. Retrieve stored data
-    console.log('[Synthesis] Retrieving detailed findings...');
+    log.debug('Retrieving detailed findings');
     
     const discoveryOutput = discovery.output;
     
@@ -122,13 +126,10 @@ export async function synthesisAgent(
       timeline: temporal?.output || null
     };
 
-    console.log(`[Synthesis] Synthesizing with Claude Sonnet 4.5...`);
+    log.info(`Synthesizing with Claude Sonnet 4.5`);
 
-    // 5. Use Claude Sonnet 4.5 to synthesize comprehensive brief
-    const client = createAnthropicClient();
-    
-    const briefResponse = await client.messages.create({
-      model: AGENT_MODELS.synthesis,
+    // 5. Use Claude Sonnet 4.5 to synthesize comprehensive brief (exempt from caps so there's always an answer)
+    const briefResponse = await budget.complete('synthesis', 'synthesis', {
       max_tokens: 8000,
       system: AGENT_PROMPTS.synthesis,
       messages: [{
@@ -159,16 +160,15 @@ Follow-up questions:
 
 Be helpful and specific. Don't use generic section headers. Just answer the question.`
       }]
-    });
+    }, { exempt: true });
 
     // 6. Extract the brief text
-    const textContent = briefResponse.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
+    if (!briefResponse.text) {
       throw new Error('No text content in synthesis response');
     }
 
-    const answerText = textContent.text;
-    console.log(`[Synthesis] Answer created (${answerText.length} characters)`);
+    const answerText = briefResponse.text;
+    log.info(`Answer created (${answerText.length} characters)`);
 
     // 7. Store final answer
     const answerKey = await stream.put('final_answer', answerText);
@@ -191,11 +191,11 @@ Be helpful and specific. Don't use generic section headers. Just answer the ques
         .map(e => e.event_id!)
     });
 
-    console.log('[Synthesis] Complete');
+    log.info('Complete');
     return answerText;
 
   } catch (error) {
-    console.error('[Synthesis] Error:', error);
+    log.error('Failed', { error });
     
     // Write error event to stream
     await stream.append({
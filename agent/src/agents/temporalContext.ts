@@ -1,3 +1,4 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { TemporalContextOutput, DiscoveryOutput, TimelineData } from '../types';
 import { queryHelpers } from '../tools/sql';
@@ -14,7 +15,8 @@ export async function temporalContextAgent(
   stream: ExplorationStream,
   projectId: string
 ): Promise<void> {
-  console.log(`[TemporalContext] Starting timeline analysis...`);
+  const log = getLogger('temporal_context', { session_id: stream.sessionId });
+  log.info(`Starting timeline analysis`);
 
   try {
     // 1. Read Discovery event from stream
@@ -26,19 +28,19 @@ export async function temporalContextAgent(
     }
 
     const seeds = discoveryEvent.output as DiscoveryOutput;
-    console.log(`[TemporalContext] Analyzing ${seeds.counts.interactions} interactions, ${seeds.counts.commits} commits`);
+    log.debug(`Analyzing ${seeds.counts.interactions} interactions, ${seeds.counts.commits} commits`);
 
     // 2. Analyze interaction timeline
-    console.log('[TemporalContext] Analyzing interaction timeline...');
-    const { timeline } = await queryHelpers.analyzeTimeline(seeds.interaction_ids);
+    log.debug('Analyzing interaction timeline');
+    const { timeline } = await queryHelpers.analyzeTimeline(seeds.interaction_ids, projectId);
     
     // 3. Get commit timeline
-    console.log('[TemporalContext] Analyzing commit timeline...');
-    const commitTimeline = await queryHelpers.getCommitTimeline(seeds.commit_hashes);
+    log.debug('Analyzing commit timeline');
+    const commitTimeline = await queryHelpers.getCommitTimeline(seeds.commit_hashes, projectId);
 
     // 4. Calculate metrics
     if (timeline.length === 0) {
-      console.log('[TemporalContext] No timeline data available');
+      log.info('No timeline data available');
       
       await stream.append({
         agent: 'temporal_context',
@@ -90,7 +92,7 @@ export async function temporalContextAgent(
       summary: `${urgency.toUpperCase()} urgency: ${seeds.counts.commits} changes over ${Math.round(daySpan)} days`
     };
 
-    console.log(`[TemporalContext] Results:`, output);
+    log.info(output.summary);
 
     // 6. Store full timeline data
     const timelineData: TimelineData = {
@@ -120,9 +122,9 @@ export async function temporalContextAgent(
       references: [discoveryEvent.event_id!]
     });
 
-    console.log('[TemporalContext] Analysis written to stream');
+    log.info('Analysis written to stream');
   } catch (error) {
-    console.error('[TemporalContext] Error:', error);
+    log.error('Failed', { error });
     
     // Write error event to stream
     await stream.append({
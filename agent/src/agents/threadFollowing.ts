@@ -1,3 +1,4 @@
+import { getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { ThreadFollowingOutput, DiscoveryOutput } from '../types';
 import { queryHelpers } from '../tools/sql';
@@ -14,7 +15,8 @@ export async function threadFollowingAgent(
   stream: ExplorationStream,
   projectId: string
 ): Promise<void> {
-  console.log(`[ThreadFollowing] Starting thread tracing...`);
+  const log = getLogger('thread_following', { session_id: stream.sessionId });
+  log.info(`Starting thread tracing`);
 
   try {
     // 1. Read Discovery event from stream
@@ -26,26 +28,26 @@ export async function threadFollowingAgent(
     }
 
     const seeds = discoveryEvent.output as DiscoveryOutput;
-    console.log(`[ThreadFollowing] Processing ${seeds.counts.conversations} conversations, ${seeds.counts.commits} commits, ${seeds.counts.files} files`);
+    log.debug(`Processing ${seeds.counts.conversations} conversations, ${seeds.counts.commits} commits, ${seeds.counts.files} files`);
 
     // 2. Get full conversation threads
-    console.log('[ThreadFollowing] Fetching conversation threads...');
-    const conversationThreads = await queryHelpers.getConversationThreads(seeds.conversation_ids);
+    log.debug('Fetching conversation threads');
+    const conversationThreads = await queryHelpers.getConversationThreads(seeds.conversation_ids, projectId);
     
     // 3. Trace commits to interactions
-    console.log('[ThreadFollowing] Tracing commits to interactions...');
-    const commitContext = await queryHelpers.traceCommitsToInteractions(seeds.commit_hashes);
+    log.debug('Tracing commits to interactions');
+    const commitContext = await queryHelpers.traceCommitsToInteractions(seeds.commit_hashes, projectId);
     
     // Debug: Show commit author breakdown
     const commitAuthorBreakdown: { [key: string]: number } = {};
     commitContext.forEach((c: any) => {
       commitAuthorBreakdown[c.author] = (commitAuthorBreakdown[c.author] || 0) + 1;
     });
-    console.log('[ThreadFollowing] Commit authors retrieved:', commitAuthorBreakdown);
+    log.debug('Commit authors retrieved', { authors: commitAuthorBreakdown });
     
     // 4. Get file change history
-    console.log('[ThreadFollowing] Building file histories...');
-    const fileHistory = await queryHelpers.getFileHistory(seeds.file_paths);
+    log.debug('Building file histories');
+    const fileHistory = await queryHelpers.getFileHistory(seeds.file_paths, projectId);
 
     // 5. Create output summary
     const output: ThreadFollowingOutput = {
@@ -57,17 +59,18 @@ export async function threadFollowingAgent(
                `${fileHistory.length} file histories`
     };
 
-    console.log(`[ThreadFollowing] Results:`, output);
+    log.info(output.summary);
 
     // 6. Store full data in stream storage (check sizes first)
     const threadsSize = Buffer.byteLength(JSON.stringify(conversationThreads), 'utf8');
     const commitsSize = Buffer.byteLength(JSON.stringify(commitContext), 'utf8');
     const filesSize = Buffer.byteLength(JSON.stringify(fileHistory), 'utf8');
     
-    console.log(`[ThreadFollowing] Data sizes:`);
-    console.log(`  - Threads: ${(threadsSize / 1024).toFixed(1)} KB (${conversationThreads.length} items)`);
-    console.log(`  - Commits: ${(commitsSize / 1024).toFixed(1)} KB (${commitContext.length} items)`);
-    console.log(`  - Files: ${(filesSize / 1024).toFixed(1)} KB (${fileHistory.length} items)`);
+    log.debug('Data sizes', {
+      threads_kb: Number((threadsSize / 1024).toFixed(1)),
+      commits_kb: Number((commitsSize / 1024).toFixed(1)),
+      files_kb: Number((filesSize / 1024).toFixed(1))
+    });
     
     const threadsKey = await stream.put('conversation_threads', conversationThreads);
     const commitsKey = await stream.put('commit_context', commitContext);
@@ -87,9 +90,9 @@ export async function threadFollowingAgent(
       references: [discoveryEvent.event_id!]
     });
 
-    console.log('[ThreadFollowing] Findings written to stream');
+    log.info('Findings written to stream');
   } catch (error) {
-    console.error('[ThreadFollowing] Error:', error);
+    log.error('Failed', { error });
     
     // Write error event to stream
     await stream.append({
@@ -1,7 +1,13 @@
+import { Logger, getLogger } from '@tig/shared';
 import { ExplorationStream } from '../s2/client';
 import { WorkItem, Interaction, InvestigationResult, Finding, Lead, SearchRequest } from '../types';
-import { createAnthropicClient, AGENT_MODELS } from '../config';
+import { WorkClaim } from '../s2/types';
+import { WorkQueue } from '../s2/workQueue';
+import { WORK_QUEUE_CONFIG } from '../config';
+import { BudgetTracker, BudgetExceededError } from '../budget';
+import { InvestigationResultSchema } from '../schemas';
 import { executeSqlQuery } from '../tools/sql';
+import { UUID_PATTERN } from './discoveryService';
 
 /**
  * Worker/Investigator Agent - Processes threads and extracts findings + leads
@@ -9,7 +15,7 @@ import { executeSqlQuery } from '../tools/sql';
  * - Claims work from queue
  * - Processes conversation threads interaction-by-interaction
  * - Extracts findings (decisions, problems, solutions)
- * - Discovers leads (commits, entities, people to search for)
+ * - Discovers leads (commits, pull requests, entities, people to search for)
  * - Writes findings immediately for synthesis
  * - Requests new searches from Discovery
  */
@@ -17,32 +23,60 @@ export class WorkerAgent {
   private workerId: number;
   private stream: ExplorationStream;
   private query: string;
-  private lastEventId: string | null = null;
+  private projectId: string;
+  private findingsCursor: number = 0;
+  private queue: WorkQueue;
+  private budget: BudgetTracker;
   private requestedSearches: Set<string> = new Set(); // Track requested searches to avoid duplicates
+  private log: Logger;
   
-  constructor(workerId: number, query: string, stream: ExplorationStream) {
+  constructor(workerId: number, query: string, projectId: string, stream: ExplorationStream, budget: BudgetTracker) {
     this.workerId = workerId;
     this.query = query;
+    this.projectId = projectId;
     this.stream = stream;
+    this.budget = budget;
+    this.queue = new WorkQueue(stream);
+    this.log = getLogger('worker', { session_id: stream.sessionId, worker_id: workerId });
   }
   
   /**
    * Run the worker loop - claim work, process, repeat until queue empty
    */
   async run(): Promise<void> {
-    console.log(`[Worker ${this.workerId}] Starting`);
+    this.log.debug('Starting');
     
     while (true) {
-      const workItem = await this.claimWorkFromQueue();
-      if (!workItem) {
-        console.log(`[Worker ${this.workerId}] Queue empty, stopping`);
+      if (this.budget.isExhausted()) {
+        this.log.info('Budget exhausted, stopping');
         break;
       }
       
+      const claim = await this.claimWorkFromQueue();
+      if (!claim) {
+        this.log.info('Queue empty, stopping');
+        break;
+      }
+      
+      // Keep the lease alive while investigating - a crashed worker's claim lapses and is reclaimed
+      const heartbeat = setInterval(() => {
+        this.queue.heartbeat(`worker_${this.workerId}`, claim).catch(error => {
+          this.log.warn('Heartbeat failed', { error });
+        });
+      }, WORK_QUEUE_CONFIG.heartbeatMs);
+      
       try {
-        await this.processWorkItem(workItem);
+        await this.processWorkItem(claim.item);
       } catch (error) {
-        console.error(`[Worker ${this.workerId}] Error processing work item:`, error);
+        if (error instanceof BudgetExceededError) {
+          // Hand the item back unfinished - a resumed run with more budget can pick it up
+          clearInterval(heartbeat);
+          await this.queue.release(`worker_${this.workerId}`, claim);
+          this.log.info('Budget exhausted, stopping');
+          break;
+        }
+        
+        this.log.error('Error processing work item', { error, interaction_id: claim.item.interaction_id });
         
         await this.stream.append({
           agent: `worker_${this.workerId}`,
@@ -50,78 +84,47 @@ export class WorkerAgent {
           action: 'error',
           output: {
             error: error instanceof Error ? error.message : String(error),
-            work_item: workItem
+            work_item: claim.item
           }
         });
+      } finally {
+        clearInterval(heartbeat);
       }
+      
+      // Failed items are completed too - retrying would likely fail the same way
+      await this.queue.complete(`worker_${this.workerId}`, claim);
     }
     
-    console.log(`[Worker ${this.workerId}] Complete`);
+    this.log.debug('Complete');
   }
   
   /**
    * Claim work from the investigation queue
    */
-  private async claimWorkFromQueue(): Promise<WorkItem | null> {
-    const events = await this.stream.read();
-    
-    // Find all queue events
-    const queueEvents = events.filter(e => e.action === 'add_to_queue');
-    
-    if (queueEvents.length === 0) {
+  private async claimWorkFromQueue(): Promise<WorkClaim | null> {
+    const claim = await this.queue.claim(`worker_${this.workerId}`);
+    if (!claim) {
       return null;
     }
     
-    // Find all claimed interaction IDs AND conversation IDs
-    const claimedEvents = events.filter(e => e.action === 'claim_work');
-    const claimedInteractionIds = new Set(claimedEvents.map(e => e.output.interaction_id));
-    const claimedConversationIds = new Set(claimedEvents.map(e => e.output.conversation_id));
-    
-    // Filter to unclaimed work (check BOTH interaction AND conversation)
-    const unclaimedQueue = queueEvents.filter(e => {
-      const workItem = e.output as WorkItem;
-      return !claimedInteractionIds.has(workItem.interaction_id) &&
-             !claimedConversationIds.has(workItem.conversation_id);
+    const workItem = claim.item;
+    this.log.info(`Claimed interaction ${workItem.interaction_id.slice(0, 8)}... (priority ${workItem.priority})`, {
+      interaction_id: workItem.interaction_id,
+      conversation_id: workItem.conversation_id
     });
     
-    if (unclaimedQueue.length === 0) {
-      return null;
-    }
-    
-    // Sort by priority (highest first)
-    unclaimedQueue.sort((a, b) => b.output.priority - a.output.priority);
-    
-    // Claim the highest priority item
-    const workEvent = unclaimedQueue[0];
-    const workItem = workEvent.output as WorkItem;
-    
-    console.log(`[Worker ${this.workerId}] Claimed work: interaction ${workItem.interaction_id.slice(0, 8)}... in conversation ${workItem.conversation_id.slice(0, 8)}... (priority: ${workItem.priority})`);
-    
-    // Mark as claimed by writing claim event (includes both IDs)
-    await this.stream.append({
-      agent: `worker_${this.workerId}`,
-      phase: 'investigation',
-      action: 'claim_work',
-      output: {
-        interaction_id: workItem.interaction_id,
-        conversation_id: workItem.conversation_id,
-        priority: workItem.priority
-      },
-      references: [workEvent.event_id!]
-    });
-    
-    return workItem;
+    return claim;
   }
   
   /**
    * Process a work item - get thread and investigate
    */
   private async processWorkItem(workItem: WorkItem): Promise<void> {
-    console.log(`[Worker ${this.workerId}] Processing conversation ${workItem.conversation_id}`);
+    this.log.debug(`Processing conversation ${workItem.conversation_id}`);
     
     // Get full conversation thread
     const thread = await this.getFullThread(workItem.conversation_id);
-    console.log(`[Worker ${this.workerId}] Retrieved thread with ${thread.length} interactions`);
+    this.log.debug(`Retrieved thread with ${thread.length} interactions`);
     
     // Get context from other investigators
     const otherFindings = await this.getOtherFindings();
@@ -130,7 +133,7 @@ export class WorkerAgent {
     for (let i = 0; i < thread.length; i++) {
       const interaction = thread[i];
       
-      console.log(`[Worker ${this.workerId}] Analyzing interaction ${i + 1}/${thread.length}`);
+      this.log.debug(`Analyzing interaction ${i + 1}/${thread.length}`);
       
       // Analyze this interaction
       const result = await this.analyzeInteraction(
@@ -149,6 +152,18 @@ export class WorkerAgent {
         });
       }
       
+      // How complete the answer looks from here - the loop manager's convergence input
+      await this.stream.append({
+        agent: `worker_${this.workerId}`,
+        phase: 'investigation',
+        action: 'completeness',
+        output: {
+          interaction_id: interaction.id,
+          score: result.completeness.score,
+          missing: result.completeness.missing
+        }
+      });
+      
       // Filter and limit leads before requesting searches
       const validLeads = this.filterAndLimitLeads(result.leads);
       
@@ -156,13 +171,9 @@ export class WorkerAgent {
       for (const lead of validLeads) {
         await this.requestSearch(lead);
       }
-      
-      // Update last event ID for incremental reading
-      const events = await this.stream.read();
-      this.lastEventId = events[events.length - 1].event_id || null;
     }
     
-    console.log(`[Worker ${this.workerId}] Completed investigation of conversation ${workItem.conversation_id}`);
+    this.log.info(`Completed investigation of conversation ${workItem.conversation_id}`);
   }
   
   /**
@@ -182,10 +193,11 @@ export class WorkerAgent {
         c.platform
       FROM interactions i
       JOIN conversations c ON i.conversation_id = c.id
-      WHERE i.conversation_id = $1
+      WHERE i.conversation_id = $1 AND c.project_id = $2
       ORDER BY i.prompt_ts ASC
       `,
-      [conversationId]
+      [conversationId, this.projectId],
+      { projectId: this.projectId }
     );
     
     return results;
@@ -195,10 +207,14 @@ export class WorkerAgent {
    * Get findings from other investigators (for context)
    */
   private async getOtherFindings(): Promise<Finding[]> {
-    const events = await this.stream.read({ since_id: this.lastEventId || undefined });
+    const page = await this.stream.readFrom(this.findingsCursor, {
+      agent_prefix: 'worker_',
+      action: 'finding'
+    });
+    this.findingsCursor = page.next_seq;
     
-    const findings = events
-      .filter(e => e.agent.startsWith('worker_') && e.action === 'finding')
+    const findings = page.events
+      .filter(e => e.agent !== `worker_${this.workerId}`)
       .map(e => e.output as Finding);
     
     return findings;
@@ -229,7 +245,7 @@ export class WorkerAgent {
     });
     
     if (leads.length > limitedLeads.length) {
-      console.log(`[Worker ${this.workerId}] Filtered leads: ${leads.length} → ${limitedLeads.length} (removed duplicates/low-priority)`);
+      this.log.info(`Filtered leads: ${leads.length} → ${limitedLeads.length} (removed duplicates/low-priority)`);
     }
     
     return limitedLeads;
@@ -243,8 +259,6 @@ export class WorkerAgent {
     threadContext: Interaction[],
     otherFindings: Finding[]
   ): Promise<InvestigationResult> {
-    const client = createAnthropicClient();
-    
     // Prepare context summaries
     const contextSummary = threadContext.length > 0
       ? threadContext.map(i => 
@@ -256,8 +270,7 @@ export class WorkerAgent {
       ? otherFindings.slice(-5).map(f => `- ${f.summary}`).join('\n')
       : 'No findings yet from other investigators';
     
-    const response = await client.messages.create({
-      model: AGENT_MODELS.worker,
+    const { data: result } = await this.budget.completeStructured(`worker_${this.workerId}`, 'worker', {
       max_tokens: 3000,
       system: `You are investigating a conversation to extract findings and discover new leads.`,
       messages: [{
@@ -303,6 +316,11 @@ YOUR TASKS:
    EXAMPLES OF GOOD LEADS:
    ✓ Query asks "what did Matthew fix?" → Matthew's commit is mentioned → CRITICAL
    ✓ Query asks "how was bug solved?" → Solution code file referenced → CRITICAL
+   ✓ Query asks "where did we change X?" → Change discussed but not shown → "code" lead, search_query describes the code
+   ✓ Query asks "why does X fail?" → X discussed in another thread → "conversation" lead, value is that thread's title
+   ✓ Query asks what happened "the week before the Oct 7 release" → "temporal" lead, value "the week before 2024-10-07"
+   ✓ Entity goes by several names (e.g. refreshToken / token refresh) → "entity" lead with the others in "aliases"
+   ✓ Query asks "what PR shipped X?" or what was discussed before it merged → "pull_request" lead, value is the PR number ("#123") or its title/branch
    
    EXAMPLES OF BAD LEADS (DO NOT CREATE):
    ✗ File mentioned tangentially → Not critical
@@ -326,8 +344,9 @@ RESPOND IN JSON (no markdown):
   ],
   "leads": [
     {
-      "type": "commit|entity|person|temporal|file",
+      "type": "commit|entity|person|temporal|file|code|conversation|pull_request",
       "value": "specific value",
+      "aliases": ["other names for an entity (optional)"],
       "search_query": "What to search for",
       "reason": "Why we need this",
       "priority": "high|medium|low"
@@ -339,37 +358,25 @@ RESPOND IN JSON (no markdown):
   }
 }`
       }]
-    });
-    
-    // Parse response
-    const textContent = response.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in analysis response');
-    }
-    
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in analysis response');
-    }
-    
-    const result = JSON.parse(jsonMatch[0]) as InvestigationResult;
+    }, InvestigationResultSchema, { name: 'InvestigationResult', phase: 'investigation' });
     
     // Add metadata to findings
-    result.findings = result.findings.map(f => ({
-      ...f,
-      interaction_id: interaction.id,
-      author: interaction.author,
-      timestamp: interaction.prompt_ts
-    }));
-    
-    return result;
+    return {
+      ...result,
+      findings: result.findings.map(f => ({
+        ...f,
+        interaction_id: interaction.id,
+        author: interaction.author,
+        timestamp: interaction.prompt_ts
+      }))
+    };
   }
   
   /**
    * Request a new search from Discovery for a discovered lead
    */
   private async requestSearch(lead: Lead): Promise<void> {
-    console.log(`[Worker ${this.workerId}] Requesting search: "${lead.search_query}" (${lead.type})`);
+    this.log.info(`Requesting search: "${lead.search_query}"`, { lead_type: lead.type });
     
     await this.stream.append({
       agent: `worker_${this.workerId}`,
@@ -395,7 +402,9 @@ RESPOND IN JSON (no markdown):
       'person': 'person_reference',
       'temporal': 'date_reference',
       'file': 'file_reference',
-      'conversation': 'conversation_reference'
+      'conversation': 'conversation_reference',
+      'code': 'code_reference',
+      'pull_request': 'pr_reference'
     };
     return mapping[leadType] || 'entity_reference';
   }
@@ -413,6 +422,15 @@ RESPOND IN JSON (no markdown):
         return { file_path: lead.value };
       case 'temporal':
         return { date: lead.value };
+      case 'conversation':
+        return UUID_PATTERN.test(lead.value) ? { conversation_id: lead.value } : undefined;
+      case 'entity':
+        return { aliases: [...new Set([lead.value, ...(lead.aliases || [])])] };
+      case 'pull_request': {
+        // "#123", "PR 123", "pull request 123" - otherwise the search matches titles and branches
+        const match = lead.value.match(/^\s*(?:(?:pr|pull request)\s*)?#?(\d+)\s*$/i);
+        return match ? { pr_number: Number(match[1]) } : undefined;
+      }
       default:
         return undefined;
     }
@@ -425,16 +443,19 @@ RESPOND IN JSON (no markdown):
 export async function spawnWorkerPool(
   workerCount: number,
   query: string,
-  stream: ExplorationStream
+  projectId: string,
+  stream: ExplorationStream,
+  budget: BudgetTracker
 ): Promise<void> {
-  console.log(`[WorkerPool] Spawning ${workerCount} workers`);
+  const log = getLogger('worker_pool', { session_id: stream.sessionId });
+  log.info(`Spawning ${workerCount} workers`);
   
   const workers = [];
   for (let i = 0; i < workerCount; i++) {
-    const worker = new WorkerAgent(i, query, stream);
+    const worker = new WorkerAgent(i, query, projectId, stream, budget);
     workers.push(worker.run());
     
-    // Small delay to stagger worker starts and reduce race conditions
+    // Small delay to stagger worker starts (claims are atomic, this just spreads load)
     if (i < workerCount - 1) {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
@@ -443,6 +464,6 @@ export async function spawnWorkerPool(
   // Wait for all workers to complete
   await Promise.all(workers);
   
-  console.log(`[WorkerPool] All ${workerCount} workers complete`);
+  log.info(`All ${workerCount} workers complete`);
 }
 
@@ -0,0 +1,271 @@
+import { ExplorationStream } from './s2/client';
+import { ExplorationBudget, BudgetUsage, ModelUsage, ExplorationEvent } from './types';
+import { getAgentLLM, AgentRole, MODEL_PRICING } from './config';
+import { z } from 'zod';
+import { LLMProvider, LLMRequest, LLMResponse, LLMJSONResponse, LLMUsage, completeStructured, Logger, getLogger, getScheduler } from '@tig/shared';
+
+/**
+ * Thrown when an LLM call would exceed the exploration budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(public limit: string, message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Budget Tracker - Meters every LLM call made during one exploration
+ * 
+ * Agents call complete() / completeJSON() / completeStructured() instead of an LLM provider directly
+ * (the provider for each agent role comes from getAgentLLM, and calls queue in
+ * that provider's scheduler lane). Caps are checked once the lane admits a
+ * call, and the call is counted right away, so calls that queued while others
+ * used up the budget never start. Token and cost usage is recorded from each
+ * response, so only calls already in flight when those caps are reached can
+ * overshoot them.
+ * The first time a cap is hit a budget_exceeded event is written to the stream.
+ */
+export class BudgetTracker {
+  private startedAt = Date.now();
+  private calls = 0;
+  private byModel: Record<string, ModelUsage> = {};
+  private exceeded: string | null = null;
+  private log: Logger;
+
+  constructor(
+    private budget: ExplorationBudget,
+    private stream: ExplorationStream
+  ) {
+    this.log = getLogger('budget', { session_id: stream.sessionId });
+  }
+
+  get maxIterations(): number | undefined {
+    return this.budget.max_iterations;
+  }
+
+  get maxWorkers(): number | undefined {
+    return this.budget.max_workers;
+  }
+
+  /**
+   * Make a metered completion call
+   * exempt: true skips the caps (still recorded) - used for the final synthesis,
+   * so a run that ran out of budget still produces an answer
+   */
+  async complete(
+    agent: string,
+    role: AgentRole,
+    request: LLMRequest,
+    options?: { exempt?: boolean }
+  ): Promise<LLMResponse> {
+    return this.metered(agent, role, options, llm => llm.complete(request), response => response);
+  }
+
+  /**
+   * Metered completion that parses the reply as JSON
+   */
+  async completeJSON<T = any>(
+    agent: string,
+    role: AgentRole,
+    request: LLMRequest,
+    options?: { exempt?: boolean }
+  ): Promise<LLMJSONResponse<T>> {
+    return this.metered(agent, role, options, llm => llm.completeJSON<T>(request), result => result.response);
+  }
+
+  /**
+   * Metered completion validated against a schema, with repair/retry
+   * 
+   * Every attempt counts against the budget. Each failed attempt is written to
+   * the stream as a parse_error event; StructuredOutputError is thrown once
+   * attempts run out.
+   */
+  async completeStructured<T>(
+    agent: string,
+    role: AgentRole,
+    request: LLMRequest,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: { name: string; phase: ExplorationEvent['phase']; maxAttempts?: number; exempt?: boolean }
+  ): Promise<LLMJSONResponse<T>> {
+    return completeStructured(
+      { complete: attemptRequest => this.complete(agent, role, attemptRequest, options) },
+      request,
+      schema,
+      {
+        name: options.name,
+        maxAttempts: options.maxAttempts,
+        onFailure: async failure => {
+          this.log.warn(`${failure.schema} parse failed (attempt ${failure.attempt}/${failure.max_attempts}): ${failure.error}`, { agent });
+
+          await this.stream.append({
+            agent,
+            phase: options.phase,
+            action: 'parse_error',
+            output: {
+              ...failure,
+              raw: failure.raw.slice(0, 2000)
+            }
+          });
+        }
+      }
+    );
+  }
+
+  /**
+   * Throw BudgetExceededError if any cap has been reached
+   */
+  async check(agent: string): Promise<void> {
+    const limit = this.getExceededLimit();
+    if (!limit) {
+      return;
+    }
+
+    if (!this.exceeded) {
+      this.exceeded = limit;
+      this.log.info(`${limit} reached - stopping exploration`, { limit, triggered_by: agent });
+
+      await this.stream.append({
+        agent: 'budget',
+        phase: 'budget',
+        action: 'budget_exceeded',
+        output: {
+          limit,
+          triggered_by: agent,
+          budget: this.budget,
+          usage: this.getUsage()
+        }
+      });
+    }
+
+    throw new BudgetExceededError(this.exceeded, `Exploration budget exceeded: ${this.exceeded}`);
+  }
+
+  /**
+   * True once any cap has been reached (no further LLM calls will be allowed)
+   */
+  isExhausted(): boolean {
+    return this.exceeded !== null || this.getExceededLimit() !== null;
+  }
+
+  getUsage(): BudgetUsage {
+    const models = Object.values(this.byModel);
+    return {
+      llm_calls: this.calls,
+      input_tokens: models.reduce((sum, m) => sum + m.input_tokens, 0),
+      output_tokens: models.reduce((sum, m) => sum + m.output_tokens, 0),
+      cost_usd: models.reduce((sum, m) => sum + m.cost_usd, 0),
+      elapsed_ms: Date.now() - this.startedAt,
+      by_model: this.byModel,
+      exceeded: this.exceeded || undefined
+    };
+  }
+
+  /**
+   * Run a call in its provider's scheduler lane, checking the caps and
+   * recording usage inside the scheduled task
+   */
+  private async metered<R>(
+    agent: string,
+    role: AgentRole,
+    options: { exempt?: boolean } | undefined,
+    call: (llm: LLMProvider) => Promise<R>,
+    responseOf: (result: R) => LLMResponse
+  ): Promise<R> {
+    const llm = getAgentLLM(role);
+    let counted = false;
+
+    // A rate-limited (429) call is re-run by the scheduler - checked again, but counted once
+    return getScheduler().run(llm.name, async () => {
+      await this.beforeCall(agent, options, !counted);
+      counted = true;
+
+      const result = await call(llm);
+      const response = responseOf(result);
+      this.record(response.model, response.usage);
+      return result;
+    });
+  }
+
+  /**
+   * Check the caps and count the call, with no await in between - calls the
+   * lane admits at the same time can't all pass the same check
+   */
+  private async beforeCall(agent: string, options: { exempt?: boolean } | undefined, count: boolean): Promise<void> {
+    if (!options?.exempt && this.getExceededLimit()) {
+      await this.check(agent);
+    }
+    if (count) {
+      this.calls++;
+    }
+  }
+
+  /**
+   * Write final usage to the stream
+   */
+  async recordSummary(): Promise<BudgetUsage> {
+    const usage = this.getUsage();
+
+    await this.stream.append({
+      agent: 'budget',
+      phase: 'budget',
+      action: 'budget_summary',
+      output: {
+        budget: this.budget,
+        usage
+      }
+    });
+
+    return usage;
+  }
+
+  private record(model: string, usage: LLMUsage): void {
+    const pricing = getPricing(model);
+    if (!pricing && !this.byModel[model]) {
+      this.log.warn(`No pricing for model ${model} - cost will not be counted`, { model });
+    }
+
+    const entry = this.byModel[model] || (this.byModel[model] = {
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0
+    });
+
+    entry.calls++;
+    entry.input_tokens += usage.input_tokens;
+    entry.output_tokens += usage.output_tokens;
+    if (pricing) {
+      entry.cost_usd += (usage.input_tokens * pricing.input + usage.output_tokens * pricing.output) / 1_000_000;
+    }
+  }
+
+  private getExceededLimit(): string | null {
+    const usage = this.getUsage();
+    const { max_llm_calls, max_input_tokens, max_output_tokens, max_cost_usd, max_wall_clock_ms } = this.budget;
+
+    if (max_llm_calls !== undefined && usage.llm_calls >= max_llm_calls) return 'max_llm_calls';
+    if (max_input_tokens !== undefined && usage.input_tokens >= max_input_tokens) return 'max_input_tokens';
+    if (max_output_tokens !== undefined && usage.output_tokens >= max_output_tokens) return 'max_output_tokens';
+    if (max_cost_usd !== undefined && usage.cost_usd >= max_cost_usd) return 'max_cost_usd';
+    if (max_wall_clock_ms !== undefined && usage.elapsed_ms >= max_wall_clock_ms) return 'max_wall_clock_ms';
+
+    return null;
+  }
+}
+
+/**
+ * Look up per-model pricing - vendors may report dated snapshots
+ * (gpt-4o-mini-2024-07-18), so fall back to the longest matching prefix
+ */
+function getPricing(model: string): { input: number; output: number } | undefined {
+  if (MODEL_PRICING[model]) {
+    return MODEL_PRICING[model];
+  }
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
@@ -0,0 +1,369 @@
+import { flushTelemetry } from '@tig/shared';
+import { createExplorationStream, ExplorationStream } from '../s2/client';
+import { ExplorationBudget, ExplorationEvent } from '../types';
+import { EngineName, runEngine } from '../engines';
+import { resumeIterativeExploration, getIterativeExplorationSession } from '../iterativeOrchestrator';
+import { getExplorationSession } from '../orchestrator';
+import { OutputFormat, OUTPUT_FORMATS, formatEvent, formatResult, formatUsage } from './render';
+
+/**
+ * tig - command-line interface for every query engine
+ *
+ * Runs an engine on a fresh session stream and renders that stream live
+ * (stderr) while it runs, then prints the result (stdout) as markdown or JSON.
+ * Agents' own console output is hidden unless --verbose.
+ */
+
+const USAGE = `tig - query your team's development history
+
+Usage:
+  tig explore <query> [--iterative]       Multi-agent exploration (legacy 3-phase, or iterative)
+  tig explore --resume <sessionId>        Resume an interrupted iterative exploration
+  tig ask <query>                         Contextual workflow (anthropic package)
+  tig v2 <query>                          SQL-driven Agent v2 (agentv2 package)
+  tig sessions show <sessionId>           Print a finished session's answer (or its progress)
+  tig sessions replay <sessionId>         Print a session's event log [--follow to keep watching]
+
+Options:
+  -p, --project <id>       Project to query (default: TEST_PROJECT_ID)
+  -f, --format <format>    Output format: markdown (default) or json
+  -q, --quiet              Don't render events while the query runs
+  -v, --verbose            Also show the agents' own log output (on stderr)
+  --max-iterations <n>     Budget caps (explore only)
+  --max-workers <n>
+  --max-llm-calls <n>
+  --max-cost <usd>
+  --max-time <seconds>
+
+Sessions outlive the process only with S2_API_KEY or EXPLORATION_STREAM_DIR set.`;
+
+const BOOLEAN_FLAGS = ['iterative', 'follow', 'quiet', 'verbose', 'help'];
+const FLAG_ALIASES: Record<string, string> = { p: 'project', f: 'format', q: 'quiet', v: 'verbose', h: 'help' };
+
+// Events after which a session has nothing more to say
+const TERMINAL_ACTIONS = ['finalized', 'create_brief', 'investigation_complete', 'exploration_complete', 'exploration_failed'];
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Thrown for bad invocations - printed with the usage hint, exit code 2
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Run the CLI with the given arguments (process.argv.slice(2)) and return the exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const [command, ...rest] = args.positional;
+
+    if (!command || args.flags.help || command === 'help') {
+      console.log(USAGE);
+      return 0;
+    }
+
+    switch (command) {
+      case 'explore':
+        if (typeof args.flags.resume === 'string') {
+          return await resumeCommand(args.flags.resume, args);
+        }
+        return await queryCommand(args.flags.iterative ? 'iterative' : 'explore', rest, args);
+      case 'ask':
+        return await queryCommand('tigagent', rest, args);
+      case 'v2':
+        return await queryCommand('agentv2', rest, args);
+      case 'sessions':
+        return await sessionsCommand(rest, args);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`tig: ${error.message}\nRun "tig help" for usage.`);
+      return 2;
+    }
+    console.error(`tig: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    // bin/tig.js exits right after - don't lose spans still batched for OTLP
+    await flushTelemetry();
+  }
+}
+
+/**
+ * tig explore / ask / v2
+ */
+async function queryCommand(engine: EngineName, positional: string[], args: ParsedArgs): Promise<number> {
+  const query = positional.join(' ').trim();
+  if (!query) {
+    throw new UsageError('A query is required');
+  }
+
+  const format = getFormat(args);
+  const projectId = getString(args, 'project') || process.env.TEST_PROJECT_ID;
+  const budget = getBudget(args);
+  const stream = createExplorationStream(`${SESSION_PREFIXES[engine]}-${Date.now()}`);
+
+  console.error(`tig ${engine} · session ${stream.sessionId}`);
+  console.error(`Query: "${query}"`);
+  console.error(`Project: ${projectId || '(not set)'}\n`);
+
+  const result = await runWithLiveEvents(stream, args, 0, () =>
+    runEngine({ engine, query, project_id: projectId, budget }, stream)
+  );
+
+  console.log(formatResult(engine, result, format));
+  return engine === 'agentv2' && result.success === false ? 1 : 0;
+}
+
+const SESSION_PREFIXES: Record<EngineName, string> = {
+  explore: 'explore',
+  iterative: 'explore-iter',
+  agentv2: 'agentv2',
+  tigagent: 'tigagent'
+};
+
+/**
+ * tig explore --resume <sessionId>
+ */
+async function resumeCommand(sessionId: string, args: ParsedArgs): Promise<number> {
+  const format = getFormat(args);
+  const stream = createExplorationStream(sessionId);
+  const existing = (await stream.read()).length;
+
+  console.error(`tig explore --resume · session ${sessionId} (${existing} events)\n`);
+
+  // Only render what the resumed run adds
+  const result = await runWithLiveEvents(stream, args, existing, () =>
+    resumeIterativeExploration(sessionId, getString(args, 'project'), getBudget(args))
+  );
+
+  console.log(formatResult('iterative', result, format));
+  return 0;
+}
+
+/**
+ * tig sessions show|replay <sessionId>
+ */
+async function sessionsCommand(positional: string[], args: ParsedArgs): Promise<number> {
+  const [subcommand, sessionId] = positional;
+  if (!sessionId || (subcommand !== 'show' && subcommand !== 'replay')) {
+    throw new UsageError('Usage: tig sessions show|replay <sessionId>');
+  }
+
+  const format = getFormat(args);
+  const stream = createExplorationStream(sessionId);
+
+  if (subcommand === 'replay') {
+    return replaySession(stream, format, args.flags.follow === true);
+  }
+
+  const result = await getIterativeExplorationSession(sessionId) || await getExplorationSession(sessionId);
+  if (result) {
+    console.log(formatResult('iterative', result, format));
+    return 0;
+  }
+
+  // No final answer yet - report how far the session got
+  const events = await stream.read();
+  if (events.length === 0) {
+    console.error(`tig: session ${sessionId} not found (sessions only persist with S2_API_KEY or EXPLORATION_STREAM_DIR)`);
+    return 1;
+  }
+
+  const last = events[events.length - 1];
+  const summary = [...events].reverse().find(e => e.action === 'budget_summary');
+  if (format === 'json') {
+    console.log(JSON.stringify({ sessionId, status: 'incomplete', events: events.length, last_event: last }, null, 2));
+  } else {
+    console.log(`Session ${sessionId} has no final answer yet (${events.length} events)`);
+    console.log(`Last event: ${formatEvent(last)}`);
+    if (summary) {
+      console.log(`Usage: ${formatUsage(summary.output.usage)}`);
+    }
+  }
+  return 0;
+}
+
+async function replaySession(stream: ExplorationStream, format: OutputFormat, follow: boolean): Promise<number> {
+  const print = (event: ExplorationEvent) =>
+    console.log(format === 'json' ? JSON.stringify(event) : formatEvent(event));
+
+  if (!follow) {
+    const events = await stream.read();
+    if (events.length === 0) {
+      console.error(`tig: session ${stream.sessionId} has no events`);
+      return 1;
+    }
+    events.forEach(print);
+    return 0;
+  }
+
+  // Follow until the session finishes or Ctrl-C
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+
+  try {
+    for await (const event of stream.subscribe(undefined, { signal: controller.signal })) {
+      print(event);
+      if (TERMINAL_ACTIONS.includes(event.action)) {
+        break;
+      }
+    }
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+  return 0;
+}
+
+/**
+ * Run a query while rendering the stream's events from fromSeq onwards
+ */
+async function runWithLiveEvents<T>(
+  stream: ExplorationStream,
+  args: ParsedArgs,
+  fromSeq: number,
+  run: () => Promise<T>
+): Promise<T> {
+  const restoreConsole = redirectConsole(args.flags.verbose === true);
+
+  // The console comes back even if rendering the last events fails
+  try {
+    const stopFollowing = args.flags.quiet ? async () => {} : followEvents(stream, fromSeq);
+    try {
+      return await run();
+    } finally {
+      await stopFollowing();
+    }
+  } finally {
+    restoreConsole();
+  }
+}
+
+/**
+ * Render events as they are appended; the returned function stops following
+ * and flushes anything appended since the last poll
+ */
+function followEvents(stream: ExplorationStream, fromSeq: number): () => Promise<void> {
+  const controller = new AbortController();
+  let seq = fromSeq;
+
+  const following = (async () => {
+    for await (const event of stream.subscribe(undefined, { from_seq: seq, signal: controller.signal })) {
+      console.error(formatEvent(event));
+      seq++;
+    }
+  })();
+
+  return async () => {
+    controller.abort();
+    await following.catch(() => undefined);
+
+    const page = await stream.readFrom(seq);
+    for (const event of page.events) {
+      console.error(formatEvent(event));
+    }
+    console.error('');
+  };
+}
+
+/**
+ * Keep stdout for the result: agents' console.log output is dropped, or moved to stderr with --verbose
+ */
+function redirectConsole(verbose: boolean): () => void {
+  const { log, info, warn } = console;
+  const sink = verbose ? (...data: any[]) => console.error(...data) : () => {};
+
+  console.log = sink;
+  console.info = sink;
+  if (!verbose) {
+    console.warn = sink;
+  }
+
+  return () => {
+    console.log = log;
+    console.info = info;
+    console.warn = warn;
+  };
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      positional.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.replace(/^--?/, '').split(/=(.*)/s, 2);
+    const name = FLAG_ALIASES[rawName] || rawName;
+
+    if (BOOLEAN_FLAGS.includes(name)) {
+      flags[name] = true;
+    } else if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (i + 1 < argv.length) {
+      flags[name] = argv[++i];
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+  }
+
+  return { positional, flags };
+}
+
+function getString(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getFormat(args: ParsedArgs): OutputFormat {
+  const format = getString(args, 'format') || 'markdown';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new UsageError(`Unknown format "${format}" (expected ${OUTPUT_FORMATS.join(' or ')})`);
+  }
+  return format as OutputFormat;
+}
+
+function getBudget(args: ParsedArgs): ExplorationBudget | undefined {
+  const budget: ExplorationBudget = {
+    max_iterations: getNumber(args, 'max-iterations'),
+    max_workers: getNumber(args, 'max-workers'),
+    max_llm_calls: getNumber(args, 'max-llm-calls'),
+    max_cost_usd: getNumber(args, 'max-cost'),
+    max_wall_clock_ms: getNumber(args, 'max-time') !== undefined ? getNumber(args, 'max-time')! * 1000 : undefined
+  };
+
+  const set = Object.entries(budget).filter(([, value]) => value !== undefined);
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+}
+
+function getNumber(args: ParsedArgs, name: string): number | undefined {
+  const value = getString(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new UsageError(`--${name} must be a non-negative number`);
+  }
+  return number;
+}
@@ -0,0 +1,140 @@
+import { ExplorationEvent, ExplorationResult, BudgetUsage } from '../types';
+import { EngineName } from '../engines';
+
+/**
+ * Terminal rendering for the tig CLI
+ *
+ * Progress (event lines, headers) goes to stderr so stdout carries only the
+ * result - `tig explore ... --format json > result.json` stays valid JSON.
+ */
+
+export type OutputFormat = 'markdown' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'json'];
+
+const PREVIEW_LENGTH = 100;
+
+/**
+ * One line per event: time, agent, action and the most useful part of its output
+ */
+export function formatEvent(event: ExplorationEvent): string {
+  const time = new Date(event.timestamp).toISOString().slice(11, 19);
+  return `${time}  ${event.agent.padEnd(16)} ${event.action.padEnd(22)} ${describeOutput(event)}`.trimEnd();
+}
+
+function describeOutput(event: ExplorationEvent): string {
+  const output = event.output || {};
+
+  switch (event.action) {
+    case 'session_started':
+    case 'started':
+      return preview(output.query);
+    case 'iteration_started':
+    case 'iteration_complete':
+      return `iteration ${output.iteration}`;
+    case 'search_complete':
+      return `${output.results_found ?? 0} results`;
+    case 'scored_batch':
+      return `${output.scores_count} scored, ${output.high_scores} high`;
+    case 'add_to_queue':
+      return `${output.interaction_id} (priority ${output.priority})`;
+    case 'claim_work':
+      return output.item?.interaction_id ?? '';
+    case 'finding':
+      return `[${output.type}] ${preview(output.summary)}`;
+    case 'request_search':
+      return `${output.lead_type}: ${preview(output.query)}`;
+    case 'intermediate_update':
+      return `draft with ${output.findings_count} findings (${output.word_count} words)`;
+    case 'finalized':
+      return `${output.word_count} words from ${output.findings_incorporated} findings`;
+    case 'budget_exceeded':
+      return `${output.limit} (triggered by ${output.triggered_by})`;
+    case 'budget_summary':
+      return formatUsage(output.usage);
+    case 'parse_error':
+      return `${output.schema} attempt ${output.attempt}/${output.max_attempts}: ${preview(output.error)}`;
+    case 'progress':
+      return `${output.stage} (${output.progress}%)`;
+    case 'error':
+    case 'exploration_failed':
+    case 'investigation_error':
+      return preview(output.error);
+    default:
+      return preview(JSON.stringify(output));
+  }
+}
+
+function preview(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ');
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH - 1) + '…' : text;
+}
+
+export function formatUsage(usage?: BudgetUsage): string {
+  if (!usage) {
+    return '';
+  }
+  const stopped = usage.exceeded ? `, stopped at ${usage.exceeded}` : '';
+  return `${usage.llm_calls} LLM calls, ${usage.input_tokens} in / ${usage.output_tokens} out tokens, ` +
+    `$${usage.cost_usd.toFixed(4)}, ${(usage.elapsed_ms / 1000).toFixed(1)}s${stopped}`;
+}
+
+/**
+ * Render an engine's result for stdout
+ */
+export function formatResult(engine: EngineName, result: any, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+
+  switch (engine) {
+    case 'explore':
+    case 'iterative':
+      return formatExplorationResult(result as ExplorationResult);
+    case 'agentv2':
+      return formatAgentV2Result(result);
+    case 'tigagent':
+      return result.answer;
+  }
+}
+
+export function formatExplorationResult(result: ExplorationResult): string {
+  const findings = result.auditTrail.filter(e => e.action === 'finding').length;
+  const leads = result.auditTrail.filter(e => e.action === 'request_search').length;
+
+  return [
+    result.brief.trim(),
+    '',
+    '---',
+    `Session: ${result.sessionId} (${result.streamUrl})`,
+    `Findings: ${findings}, leads followed: ${leads}`,
+    ...(result.usage ? [`Usage: ${formatUsage(result.usage)}`] : [])
+  ].join('\n');
+}
+
+/**
+ * AgentV2Result (agentv2/src/simpleTypes.ts) - typed loosely, the package builds separately
+ */
+function formatAgentV2Result(result: any): string {
+  const lines: string[] = [result.summary?.trim() || '_No summary produced._'];
+
+  if (result.findings?.length > 0) {
+    lines.push('', '## Findings', '');
+    for (const finding of result.findings) {
+      lines.push(`- **${finding.type}**: ${finding.summary}`);
+    }
+  }
+
+  if (result.leads?.length > 0) {
+    lines.push('', '## Leads', '');
+    for (const lead of result.leads) {
+      lines.push(`- ${lead.type} \`${lead.value}\` (${lead.priority}): ${lead.reason}`);
+    }
+  }
+
+  if (result.errors?.length > 0) {
+    lines.push('', '## Errors', '', ...result.errors.map((error: string) => `- ${error}`));
+  }
+
+  return lines.join('\n');
+}
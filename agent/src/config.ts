@@ -1,5 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { Pool } from 'pg';
+import * as path from 'path';
+import { LLMProvider, createLLMProvider, getReadPolicy, SCHEDULER_CONFIG, SqlGuardPolicy } from '@tig/shared';
+import { SearchRequest } from './types';
 
 /**
  * Import shared database connection from anthropic directory
@@ -12,22 +14,11 @@ export function getDb(): Pool {
     if (!connectionString) {
       throw new Error('DATABASE_URL environment variable is not set');
     }
-    dbPool = new Pool({ connectionString });
+    dbPool = new Pool({ connectionString, max: SCHEDULER_CONFIG.limits.postgres });
   }
   return dbPool;
 }
 
-/**
- * Create Anthropic client
- */
-export function createAnthropicClient(): Anthropic {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY environment variable is not set');
-  }
-  return new Anthropic({ apiKey });
-}
-
 /**
  * Model configurations for each specialized agent
  */
@@ -41,6 +32,162 @@ export const AGENT_MODELS = {
   worker: 'claude-3-5-haiku-20241022'              // Fast for investigation
 };
 
+export type AgentRole = keyof typeof AGENT_MODELS;
+
+/**
+ * Equivalent OpenAI models, used when an agent is switched to LLM_PROVIDER=openai
+ */
+export const OPENAI_AGENT_MODELS: Record<AgentRole, string> = {
+  discovery: 'gpt-4o-mini',
+  threadFollowing: 'gpt-4o',
+  knowledgeMining: 'gpt-4o',
+  temporalContext: 'gpt-4o-mini',
+  synthesis: 'gpt-4o',
+  judge: 'gpt-4o-mini',
+  worker: 'gpt-4o-mini'
+};
+
+/**
+ * LLM vendor selection
+ * LLM_PROVIDER sets the default (anthropic | openai); LLM_PROVIDER_<AGENT>
+ * (e.g. LLM_PROVIDER_JUDGE=openai) overrides it for one agent
+ */
+export const LLM_CONFIG = {
+  provider: process.env.LLM_PROVIDER || 'anthropic'
+};
+
+/**
+ * Get the LLM provider (vendor + model) configured for an agent
+ */
+export function getAgentLLM(role: AgentRole): LLMProvider {
+  const envName = `LLM_PROVIDER_${role.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+  const vendor = process.env[envName] || LLM_CONFIG.provider;
+
+  return createLLMProvider(vendor, vendor === 'openai' ? OPENAI_AGENT_MODELS[role] : AGENT_MODELS[role]);
+}
+
+/**
+ * Pricing per million tokens (USD), used to convert usage into exploration cost
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 }
+};
+
+/**
+ * Loop limits used when an ExplorationBudget doesn't set them
+ */
+export const DEFAULT_BUDGET = {
+  max_iterations: 5,
+  max_workers: 5
+};
+
+/**
+ * When the iterative loop stops (agents/convergence.ts)
+ * Workers rate how complete the answer is after every interaction they analyze.
+ * The loop stops once the latest iteration's average reaches targetCompleteness,
+ * or after plateauIterations iterations in a row that added fewer than
+ * minNewFindings new findings and raised completeness by less than
+ * minCompletenessGain. When leads run out first, up to maxTargetedIterations
+ * extra iterations search for the questions workers still list as missing.
+ */
+export const CONVERGENCE_CONFIG = {
+  targetCompleteness: 0.85,
+  plateauIterations: 2,
+  minNewFindings: 1,
+  minCompletenessGain: 0.05,
+  maxTargetedIterations: 2,
+  maxTargetedQueries: 3 // Missing questions searched per targeted iteration
+};
+
+/**
+ * Hybrid retrieval (tools/semantic.ts hybridSearch)
+ * Vector and full-text rankings are merged with reciprocal rank fusion:
+ * fusion_score = sum over signals of 1 / (rrfK + rank)
+ */
+export const SEARCH_CONFIG = {
+  rrfK: 60,
+  candidateMultiplier: 3, // Each signal ranks limit × this many candidates before fusion
+  maxChunkChars: 2000 // Diff text returned per code search chunk
+};
+
+/**
+ * Project scoping in the database (db.ts, db/rls.sql)
+ * Opt-in: with DB_READER_ROLE set (tig_reader once db/rls.sql is applied),
+ * reads switch to that read-only role, which the row-level security policies
+ * apply to, for their transaction - the first read fails with a clear error
+ * if the role doesn't exist. Unset, reads rely on their own project filters
+ * and the SQL guard.
+ */
+export const DB_SCOPE_CONFIG = {
+  role: process.env.DB_READER_ROLE || ''
+};
+
+/**
+ * What executeSqlQuery may read (the @tig/shared SQL guard), from the ontology
+ * Restricted columns (users.email, users.auth_user_id) are left out. Queries
+ * run with a project ID must filter every projectScope table by it, and join
+ * every projectLinks table to one that is (interactions through conversations).
+ */
+export const SQL_GUARD_POLICY: SqlGuardPolicy = getReadPolicy([
+  'projects',
+  'users',
+  'conversations',
+  'interactions',
+  'interaction_diffs',
+  'commits',
+  'commit_interactions',
+  'pull_requests',
+  'interaction_embeddings'
+]);
+
+/**
+ * Reranking between discovery and the judges (tools/rerank.ts)
+ * Search results are scored by a cheap reranker against the search query; those
+ * under minScore are dropped and at most topK go on to be judged. null skips
+ * reranking - exact lookups (a commit hash, an author, a date) have no text to
+ * rank against. RERANK_PROVIDER: voyage (default), local (offline stand-in) or none.
+ */
+export interface RerankCutoff {
+  minScore: number; // Reranker relevance, 0-1
+  topK: number;
+}
+
+export const RERANK_CONFIG: {
+  provider: string;
+  model: string;
+  maxDocumentChars: number;
+  cutoffs: Record<SearchRequest['lead_type'], RerankCutoff | null>;
+} = {
+  provider: process.env.RERANK_PROVIDER || 'voyage',
+  model: 'rerank-2-lite',
+  maxDocumentChars: 4000, // Interaction text sent per candidate
+  cutoffs: {
+    initial: { minScore: 0.2, topK: 20 },
+    entity_reference: { minScore: 0.3, topK: 10 },
+    file_reference: { minScore: 0.25, topK: 10 },
+    code_reference: { minScore: 0.25, topK: 10 },
+    commit_reference: null,
+    person_reference: null,
+    date_reference: null,
+    conversation_reference: null,
+    pr_reference: null
+  }
+};
+
+/**
+ * Embedding ingestion (tools/ingestion.ts, npm run ingest)
+ * Longer texts are split into pieces of maxChunkChars (~1k tokens, so a full
+ * batch of 128 stays under Voyage's per-request token limit) and averaged.
+ */
+export const INGESTION_CONFIG = {
+  pageSize: 50,
+  maxChunkChars: 3000
+};
+
 /**
  * S2 Stream configuration
  * If S2_API_KEY is not set, will fall back to in-memory storage
@@ -51,6 +198,46 @@ export const S2_CONFIG = {
   enabled: !!process.env.S2_API_KEY
 };
 
+/**
+ * Local file stream configuration
+ * If EXPLORATION_STREAM_DIR is set (and S2 is not), sessions are persisted as
+ * append-only JSONL logs with content-addressed blobs under that directory
+ */
+export const FILE_STREAM_CONFIG = {
+  directory: process.env.EXPLORATION_STREAM_DIR,
+  enabled: !!process.env.EXPLORATION_STREAM_DIR
+};
+
+/**
+ * Investigation queue leases
+ * A worker that stops heartbeating (crashed, killed) loses its claim after leaseMs
+ */
+export const WORK_QUEUE_CONFIG = {
+  leaseMs: 60000,
+  heartbeatMs: 15000
+};
+
+/**
+ * HTTP API server (npm run serve)
+ */
+export const SERVER_CONFIG = {
+  port: parseInt(process.env.PORT || '3067', 10),
+  host: process.env.HOST || '127.0.0.1', // the API has no auth - only listen beyond loopback behind a proxy that adds it
+  maxRunningSessions: parseInt(process.env.MAX_RUNNING_EXPLORATIONS || '4', 10), // further POSTs get 429
+  corsOrigin: process.env.CORS_ORIGIN, // e.g. the dashboard's origin; unset = same-origin only
+  keepAliveMs: 15000, // SSE comment ping so proxies don't drop idle connections
+  sessionTtlMs: 60 * 60 * 1000 // finished sessions (and their streams) are dropped after this long
+};
+
+/**
+ * The agentv2 and tigagent engines are loaded from their sibling packages'
+ * builds on first use - run `npm run build` there first
+ */
+export const ENGINE_CONFIG = {
+  agentV2Module: process.env.AGENTV2_MODULE || path.resolve(__dirname, '..', '..', 'agentv2', 'dist', 'agentv2'),
+  tigAgentModule: process.env.TIGAGENT_MODULE || path.resolve(__dirname, '..', '..', 'anthropic', 'dist', 'index')
+};
+
 /**
  * System prompts for each agent
  */
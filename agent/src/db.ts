@@ -0,0 +1,83 @@
+import { PoolClient } from 'pg';
+import { getLogger } from '@tig/shared';
+import { getDb, DB_SCOPE_CONFIG } from './config';
+
+/**
+ * Project-scoped database access
+ *
+ * Every agent read runs in its own read-only transaction that sets
+ * app.project_id and, when DB_READER_ROLE is set, switches to that reader role
+ * (DB_SCOPE_CONFIG.role). The row-level security policies in db/rls.sql only
+ * show that role the project's conversations, interactions, diffs, embeddings,
+ * commits, commit links and pull requests - a query that forgets its project
+ * filter still can't read another project, and a read without a project sees
+ * none of them. Both settings are LOCAL, so they end
+ * with the transaction and never leak to the next user of a pooled connection.
+ *
+ * Ingestion writes embeddings and uses getDb() directly.
+ */
+
+const log = getLogger('db');
+
+let readerRoleCheck: Promise<void> | null = null;
+
+/**
+ * Fail with a clear error (once per process) if DB_READER_ROLE names a role the database doesn't have
+ */
+function checkReaderRole(role: string): Promise<void> {
+  readerRoleCheck ??= getDb()
+    .query('SELECT 1 FROM pg_roles WHERE rolname = $1', [role])
+    .then(result => {
+      if (result.rows.length === 0) {
+        throw new Error(`DB_READER_ROLE "${role}" does not exist - apply db/rls.sql to create it, or unset DB_READER_ROLE`);
+      }
+    })
+    .catch(error => {
+      readerRoleCheck = null;
+      throw error;
+    });
+  return readerRoleCheck;
+}
+
+/**
+ * Run work in a read-only transaction scoped to a project (null: no project)
+ */
+export async function withProjectScope<T>(
+  projectId: string | null,
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  if (DB_SCOPE_CONFIG.role) {
+    await checkReaderRole(DB_SCOPE_CONFIG.role);
+  }
+  
+  const client = await getDb().connect();
+  let broken: Error | undefined;
+
+  try {
+    // One round trip - the project ID is escaped as a literal since it can't be bound in a multi-statement query
+    await client.query([
+      'BEGIN READ ONLY',
+      ...(DB_SCOPE_CONFIG.role ? [`SET LOCAL ROLE ${client.escapeIdentifier(DB_SCOPE_CONFIG.role)}`] : []),
+      `SELECT set_config('app.project_id', ${client.escapeLiteral(projectId ?? '')}, true)`
+    ].join('; '));
+
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(rollbackError => {
+      broken = rollbackError;
+      log.warn('Rollback failed - discarding the connection', { error: rollbackError });
+    });
+    throw error;
+  } finally {
+    client.release(broken);
+  }
+}
+
+/**
+ * Run one query scoped to a project and return its rows
+ */
+export async function queryInProject(projectId: string | null, sql: string, params: unknown[] = []): Promise<any[]> {
+  return withProjectScope(projectId, async client => (await client.query(sql, params)).rows);
+}
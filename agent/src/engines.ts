@@ -0,0 +1,123 @@
+import { ExplorationStream } from './s2/client';
+import { ExplorationBudget, ExplorationEvent } from './types';
+import { ENGINE_CONFIG } from './config';
+import { explore } from './orchestrator';
+import { exploreIterative } from './iterativeOrchestrator';
+
+/**
+ * Exploration engines the HTTP API and the tig CLI can run
+ *
+ * explore / iterative run in-process. agentv2 and tigagent live in sibling
+ * packages that build independently, so they are required from their dist
+ * output on first use (see ENGINE_CONFIG) and bridged onto the session stream.
+ */
+
+export type EngineName = 'explore' | 'iterative' | 'agentv2' | 'tigagent';
+
+export const ENGINE_NAMES: EngineName[] = ['explore', 'iterative', 'agentv2', 'tigagent'];
+
+export interface ExplorationRequest {
+  engine: EngineName;
+  query: string;
+  project_id?: string;
+  budget?: ExplorationBudget; // explore / iterative only
+}
+
+/**
+ * The parts of the sibling packages' public API used here
+ */
+interface AgentV2Module {
+  queryWithAgentV2(query: string, projectId: string, stream: SimpleStreamBridge): Promise<any>;
+}
+
+interface TigAgentModule {
+  runTigAgentWithProgress(
+    input: { query: string; projectId: string; sessionId?: string },
+    onProgress: (stage: string, progress: number) => void
+  ): Promise<string>;
+}
+
+/**
+ * Shape of agentv2's SimpleStream, backed by an exploration stream
+ */
+interface SimpleStreamBridge {
+  sessionId: string;
+  append(event: { agent: string; phase: string; action: string; output: Record<string, any> }): Promise<string>;
+  read(): Promise<ExplorationEvent[]>;
+  put(key: string, data: any): Promise<string>;
+  get(storageKey: string): Promise<any>;
+}
+
+/**
+ * Run an engine to completion, writing its progress to the given stream
+ * Returns ExplorationResult (explore, iterative), AgentV2Result (agentv2) or { answer } (tigagent)
+ */
+export async function runEngine(request: ExplorationRequest, stream: ExplorationStream): Promise<any> {
+  switch (request.engine) {
+    case 'explore':
+      return explore(request.query, request.project_id, request.budget, stream);
+    case 'iterative':
+      return exploreIterative(request.query, request.project_id, request.budget, stream);
+    case 'agentv2': {
+      const agentV2 = loadModule<AgentV2Module>(ENGINE_CONFIG.agentV2Module, 'agentv2');
+      return agentV2.queryWithAgentV2(request.query, requireProjectId(request), bridgeSimpleStream(stream));
+    }
+    case 'tigagent': {
+      const tigAgent = loadModule<TigAgentModule>(ENGINE_CONFIG.tigAgentModule, 'tigagent');
+
+      // TigAgent has no event log - surface its progress callbacks as events instead
+      let progressWrite: Promise<unknown> = Promise.resolve();
+      const answer = await tigAgent.runTigAgentWithProgress(
+        { query: request.query, projectId: requireProjectId(request), sessionId: stream.sessionId },
+        (stage, progress) => {
+          progressWrite = progressWrite.then(() => stream.append({
+            agent: 'tigagent',
+            phase: 'synthesis',
+            action: 'progress',
+            output: { stage, progress }
+          }));
+        }
+      );
+      await progressWrite;
+
+      return { answer };
+    }
+    default:
+      throw new Error(`Unknown engine "${request.engine}" (expected ${ENGINE_NAMES.join(', ')})`);
+  }
+}
+
+function requireProjectId(request: ExplorationRequest): string {
+  const projectId = request.project_id || process.env.TEST_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('Project ID is required. Set TEST_PROJECT_ID environment variable or pass project_id.');
+  }
+  return projectId;
+}
+
+function loadModule<T>(modulePath: string, engine: EngineName): T {
+  try {
+    return require(modulePath) as T;
+  } catch (error) {
+    throw new Error(
+      `Engine ${engine} is not available - could not load ${modulePath} (build that package first): ` +
+      (error instanceof Error ? error.message : String(error))
+    );
+  }
+}
+
+/**
+ * agentv2 writes free-form phases; the exploration stream only accepts the known ones
+ */
+function bridgeSimpleStream(stream: ExplorationStream): SimpleStreamBridge {
+  return {
+    sessionId: stream.sessionId,
+    append: event => stream.append({
+      ...event,
+      phase: event.phase === 'synthesis' ? 'synthesis' : 'discovery'
+    }),
+    read: () => stream.read(),
+    put: (key, data) => stream.put(key, data),
+    get: storageKey => stream.get(storageKey)
+  };
+}
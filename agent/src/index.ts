@@ -8,7 +8,12 @@
 export { explore, getExplorationSession } from './orchestrator';
 
 // New iterative orchestrator
-export { exploreIterative, getIterativeExplorationSession } from './iterativeOrchestrator';
+export { exploreIterative, resumeIterativeExploration, getIterativeExplorationSession } from './iterativeOrchestrator';
+
+// HTTP API (POST /explorations, GET /explorations/:id, GET /explorations/:id/events)
+export { createExplorationServer, startExplorationServer } from './server/server';
+export { runEngine, ENGINE_NAMES } from './engines';
+export type { EngineName, ExplorationRequest } from './engines';
 
 export type { 
   ExplorationEvent, 
@@ -19,6 +24,7 @@ export type {
   TemporalContextOutput,
   ConversationThread,
   CommitContext,
+  PullRequestContext,
   FileHistory,
   KnowledgeAnalysis,
   TimelineData,
@@ -29,6 +35,51 @@ export type {
   JudgeScore,
   WorkItem,
   InvestigationResult,
-  Interaction
+  Interaction,
+  // Budgets
+  ExplorationBudget,
+  BudgetUsage,
+  ModelUsage
 } from './types';
 
+export { BudgetTracker, BudgetExceededError } from './budget';
+
+// LLM providers (swap vendors per agent, or run offline with ScriptedProvider)
+export { AnthropicProvider, OpenAIProvider, ScriptedProvider, setLLMProviderOverride, extractJSON, completeStructured, StructuredOutputError } from '@tig/shared';
+export type { LLMProvider, LLMRequest, LLMResponse, LLMJSONResponse, ScriptedReply, StructuredOutputFailure, StructuredOutputOptions } from '@tig/shared';
+export { JudgeResponseSchema, JudgeScoreSchema, FindingSchema, LeadSchema, InvestigationResultSchema } from './schemas';
+
+// Embeddings (cached and batched; run offline with LocalEmbeddingProvider)
+export { EmbeddingService, VoyageEmbeddingProvider, LocalEmbeddingProvider, getEmbeddingService, setEmbeddingProviderOverride, generateQueryEmbedding, generateBatchEmbeddings } from '@tig/shared';
+export type { EmbeddingProvider, EmbeddingInputType, EmbeddingServiceOptions, EmbeddingStats } from '@tig/shared';
+export { ingestEmbeddings } from './tools/ingestion';
+export { VoyageRerankProvider, LocalRerankProvider, rerankInteractions, setRerankProviderOverride } from './tools/rerank';
+export type { RerankProvider, RerankOutcome } from './tools/rerank';
+export type { IngestionMode, IngestionOptions, IngestionProgress, IngestedEmbeddingType } from './tools/ingestion';
+
+// Concurrency limits per service, with rate-limit (429) backoff
+export { ConcurrencyScheduler, getScheduler, isRateLimitError } from '@tig/shared';
+export type { SchedulerOptions, LaneStats } from '@tig/shared';
+
+// Project-scoped reads (read-only transaction, reader role, row-level security - db/rls.sql)
+export { withProjectScope, queryInProject } from './db';
+
+// Database ontology (prompt text, read policies, information_schema drift check)
+export {
+  ONTOLOGY_TABLES, TEXT_JOINS, EXAMPLE_QUERIES, getReadableColumns, getRestrictedColumns, isRestrictedColumn,
+  getReadPolicy, getJoinGraph, findJoin, renderOntologyText, introspectSchema, checkOntologyDrift, generateOntology
+} from '@tig/shared';
+export type {
+  OntologyTable, OntologyColumn, OntologyForeignKey, TextJoin, ExampleQuery, JoinEdge, OntologyRenderOptions,
+  OntologyDb, IntrospectedTable, OntologyDrift, DriftCheckOptions
+} from '@tig/shared';
+
+// SQL guard (parsed read-only queries, table/column whitelist, project scoping)
+export { checkSql, guardSql, SqlGuardError, DENIED_FUNCTIONS } from '@tig/shared';
+export type { SqlGuardPolicy, ProjectLink, SqlGuardOptions } from '@tig/shared';
+export type { SqlQueryOptions } from './tools/sql';
+
+
+// Structured logging (LOG_LEVEL, LOG_FORMAT, OTEL_EXPORTER_OTLP_ENDPOINT)
+export { Logger, getLogger, configureLogger, flushTelemetry } from '@tig/shared';
+export type { LogLevel, LogFields, LogRecord, LoggerOptions } from '@tig/shared';
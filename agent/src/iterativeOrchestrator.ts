@@ -1,5 +1,7 @@
-import { createExplorationStream, ExplorationStream } from './s2/client';
-import { ExplorationResult } from './types';
+import { getLogger } from '@tig/shared';
+import { createExplorationStream, getStreamUrl, ExplorationStream } from './s2/client';
+import { ExplorationResult, ExplorationBudget } from './types';
+import { BudgetTracker } from './budget';
 import { LoopManager } from './agents/loopManager';
 import { IncrementalSynthesisAgent } from './agents/incrementalSynthesis';
 
@@ -9,11 +11,13 @@ import { IncrementalSynthesisAgent } from './agents/incrementalSynthesis';
  * Coordinates the new iterative multi-agent architecture:
  * 1. Start Synthesis (runs continuously, watching for findings)
  * 2. Start Loop Manager (Discovery → Judges → Workers, iteratively)
- * 3. Synthesis finalizes answer when loop completes
+ * 3. Synthesis finalizes answer when loop completes (or the budget runs out)
  */
 export async function exploreIterative(
   query: string,
-  projectId?: string
+  projectId?: string,
+  budget?: ExplorationBudget,
+  existingStream?: ExplorationStream // Write to this session instead of creating one (e.g. one the HTTP server is following)
 ): Promise<ExplorationResult> {
   // Use TEST_PROJECT_ID from env if not provided
   const actualProjectId = projectId || process.env.TEST_PROJECT_ID;
@@ -23,39 +27,117 @@ export async function exploreIterative(
   }
   
   // Create S2 stream for this exploration session
-  const sessionId = `explore-iter-${Date.now()}`;
+  const stream = existingStream || createExplorationStream(`explore-iter-${Date.now()}`);
+  const sessionId = stream.sessionId;
+
+  getLogger('orchestrator', { session_id: sessionId }).info(`Starting exploration: "${query}"`, { project_id: actualProjectId });
+
+  // Record what was asked so the session can be resumed from the stream alone
+  await stream.append({
+    agent: 'orchestrator',
+    phase: 'search',
+    action: 'session_started',
+    output: {
+      query,
+      project_id: actualProjectId,
+      budget
+    }
+  });
+
+  return runExploration(query, actualProjectId, sessionId, stream, budget || {}, false);
+}
+
+/**
+ * Resume an iterative exploration that died mid-loop (rate limit, process kill)
+ * 
+ * Rebuilds LoopManager, DiscoveryService and synthesis state from the session's
+ * event log and continues where it stopped. Needs a persistent stream (S2 or
+ * EXPLORATION_STREAM_DIR) - in-memory sessions don't outlive their process.
+ */
+export async function resumeIterativeExploration(
+  sessionId: string,
+  projectId?: string,
+  budget?: ExplorationBudget
+): Promise<ExplorationResult> {
   const stream = createExplorationStream(sessionId);
+  const events = await stream.read();
+  
+  if (events.length === 0) {
+    throw new Error(`Session ${sessionId} not found or empty - nothing to resume`);
+  }
+  
+  // Already finished - nothing to redo
+  const finished = await getIterativeExplorationSession(sessionId);
+  if (finished) {
+    getLogger('orchestrator', { session_id: sessionId }).info('Session already finalized - nothing to resume');
+    return finished;
+  }
+  
+  const sessionEvent = events.find(e => e.action === 'session_started');
+  const synthesisEvent = events.find(e => e.agent === 'synthesis' && e.action === 'started');
+  const query: string | undefined = sessionEvent?.output.query ?? synthesisEvent?.output.query;
+  const actualProjectId = projectId || sessionEvent?.output.project_id || process.env.TEST_PROJECT_ID;
+  
+  if (!query) {
+    throw new Error(`Session ${sessionId} has no recorded query - cannot resume`);
+  }
+  if (!actualProjectId) {
+    throw new Error('Project ID is required. Set TEST_PROJECT_ID environment variable or pass projectId parameter.');
+  }
 
-  console.log('\n' + '='.repeat(80));
-  console.log(`ITERATIVE EXPLORATION SYSTEM`);
-  console.log('='.repeat(80));
-  console.log(`Query: "${query}"`);
-  console.log(`Project ID: ${actualProjectId}`);
-  console.log(`Session: ${sessionId}`);
-  console.log('='.repeat(80) + '\n');
+  getLogger('orchestrator', { session_id: sessionId }).info(`Resuming exploration (${events.length} events): "${query}"`, { project_id: actualProjectId });
 
+  // A fresh budget applies to the resumed run (defaults to the one the session started with)
+  const actualBudget: ExplorationBudget = budget || sessionEvent?.output.budget || {};
+
+  return runExploration(query, actualProjectId, sessionId, stream, actualBudget, true);
+}
+
+/**
+ * Run (or resume) synthesis and the loop against a session's stream
+ */
+async function runExploration(
+  query: string,
+  projectId: string,
+  sessionId: string,
+  stream: ExplorationStream,
+  budget: ExplorationBudget,
+  resume: boolean
+): Promise<ExplorationResult> {
   const startTime = Date.now();
+  const tracker = new BudgetTracker(budget, stream);
+  const log = getLogger('orchestrator', { session_id: sessionId });
 
   try {
     // Start Synthesis Agent (runs in background, watches for findings)
-    const synthesis = new IncrementalSynthesisAgent(query, stream);
-    await synthesis.start();
+    const synthesis = new IncrementalSynthesisAgent(query, stream, tracker);
+    if (resume) {
+      await synthesis.restore();
+    } else {
+      await synthesis.start();
+    }
     
     // Create update interval for synthesis (check every 2 seconds)
     const synthesisUpdateInterval = setInterval(async () => {
       try {
         await synthesis.checkForUpdates();
       } catch (error) {
-        console.error('[Synthesis] Error during update:', error);
+        log.error('Synthesis update failed', { error });
       }
     }, 2000);
     
     // Run Loop Manager (Discovery → Judges → Workers, iteratively)
-    const loopManager = new LoopManager(query, actualProjectId, stream);
-    await loopManager.run();
-    
-    // Stop synthesis updates
-    clearInterval(synthesisUpdateInterval);
+    const loopManager = new LoopManager(query, projectId, stream, tracker);
+    try {
+      if (resume) {
+        await loopManager.resume();
+      } else {
+        await loopManager.run();
+      }
+    } finally {
+      // Stop synthesis updates - also when the loop throws
+      clearInterval(synthesisUpdateInterval);
+    }
     
     // Final update check
     await synthesis.checkForUpdates();
@@ -65,18 +147,11 @@ export async function exploreIterative(
     
     // Get statistics
     const stats = await loopManager.getStats();
+    const usage = await tracker.recordSummary();
     
-    // Summary
-    const totalTime = Date.now() - startTime;
-    console.log('\n' + '='.repeat(80));
-    console.log('EXPLORATION COMPLETE');
-    console.log('='.repeat(80));
-    console.log(`Total time: ${(totalTime / 1000).toFixed(1)}s`);
-    console.log(`Iterations: ${stats.iterations}`);
-    console.log(`Interactions found: ${stats.total_interactions_found}`);
-    console.log(`Findings extracted: ${stats.total_findings}`);
-    console.log(`Leads discovered: ${stats.total_leads_discovered}`);
-    console.log('='.repeat(80) + '\n');
+    log.info(`Exploration complete: ${stats.iterations} iterations, ${stats.total_findings} findings, ${stats.total_leads_discovered} leads`, {
+      duration_ms: Date.now() - startTime
+    });
 
     // Get audit trail
     const auditTrail = await stream.read();
@@ -84,17 +159,13 @@ export async function exploreIterative(
     return {
       brief,
       sessionId,
-      streamUrl: `https://s2.dev/streams/${sessionId}`,
-      auditTrail
+      streamUrl: getStreamUrl(sessionId),
+      auditTrail,
+      usage
     };
 
   } catch (error) {
-    const totalTime = Date.now() - startTime;
-    console.error('\n✗ EXPLORATION FAILED');
-    console.error('='.repeat(80));
-    console.error('Error:', error);
-    console.error(`Time before failure: ${(totalTime / 1000).toFixed(1)}s`);
-    console.error('='.repeat(80) + '\n');
+    log.error('Exploration failed', { error, duration_ms: Date.now() - startTime });
     throw error;
   }
 }
@@ -121,11 +192,11 @@ export async function getIterativeExplorationSession(sessionId: string): Promise
     return {
       brief,
       sessionId,
-      streamUrl: `https://s2.dev/streams/${sessionId}`,
+      streamUrl: getStreamUrl(sessionId),
       auditTrail
     };
   } catch (error) {
-    console.error('[GetSession] Error:', error);
+    getLogger('orchestrator', { session_id: sessionId }).error('Could not read session', { error });
     return null;
   }
 }
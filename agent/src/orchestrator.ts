@@ -1,5 +1,7 @@
-import { createExplorationStream, ExplorationStream } from './s2/client';
-import { ExplorationResult } from './types';
+import { getLogger } from '@tig/shared';
+import { createExplorationStream, getStreamUrl, ExplorationStream } from './s2/client';
+import { ExplorationResult, ExplorationBudget } from './types';
+import { BudgetTracker } from './budget';
 import { discoveryAgent } from './agents/discovery';
 import { threadFollowingAgent } from './agents/threadFollowing';
 import { knowledgeMiningAgent } from './agents/knowledgeMining';
@@ -16,7 +18,9 @@ import { synthesisAgent } from './agents/synthesis';
  */
 export async function explore(
   query: string,
-  projectId?: string
+  projectId?: string,
+  budget?: ExplorationBudget,
+  existingStream?: ExplorationStream // Write to this session instead of creating one (e.g. one the HTTP server is following)
 ): Promise<ExplorationResult> {
   // Use TEST_PROJECT_ID from env if not provided
   const actualProjectId = projectId || process.env.TEST_PROJECT_ID;
@@ -25,107 +29,35 @@ export async function explore(
     throw new Error('Project ID is required. Set TEST_PROJECT_ID environment variable or pass projectId parameter.');
   }
   // Create S2 stream for this exploration session
-  const sessionId = `explore-${Date.now()}`;
-  const stream = createExplorationStream(sessionId);
+  const stream = existingStream || createExplorationStream(`explore-${Date.now()}`);
+  const sessionId = stream.sessionId;
+  const tracker = new BudgetTracker(budget || {}, stream);
 
-  console.log('\n' + '='.repeat(80));
-  console.log(`UNIT67 EXPLORATION`);
-  console.log('='.repeat(80));
-  console.log(`Query: "${query}"`);
-  console.log(`Project ID: ${actualProjectId}`);
-  console.log(`Session: ${sessionId}`);
-  console.log('='.repeat(80) + '\n');
+  const log = getLogger('orchestrator', { session_id: sessionId });
+
+  log.info(`Starting exploration: "${query}"`, { project_id: actualProjectId });
 
   try {
     // PHASE 1: Discovery (sequential - must find seeds first)
-    console.log('PHASE 1: DISCOVERY');
-    console.log('-'.repeat(80));
-    const discoveryStart = Date.now();
-    
-    await discoveryAgent(query, stream, actualProjectId);
-    
-    const discoveryTime = Date.now() - discoveryStart;
-    console.log(`✓ Discovery complete (${(discoveryTime / 1000).toFixed(1)}s)\n`);
+    await log.span('discovery', () => discoveryAgent(query, stream, actualProjectId));
 
     // PHASE 2: Parallel Exploration (all agents run simultaneously)
-    console.log('PHASE 2: PARALLEL EXPLORATION');
-    console.log('-'.repeat(80));
-    const parallelStart = Date.now();
-
-    // Track individual agent timings
-    const agentTimings: { [key: string]: number } = {};
-
-    await Promise.all([
-      (async () => {
-        const start = Date.now();
-        try {
-          await threadFollowingAgent(stream, actualProjectId);
-          agentTimings.threadFollowing = Date.now() - start;
-          console.log(`✓ Thread Following complete (${(agentTimings.threadFollowing / 1000).toFixed(1)}s)`);
-        } catch (err: any) {
-          agentTimings.threadFollowing = Date.now() - start;
-          console.error(`✗ Thread Following failed after ${(agentTimings.threadFollowing / 1000).toFixed(1)}s:`, err.message);
-        }
-      })(),
-      
-      (async () => {
-        const start = Date.now();
-        try {
-          await knowledgeMiningAgent(stream, actualProjectId);
-          agentTimings.knowledgeMining = Date.now() - start;
-          console.log(`✓ Knowledge Mining complete (${(agentTimings.knowledgeMining / 1000).toFixed(1)}s)`);
-        } catch (err: any) {
-          agentTimings.knowledgeMining = Date.now() - start;
-          console.error(`✗ Knowledge Mining failed after ${(agentTimings.knowledgeMining / 1000).toFixed(1)}s:`, err.message);
-        }
-      })(),
-      
-      (async () => {
-        const start = Date.now();
-        try {
-          await temporalContextAgent(stream, actualProjectId);
-          agentTimings.temporalContext = Date.now() - start;
-          console.log(`✓ Temporal Context complete (${(agentTimings.temporalContext / 1000).toFixed(1)}s)`);
-        } catch (err: any) {
-          agentTimings.temporalContext = Date.now() - start;
-          console.error(`✗ Temporal Context failed after ${(agentTimings.temporalContext / 1000).toFixed(1)}s:`, err.message);
-        }
-      })()
-    ]);
-
-    const parallelTime = Date.now() - parallelStart;
-    
-    // Find the slowest agent (bottleneck)
-    const slowestAgent = Object.entries(agentTimings).reduce((prev, curr) => 
-      curr[1] > prev[1] ? curr : prev
-    );
-    
-    console.log(`\n✓ Parallel phase complete (${(parallelTime / 1000).toFixed(1)}s)`);
-    console.log(`  Agent timings:`);
-    console.log(`    - Thread Following: ${(agentTimings.threadFollowing / 1000).toFixed(1)}s`);
-    console.log(`    - Knowledge Mining: ${(agentTimings.knowledgeMining / 1000).toFixed(1)}s`);
-    console.log(`    - Temporal Context: ${(agentTimings.temporalContext / 1000).toFixed(1)}s`);
-    console.log(`  Bottleneck: ${slowestAgent[0]} (${(slowestAgent[1] / 1000).toFixed(1)}s)\n`);
+    // A failing agent is logged and skipped - synthesis works with whatever the others found
+    const runAgent = (name: string, run: () => Promise<void>) =>
+      log.span(name, run).catch(error => {
+        log.error(`${name} failed`, { error });
+      });
+
+    await log.span('parallel', () => Promise.all([
+      runAgent('thread_following', () => threadFollowingAgent(stream, actualProjectId)),
+      runAgent('knowledge_mining', () => knowledgeMiningAgent(stream, actualProjectId, tracker)),
+      runAgent('temporal_context', () => temporalContextAgent(stream, actualProjectId))
+    ]));
 
     // PHASE 3: Synthesis (sequential - needs all findings)
-    console.log('PHASE 3: SYNTHESIS');
-    console.log('-'.repeat(80));
-    const synthesisStart = Date.now();
-    
-    const brief = await synthesisAgent(stream, actualProjectId, query);
-    
-    const synthesisTime = Date.now() - synthesisStart;
-    console.log(`✓ Synthesis complete (${(synthesisTime / 1000).toFixed(1)}s)\n`);
+    const brief = await log.span('synthesis', () => synthesisAgent(stream, actualProjectId, query, tracker));
 
-    // Summary
-    const totalTime = Date.now() - (discoveryStart - discoveryTime + parallelStart - parallelTime + synthesisStart - synthesisTime);
-    console.log('EXPLORATION COMPLETE');
-    console.log('-'.repeat(80));
-    console.log(`Total time: ${(totalTime / 1000).toFixed(1)}s`);
-    console.log(`  Discovery: ${(discoveryTime / 1000).toFixed(1)}s`);
-    console.log(`  Parallel: ${(parallelTime / 1000).toFixed(1)}s`);
-    console.log(`  Synthesis: ${(synthesisTime / 1000).toFixed(1)}s`);
-    console.log('='.repeat(80) + '\n');
+    const usage = await tracker.recordSummary();
 
     // Get audit trail
     const auditTrail = await stream.read();
@@ -133,15 +65,13 @@ export async function explore(
     return {
       brief,
       sessionId,
-      streamUrl: `https://s2.dev/streams/${sessionId}`,
-      auditTrail
+      streamUrl: getStreamUrl(sessionId),
+      auditTrail,
+      usage
     };
 
   } catch (error) {
-    console.error('\n✗ EXPLORATION FAILED');
-    console.error('='.repeat(80));
-    console.error('Error:', error);
-    console.error('='.repeat(80) + '\n');
+    log.error('Exploration failed', { error });
     throw error;
   }
 }
@@ -168,11 +98,11 @@ export async function getExplorationSession(sessionId: string): Promise<Explorat
     return {
       brief,
       sessionId,
-      streamUrl: `https://s2.dev/streams/${sessionId}`,
+      streamUrl: getStreamUrl(sessionId),
       auditTrail
     };
   } catch (error) {
-    console.error('[GetSession] Error:', error);
+    getLogger('orchestrator', { session_id: sessionId }).error('Could not read session', { error });
     return null;
   }
 }
@@ -1,7 +1,88 @@
 import { S2 } from '@s2-dev/streamstore';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
 import { ExplorationEvent } from '../types';
-import { IExplorationStream, StreamFilter } from './types';
-import { S2_CONFIG } from '../config';
+import { IExplorationStream, StreamFilter, StreamPage, SubscribeOptions } from './types';
+import { S2_CONFIG, FILE_STREAM_CONFIG } from '../config';
+
+const DEFAULT_POLL_INTERVAL_MS = 250;
+const S2_READ_PAGE_SIZE = 1000; // S2 caps a single read at 1000 records
+const FILE_LOCK_RETRY_MS = 10;
+const FILE_LOCK_STALE_MS = 10000; // A lock this old was left behind by a crashed process
+
+/**
+ * A new event ID - random, since agents in several processes append to one stream
+ * and a timestamp or per-process counter can repeat
+ */
+function newEventId(agent: string): string {
+  return `${agent}-${randomUUID()}`;
+}
+
+/**
+ * Apply a stream filter to an ordered list of events
+ */
+function filterEvents(events: ExplorationEvent[], filter?: StreamFilter): ExplorationEvent[] {
+  let filtered = events;
+
+  if (filter?.since_id) {
+    const idx = filtered.findIndex(e => e.event_id === filter.since_id);
+    if (idx !== -1) {
+      filtered = filtered.slice(idx + 1);
+    }
+  }
+
+  if (filter?.agent) {
+    filtered = filtered.filter(e => e.agent === filter.agent);
+  }
+
+  if (filter?.agent_prefix) {
+    filtered = filtered.filter(e => e.agent.startsWith(filter.agent_prefix!));
+  }
+
+  if (filter?.action) {
+    const actions = Array.isArray(filter.action) ? filter.action : [filter.action];
+    filtered = filtered.filter(e => actions.includes(e.action));
+  }
+
+  return filtered;
+}
+
+/**
+ * Follow a stream from a sequence number, yielding matching events as they are appended.
+ * Shared by every backend - each poll only fetches events past the cursor.
+ */
+async function* followStream(
+  stream: IExplorationStream,
+  filter?: StreamFilter,
+  options?: SubscribeOptions
+): AsyncIterableIterator<ExplorationEvent> {
+  let seq = options?.from_seq ?? 0;
+  const pollInterval = options?.poll_interval_ms ?? DEFAULT_POLL_INTERVAL_MS;
+
+  while (!options?.signal?.aborted) {
+    const page = await stream.readFrom(seq, filter);
+    seq = page.next_seq;
+
+    for (const event of page.events) {
+      yield event;
+    }
+
+    if (page.events.length === 0) {
+      await sleep(pollInterval, options?.signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
 
 /**
  * In-Memory Stream (fallback when S2 is not configured)
@@ -10,15 +91,13 @@ class InMemoryStream implements IExplorationStream {
   public sessionId: string;
   private events: ExplorationEvent[] = [];
   private storage: Map<string, any> = new Map();
-  private eventCounter = 0;
 
   constructor(sessionId: string) {
     this.sessionId = sessionId;
   }
 
   async append(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>): Promise<string> {
-    this.eventCounter++;
-    const event_id = `${event.agent}-${this.eventCounter}`;
+    const event_id = newEventId(event.agent);
     const fullEvent: ExplorationEvent = {
       ...event,
       event_id,
@@ -28,21 +107,27 @@ class InMemoryStream implements IExplorationStream {
     return event_id;
   }
 
-  async read(filter?: StreamFilter): Promise<ExplorationEvent[]> {
-    let filtered = this.events;
-
-    if (filter?.agent) {
-      filtered = filtered.filter(e => e.agent === filter.agent);
+  async appendIf(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>, expectedSeq: number): Promise<string | null> {
+    // Check and append happen in the same tick, so nothing can interleave
+    if (this.events.length !== expectedSeq) {
+      return null;
     }
+    return this.append(event);
+  }
 
-    if (filter?.since_id) {
-      const idx = this.events.findIndex(e => e.event_id === filter.since_id);
-      if (idx !== -1) {
-        filtered = this.events.slice(idx + 1);
-      }
-    }
+  async read(filter?: StreamFilter): Promise<ExplorationEvent[]> {
+    return filterEvents(this.events, filter);
+  }
+
+  async readFrom(seq: number, filter?: StreamFilter): Promise<StreamPage> {
+    return {
+      events: filterEvents(this.events.slice(seq), filter),
+      next_seq: this.events.length
+    };
+  }
 
-    return filtered;
+  subscribe(filter?: StreamFilter, options?: SubscribeOptions): AsyncIterableIterator<ExplorationEvent> {
+    return followStream(this, filter, options);
   }
 
   async put(key: string, data: any): Promise<string> {
@@ -72,7 +157,7 @@ class S2Stream implements IExplorationStream {
   }
 
   async append(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>): Promise<string> {
-    const event_id = `${event.agent}-${Date.now()}`;
+    const event_id = newEventId(event.agent);
     const fullEvent: ExplorationEvent = {
       ...event,
       event_id,
@@ -93,55 +178,51 @@ class S2Stream implements IExplorationStream {
     return event_id;
   }
 
-  async read(filter?: StreamFilter): Promise<ExplorationEvent[]> {
-    // Read from S2 stream using batch API (seqNum: 0 + count)
-    // Without these params, read() tries to tail from current position → 416 error
-    
+  async appendIf(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>, expectedSeq: number): Promise<string | null> {
+    const event_id = newEventId(event.agent);
+    const fullEvent: ExplorationEvent = {
+      ...event,
+      event_id,
+      timestamp: Date.now()
+    };
+
+    // S2 rejects the append (HTTP 412) unless the record would land at matchSeqNum
     try {
-      const batch = await this.client.records.read({
+      await this.client.records.append({
         stream: this.sessionId,
         s2Basin: this.basin,
-        seqNum: 0,  // Start from beginning
-        count: 10000 // Max records to fetch
-      }) as any;
-
-      const events: ExplorationEvent[] = [];
-      
-      // Process batch records
-      if (batch.records && Array.isArray(batch.records)) {
-        for (const record of batch.records) {
-          try {
-            const parsedEvent = JSON.parse(record.body);
-            events.push(parsedEvent);
-          } catch (e) {
-            // Skip invalid records
-          }
-        }
-      }
-
-      // Apply filters
-      let filtered = events;
-      
-      if (filter?.agent) {
-        filtered = filtered.filter(e => e.agent === filter.agent);
-      }
-      
-      if (filter?.since_id) {
-        const idx = events.findIndex(e => e.event_id === filter.since_id);
-        if (idx !== -1) {
-          filtered = events.slice(idx + 1);
+        appendInput: {
+          records: [{
+            body: JSON.stringify(fullEvent)
+          }],
+          matchSeqNum: expectedSeq
         }
-      }
-
-      return filtered;
+      });
     } catch (error: any) {
-      // HTTP 416 (TailResponse) can still happen if stream doesn't exist
-      if (error.statusCode === 416 || error.constructor?.name === 'TailResponse') {
-        return [];
+      if (error.statusCode === 412 || error.constructor?.name === 'AppendConditionFailed') {
+        return null;
       }
-      // Re-throw other errors
       throw error;
     }
+
+    return event_id;
+  }
+
+  async read(filter?: StreamFilter): Promise<ExplorationEvent[]> {
+    const { records } = await this.readRecords(this.sessionId, 0);
+    return filterEvents(records, filter);
+  }
+
+  async readFrom(seq: number, filter?: StreamFilter): Promise<StreamPage> {
+    const { records, nextSeq } = await this.readRecords(this.sessionId, seq);
+    return {
+      events: filterEvents(records, filter),
+      next_seq: nextSeq
+    };
+  }
+
+  subscribe(filter?: StreamFilter, options?: SubscribeOptions): AsyncIterableIterator<ExplorationEvent> {
+    return followStream(this, filter, options);
   }
 
   async put(key: string, data: any): Promise<string> {
@@ -166,53 +247,354 @@ class S2Stream implements IExplorationStream {
   }
 
   async get(storageKey: string): Promise<any> {
-    // Retrieve from S2 storage stream using batch API
-    const storageStream = `storage-${this.sessionId}`;
-    
-    try {
-      const batch = await this.client.records.read({
-        stream: storageStream,
-        s2Basin: this.basin,
-        seqNum: 0,
-        count: 10000
-      }) as any;
-
-      // Process batch records
-      if (batch.records && Array.isArray(batch.records)) {
-        for (const record of batch.records) {
-          try {
-            const stored = JSON.parse(record.body);
-            if (stored.key === storageKey) {
-              return stored.data;
-            }
-          } catch (e) {
-            // Skip invalid records
-          }
+    // Retrieve from S2 storage stream - later puts for the same key win
+    const { records } = await this.readRecords(`storage-${this.sessionId}`, 0);
+
+    let found = false;
+    let data: any;
+    for (const stored of records) {
+      if (stored.key === storageKey) {
+        found = true;
+        data = stored.data;
+      }
+    }
+
+    if (!found) {
+      throw new Error(`Storage key not found: ${storageKey}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Page through a stream from a sequence number up to its current tail
+   * (batch API with seqNum + count - without them read() tries to tail → 416 error)
+   */
+  private async readRecords(stream: string, seq: number): Promise<{ records: any[]; nextSeq: number }> {
+    const records: any[] = [];
+    let cursor = seq;
+
+    while (true) {
+      let batch: any;
+      try {
+        batch = await this.client.records.read({
+          stream,
+          s2Basin: this.basin,
+          seqNum: cursor,
+          count: S2_READ_PAGE_SIZE
+        });
+      } catch (error: any) {
+        // HTTP 416 (TailResponse) means we're at the tail, or the stream doesn't exist yet
+        if (error.statusCode === 416 || error.constructor?.name === 'TailResponse') {
+          break;
         }
+        // Re-throw other errors
+        throw error;
+      }
+
+      const page = batch?.records && Array.isArray(batch.records) ? batch.records : [];
+      if (page.length === 0) {
+        break;
+      }
+
+      for (const record of page) {
+        try {
+          records.push(JSON.parse(record.body));
+        } catch (e) {
+          // Skip invalid records
+        }
+      }
+
+      cursor = page[page.length - 1].seqNum + 1;
+    }
+
+    return { records, nextSeq: cursor };
+  }
+}
+
+/**
+ * File Stream (local persistence when S2 is not configured)
+ *
+ * Each session lives in its own directory:
+ *   events.jsonl          - append-only event log, one ExplorationEvent per line
+ *   storage.jsonl         - append-only index of storage key → blob hash
+ *   blobs/<sha256>.json   - content-addressed put() payloads
+ *
+ * Reads tail the log from the last byte offset seen, so the same session can be
+ * replayed (or followed) by another process after a restart.
+ */
+class FileStream implements IExplorationStream {
+  public sessionId: string;
+  private sessionDir: string;
+  private events: ExplorationEvent[] = [];
+  private bytesRead = 0;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private syncQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(sessionId: string, directory: string) {
+    this.sessionId = sessionId;
+    this.sessionDir = getSessionDirectory(directory, sessionId);
+  }
+
+  private get eventsPath(): string {
+    return path.join(this.sessionDir, 'events.jsonl');
+  }
+
+  private get storageIndexPath(): string {
+    return path.join(this.sessionDir, 'storage.jsonl');
+  }
+
+  private get blobsDir(): string {
+    return path.join(this.sessionDir, 'blobs');
+  }
+
+  async append(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>): Promise<string> {
+    const event_id = await this.appendAt(event, null);
+    return event_id!;
+  }
+
+  async appendIf(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>, expectedSeq: number): Promise<string | null> {
+    return this.appendAt(event, expectedSeq);
+  }
+
+  /**
+   * Append under the lock, optionally only if the log still ends at expectedSeq
+   */
+  private appendAt(
+    event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>,
+    expectedSeq: number | null
+  ): Promise<string | null> {
+    return this.enqueueWrite(() => this.withLock(async () => {
+      // Catch up with the log first so expectedSeq is checked against the persisted sequence
+      const events = await this.sync();
+      if (expectedSeq !== null && events.length !== expectedSeq) {
+        return null;
       }
+
+      const event_id = newEventId(event.agent);
+      const fullEvent: ExplorationEvent = {
+        ...event,
+        event_id,
+        timestamp: Date.now()
+      };
+
+      await fs.appendFile(this.eventsPath, JSON.stringify(fullEvent) + '\n');
+      await this.sync();
+
+      return event_id;
+    }));
+  }
+
+  async read(filter?: StreamFilter): Promise<ExplorationEvent[]> {
+    const events = await this.sync();
+    return filterEvents(events, filter);
+  }
+
+  async readFrom(seq: number, filter?: StreamFilter): Promise<StreamPage> {
+    const events = await this.sync();
+    return {
+      events: filterEvents(events.slice(seq), filter),
+      next_seq: events.length
+    };
+  }
+
+  subscribe(filter?: StreamFilter, options?: SubscribeOptions): AsyncIterableIterator<ExplorationEvent> {
+    return followStream(this, filter, options);
+  }
+
+  async put(key: string, data: any): Promise<string> {
+    const storageKey = `${this.sessionId}:${key}`;
+    const body = JSON.stringify(data === undefined ? null : data);
+    const hash = createHash('sha256').update(body).digest('hex');
+
+    await this.enqueueWrite(async () => {
+      await fs.mkdir(this.blobsDir, { recursive: true });
+
+      // Identical payloads share a blob; write via rename so readers never see a partial file
+      const blobPath = path.join(this.blobsDir, `${hash}.json`);
+      if (!(await pathExists(blobPath))) {
+        const tmpPath = `${blobPath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, body);
+        await fs.rename(tmpPath, blobPath);
+      }
+
+      await fs.appendFile(this.storageIndexPath, JSON.stringify({ key: storageKey, hash }) + '\n');
+    });
+
+    return storageKey;
+  }
+
+  async get(storageKey: string): Promise<any> {
+    let index: string;
+    try {
+      index = await fs.readFile(this.storageIndexPath, 'utf8');
     } catch (error: any) {
-      // HTTP 416 (TailResponse) means stream is empty - key doesn't exist
-      if (error.statusCode === 416 || error.constructor?.name === 'TailResponse') {
+      if (error.code === 'ENOENT') {
         throw new Error(`Storage key not found: ${storageKey}`);
       }
-      // Re-throw other errors
       throw error;
     }
 
-    // Not found
-    throw new Error(`Storage key not found: ${storageKey}`);
+    // Later puts for the same key win
+    let hash: string | null = null;
+    for (const line of index.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (entry.key === storageKey) {
+          hash = entry.hash;
+        }
+      } catch (e) {
+        // Skip torn or invalid index lines
+      }
+    }
+
+    if (!hash) {
+      throw new Error(`Storage key not found: ${storageKey}`);
+    }
+
+    const body = await fs.readFile(path.join(this.blobsDir, `${hash}.json`), 'utf8');
+    return JSON.parse(body);
+  }
+
+  /**
+   * Read any log lines appended since the last sync (by this or another process)
+   */
+  private sync(): Promise<ExplorationEvent[]> {
+    // Overlapping syncs would read the same byte range twice, so run them one at a time
+    const result = this.syncQueue.then(() => this.readNewLines());
+    this.syncQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readNewLines(): Promise<ExplorationEvent[]> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.eventsPath, 'r');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return this.events;
+      }
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size <= this.bytesRead) {
+        return this.events;
+      }
+
+      const buffer = Buffer.alloc(size - this.bytesRead);
+      await handle.read(buffer, 0, buffer.length, this.bytesRead);
+
+      // Only consume complete lines - a concurrent writer may be mid-append
+      const end = buffer.lastIndexOf(0x0a);
+      if (end === -1) {
+        return this.events;
+      }
+
+      for (const line of buffer.subarray(0, end).toString('utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.events.push(JSON.parse(line));
+        } catch (e) {
+          // Skip invalid records
+        }
+      }
+      this.bytesRead += end + 1;
+
+      return this.events;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Hold the session's lock file while appending, so the check in appendIf()
+   * and the write are atomic across processes sharing the directory
+   */
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    await fs.mkdir(this.sessionDir, { recursive: true });
+    const lockPath = path.join(this.sessionDir, 'events.lock');
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+        try {
+          const { mtimeMs } = await fs.stat(lockPath);
+          if (Date.now() - mtimeMs > FILE_LOCK_STALE_MS) {
+            await fs.rm(lockPath, { force: true });
+            continue;
+          }
+        } catch (e) {
+          // Lock was released between open and stat - retry immediately
+          continue;
+        }
+        await new Promise(resolve => setTimeout(resolve, FILE_LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await task();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Serialize writes from this process so events land in the order they were appended
+   */
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
   }
 }
 
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the on-disk directory for a session (session IDs are sanitized for the filesystem)
+ */
+function getSessionDirectory(directory: string, sessionId: string): string {
+  return path.resolve(directory, sessionId.replace(/[^A-Za-z0-9._-]/g, '_'));
+}
+
 /**
  * Factory function to create appropriate stream based on configuration
  */
 export function createExplorationStream(sessionId: string): IExplorationStream {
   if (S2_CONFIG.enabled && S2_CONFIG.accessToken && S2_CONFIG.basin) {
     return new S2Stream(sessionId, S2_CONFIG.accessToken, S2_CONFIG.basin);
+  } else if (FILE_STREAM_CONFIG.enabled && FILE_STREAM_CONFIG.directory) {
+    return new FileStream(sessionId, FILE_STREAM_CONFIG.directory);
   } else {
     return new InMemoryStream(sessionId);
   }
 }
 
+/**
+ * Location of a session's audit trail for the configured backend
+ */
+export function getStreamUrl(sessionId: string): string {
+  if (!(S2_CONFIG.enabled && S2_CONFIG.accessToken && S2_CONFIG.basin) &&
+      FILE_STREAM_CONFIG.enabled && FILE_STREAM_CONFIG.directory) {
+    return `file://${getSessionDirectory(FILE_STREAM_CONFIG.directory, sessionId)}`;
+  }
+  return `https://s2.dev/streams/${sessionId}`;
+}
+
 export type ExplorationStream = IExplorationStream;
@@ -1,16 +1,47 @@
-import { ExplorationEvent } from '../types';
+import { ExplorationEvent, WorkItem } from '../types';
 
 export interface StreamFilter {
   agent?: string;
+  agent_prefix?: string; // e.g. 'worker_' to match every worker
+  action?: string | string[];
   since_id?: string;
 }
 
+/**
+ * Page of events returned by readFrom()
+ * next_seq is the cursor to pass to the following readFrom() call
+ */
+export interface StreamPage {
+  events: ExplorationEvent[];
+  next_seq: number;
+}
+
+export interface SubscribeOptions {
+  from_seq?: number; // Defaults to 0 (replay the whole log, then follow)
+  poll_interval_ms?: number;
+  signal?: AbortSignal; // Ends the subscription
+}
+
+/**
+ * A lease on a queued work item, held by whoever appended the claim_work event
+ * The lease is identified by that event's ID and lapses unless renewed by heartbeat
+ */
+export interface WorkClaim {
+  claim_id: string;
+  queue_event_id: string;
+  item: WorkItem;
+  lease_expires_at: number;
+}
+
 export interface IExplorationStream {
   sessionId: string;
-  
+
   append(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>): Promise<string>;
+  // Compare-and-append: only appends if the stream's next sequence number is still expectedSeq (null otherwise)
+  appendIf(event: Omit<ExplorationEvent, 'event_id' | 'timestamp'>, expectedSeq: number): Promise<string | null>;
   read(filter?: StreamFilter): Promise<ExplorationEvent[]>;
+  readFrom(seq: number, filter?: StreamFilter): Promise<StreamPage>;
+  subscribe(filter?: StreamFilter, options?: SubscribeOptions): AsyncIterableIterator<ExplorationEvent>;
   put(key: string, data: any): Promise<string>;
   get(storageKey: string): Promise<any>;
 }
-
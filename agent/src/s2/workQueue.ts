@@ -0,0 +1,247 @@
+import { ExplorationEvent, WorkItem } from '../types';
+import { IExplorationStream, WorkClaim } from './types';
+import { WORK_QUEUE_CONFIG } from '../config';
+
+interface ClaimState {
+  claim_id: string;
+  lease_expires_at: number;
+}
+
+/**
+ * Investigation queue built on the exploration stream
+ *
+ * The queue is a fold over four event types:
+ *   add_to_queue   - judge enqueues a WorkItem
+ *   claim_work     - worker takes a lease on it (references the queue event)
+ *   heartbeat_work - holder extends its lease (references the claim event)
+ *   complete_work  - holder finished, item is never handed out again
+ *   release_work   - claim dropped without finishing (e.g. on resume)
+ *
+ * Claims are written with compare-and-append against the sequence number the
+ * queue was folded up to, so two workers can never both claim from the same view.
+ * A claim whose lease lapses (worker crashed) is handed out again; after that
+ * only the new claim's heartbeats, completion and release count.
+ */
+export class WorkQueue {
+  private cursor: number = 0;
+  private items: Map<string, WorkItem> = new Map(); // queue event ID → item
+  private claims: Map<string, ClaimState> = new Map(); // queue event ID → current claim
+  private claimToItem: Map<string, string> = new Map(); // claim event ID → queue event ID
+  private completed: Set<string> = new Set();
+
+  constructor(private stream: IExplorationStream) {}
+
+  /**
+   * Claim the highest priority available item, or null if nothing is available
+   */
+  async claim(agent: string): Promise<WorkClaim | null> {
+    while (true) {
+      await this.sync();
+
+      const available = this.getAvailable();
+      if (available.length === 0) {
+        return null;
+      }
+
+      const [queueEventId, item] = available[0];
+      const leaseExpiresAt = Date.now() + WORK_QUEUE_CONFIG.leaseMs;
+
+      const claimId = await this.stream.appendIf({
+        agent,
+        phase: 'investigation',
+        action: 'claim_work',
+        output: {
+          interaction_id: item.interaction_id,
+          conversation_id: item.conversation_id,
+          priority: item.priority,
+          lease_expires_at: leaseExpiresAt
+        },
+        references: [queueEventId]
+      }, this.cursor);
+
+      if (claimId) {
+        await this.sync();
+        return {
+          claim_id: claimId,
+          queue_event_id: queueEventId,
+          item,
+          lease_expires_at: leaseExpiresAt
+        };
+      }
+
+      // Someone appended since our last sync - re-read and try again
+    }
+  }
+
+  /**
+   * Extend a claim's lease
+   */
+  async heartbeat(agent: string, claim: WorkClaim): Promise<void> {
+    claim.lease_expires_at = Date.now() + WORK_QUEUE_CONFIG.leaseMs;
+
+    await this.stream.append({
+      agent,
+      phase: 'investigation',
+      action: 'heartbeat_work',
+      output: {
+        interaction_id: claim.item.interaction_id,
+        lease_expires_at: claim.lease_expires_at
+      },
+      references: [claim.claim_id]
+    });
+  }
+
+  /**
+   * Mark a claimed item as done
+   */
+  async complete(agent: string, claim: WorkClaim): Promise<void> {
+    await this.stream.append({
+      agent,
+      phase: 'investigation',
+      action: 'complete_work',
+      output: {
+        interaction_id: claim.item.interaction_id,
+        conversation_id: claim.item.conversation_id
+      },
+      references: [claim.claim_id]
+    });
+  }
+
+  /**
+   * Give a claimed item back unfinished, so it can be claimed again immediately
+   */
+  async release(agent: string, claim: WorkClaim): Promise<void> {
+    await this.appendRelease(agent, claim.claim_id, claim.item.interaction_id);
+  }
+
+  /**
+   * Drop every claim that hasn't completed, live lease or not
+   * Only safe when no other worker is running - i.e. when resuming a dead session
+   */
+  async releaseOpenClaims(agent: string): Promise<number> {
+    await this.sync();
+
+    let released = 0;
+    for (const [queueEventId, claim] of this.claims) {
+      if (this.completed.has(queueEventId)) continue;
+
+      await this.appendRelease(agent, claim.claim_id, this.items.get(queueEventId)?.interaction_id);
+      released++;
+    }
+
+    await this.sync();
+    return released;
+  }
+
+  private async appendRelease(agent: string, claimId: string, interactionId?: string): Promise<void> {
+    await this.stream.append({
+      agent,
+      phase: 'investigation',
+      action: 'release_work',
+      output: {
+        interaction_id: interactionId
+      },
+      references: [claimId]
+    });
+  }
+
+  /**
+   * Number of items that could be claimed right now
+   */
+  async pendingCount(): Promise<number> {
+    await this.sync();
+    return this.getAvailable().length;
+  }
+
+  /**
+   * Items that are not completed, not under a live lease, and whose
+   * conversation isn't already being (or been) investigated - sorted by priority
+   */
+  private getAvailable(): Array<[string, WorkItem]> {
+    const now = Date.now();
+    const isHeld = (queueEventId: string) => {
+      const claim = this.claims.get(queueEventId);
+      return this.completed.has(queueEventId) || (!!claim && claim.lease_expires_at > now);
+    };
+
+    // A thread is investigated as a whole, so one claim covers its conversation
+    const takenConversations = new Set<string>();
+    const takenInteractions = new Set<string>();
+    for (const [queueEventId, item] of this.items) {
+      if (isHeld(queueEventId)) {
+        takenConversations.add(item.conversation_id);
+        takenInteractions.add(item.interaction_id);
+      }
+    }
+
+    return Array.from(this.items.entries())
+      .filter(([queueEventId, item]) =>
+        !isHeld(queueEventId) &&
+        !takenInteractions.has(item.interaction_id) &&
+        !takenConversations.has(item.conversation_id)
+      )
+      .sort((a, b) => b[1].priority - a[1].priority);
+  }
+
+  /**
+   * Fold queue events appended since the last sync
+   */
+  private async sync(): Promise<void> {
+    const page = await this.stream.readFrom(this.cursor, {
+      action: ['add_to_queue', 'claim_work', 'heartbeat_work', 'complete_work', 'release_work']
+    });
+    this.cursor = page.next_seq;
+
+    for (const event of page.events) {
+      this.apply(event);
+    }
+  }
+
+  private apply(event: ExplorationEvent): void {
+    const reference = event.references?.[0];
+
+    switch (event.action) {
+      case 'add_to_queue':
+        this.items.set(event.event_id!, event.output as WorkItem);
+        break;
+
+      case 'claim_work':
+        if (!reference) break;
+        this.claims.set(reference, {
+          claim_id: event.event_id!,
+          // Claims written before leases existed never expire
+          lease_expires_at: event.output.lease_expires_at ?? Infinity
+        });
+        this.claimToItem.set(event.event_id!, reference);
+        break;
+
+      case 'heartbeat_work': {
+        const queueEventId = reference && this.claimToItem.get(reference);
+        const claim = queueEventId && this.claims.get(queueEventId);
+        // Heartbeats from a holder whose lease was already taken over are ignored
+        if (claim && claim.claim_id === reference) {
+          claim.lease_expires_at = event.output.lease_expires_at;
+        }
+        break;
+      }
+
+      case 'complete_work': {
+        const queueEventId = reference && this.claimToItem.get(reference);
+        // A holder whose lease was taken over can't complete the item under the new claim
+        if (queueEventId && this.claims.get(queueEventId)?.claim_id === reference) {
+          this.completed.add(queueEventId);
+        }
+        break;
+      }
+
+      case 'release_work': {
+        const queueEventId = reference && this.claimToItem.get(reference);
+        // Only the current claim can be released - a newer one may have replaced it
+        if (queueEventId && this.claims.get(queueEventId)?.claim_id === reference) {
+          this.claims.delete(queueEventId);
+        }
+        break;
+      }
+    }
+  }
+}
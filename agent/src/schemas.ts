@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for structured LLM output
+ *
+ * Validated by completeStructured() (see @tig/shared). They mirror the interfaces in
+ * types.ts - keep the two in sync.
+ */
+
+export const JudgeScoreSchema = z.object({
+  interaction_id: z.string().min(1),
+  score: z.number().min(0).max(10),
+  reason: z.string()
+});
+
+export const JudgeResponseSchema = z.object({
+  scores: z.array(JudgeScoreSchema)
+});
+
+export const LeadSchema = z.object({
+  type: z.enum(['commit', 'entity', 'person', 'temporal', 'conversation', 'file', 'code', 'pull_request']),
+  value: z.string(),
+  search_query: z.string().min(1),
+  reason: z.string(),
+  priority: z.enum(['high', 'medium', 'low']),
+  context: z.string().optional(),
+  aliases: z.array(z.string()).optional()
+});
+
+export const FindingSchema = z.object({
+  type: z.enum(['decision', 'problem', 'solution', 'technical_detail', 'context']),
+  summary: z.string().min(1),
+  details: z.string(),
+  entities: z.array(z.string()).default([]),
+  relevance_to_query: z.string(),
+  interaction_id: z.string(),
+  author: z.string(),
+  timestamp: z.string(),
+  confidence: z.number().min(0).max(1)
+});
+
+/**
+ * Worker reply - source metadata (interaction_id, author, timestamp) is
+ * attached by the worker afterwards, so the model isn't asked for it
+ */
+export const InvestigationResultSchema = z.object({
+  findings: z.array(FindingSchema.omit({ interaction_id: true, author: true, timestamp: true })),
+  leads: z.array(LeadSchema).default([]),
+  completeness: z.object({
+    score: z.number().min(0).max(1),
+    missing: z.array(z.string()).default([])
+  })
+});
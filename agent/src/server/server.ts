@@ -0,0 +1,314 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { getLogger } from '@tig/shared';
+import { createExplorationStream, getStreamUrl, ExplorationStream } from '../s2/client';
+import { SERVER_CONFIG } from '../config';
+import { ENGINE_NAMES, EngineName, ExplorationRequest, runEngine } from '../engines';
+
+/**
+ * Exploration HTTP API
+ *
+ *   POST /explorations             { query, engine?, project_id?, budget? } → 202 + session
+ *                                  (429 while SERVER_CONFIG.maxRunningSessions are running)
+ *   GET  /explorations/:id         session status, with the result once complete
+ *   GET  /explorations/:id/events  server-sent events: every ExplorationEvent as it is
+ *                                  appended (replayed from the start, or from Last-Event-ID)
+ *
+ * Each exploration runs in the background on its own stream. When it settles the
+ * server appends exploration_complete / exploration_failed, which ends SSE responses.
+ * Sessions are tracked in memory: a finished one is forgotten after
+ * SERVER_CONFIG.sessionTtlMs, and all are gone after a restart even when the
+ * stream itself persisted (S2, EXPLORATION_STREAM_DIR).
+ */
+
+interface ExplorationSession {
+  id: string;
+  engine: EngineName;
+  query: string;
+  project_id?: string;
+  status: 'running' | 'complete' | 'failed';
+  created_at: string;
+  completed_at?: string;
+  result?: any;
+  error?: string;
+  stream: ExplorationStream;
+}
+
+const TERMINAL_ACTIONS = ['exploration_complete', 'exploration_failed'];
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const log = getLogger('server');
+
+/**
+ * Error with an HTTP status - anything else thrown by a handler is a 500
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Create the API server (not yet listening)
+ */
+export function createExplorationServer(): http.Server {
+  const sessions = new Map<string, ExplorationSession>();
+
+  return http.createServer((req, res) => {
+    handleRequest(sessions, req, res).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        log.error('Request failed', { error, method: req.method, url: req.url });
+      }
+
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJSON(res, status, { error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+}
+
+/**
+ * Create the API server and listen on the given port and host
+ */
+export function startExplorationServer(
+  port: number = SERVER_CONFIG.port,
+  host: string = SERVER_CONFIG.host
+): Promise<http.Server> {
+  const server = createExplorationServer();
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      log.info(`Exploration API listening on http://${host}:${typeof address === 'object' && address ? address.port : port}`);
+      resolve(server);
+    });
+  });
+}
+
+async function handleRequest(
+  sessions: Map<string, ExplorationSession>,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const [collection, id, sub, ...rest] = url.pathname.split('/').filter(Boolean);
+
+  if (SERVER_CONFIG.corsOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', SERVER_CONFIG.corsOrigin);
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID'
+    });
+    res.end();
+    return;
+  }
+
+  if (collection !== 'explorations' || rest.length > 0 || (sub && sub !== 'events')) {
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  }
+
+  if (!id) {
+    if (req.method !== 'POST') {
+      throw new HttpError(405, 'Use POST /explorations to start an exploration');
+    }
+    const request = parseExplorationRequest(await readJSON(req));
+    const running = Array.from(sessions.values()).filter(s => s.status === 'running').length;
+    if (running >= SERVER_CONFIG.maxRunningSessions) {
+      throw new HttpError(429, `${running} explorations are already running - try again once one finishes`);
+    }
+    const session = startSession(sessions, request);
+    sendJSON(res, 202, describeSession(session));
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    throw new HttpError(405, `Method ${req.method} not allowed`);
+  }
+
+  const session = sessions.get(id);
+  if (!session) {
+    throw new HttpError(404, `Exploration ${id} not found`);
+  }
+
+  if (sub === 'events') {
+    await streamEvents(session, req, res);
+  } else {
+    sendJSON(res, 200, describeSession(session));
+  }
+}
+
+/**
+ * Start an exploration in the background and register its session
+ */
+function startSession(
+  sessions: Map<string, ExplorationSession>,
+  request: ExplorationRequest
+): ExplorationSession {
+  const id = `api-${request.engine}-${Date.now()}-${randomUUID().slice(0, 8)}`;
+  const session: ExplorationSession = {
+    id,
+    engine: request.engine,
+    query: request.query,
+    project_id: request.project_id,
+    status: 'running',
+    created_at: new Date().toISOString(),
+    stream: createExplorationStream(id)
+  };
+  sessions.set(id, session);
+
+  const sessionLog = log.child({ session_id: id });
+  sessionLog.info(`Starting ${request.engine} exploration: "${request.query}"`, { engine: request.engine });
+
+  runEngine(request, session.stream)
+    .then(result => {
+      session.status = 'complete';
+      session.result = result;
+    })
+    .catch(error => {
+      sessionLog.error('Exploration failed', { error });
+      session.status = 'failed';
+      session.error = error instanceof Error ? error.message : String(error);
+    })
+    .then(async () => {
+      session.completed_at = new Date().toISOString();
+
+      await session.stream.append({
+        agent: 'server',
+        phase: 'synthesis',
+        action: session.status === 'complete' ? 'exploration_complete' : 'exploration_failed',
+        output: {
+          engine: session.engine,
+          status: session.status,
+          error: session.error
+        }
+      });
+    })
+    .catch(error => {
+      sessionLog.error('Could not record the outcome', { error });
+    })
+    .then(() => {
+      // Drop the session and its stream once clients have had time to fetch the result
+      setTimeout(() => sessions.delete(id), SERVER_CONFIG.sessionTtlMs).unref();
+    });
+
+  return session;
+}
+
+/**
+ * Follow the session's stream as server-sent events
+ * Event IDs are stream sequence numbers, so a reconnecting EventSource resumes where it left off
+ */
+async function streamEvents(
+  session: ExplorationSession,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const lastEventId = req.headers['last-event-id'];
+  let seq = lastEventId !== undefined ? parseInt(String(lastEventId), 10) + 1 : 0;
+  if (!Number.isInteger(seq) || seq < 0) {
+    throw new HttpError(400, `Invalid Last-Event-ID: ${lastEventId}`);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  const controller = new AbortController();
+  req.on('close', () => controller.abort());
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SERVER_CONFIG.keepAliveMs);
+
+  try {
+    for await (const event of session.stream.subscribe(undefined, { from_seq: seq, signal: controller.signal })) {
+      res.write(`id: ${seq}\ndata: ${JSON.stringify(event)}\n\n`);
+      seq++;
+
+      if (event.agent === 'server' && TERMINAL_ACTIONS.includes(event.action)) {
+        break;
+      }
+    }
+  } catch (error) {
+    log.error('Event stream failed', { error, session_id: session.id });
+    res.write(`event: error\ndata: ${JSON.stringify({ error: error instanceof Error ? error.message : String(error) })}\n\n`);
+  } finally {
+    clearInterval(keepAlive);
+    controller.abort();
+    res.end();
+  }
+}
+
+function describeSession(session: ExplorationSession): Record<string, any> {
+  return {
+    id: session.id,
+    engine: session.engine,
+    query: session.query,
+    project_id: session.project_id,
+    status: session.status,
+    created_at: session.created_at,
+    completed_at: session.completed_at,
+    events_url: `/explorations/${session.id}/events`,
+    stream_url: getStreamUrl(session.id),
+    result: session.result,
+    error: session.error
+  };
+}
+
+function parseExplorationRequest(body: any): ExplorationRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  if (typeof body.query !== 'string' || body.query.trim() === '') {
+    throw new HttpError(400, 'query is required');
+  }
+
+  const engine = body.engine ?? 'iterative';
+  if (!ENGINE_NAMES.includes(engine)) {
+    throw new HttpError(400, `Unknown engine "${engine}" (expected ${ENGINE_NAMES.join(', ')})`);
+  }
+  if (body.project_id !== undefined && typeof body.project_id !== 'string') {
+    throw new HttpError(400, 'project_id must be a string');
+  }
+  if (body.budget !== undefined && (typeof body.budget !== 'object' || body.budget === null || Array.isArray(body.budget))) {
+    throw new HttpError(400, 'budget must be an object');
+  }
+
+  return {
+    engine,
+    query: body.query,
+    project_id: body.project_id,
+    budget: body.budget
+  };
+}
+
+async function readJSON(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null');
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,187 @@
+import { SearchRequest } from '../types';
+
+/**
+ * Date references for temporal leads
+ *
+ * Workers describe dates the way the conversations do: "2024-10-07", "Oct 1 to
+ * Oct 7", "the week before Oct 7", "last 2 weeks". These resolve to an
+ * inclusive range of UTC days. Years left out mean the most recent such date
+ * that isn't in the future.
+ */
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+/**
+ * The range a search request's filters (or, failing that, its query) refer to
+ * date_from / date_to win over date; either end may be left open.
+ */
+export function resolveDateRange(
+  filters: SearchRequest['filters'],
+  query?: string,
+  now: Date = new Date()
+): DateRange | null {
+  if (filters?.date_from || filters?.date_to) {
+    const from = filters.date_from ? parseDateReference(filters.date_from, now) : null;
+    const to = filters.date_to ? parseDateReference(filters.date_to, now) : null;
+    if (from || to) {
+      return { from: from?.from ?? '1970-01-01', to: to?.to ?? formatDay(now) };
+    }
+  }
+
+  return (filters?.date ? parseDateReference(filters.date, now) : null)
+    ?? (query ? parseDateReference(query, now) : null);
+}
+
+/**
+ * Parse a date, range or relative window out of free text (null if there is none)
+ */
+export function parseDateReference(text: string, now: Date = new Date()): DateRange | null {
+  const value = text.toLowerCase().trim();
+
+  // Explicit range: "2024-10-01 to 2024-10-07", "Oct 1 - Oct 7", "2024-10-01..2024-10-07"
+  const bounds = value.split(/\s+(?:to|through|until|-|–)\s+|\.\.|–/);
+  if (bounds.length === 2) {
+    const from = findDay(bounds[0], now);
+    const to = findDay(bounds[1], now);
+    if (from && to) {
+      return from <= to ? { from: formatDay(from), to: formatDay(to) } : { from: formatDay(to), to: formatDay(from) };
+    }
+  }
+
+  // Window around another date: "the week before Oct 7", "3 days after 2024-10-07", "week of Oct 7"
+  const window = value.match(/(?:\b(\d+)\s+)?\b(day|week|month)s?\s+(before|after|around|of)\s+(.+)/);
+  if (window) {
+    const anchor = findDay(window[4], now);
+    if (anchor) {
+      const span = (window[1] ? parseInt(window[1], 10) : 1) * UNIT_DAYS[window[2]];
+      switch (window[3]) {
+        case 'before':
+          return { from: formatDay(addDays(anchor, -span)), to: formatDay(addDays(anchor, -1)) };
+        case 'after':
+          return { from: formatDay(addDays(anchor, 1)), to: formatDay(addDays(anchor, span)) };
+        case 'around':
+          return { from: formatDay(addDays(anchor, -Math.ceil(span / 2))), to: formatDay(addDays(anchor, Math.ceil(span / 2))) };
+        case 'of': {
+          if (window[2] === 'month') {
+            return monthRange(anchor.getUTCFullYear(), anchor.getUTCMonth());
+          }
+          // The Monday-to-Sunday week containing the anchor
+          const monday = addDays(anchor, -((anchor.getUTCDay() + 6) % 7));
+          return { from: formatDay(monday), to: formatDay(addDays(monday, span - 1)) };
+        }
+      }
+    }
+  }
+
+  // Relative to today: "yesterday", "last 2 weeks", "past 10 days", "last month"
+  const today = startOfDay(now);
+  if (/\btoday\b/.test(value)) {
+    return { from: formatDay(today), to: formatDay(today) };
+  }
+  if (/\byesterday\b/.test(value)) {
+    const yesterday = addDays(today, -1);
+    return { from: formatDay(yesterday), to: formatDay(yesterday) };
+  }
+  const recent = value.match(/\b(?:last|past|previous)\s+(?:(\d+)\s+)?(day|week|month)s?\b/);
+  if (recent) {
+    const span = (recent[1] ? parseInt(recent[1], 10) : 1) * UNIT_DAYS[recent[2]];
+    return { from: formatDay(addDays(today, -span)), to: formatDay(today) };
+  }
+  const current = value.match(/\bthis\s+(week|month)\b/);
+  if (current) {
+    const from = current[1] === 'week'
+      ? addDays(today, -((today.getUTCDay() + 6) % 7))
+      : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    return { from: formatDay(from), to: formatDay(today) };
+  }
+
+  // A single day
+  const day = findDay(value, now);
+  if (day) {
+    return { from: formatDay(day), to: formatDay(day) };
+  }
+
+  // A whole month: "October 2024", "2024-10", or just "october" (a bare month name
+  // inside longer text is too often a word - "may")
+  const isoMonth = value.match(/\b(\d{4})-(\d{2})\b(?!-)/);
+  if (isoMonth) {
+    return monthRange(parseInt(isoMonth[1], 10), parseInt(isoMonth[2], 10) - 1);
+  }
+  const namedMonth = value.match(new RegExp(`\\b${MONTH_NAME}\\s+(\\d{4})\\b`)) || value.match(new RegExp(`^${MONTH_NAME}$`));
+  if (namedMonth) {
+    const month = MONTHS.indexOf(namedMonth[1].slice(0, 3));
+    const year = namedMonth[2] ? parseInt(namedMonth[2], 10) : mostRecentYear(month, 1, now);
+    return monthRange(year, month);
+  }
+
+  return null;
+}
+
+/**
+ * First calendar day mentioned in the text: 2024-10-07, Oct 7(, 2024), 7 Oct( 2024), 10/7/2024
+ */
+function findDay(text: string, now: Date): Date | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return validDay(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+  }
+
+  const slashed = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/);
+  if (slashed) {
+    return validDay(parseInt(slashed[3], 10), parseInt(slashed[1], 10) - 1, parseInt(slashed[2], 10));
+  }
+
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_NAME}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`));
+  if (monthFirst) {
+    const month = MONTHS.indexOf(monthFirst[1].slice(0, 3));
+    const date = parseInt(monthFirst[2], 10);
+    const year = monthFirst[3] ? parseInt(monthFirst[3], 10) : mostRecentYear(month, date, now);
+    return validDay(year, month, date);
+  }
+
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME}\\b(?:,?\\s+(\\d{4}))?`));
+  if (dayFirst) {
+    const month = MONTHS.indexOf(dayFirst[2].slice(0, 3));
+    const date = parseInt(dayFirst[1], 10);
+    const year = dayFirst[3] ? parseInt(dayFirst[3], 10) : mostRecentYear(month, date, now);
+    return validDay(year, month, date);
+  }
+
+  return null;
+}
+
+function validDay(year: number, month: number, date: number): Date | null {
+  const day = new Date(Date.UTC(year, month, date));
+  return day.getUTCMonth() === month && day.getUTCDate() === date ? day : null;
+}
+
+function mostRecentYear(month: number, date: number, now: Date): number {
+  const year = now.getUTCFullYear();
+  return Date.UTC(year, month, date) > now.getTime() ? year - 1 : year;
+}
+
+function monthRange(year: number, month: number): DateRange {
+  return {
+    from: formatDay(new Date(Date.UTC(year, month, 1))),
+    to: formatDay(new Date(Date.UTC(year, month + 1, 0)))
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
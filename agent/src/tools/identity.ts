@@ -0,0 +1,105 @@
+import { executeSqlQuery } from './sql';
+
+/**
+ * Author identity resolution for person leads
+ *
+ * The same person shows up as "matthew-k" on interactions, "Matthew K" on
+ * commits and "Matt" in conversation. A name or handle is matched against the
+ * project's interaction and commit authors and the users table (github_username
+ * ↔ full_name), and every author string that belongs to a match is returned -
+ * ready for `author = ANY(...)`.
+ */
+
+interface Identity {
+  authors: Set<string>; // Strings that appear in interactions.author / commits.author
+  names: Set<string>; // Everything the person is known by (authors, username, full name)
+}
+
+/**
+ * Author strings in the project that refer to the given name or handle
+ */
+export async function resolveAuthorIdentities(name: string, projectId: string): Promise<string[]> {
+  const authorRows = await executeSqlQuery(
+    `
+    SELECT DISTINCT author FROM (
+      SELECT i.author
+      FROM interactions i
+      JOIN conversations c ON i.conversation_id = c.id
+      WHERE c.project_id = $1
+      UNION
+      SELECT cm.author
+      FROM commits cm
+      WHERE cm.project_id = $1
+    ) authors
+    WHERE author IS NOT NULL AND author <> ''
+    `,
+    [projectId],
+    { projectId }
+  );
+  const authors: string[] = authorRows.map(row => row.author);
+  if (authors.length === 0) {
+    return [];
+  }
+
+  const users = await executeSqlQuery(
+    `
+    SELECT github_username, full_name
+    FROM users
+    WHERE github_username = ANY($1) OR full_name = ANY($1)
+    `,
+    [authors],
+    { projectId }
+  );
+
+  // One identity per user row (joining everything it's known by), plus one per unclaimed author string
+  const identities: Identity[] = users.map(user => {
+    const names = [user.github_username, user.full_name].filter(Boolean) as string[];
+    return {
+      authors: new Set(authors.filter(author => names.includes(author))),
+      names: new Set(names)
+    };
+  });
+  const claimed = new Set(identities.flatMap(identity => [...identity.authors]));
+  for (const author of authors) {
+    if (!claimed.has(author)) {
+      identities.push({ authors: new Set([author]), names: new Set([author]) });
+    }
+  }
+
+  const matches = identities.filter(identity => [...identity.names].some(known => namesMatch(name, known)));
+  return [...new Set(matches.flatMap(identity => [...identity.authors]))];
+}
+
+/**
+ * Fuzzy name match - the same person if:
+ * - the names are equal ignoring case and punctuation ("Matthew K" / "matthew-k")
+ * - one is a prefix of the other, of at least 3 characters ("matt" / "matthew-k")
+ * - every word of the query starts a word of the name ("matt k" / "Matthew Kim")
+ */
+export function namesMatch(query: string, name: string): boolean {
+  const queryWords = words(query);
+  const nameWords = words(name);
+  if (queryWords.length === 0 || nameWords.length === 0) {
+    return false;
+  }
+
+  const queryCompact = queryWords.join('');
+  const nameCompact = nameWords.join('');
+  if (queryCompact === nameCompact) {
+    return true;
+  }
+
+  const [shorter, longer] = queryCompact.length <= nameCompact.length ? [queryCompact, nameCompact] : [nameCompact, queryCompact];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return true;
+  }
+
+  // Initials only count next to another word ("matt k", not a lone "k")
+  return queryWords.every(word =>
+    nameWords.some(nameWord => nameWord.startsWith(word) && (word.length >= 3 || queryWords.length > 1 || nameWord === word))
+  );
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
@@ -1,4 +1,9 @@
-export { semanticSearch, getEmbeddingStats } from './semantic';
+export { semanticSearch, lexicalSearch, hybridSearch, codeSearch, getEmbeddingStats } from './semantic';
 export { executeSqlQuery, queryHelpers } from './sql';
-export { generateQueryEmbedding, generateBatchEmbeddings } from './embeddings';
+export { checkSql, guardSql, SqlGuardError, DENIED_FUNCTIONS } from '@tig/shared';
+export { generateQueryEmbedding, generateBatchEmbeddings, getEmbeddingService, setEmbeddingProviderOverride } from '@tig/shared';
 
+export { ingestEmbeddings } from './ingestion';
+export { rerankInteractions, getRerankProvider, setRerankProviderOverride } from './rerank';
+export { resolveDateRange, parseDateReference } from './dates';
+export { resolveAuthorIdentities, namesMatch } from './identity';
@@ -0,0 +1,329 @@
+import { getLogger, generateBatchEmbeddings, getEmbeddingService } from '@tig/shared';
+import { getDb, INGESTION_CONFIG } from '../config';
+import { DIFF_CHUNKS_SQL, DiffChunkRow } from './semantic';
+
+/**
+ * Embedding ingestion - writes the interaction_embeddings rows searches read
+ *
+ * For each interaction of a project that is missing embeddings:
+ * - prompt_response: prompt + response text (one row)
+ * - full_code_diff: every diff of the interaction, with file paths (one row)
+ * - chunked_code_diff: one row per diff chunk, chunk_id numbered like
+ *   DIFF_CHUNKS_SQL so codeSearch can map hits back to the chunk
+ * Text longer than maxChunkChars is split, the pieces embedded as documents and
+ * their vectors averaged, so every row stays one vector per searchable unit.
+ *
+ * Only missing rows are written, so runs are idempotent and an interrupted run
+ * picks up where it stopped. Inserts skip rows that already exist (the unique
+ * index in db/embedding_keys.sql), so concurrent runs don't duplicate them either.
+ * Incremental runs only look at interactions created since the newest embedded
+ * one; backfills scan the project's whole history.
+ */
+
+const log = getLogger('ingestion');
+
+export type IngestionMode = 'incremental' | 'backfill';
+
+export type IngestedEmbeddingType = 'prompt_response' | 'full_code_diff' | 'chunked_code_diff';
+
+export interface IngestionOptions {
+  mode?: IngestionMode; // Default incremental
+  since?: Date | string; // Only interactions created at or after this (overrides the incremental watermark)
+  maxInteractions?: number; // Stop after this many - run a large backfill in slices
+  pageSize?: number; // Interactions embedded and written per transaction
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+export interface IngestionProgress {
+  project_id: string;
+  mode: IngestionMode;
+  since: string | null;
+  interactions_total: number; // Interactions missing embeddings when the run started
+  interactions_done: number;
+  embeddings_written: Record<IngestedEmbeddingType, number>;
+  elapsed_ms: number;
+}
+
+interface CandidateRow {
+  id: string;
+  prompt_text: string | null;
+  response_text: string | null;
+  cursor_ts: string; // created_at as text - keeps microseconds a JS Date would drop
+  needs_prompt_response: boolean;
+  needs_full_code_diff: boolean;
+  needs_chunked_code_diff: boolean;
+}
+
+interface EmbeddingDocument {
+  interaction_id: string;
+  type: IngestedEmbeddingType;
+  chunk_id: number | null;
+  pieces: string[];
+}
+
+/**
+ * Interactions of the project missing at least one embedding type.
+ * An interaction needs chunked_code_diff rows while it has fewer than it has diff chunks.
+ */
+const CANDIDATES_SQL = `
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.prompt_text,
+      i.response_text,
+      i.created_at,
+      i.created_at::text as cursor_ts,
+      NOT EXISTS (
+        SELECT 1 FROM interaction_embeddings ie WHERE ie.interaction_id = i.id AND ie.type = 'prompt_response'
+      ) as needs_prompt_response,
+      EXISTS (SELECT 1 FROM interaction_diffs d WHERE d.interaction_id = i.id) AND NOT EXISTS (
+        SELECT 1 FROM interaction_embeddings ie WHERE ie.interaction_id = i.id AND ie.type = 'full_code_diff'
+      ) as needs_full_code_diff,
+      (
+        SELECT COALESCE(SUM(CASE WHEN jsonb_typeof(d.diff_chunks) = 'array' THEN jsonb_array_length(d.diff_chunks) ELSE 1 END), 0)
+        FROM interaction_diffs d WHERE d.interaction_id = i.id
+      ) > (
+        SELECT COUNT(*) FROM interaction_embeddings ie WHERE ie.interaction_id = i.id AND ie.type = 'chunked_code_diff'
+      ) as needs_chunked_code_diff
+    FROM interactions i
+    JOIN conversations c ON i.conversation_id = c.id
+    WHERE c.project_id = $1
+      AND ($2::timestamptz IS NULL OR i.created_at >= $2::timestamptz)
+  )
+  SELECT * FROM candidates
+  WHERE needs_prompt_response OR needs_full_code_diff OR needs_chunked_code_diff
+`;
+
+const INSERT_BATCH_ROWS = 500;
+
+/**
+ * Embed and store a project's missing interaction embeddings
+ */
+export async function ingestEmbeddings(
+  projectId: string,
+  options: IngestionOptions = {}
+): Promise<IngestionProgress> {
+  const mode = options.mode || 'incremental';
+  const pageSize = options.pageSize ?? INGESTION_CONFIG.pageSize;
+  const startTime = Date.now();
+  const runLog = log.child({ project_id: projectId, mode });
+
+  const provider = getEmbeddingService().provider;
+  if (provider.name !== 'voyage') {
+    runLog.warn(`Embedding with the ${provider.name} provider - searches with Voyage query embeddings won't match these rows`);
+  }
+
+  const since = options.since !== undefined
+    ? new Date(options.since).toISOString()
+    : mode === 'incremental' ? await getWatermark(projectId) : null;
+
+  const db = getDb();
+  const total = Number((await db.query(`SELECT COUNT(*) as count FROM (${CANDIDATES_SQL}) missing`, [projectId, since])).rows[0].count);
+
+  const progress: IngestionProgress = {
+    project_id: projectId,
+    mode,
+    since,
+    interactions_total: options.maxInteractions !== undefined ? Math.min(total, options.maxInteractions) : total,
+    interactions_done: 0,
+    embeddings_written: { prompt_response: 0, full_code_diff: 0, chunked_code_diff: 0 },
+    elapsed_ms: 0
+  };
+
+  runLog.info(`${total} interactions missing embeddings${since ? ` since ${since}` : ''}`);
+
+  let cursor: { ts: string; id: string } | null = null;
+
+  while (progress.interactions_done < progress.interactions_total) {
+    const limit = Math.min(pageSize, progress.interactions_total - progress.interactions_done);
+    const page = await db.query(
+      `${CANDIDATES_SQL}
+        AND ($3::timestamptz IS NULL OR (created_at, id) > ($3::timestamptz, $4::uuid))
+      ORDER BY created_at, id
+      LIMIT $5`,
+      [projectId, since, cursor?.ts ?? null, cursor?.id ?? null, limit]
+    );
+    const rows = page.rows as CandidateRow[];
+    if (rows.length === 0) {
+      break;
+    }
+
+    const documents = await buildDocuments(rows);
+    const written = await writeEmbeddings(documents);
+    for (const [type, count] of Object.entries(written)) {
+      progress.embeddings_written[type as IngestedEmbeddingType] += count;
+    }
+
+    const last = rows[rows.length - 1];
+    cursor = { ts: last.cursor_ts, id: last.id };
+    progress.interactions_done += rows.length;
+    progress.elapsed_ms = Date.now() - startTime;
+
+    runLog.info(`Embedded ${progress.interactions_done}/${progress.interactions_total} interactions`, {
+      embeddings_written: progress.embeddings_written
+    });
+    options.onProgress?.({ ...progress, embeddings_written: { ...progress.embeddings_written } });
+  }
+
+  progress.elapsed_ms = Date.now() - startTime;
+  return progress;
+}
+
+/**
+ * Newest interaction that already has a prompt_response embedding (null if none)
+ */
+async function getWatermark(projectId: string): Promise<string | null> {
+  const result = await getDb().query(
+    `
+    SELECT MAX(i.created_at) as watermark
+    FROM interactions i
+    JOIN conversations c ON i.conversation_id = c.id
+    WHERE c.project_id = $1
+      AND EXISTS (
+        SELECT 1 FROM interaction_embeddings ie WHERE ie.interaction_id = i.id AND ie.type = 'prompt_response'
+      )
+    `,
+    [projectId]
+  );
+  const watermark = result.rows[0]?.watermark;
+  return watermark ? new Date(watermark).toISOString() : null;
+}
+
+/**
+ * The texts to embed for a page of candidates - only the rows that are missing
+ */
+async function buildDocuments(rows: CandidateRow[]): Promise<EmbeddingDocument[]> {
+  const db = getDb();
+  const documents: EmbeddingDocument[] = [];
+
+  for (const row of rows) {
+    if (row.needs_prompt_response) {
+      const text = `${row.prompt_text || ''}\n\n${row.response_text || ''}`.trim();
+      if (text) {
+        documents.push({ interaction_id: row.id, type: 'prompt_response', chunk_id: null, pieces: splitText(text) });
+      }
+    }
+  }
+
+  const diffIds = rows.filter(row => row.needs_full_code_diff || row.needs_chunked_code_diff).map(row => row.id);
+  if (diffIds.length === 0) {
+    return documents;
+  }
+
+  const chunkRows = (await db.query(DIFF_CHUNKS_SQL, [diffIds])).rows as DiffChunkRow[];
+  const existing = await db.query(
+    `SELECT interaction_id, chunk_id FROM interaction_embeddings WHERE type = 'chunked_code_diff' AND interaction_id = ANY($1)`,
+    [diffIds]
+  );
+  const embeddedChunks = new Set(existing.rows.map(row => `${row.interaction_id}:${row.chunk_id}`));
+
+  for (const row of rows) {
+    const chunks = chunkRows
+      .filter(chunk => chunk.interaction_id === row.id)
+      .sort((a, b) => a.chunk_id - b.chunk_id);
+    if (chunks.length === 0) {
+      continue;
+    }
+
+    if (row.needs_full_code_diff) {
+      const fullText = chunks.map(chunk => `${chunk.file_path}\n${chunk.chunk_text || ''}`).join('\n\n');
+      documents.push({ interaction_id: row.id, type: 'full_code_diff', chunk_id: null, pieces: splitText(fullText) });
+    }
+
+    if (row.needs_chunked_code_diff) {
+      for (const chunk of chunks) {
+        if (!embeddedChunks.has(`${row.id}:${chunk.chunk_id}`)) {
+          documents.push({
+            interaction_id: row.id,
+            type: 'chunked_code_diff',
+            chunk_id: chunk.chunk_id,
+            pieces: splitText(`${chunk.file_path}\n${chunk.chunk_text || ''}`)
+          });
+        }
+      }
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Embed the documents and insert them in one transaction
+ * Counts only rows actually inserted - a concurrent run may have written some first
+ */
+async function writeEmbeddings(documents: EmbeddingDocument[]): Promise<Record<IngestedEmbeddingType, number>> {
+  const written: Record<IngestedEmbeddingType, number> = { prompt_response: 0, full_code_diff: 0, chunked_code_diff: 0 };
+  if (documents.length === 0) {
+    return written;
+  }
+
+  const pieceEmbeddings = await generateBatchEmbeddings(documents.flatMap(doc => doc.pieces), 'document');
+
+  let offset = 0;
+  const rows = documents.map(doc => {
+    const embedding = averageEmbeddings(pieceEmbeddings.slice(offset, offset + doc.pieces.length));
+    offset += doc.pieces.length;
+    return [doc.interaction_id, doc.type, doc.chunk_id, `[${embedding.join(',')}]`];
+  });
+
+  const client = await getDb().connect();
+  try {
+    await client.query('BEGIN');
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_ROWS) {
+      const batch = rows.slice(start, start + INSERT_BATCH_ROWS);
+      const values = batch.map((_, i) => `($${i * 4 + 1}::uuid, $${i * 4 + 2}, $${i * 4 + 3}::int, $${i * 4 + 4}::vector)`);
+      const result = await client.query(
+        `INSERT INTO interaction_embeddings (interaction_id, type, chunk_id, embedding) VALUES ${values.join(', ')}
+         ON CONFLICT DO NOTHING
+         RETURNING type`,
+        batch.flat()
+      );
+      for (const row of result.rows) {
+        written[row.type as IngestedEmbeddingType]++;
+      }
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return written;
+}
+
+/**
+ * Split text into pieces of at most maxChunkChars, preferring line breaks
+ */
+function splitText(text: string, maxChars: number = INGESTION_CONFIG.maxChunkChars): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const lineBreak = rest.lastIndexOf('\n', maxChars);
+    const end = lineBreak > maxChars / 2 ? lineBreak : maxChars;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end).replace(/^\n/, '');
+  }
+  if (rest.trim()) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Mean of the piece vectors, re-normalized (Voyage embeddings are unit length)
+ */
+function averageEmbeddings(embeddings: number[][]): number[] {
+  if (embeddings.length === 1) {
+    return embeddings[0];
+  }
+
+  const sum = new Array<number>(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    embedding.forEach((value, i) => { sum[i] += value; });
+  }
+  const norm = Math.sqrt(sum.reduce((total, value) => total + value * value, 0));
+  return norm > 0 ? sum.map(value => value / norm) : sum;
+}
@@ -0,0 +1,179 @@
+import { VoyageAIClient } from 'voyageai';
+import { Logger, getLogger, getScheduler } from '@tig/shared';
+import { RERANK_CONFIG } from '../config';
+import { Interaction, SearchRequest } from '../types';
+
+/**
+ * Reranking - a cheap relevance pass between discovery and the judges
+ *
+ * Judges are an LLM call per 10 interactions, and broad searches return a long
+ * tail of barely related ones. A reranker scores every candidate against the
+ * search query; candidates under the lead type's cutoff are dropped before any
+ * judge sees them. If the reranker fails, every candidate is kept.
+ */
+
+const defaultLog = getLogger('rerank');
+
+export interface RerankProvider {
+  readonly name: string;
+  rerank(query: string, documents: string[]): Promise<number[]>; // Relevance 0-1, in document order
+}
+
+export interface RerankOutcome {
+  kept: Interaction[]; // Best first, with rerank_score set
+  dropped: number;
+  scored: number; // 0 when the lead type isn't reranked
+}
+
+/**
+ * Voyage AI reranker (rerank-2-lite)
+ */
+export class VoyageRerankProvider implements RerankProvider {
+  readonly name = 'voyage';
+  private client: VoyageAIClient | null = null;
+
+  constructor(private model: string = RERANK_CONFIG.model) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const result = await this.getClient().rerank({
+      query,
+      documents,
+      model: this.model,
+      truncation: true
+    });
+
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const item of result.data || []) {
+      if (item.index === undefined || item.relevanceScore === undefined) {
+        throw new Error('Invalid response from Voyage AI rerank');
+      }
+      scores[item.index] = item.relevanceScore;
+    }
+    return scores;
+  }
+
+  private getClient(): VoyageAIClient {
+    if (!this.client) {
+      const apiKey = process.env.VOYAGE_API_KEY;
+      if (!apiKey) {
+        throw new Error('VOYAGE_API_KEY environment variable not set');
+      }
+      this.client = new VoyageAIClient({ apiKey });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Deterministic stand-in for offline runs and tests
+ *
+ * Scores a document by the share of the query's terms it contains, each term
+ * weighted by how rare it is among the candidates (a term every candidate
+ * shares says little about any of them).
+ */
+export class LocalRerankProvider implements RerankProvider {
+  readonly name = 'local';
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return documents.map(() => 0);
+    }
+
+    const documentTerms = documents.map(doc => new Set(tokenize(doc)));
+    const weights = queryTerms.map(term => {
+      const frequency = documentTerms.filter(terms => terms.has(term)).length;
+      return Math.log(1 + documents.length / (1 + frequency));
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    return documentTerms.map(terms =>
+      queryTerms.reduce((sum, term, i) => sum + (terms.has(term) ? weights[i] : 0), 0) / totalWeight
+    );
+  }
+}
+
+let providerOverride: RerankProvider | null = null;
+
+/**
+ * Process-wide provider override (e.g. a LocalRerankProvider for offline runs)
+ */
+export function setRerankProviderOverride(provider: RerankProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * The configured reranker, or null when RERANK_PROVIDER=none
+ */
+export function getRerankProvider(): RerankProvider | null {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  switch (RERANK_CONFIG.provider) {
+    case 'voyage':
+      return new VoyageRerankProvider();
+    case 'local':
+      return new LocalRerankProvider();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown rerank provider "${RERANK_CONFIG.provider}" (expected voyage, local or none)`);
+  }
+}
+
+/**
+ * Rerank search results and apply the lead type's cutoff
+ */
+export async function rerankInteractions(
+  query: string,
+  interactions: Interaction[],
+  leadType: SearchRequest['lead_type'],
+  log: Logger = defaultLog
+): Promise<RerankOutcome> {
+  const cutoff = RERANK_CONFIG.cutoffs[leadType];
+  const provider = cutoff ? getRerankProvider() : null;
+
+  if (!cutoff || !provider || interactions.length === 0) {
+    return { kept: interactions, dropped: 0, scored: 0 };
+  }
+
+  let scores: number[];
+  try {
+    scores = await getScheduler().run(provider.name, () => provider.rerank(query, interactions.map(toDocument)));
+  } catch (error) {
+    log.warn(`Reranking failed - judging all ${interactions.length} candidates`, { error, provider: provider.name });
+    return { kept: interactions, dropped: 0, scored: 0 };
+  }
+
+  const kept = interactions
+    .map((interaction, i) => ({ ...interaction, rerank_score: scores[i] }))
+    .sort((a, b) => b.rerank_score - a.rerank_score)
+    .filter(interaction => interaction.rerank_score >= cutoff.minScore)
+    .slice(0, cutoff.topK);
+
+  log.debug(`Reranked ${interactions.length} candidates with ${provider.name}, kept ${kept.length}`, {
+    lead_type: leadType,
+    min_score: cutoff.minScore,
+    top_k: cutoff.topK
+  });
+
+  return { kept, dropped: interactions.length - kept.length, scored: interactions.length };
+}
+
+/**
+ * What the reranker reads for an interaction - title, prompt, response and any matched code
+ */
+function toDocument(interaction: Interaction): string {
+  const parts = [
+    interaction.conversation_title,
+    interaction.prompt_text,
+    interaction.response_text,
+    ...(interaction.code_matches || []).map(match => `${match.file_path}\n${match.chunk_text}`)
+  ];
+  return parts.filter(Boolean).join('\n\n').slice(0, RERANK_CONFIG.maxDocumentChars);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9_]{2,}/g) || [];
+}
@@ -1,5 +1,9 @@
-import { getDb } from '../config';
-import { generateQueryEmbedding } from './embeddings';
+import { getLogger, generateQueryEmbedding } from '@tig/shared';
+import { SEARCH_CONFIG } from '../config';
+import { queryInProject, withProjectScope } from '../db';
+import { Interaction, CodeSearchResult, DiffChunkMatch } from '../types';
+
+const log = getLogger('semantic_search');
 
 /**
  * Semantic search using interaction_embeddings table
@@ -10,8 +14,6 @@ export async function semanticSearch(
   projectId: string,
   limit: number = 20
 ): Promise<any[]> {
-  const db = getDb();
-
   try {
     // Generate embedding for the query using Voyage AI
     const queryEmbedding = await generateQueryEmbedding(query);
@@ -21,7 +23,8 @@ export async function semanticSearch(
 
     // Vector similarity search using pgvector's cosine distance operator (<=>)
     // Lower distance = more similar (0 = identical, 2 = opposite)
-    const result = await db.query(
+    return await queryInProject(
+      projectId,
       `
       SELECT 
         i.id,
@@ -43,22 +46,306 @@ export async function semanticSearch(
       `,
       [projectId, vectorString, limit]
     );
+  } catch (error) {
+    log.error('Semantic search failed', { error });
+    throw error;
+  }
+}
+
+/**
+ * Full-text search over interaction prompt, response and conversation title
+ * 
+ * Catches what embeds poorly - commit hashes, function names, error strings.
+ * Query terms are OR-ed (any match counts) and ranked with ts_rank_cd, title
+ * matches weighted above body matches.
+ */
+export async function lexicalSearch(
+  query: string,
+  projectId: string,
+  limit: number = 20
+): Promise<Interaction[]> {
+  try {
+    return await queryInProject(
+      projectId,
+      `
+      WITH q AS (
+        SELECT replace(plainto_tsquery('english', $2)::text, ' & ', ' | ')::tsquery AS query
+      )
+      SELECT
+        i.id,
+        i.conversation_id,
+        i.prompt_text,
+        i.response_text,
+        i.author,
+        i.prompt_ts,
+        c.title as conversation_title,
+        c.platform,
+        ts_rank_cd(d.document, q.query) as lexical_score
+      FROM interactions i
+      JOIN conversations c ON i.conversation_id = c.id
+      CROSS JOIN q
+      CROSS JOIN LATERAL (
+        SELECT
+          setweight(to_tsvector('english', coalesce(c.title, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(i.prompt_text, '') || ' ' || coalesce(i.response_text, '')), 'B') as document
+      ) d
+      WHERE c.project_id = $1
+        AND d.document @@ q.query
+      ORDER BY lexical_score DESC
+      LIMIT $3
+      `,
+      [projectId, query, limit]
+    );
+  } catch (error) {
+    log.error('Lexical search failed', { error });
+    throw error;
+  }
+}
+
+/**
+ * Hybrid retrieval - vector and full-text search fused with reciprocal rank fusion
+ * 
+ * Both signals rank a wider candidate pool (SEARCH_CONFIG.candidateMultiplier)
+ * and each interaction scores sum(1 / (rrfK + rank)) over the rankings it
+ * appears in, so agreement between the signals lifts a result. Per-signal
+ * scores are kept on the result (vector_score, lexical_score, fusion_score).
+ * If one signal fails (e.g. Voyage AI is down) the other is used alone.
+ */
+export async function hybridSearch(
+  query: string,
+  projectId: string,
+  limit: number = 20
+): Promise<Interaction[]> {
+  const candidates = limit * SEARCH_CONFIG.candidateMultiplier;
+
+  const [vector, lexical] = await Promise.allSettled([
+    semanticSearch(query, projectId, candidates) as Promise<Interaction[]>,
+    lexicalSearch(query, projectId, candidates)
+  ]);
+
+  if (vector.status === 'rejected' && lexical.status === 'rejected') {
+    throw vector.reason;
+  }
+  if (vector.status === 'rejected' || lexical.status === 'rejected') {
+    log.warn(`${vector.status === 'rejected' ? 'Vector' : 'Lexical'} search failed - using the other signal only`);
+  }
 
-    return result.rows;
+  const vectorResults = vector.status === 'fulfilled' ? vector.value : [];
+  const lexicalResults = lexical.status === 'fulfilled' ? lexical.value : [];
+  const fused = fuseRankings(vectorResults, lexicalResults).slice(0, limit);
+
+  log.debug(`Fused ${vectorResults.length} vector and ${lexicalResults.length} lexical candidates`, {
+    results: fused.length,
+    both_signals: fused.filter(r => r.vector_score !== undefined && r.lexical_score !== undefined).length
+  });
+
+  return fused;
+}
+
+/**
+ * Reciprocal rank fusion of the vector and lexical rankings (best first)
+ */
+function fuseRankings(vectorResults: Interaction[], lexicalResults: Interaction[]): Interaction[] {
+  const byId = new Map<string, Interaction>();
+
+  vectorResults.forEach((row, rank) => {
+    byId.set(row.id, {
+      ...row,
+      vector_score: Number(row.similarity),
+      fusion_score: 1 / (SEARCH_CONFIG.rrfK + rank + 1)
+    });
+  });
+
+  lexicalResults.forEach((row, rank) => {
+    const existing = byId.get(row.id);
+    const contribution = 1 / (SEARCH_CONFIG.rrfK + rank + 1);
+    byId.set(row.id, {
+      ...(existing || row),
+      lexical_score: Number(row.lexical_score),
+      fusion_score: (existing?.fusion_score || 0) + contribution
+    });
+  });
+
+  return [...byId.values()].sort((a, b) => b.fusion_score! - a.fusion_score!);
+}
+
+/**
+ * An interaction's diff chunks, numbered the way chunked_code_diff embeddings
+ * reference them: chunk_id counts from 0 across the interaction's diffs (by
+ * created_at, then id), walking each diff's diff_chunks array in order.
+ * A diff_chunks value that isn't an array counts as a single chunk.
+ * ingestion.ts writes chunked_code_diff embeddings with the same numbering.
+ */
+export const DIFF_CHUNKS_SQL = `
+  SELECT
+    d.id as diff_id,
+    d.interaction_id,
+    d.file_path,
+    (row_number() OVER (PARTITION BY d.interaction_id ORDER BY d.created_at, d.id, chunk.ordinality) - 1)::int as chunk_id,
+    chunk.value #>> '{}' as chunk_text
+  FROM interaction_diffs d
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(d.diff_chunks) = 'array' THEN d.diff_chunks ELSE jsonb_build_array(d.diff_chunks) END
+  ) WITH ORDINALITY AS chunk(value, ordinality)
+  WHERE d.interaction_id = ANY($1)
+`;
+
+export interface DiffChunkRow {
+  diff_id: string;
+  interaction_id: string;
+  file_path: string;
+  chunk_id: number;
+  chunk_text: string;
+}
+
+/**
+ * Code search - vector search over code diff embeddings
+ * 
+ * Ranks full_code_diff and chunked_code_diff embeddings, then maps each hit
+ * back to the interaction_diffs rows it came from: a chunk hit to that one
+ * chunk, a full-diff hit to every file the interaction changed. Results are
+ * one per changed file, with the matching chunk text (best first).
+ */
+export async function codeSearch(
+  query: string,
+  projectId: string,
+  limit: number = 10
+): Promise<CodeSearchResult[]> {
+  try {
+    const queryEmbedding = await generateQueryEmbedding(query);
+    const vectorString = `[${queryEmbedding.join(',')}]`;
+
+    // Hits and their diff chunks are read in one scoped transaction
+    const { hits, chunkRows } = await withProjectScope(projectId, async db => {
+      const hits = (await db.query(
+        `
+        SELECT
+          ie.type,
+          ie.chunk_id,
+          1 - (ie.embedding <=> $2::vector) as similarity,
+          i.id,
+          i.conversation_id,
+          i.prompt_text,
+          i.response_text,
+          i.author,
+          i.prompt_ts,
+          c.title as conversation_title,
+          c.platform
+        FROM interaction_embeddings ie
+        JOIN interactions i ON ie.interaction_id = i.id
+        JOIN conversations c ON i.conversation_id = c.id
+        WHERE c.project_id = $1
+          AND ie.type IN ('full_code_diff', 'chunked_code_diff')
+        ORDER BY ie.embedding <=> $2::vector
+        LIMIT $3
+        `,
+        [projectId, vectorString, limit * SEARCH_CONFIG.candidateMultiplier]
+      )).rows;
+      if (hits.length === 0) {
+        return { hits, chunkRows: [] as DiffChunkRow[] };
+      }
+
+      const interactionIds = [...new Set(hits.map(hit => hit.id as string))];
+      const chunkRows = (await db.query(DIFF_CHUNKS_SQL, [interactionIds])).rows as DiffChunkRow[];
+      return { hits, chunkRows };
+    });
+
+    if (hits.length === 0) {
+      return [];
+    }
+
+    const chunksByInteraction = new Map<string, DiffChunkRow[]>();
+    for (const row of chunkRows) {
+      const chunks = chunksByInteraction.get(row.interaction_id) || [];
+      chunks.push(row);
+      chunksByInteraction.set(row.interaction_id, chunks);
+    }
+
+    const byDiff = new Map<string, CodeSearchResult>();
+    let unmatched = 0;
+
+    for (const hit of hits) {
+      const { type, chunk_id, similarity: rawSimilarity, ...interaction } = hit;
+      const similarity = Number(rawSimilarity);
+      const matches = matchDiffChunks(chunksByInteraction.get(hit.id) || [], type, chunk_id, similarity);
+      if (matches.length === 0) {
+        unmatched++;
+        continue;
+      }
+
+      for (const match of matches) {
+        const result = byDiff.get(match.diff_id) || {
+          diff_id: match.diff_id,
+          file_path: match.file_path,
+          interaction: interaction as Interaction,
+          similarity,
+          chunks: []
+        };
+        if (!result.chunks.some(c => c.chunk_id === match.chunk_id)) {
+          result.chunks.push(match);
+        }
+        result.similarity = Math.max(result.similarity, similarity);
+        byDiff.set(match.diff_id, result);
+      }
+    }
+
+    if (unmatched > 0) {
+      log.debug(`${unmatched} code embeddings had no matching interaction_diffs chunk`);
+    }
+
+    return [...byDiff.values()]
+      .map(result => ({
+        ...result,
+        interaction: { ...result.interaction, similarity: result.similarity },
+        chunks: result.chunks.sort((a, b) => b.similarity - a.similarity)
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
   } catch (error) {
-    console.error('[SemanticSearch] Error:', error);
+    log.error('Code search failed', { error });
     throw error;
   }
 }
 
+/**
+ * The diff chunks an embedding hit refers to
+ */
+function matchDiffChunks(
+  chunks: DiffChunkRow[],
+  type: string,
+  chunkId: number | null,
+  similarity: number
+): DiffChunkMatch[] {
+  const toMatch = (row: DiffChunkRow, text: string, id: number | null): DiffChunkMatch => ({
+    diff_id: row.diff_id,
+    file_path: row.file_path,
+    chunk_id: id,
+    chunk_text: text.slice(0, SEARCH_CONFIG.maxChunkChars),
+    similarity
+  });
+
+  if (type === 'chunked_code_diff') {
+    const chunk = chunks.find(c => c.chunk_id === chunkId);
+    return chunk ? [toMatch(chunk, chunk.chunk_text || '', chunk.chunk_id)] : [];
+  }
+
+  // full_code_diff embeds all of the interaction's changes - every changed file matched
+  const byDiff = new Map<string, DiffChunkRow[]>();
+  for (const chunk of chunks) {
+    byDiff.set(chunk.diff_id, [...(byDiff.get(chunk.diff_id) || []), chunk]);
+  }
+  return [...byDiff.values()].map(diffChunks =>
+    toMatch(diffChunks[0], diffChunks.map(c => c.chunk_text || '').join('\n'), null)
+  );
+}
+
 /**
  * Get embedding statistics for a query
  */
 export async function getEmbeddingStats(projectId: string): Promise<any> {
-  const db = getDb();
-
   try {
-    const result = await db.query(
+    const rows = await queryInProject(
+      projectId,
       `
       SELECT 
         COUNT(DISTINCT ie.interaction_id) as total_embedded_interactions,
@@ -72,9 +359,9 @@ export async function getEmbeddingStats(projectId: string): Promise<any> {
       [projectId]
     );
 
-    return result.rows[0];
+    return rows[0];
   } catch (error) {
-    console.error('[EmbeddingStats] Error:', error);
+    log.error('Could not read embedding stats', { error });
     return { total_embedded_interactions: 0, total_embeddings: 0, embedding_types: 0 };
   }
 }
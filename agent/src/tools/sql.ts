@@ -1,47 +1,30 @@
-import { getDb } from '../config';
+import { getLogger, guardSql } from '@tig/shared';
+import { SQL_GUARD_POLICY } from '../config';
+import { queryInProject } from '../db';
+
+const log = getLogger('sql');
+
+export interface SqlQueryOptions {
+  projectId?: string; // Reject the query unless every project-scoped table is filtered by this ID
+}
 
 /**
- * Execute SQL query with safety checks
+ * Execute a read-only query after the SQL guard accepts it (guardSql in @tig/shared)
+ * 
+ * It runs scoped to options.projectId (db.ts) - without one, row-level
+ * security hides every project's rows.
  */
 export async function executeSqlQuery(
   query: string,
-  params: any[] = []
+  params: any[] = [],
+  options: SqlQueryOptions = {}
 ): Promise<any[]> {
-  const db = getDb();
-
-  // Basic safety checks
-  const normalizedQuery = query.toLowerCase().trim();
-  
-  // Block dangerous operations
-  const dangerousPatterns = [
-    'drop table',
-    'drop database',
-    'truncate',
-    'delete from',
-    'update ',
-    'insert into',
-    'alter table',
-    'create table'
-  ];
-
-  for (const pattern of dangerousPatterns) {
-    if (normalizedQuery.includes(pattern)) {
-      throw new Error(`Dangerous SQL operation not allowed: ${pattern}`);
-    }
-  }
-
-  // Must be a SELECT query
-  if (!normalizedQuery.startsWith('select') && !normalizedQuery.startsWith('with')) {
-    throw new Error('Only SELECT queries are allowed');
-  }
+  await guardSql(query, SQL_GUARD_POLICY, { projectId: options.projectId, params });
 
   try {
-    const result = await db.query(query, params);
-    return result.rows;
+    return await queryInProject(options.projectId ?? null, query, params);
   } catch (error) {
-    console.error('[SQL] Query error:', error);
-    console.error('[SQL] Query was:', query);
-    console.error('[SQL] Params:', params);
+    log.error('Query failed', { error, query, params });
     throw error;
   }
 }
@@ -53,7 +36,7 @@ export const queryHelpers = {
   /**
    * Get conversation threads by IDs (with truncated text to avoid payload size issues)
    */
-  async getConversationThreads(conversationIds: string[]): Promise<any[]> {
+  async getConversationThreads(conversationIds: string[], projectId: string): Promise<any[]> {
     if (conversationIds.length === 0) return [];
     
     return executeSqlQuery(
@@ -73,17 +56,18 @@ export const queryHelpers = {
         ) as thread
       FROM conversations c
       JOIN interactions i ON c.id = i.conversation_id
-      WHERE c.id = ANY($1)
+      WHERE c.id = ANY($1) AND c.project_id = $2
       GROUP BY c.id
       `,
-      [conversationIds]
+      [conversationIds, projectId],
+      { projectId }
     );
   },
 
   /**
    * Trace commits to interactions (metadata only, no full text)
    */
-  async traceCommitsToInteractions(commitHashes: string[]): Promise<any[]> {
+  async traceCommitsToInteractions(commitHashes: string[], projectId: string): Promise<any[]> {
     if (commitHashes.length === 0) return [];
 
     return executeSqlQuery(
@@ -104,18 +88,19 @@ export const queryHelpers = {
       FROM commits c
       LEFT JOIN commit_interactions ci ON c.id = ci.commit_id
       LEFT JOIN interactions i ON ci.interaction_id = i.id
-      WHERE c.hash = ANY($1)
+      WHERE c.hash = ANY($1) AND c.project_id = $2
       GROUP BY c.id
       ORDER BY c.committed_at DESC
       `,
-      [commitHashes]
+      [commitHashes, projectId],
+      { projectId }
     );
   },
 
   /**
    * Get file change history (with diff stats only, not full diffs)
    */
-  async getFileHistory(filePaths: string[]): Promise<any[]> {
+  async getFileHistory(filePaths: string[], projectId: string): Promise<any[]> {
     if (filePaths.length === 0) return [];
 
     return executeSqlQuery(
@@ -134,17 +119,19 @@ export const queryHelpers = {
         ) as change_history
       FROM interaction_diffs id2
       JOIN interactions i ON id2.interaction_id = i.id
-      WHERE id2.file_path = ANY($1)
+      JOIN conversations c ON i.conversation_id = c.id
+      WHERE id2.file_path = ANY($1) AND c.project_id = $2
       GROUP BY id2.file_path
       `,
-      [filePaths]
+      [filePaths, projectId],
+      { projectId }
     );
   },
 
   /**
    * Analyze temporal patterns
    */
-  async analyzeTimeline(interactionIds: string[]): Promise<any> {
+  async analyzeTimeline(interactionIds: string[], projectId: string): Promise<any> {
     if (interactionIds.length === 0) return { timeline: [], commitTimeline: [] };
 
     const timeline = await executeSqlQuery(
@@ -155,11 +142,13 @@ export const queryHelpers = {
         array_agg(DISTINCT i.author) as authors_active,
         array_agg(i.id) as interaction_ids
       FROM interactions i
-      WHERE i.id = ANY($1)
+      JOIN conversations c ON i.conversation_id = c.id
+      WHERE i.id = ANY($1) AND c.project_id = $2
       GROUP BY DATE(i.prompt_ts)
       ORDER BY date
       `,
-      [interactionIds]
+      [interactionIds, projectId],
+      { projectId }
     );
 
     return { timeline };
@@ -168,7 +157,7 @@ export const queryHelpers = {
   /**
    * Get commit timeline
    */
-  async getCommitTimeline(commitHashes: string[]): Promise<any[]> {
+  async getCommitTimeline(commitHashes: string[], projectId: string): Promise<any[]> {
     if (commitHashes.length === 0) return [];
 
     return executeSqlQuery(
@@ -179,11 +168,12 @@ export const queryHelpers = {
         array_agg(message) as commit_messages,
         array_agg(author) as authors
       FROM commits
-      WHERE hash = ANY($1)
+      WHERE hash = ANY($1) AND project_id = $2
       GROUP BY DATE(committed_at)
       ORDER BY date
       `,
-      [commitHashes]
+      [commitHashes, projectId],
+      { projectId }
     );
   }
 };
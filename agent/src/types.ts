@@ -5,7 +5,7 @@
 export interface ExplorationEvent {
   event_id?: string;
   agent: string; // Changed to string to support dynamic agent names (worker_1, judge_2, etc.)
-  phase: 'discovery' | 'parallel' | 'synthesis' | 'search' | 'judging' | 'investigation'; // Support both old and new phases during migration
+  phase: 'discovery' | 'parallel' | 'synthesis' | 'search' | 'judging' | 'investigation' | 'budget'; // Support both old and new phases during migration
   action: string;
   output: Record<string, any>;
   storage?: Record<string, string>;
@@ -55,6 +55,38 @@ export interface ExplorationResult {
   sessionId: string;
   streamUrl: string;
   auditTrail: ExplorationEvent[];
+  usage?: BudgetUsage;
+}
+
+/**
+ * Hard caps for a single exploration - any unset cap is unlimited
+ * When a cap is hit the loop stops and synthesis finalizes with what it has
+ */
+export interface ExplorationBudget {
+  max_iterations?: number;
+  max_workers?: number;
+  max_input_tokens?: number;
+  max_output_tokens?: number;
+  max_cost_usd?: number;
+  max_wall_clock_ms?: number;
+  max_llm_calls?: number;
+}
+
+export interface ModelUsage {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface BudgetUsage {
+  llm_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  elapsed_ms: number;
+  by_model: Record<string, ModelUsage>;
+  exceeded?: string; // Which cap stopped the exploration
 }
 
 export interface ConversationThread {
@@ -82,6 +114,20 @@ export interface CommitContext {
   }>;
 }
 
+export interface PullRequestContext {
+  pr_number: number;
+  title: string;
+  state: string;
+  author: string | null;
+  head_branch: string;
+  base_branch: string;
+  head_sha: string | null;
+  github_url: string;
+  created_at: Date;
+  merged_at: Date | null;
+  commit_hashes: string[]; // Commits at the PR's head SHA or on its branch
+}
+
 export interface FileHistory {
   file_path: string;
   change_history: Array<{
@@ -157,13 +203,18 @@ export interface SearchRequest {
   iteration: number;
   source: string; // event_id that triggered this search, or 'user_query' for initial
   lead_type: 'initial' | 'commit_reference' | 'entity_reference' | 'person_reference' | 
-             'date_reference' | 'file_reference' | 'conversation_reference';
+             'date_reference' | 'file_reference' | 'conversation_reference' | 'code_reference' | 'pr_reference';
   context?: string;
   filters?: {
     commit_hash?: string;
     author?: string;
     file_path?: string;
-    date?: string;
+    date?: string; // A day, range or relative window ("2024-10-07", "the week before Oct 7") - see tools/dates.ts
+    date_from?: string; // Inclusive range, either end optional - wins over date
+    date_to?: string;
+    conversation_id?: string;
+    pr_number?: number;
+    aliases?: string[]; // Entity names to match literally (identifier spellings, abbreviations)
   };
 }
 
@@ -171,12 +222,13 @@ export interface SearchRequest {
  * Lead discovered by an investigator (something to search for)
  */
 export interface Lead {
-  type: 'commit' | 'entity' | 'person' | 'temporal' | 'conversation' | 'file';
-  value: string; // The specific value (commit hash, entity name, person name, etc.)
+  type: 'commit' | 'entity' | 'person' | 'temporal' | 'conversation' | 'file' | 'code' | 'pull_request';
+  value: string; // The specific value (commit hash, entity name, person name, PR number, etc.)
   search_query: string; // What to search for in Discovery
   reason: string; // Why we need to follow this lead
   priority: 'high' | 'medium' | 'low';
   context?: string; // Additional context about the lead
+  aliases?: string[]; // Entity leads: other names the entity goes by
 }
 
 /**
@@ -241,6 +293,35 @@ export interface Interaction {
   prompt_ts: string;
   conversation_title: string;
   platform: string;
-  similarity?: number;
+  similarity?: number; // Cosine similarity (vector search), or a fixed score for SQL lookups
+  // Per-signal scores from hybridSearch - a signal's score is missing when it didn't return the interaction
+  vector_score?: number; // Cosine similarity of the prompt_response embedding
+  lexical_score?: number; // Full-text rank (ts_rank_cd) over prompt, response and conversation title
+  fusion_score?: number; // Reciprocal rank fusion of both rankings
+  matched_in?: string[]; // Set by entity search - where an alias appeared literally (prompt, response, diff, commit)
+  rerank_score?: number; // Reranker relevance to the search query (0-1), for reranked lead types
+  code_matches?: DiffChunkMatch[]; // Set by code search - the diff chunks that matched
+}
+
+/**
+ * A matching piece of a code diff (interaction_diffs row)
+ */
+export interface DiffChunkMatch {
+  diff_id: string;
+  file_path: string;
+  chunk_id: number | null; // null when the whole diff matched (full_code_diff embedding)
+  chunk_text: string;
+  similarity: number;
+}
+
+/**
+ * Code search hit - one changed file, with the chunks of its diff that matched
+ */
+export interface CodeSearchResult {
+  diff_id: string;
+  file_path: string;
+  interaction: Interaction;
+  similarity: number; // Best chunk similarity
+  chunks: DiffChunkMatch[]; // Best first
 }
 
@@ -0,0 +1,65 @@
+// One call at a time in the anthropic lane, so calls queue behind each other
+process.env.ANTHROPIC_CONCURRENCY = '1';
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { memoryStream } = require('./helpers');
+const { ScriptedProvider, setLLMProviderOverride } = require('@tig/shared');
+const { BudgetTracker, BudgetExceededError } = require('../dist/budget');
+
+const REQUEST = { max_tokens: 100, messages: [{ role: 'user', content: 'Score this' }] };
+
+/**
+ * A provider in the anthropic lane whose replies each report `outputTokens`
+ */
+function laneProvider(outputTokens) {
+  const provider = { name: 'anthropic', calls: 0 };
+  provider.complete = async request => {
+    provider.calls++;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return { text: 'ok', model: request.model || 'claude-3-5-haiku-20241022', usage: { input_tokens: 10, output_tokens: outputTokens } };
+  };
+  return provider;
+}
+
+test.afterEach(() => setLLMProviderOverride(null));
+
+test('concurrent calls cannot all pass the call cap', async () => {
+  setLLMProviderOverride(new ScriptedProvider(() => 'ok'));
+  const stream = memoryStream();
+  const budget = new BudgetTracker({ max_llm_calls: 2 }, stream);
+
+  const results = await Promise.allSettled(Array.from({ length: 5 }, (_, i) => budget.complete(`judge_${i}`, 'judge', REQUEST)));
+
+  assert.equal(results.filter(r => r.status === 'fulfilled').length, 2);
+  assert.ok(results.filter(r => r.status === 'rejected').every(r => r.reason instanceof BudgetExceededError));
+  assert.equal(budget.getUsage().llm_calls, 2);
+  assert.equal((await stream.read({ action: 'budget_exceeded' })).length, 1);
+});
+
+test('queued calls are checked when the lane admits them, not when they queue', async () => {
+  const provider = laneProvider(600);
+  setLLMProviderOverride(provider);
+  const budget = new BudgetTracker({ max_output_tokens: 1000 }, memoryStream());
+
+  const results = await Promise.allSettled(Array.from({ length: 4 }, (_, i) => budget.complete(`worker_${i}`, 'worker', REQUEST)));
+
+  // The second call pushes usage past the cap; the two queued behind it never reach the provider
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'fulfilled', 'rejected', 'rejected']);
+  assert.equal(provider.calls, 2);
+  assert.equal(budget.getUsage().output_tokens, 1200);
+  assert.equal(budget.getUsage().exceeded, 'max_output_tokens');
+});
+
+test('exempt calls run past an exhausted budget', async () => {
+  setLLMProviderOverride(laneProvider(600));
+  const budget = new BudgetTracker({ max_output_tokens: 500 }, memoryStream());
+
+  await budget.complete('worker_0', 'worker', REQUEST);
+  await assert.rejects(budget.complete('worker_0', 'worker', REQUEST), BudgetExceededError);
+
+  const response = await budget.complete('synthesis', 'synthesis', REQUEST, { exempt: true });
+  assert.equal(response.text, 'ok');
+  assert.ok(budget.isExhausted());
+});
@@ -0,0 +1,73 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, useFakeDb } = require('./helpers');
+const {
+  ScriptedProvider,
+  setLLMProviderOverride,
+  LocalEmbeddingProvider,
+  setEmbeddingProviderOverride
+} = require('@tig/shared');
+const { main } = require('../dist/cli');
+
+/**
+ * Run the CLI with stdout and stderr captured; `restored` says whether the
+ * console was left as it was found
+ */
+async function tig(t, ...argv) {
+  const stdout = [];
+  const stderr = [];
+  t.mock.method(console, 'log', (...data) => stdout.push(data.join(' ')));
+  t.mock.method(console, 'error', (...data) => stderr.push(data.join(' ')));
+  const { log, info, warn } = console;
+
+  const code = await main(argv);
+  const restored = console.log === log && console.info === info && console.warn === warn;
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n'), restored };
+}
+
+test('help prints the usage and exits 0', async t => {
+  for (const argv of [[], ['help'], ['explore', '--help']]) {
+    const { code, stdout } = await tig(t, ...argv);
+    assert.equal(code, 0);
+    assert.match(stdout, /^tig - query your team's development history/);
+  }
+});
+
+test('bad invocations exit 2 with a usage hint', async t => {
+  const missingQuery = await tig(t, 'explore', '--quiet');
+  assert.equal(missingQuery.code, 2);
+  assert.match(missingQuery.stderr, /A query is required\nRun "tig help" for usage\./);
+
+  assert.equal((await tig(t, 'bogus')).code, 2);
+  assert.equal((await tig(t, 'sessions', 'show')).code, 2);
+  assert.equal((await tig(t, 'ask', 'why?', '--format', 'yaml')).code, 2);
+  assert.equal((await tig(t, 'explore', 'why?', '--max-workers', '-1')).code, 2);
+});
+
+test('an unknown session exits 1', async t => {
+  const { code, stdout, stderr } = await tig(t, 'sessions', 'show', 'explore-0-missing');
+
+  assert.equal(code, 1);
+  assert.equal(stdout, '');
+  assert.match(stderr, /session explore-0-missing not found/);
+
+  assert.equal((await tig(t, 'sessions', 'replay', 'explore-0-missing')).code, 1);
+});
+
+test('a failed query exits 1 and gives the console back', async t => {
+  useFakeDb(() => []);
+  setEmbeddingProviderOverride(new LocalEmbeddingProvider(8));
+  setLLMProviderOverride(new ScriptedProvider([]));
+
+  try {
+    const { code, stderr, restored } = await tig(t, 'explore', 'why do refresh tokens expire?', '-p', PROJECT_ID, '--quiet');
+
+    assert.equal(code, 1);
+    assert.match(stderr, /script exhausted/);
+    assert.ok(restored);
+  } finally {
+    setLLMProviderOverride(null);
+    setEmbeddingProviderOverride(null);
+  }
+});
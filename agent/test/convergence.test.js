@@ -0,0 +1,78 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+require('./helpers');
+const { ConvergenceController } = require('../dist/agents/convergence');
+
+const OPTIONS = {
+  targetCompleteness: 0.85,
+  plateauIterations: 2,
+  minNewFindings: 1,
+  minCompletenessGain: 0.05,
+  maxTargetedIterations: 1,
+  maxTargetedQueries: 2
+};
+
+/**
+ * A controller fed one iteration per entry: findings (summaries) and completeness ratings
+ */
+function controllerAfter(iterations) {
+  const controller = new ConvergenceController(OPTIONS);
+  iterations.forEach(({ findings = [], ratings = [] }, iteration) => {
+    controller.observe({ agent: 'loop_manager', action: 'iteration_started', output: { iteration } });
+    findings.forEach(summary => controller.observe({ agent: 'worker_0', action: 'finding', output: { summary } }));
+    ratings.forEach(([score, missing = []]) => controller.observe({ agent: 'worker_0', action: 'completeness', output: { score, missing } }));
+  });
+  return controller;
+}
+
+test('stops once workers rate the answer complete', () => {
+  const decision = controllerAfter([{ findings: ['a'], ratings: [[0.9], [0.8]] }]).evaluate(0, 3);
+  assert.equal(decision.action, 'stop');
+  assert.equal(decision.completeness, 0.85);
+});
+
+test('continues while lead searches are pending', () => {
+  const decision = controllerAfter([{ findings: ['a'], ratings: [[0.4]] }]).evaluate(0, 2);
+  assert.equal(decision.action, 'continue');
+  assert.equal(decision.new_findings, 1);
+});
+
+test('stops when coverage plateaus, counting repeated findings as nothing new', () => {
+  const controller = controllerAfter([
+    { findings: ['Tokens expire after an hour'], ratings: [[0.5]] },
+    { findings: ['tokens expire after an hour!'], ratings: [[0.52]] },
+    { ratings: [[0.53]] }
+  ]);
+  const decision = controller.evaluate(2, 4);
+  assert.equal(decision.action, 'stop');
+  assert.match(decision.reason, /plateaued/);
+});
+
+test('a completeness gain keeps the loop going without new findings', () => {
+  const controller = controllerAfter([{ findings: ['a'], ratings: [[0.3]] }, { ratings: [[0.4]] }, { ratings: [[0.6]] }]);
+  const decision = controller.evaluate(2, 1);
+  assert.equal(decision.action, 'continue');
+  assert.equal(decision.completeness_gain, 0.2);
+});
+
+test('without leads, targets the most reported open questions once', () => {
+  const controller = controllerAfter([{
+    findings: ['a'],
+    ratings: [[0.5, ['When did it ship?', 'Who approved it?']], [0.5, ['when did it ship', 'Which PR?']]]
+  }]);
+
+  const decision = controller.evaluate(0, 0);
+  assert.equal(decision.action, 'target_missing');
+  assert.deepEqual(decision.targeted_queries, ['When did it ship?', 'Who approved it?']);
+
+  // Recorded decisions count against maxTargetedIterations
+  controller.observe({ agent: 'loop_manager', action: 'convergence_decision', output: decision });
+  assert.equal(controller.evaluate(0, 0).action, 'stop');
+});
+
+test('without leads or open questions, stops', () => {
+  const decision = controllerAfter([{ findings: ['a'], ratings: [[0.5]] }]).evaluate(0, 0);
+  assert.equal(decision.action, 'stop');
+  assert.equal(decision.reason, 'No leads left and no open questions');
+});
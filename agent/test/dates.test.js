@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+require('./helpers');
+const { parseDateReference, resolveDateRange } = require('../dist/tools/dates');
+
+// A Wednesday
+const NOW = new Date('2024-10-16T12:00:00Z');
+
+const parse = text => parseDateReference(text, NOW);
+
+test('explicit days and ranges', () => {
+  assert.deepEqual(parse('2024-10-07'), { from: '2024-10-07', to: '2024-10-07' });
+  assert.deepEqual(parse('Oct 1 to Oct 7'), { from: '2024-10-01', to: '2024-10-07' });
+  assert.deepEqual(parse('2024-10-07..2024-10-01'), { from: '2024-10-01', to: '2024-10-07' });
+  assert.deepEqual(parse('changes on 10/3/2024'), { from: '2024-10-03', to: '2024-10-03' });
+  assert.deepEqual(parse('the 2nd of March 2023'), { from: '2023-03-02', to: '2023-03-02' });
+});
+
+test('a day without a year is the most recent one not in the future', () => {
+  assert.deepEqual(parse('Oct 7'), { from: '2024-10-07', to: '2024-10-07' });
+  assert.deepEqual(parse('Dec 25'), { from: '2023-12-25', to: '2023-12-25' });
+});
+
+test('windows around another date', () => {
+  assert.deepEqual(parse('the week before Oct 7'), { from: '2024-09-30', to: '2024-10-06' });
+  assert.deepEqual(parse('3 days after 2024-10-07'), { from: '2024-10-08', to: '2024-10-10' });
+  assert.deepEqual(parse('week of Oct 9'), { from: '2024-10-07', to: '2024-10-13' });
+  assert.deepEqual(parse('month of 2024-02-10'), { from: '2024-02-01', to: '2024-02-29' });
+});
+
+test('windows relative to today', () => {
+  assert.deepEqual(parse('yesterday'), { from: '2024-10-15', to: '2024-10-15' });
+  assert.deepEqual(parse('last 2 weeks'), { from: '2024-10-02', to: '2024-10-16' });
+  assert.deepEqual(parse('this week'), { from: '2024-10-14', to: '2024-10-16' });
+  assert.deepEqual(parse('this month'), { from: '2024-10-01', to: '2024-10-16' });
+});
+
+test('whole months, but not a bare month word inside text', () => {
+  assert.deepEqual(parse('October 2024'), { from: '2024-10-01', to: '2024-10-31' });
+  assert.deepEqual(parse('2024-02'), { from: '2024-02-01', to: '2024-02-29' });
+  assert.deepEqual(parse('november'), { from: '2023-11-01', to: '2023-11-30' });
+  assert.equal(parse('we may refactor auth'), null);
+  assert.equal(parse('Feb 30'), null);
+});
+
+test('filters win over the query, and either end may be open', () => {
+  assert.deepEqual(resolveDateRange({ date_from: '2024-10-01' }, 'yesterday', NOW), { from: '2024-10-01', to: '2024-10-16' });
+  assert.deepEqual(resolveDateRange({ date_to: 'Oct 7' }, undefined, NOW), { from: '1970-01-01', to: '2024-10-07' });
+  assert.deepEqual(resolveDateRange({ date: '2024-10-03' }, 'yesterday', NOW), { from: '2024-10-03', to: '2024-10-03' });
+  assert.deepEqual(resolveDateRange(undefined, 'what happened yesterday', NOW), { from: '2024-10-15', to: '2024-10-15' });
+  assert.equal(resolveDateRange({}, 'token expiry', NOW), null);
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.DB_READER_ROLE = 'tig_reader';
+const { PROJECT_ID } = require('./helpers');
+const config = require('../dist/config');
+const { queryInProject } = require('../dist/db');
+
+/**
+ * A pool whose pg_roles lookup finds the given roles; returns the statements it ran
+ */
+function useRoles(roles) {
+  const statements = [];
+  config.getDb = () => ({
+    query: async (sql, params) => ({ rows: roles.includes(params[0]) ? [{}] : [] }),
+    connect: async () => ({
+      query: async sql => {
+        statements.push(sql);
+        return { rows: [] };
+      },
+      escapeIdentifier: name => `"${name}"`,
+      escapeLiteral: value => `'${value}'`,
+      release() {}
+    })
+  });
+  return statements;
+}
+
+test('a missing DB_READER_ROLE fails before any read runs', async () => {
+  const statements = useRoles([]);
+
+  await assert.rejects(queryInProject(PROJECT_ID, 'SELECT 1'), /DB_READER_ROLE "tig_reader" does not exist/);
+  assert.deepEqual(statements, []);
+});
+
+test('reads switch to an existing DB_READER_ROLE for their transaction', async () => {
+  const statements = useRoles(['tig_reader']);
+
+  await queryInProject(PROJECT_ID, 'SELECT 1');
+
+  assert.match(statements[0], /^BEGIN READ ONLY; SET LOCAL ROLE "tig_reader"; SELECT set_config\('app.project_id', '1{8}-/);
+  assert.deepEqual(statements.slice(1), ['SELECT 1', 'COMMIT']);
+});
@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, memoryStream, useFakeDb } = require('./helpers');
+const { DiscoveryService } = require('../dist/agents/discoveryService');
+
+const CONVERSATION_ID = 'cccccccc-0000-4000-8000-000000000001';
+
+const THREAD = [{
+  id: 'aaaaaaaa-0000-4000-8000-000000000001',
+  conversation_id: CONVERSATION_ID,
+  prompt_text: 'Why do refresh tokens expire after an hour?',
+  response_text: 'We shortened the lifetime after the session fixation report.',
+  conversation_title: 'Token lifetime',
+  similarity: 0.9
+}];
+
+/**
+ * Answer title lookups with the conversation and thread queries with its interactions
+ */
+function conversationDb() {
+  return useFakeDb(sql => /ILIKE/.test(sql) ? [{ id: CONVERSATION_ID }] : /FROM interactions/.test(sql) ? THREAD : []);
+}
+
+function conversationSearch(filters) {
+  return {
+    query: 'Token lifetime',
+    iteration: 1,
+    source: 'worker-lead',
+    lead_type: 'conversation_reference',
+    filters
+  };
+}
+
+test('a conversation_id filter that is not a UUID falls back to the title lookup', async () => {
+  const queries = conversationDb();
+  const discovery = new DiscoveryService(PROJECT_ID, memoryStream());
+
+  const results = await discovery.handleSearchRequest(conversationSearch({ conversation_id: 'Token lifetime' }));
+
+  assert.deepEqual(results.map(r => r.id), [THREAD[0].id]);
+  const [lookup, thread] = queries.filter(q => /FROM (conversations|interactions)/.test(q.sql));
+  assert.match(lookup.sql, /ILIKE/);
+  assert.deepEqual(thread.params[0], [CONVERSATION_ID]);
+});
+
+test('a UUID conversation_id filter is used as is', async () => {
+  const queries = conversationDb();
+  const discovery = new DiscoveryService(PROJECT_ID, memoryStream());
+
+  await discovery.handleSearchRequest(conversationSearch({ conversation_id: CONVERSATION_ID }));
+
+  assert.ok(!queries.some(q => /ILIKE/.test(q.sql)));
+  assert.deepEqual(queries.find(q => /FROM interactions/.test(q.sql)).params[0], [CONVERSATION_ID]);
+});
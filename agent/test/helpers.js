@@ -0,0 +1,78 @@
+/**
+ * Shared test setup - quiet logs, in-memory and file streams, a fake database
+ * and recorded embeddings
+ *
+ * Tests run against the build (dist/), so `npm test` builds first.
+ */
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+delete process.env.S2_API_KEY;
+delete process.env.EXPLORATION_STREAM_DIR;
+
+const { LocalEmbeddingProvider } = require('@tig/shared');
+const config = require('../dist/config');
+const { createExplorationStream } = require('../dist/s2/client');
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+
+let sessionCount = 0;
+
+/**
+ * A fresh in-memory stream
+ */
+function memoryStream() {
+  return createExplorationStream(`test-session-${++sessionCount}`);
+}
+
+/**
+ * A stream persisted under directory, as with EXPLORATION_STREAM_DIR set
+ */
+function fileStream(directory, sessionId = `test-session-${++sessionCount}`) {
+  const { enabled, directory: previous } = config.FILE_STREAM_CONFIG;
+  Object.assign(config.FILE_STREAM_CONFIG, { enabled: true, directory });
+  try {
+    return createExplorationStream(sessionId);
+  } finally {
+    Object.assign(config.FILE_STREAM_CONFIG, { enabled, directory: previous });
+  }
+}
+
+/**
+ * Point getDb() at a fake pool; answer(sql, params) returns the rows for each
+ * query, on the pool or a client (transactions are answered with no rows).
+ * Returns the list of queries it answered.
+ */
+function useFakeDb(answer) {
+  const queries = [];
+  const query = async (sql, params) => {
+    if (/^\s*(BEGIN|COMMIT|ROLLBACK)/.test(sql)) {
+      return { rows: [] };
+    }
+    queries.push({ sql, params });
+    return { rows: answer(sql, params) };
+  };
+  config.getDb = () => ({
+    query,
+    connect: async () => ({
+      query,
+      escapeIdentifier: name => `"${name}"`,
+      escapeLiteral: value => `'${value}'`,
+      release() {}
+    })
+  });
+  return queries;
+}
+
+/**
+ * Local embeddings that keep the texts of every provider call in `calls`
+ */
+class RecordingEmbeddingProvider extends LocalEmbeddingProvider {
+  calls = [];
+
+  async embed(texts, inputType) {
+    this.calls.push(texts);
+    return super.embed(texts, inputType);
+  }
+}
+
+module.exports = { PROJECT_ID, memoryStream, fileStream, useFakeDb, RecordingEmbeddingProvider };
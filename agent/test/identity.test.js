@@ -0,0 +1,32 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+require('./helpers');
+const { namesMatch } = require('../dist/tools/identity');
+
+test('names equal ignoring case and punctuation match', () => {
+  assert.ok(namesMatch('Matthew K', 'matthew-k'));
+  assert.ok(namesMatch('ALICE', 'alice'));
+});
+
+test('a prefix of at least 3 characters matches', () => {
+  assert.ok(namesMatch('matt', 'matthew-k'));
+  assert.ok(namesMatch('matthew-k', 'Mat'));
+  assert.ok(!namesMatch('ma', 'matthew-k'));
+});
+
+test('every query word starting a word of the name matches', () => {
+  assert.ok(namesMatch('matt k', 'Matthew Kim'));
+  assert.ok(namesMatch('kim', 'Matthew Kim'));
+  assert.ok(!namesMatch('matt j', 'Matthew Kim'));
+});
+
+test('a lone initial matches only itself', () => {
+  assert.ok(!namesMatch('k', 'Matthew Kim'));
+  assert.ok(namesMatch('k', 'K'));
+});
+
+test('empty names never match', () => {
+  assert.ok(!namesMatch('', 'alice'));
+  assert.ok(!namesMatch('alice', '--'));
+});
@@ -0,0 +1,162 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, useFakeDb, RecordingEmbeddingProvider } = require('./helpers');
+const { setEmbeddingProviderOverride } = require('@tig/shared');
+const { INGESTION_CONFIG } = require('../dist/config');
+const { ingestEmbeddings } = require('../dist/tools/ingestion');
+const { DIFF_CHUNKS_SQL } = require('../dist/tools/semantic');
+
+const INTERACTION_ID = 'aaaaaaaa-0000-4000-8000-000000000001';
+
+const candidate = extra => ({
+  id: INTERACTION_ID,
+  prompt_text: 'Why do tokens expire?',
+  response_text: 'Session fixation.',
+  cursor_ts: '2024-10-07 12:00:00.123456+00',
+  needs_prompt_response: true,
+  needs_full_code_diff: false,
+  needs_chunked_code_diff: false,
+  ...extra
+});
+
+/**
+ * Answer ingestion's queries: the watermark, the candidate count and pages,
+ * the interaction's diff chunks and the chunk embeddings that already exist.
+ * Inserts return the rows that aren't in `conflicts` (written by a concurrent run).
+ */
+function ingestionDb({ watermark = null, candidates = [], chunks = [], embeddedChunks = [], conflicts = [] }) {
+  return useFakeDb((sql, params) => {
+    if (/^\s*INSERT INTO interaction_embeddings/.test(sql)) {
+      return rowsOf(params)
+        .filter(row => !conflicts.some(conflict => conflict.join() === row.join()))
+        .map(([, type]) => ({ type }));
+    }
+    if (/as watermark/.test(sql)) return [{ watermark }];
+    if (/as count/.test(sql)) return [{ count: String(candidates.length) }];
+    if (/LIMIT \$5/.test(sql)) {
+      const [, , , cursorId, limit] = params;
+      return candidates.slice(candidates.findIndex(row => row.id === cursorId) + 1).slice(0, limit);
+    }
+    if (/chunk_text/.test(sql)) return chunks;
+    if (/SELECT interaction_id, chunk_id/.test(sql)) return embeddedChunks;
+    return [];
+  });
+}
+
+/**
+ * [interaction_id, type, chunk_id] of every inserted row
+ */
+function inserted(queries) {
+  return queries
+    .filter(({ sql }) => /^\s*INSERT INTO interaction_embeddings/.test(sql))
+    .flatMap(({ params }) => rowsOf(params));
+}
+
+function rowsOf(params) {
+  const rows = [];
+  for (let i = 0; i < params.length; i += 4) rows.push(params.slice(i, i + 3));
+  return rows;
+}
+
+let provider;
+test.beforeEach(() => {
+  provider = new RecordingEmbeddingProvider(8);
+  setEmbeddingProviderOverride(provider);
+});
+test.after(() => setEmbeddingProviderOverride(null));
+
+test('incremental runs start from the newest embedded interaction', async () => {
+  const queries = ingestionDb({ watermark: '2024-10-01T00:00:00Z', candidates: [candidate()] });
+  const progress = await ingestEmbeddings(PROJECT_ID);
+
+  assert.equal(progress.since, '2024-10-01T00:00:00.000Z');
+  assert.deepEqual(queries.find(({ sql }) => /as count/.test(sql)).params, [PROJECT_ID, progress.since]);
+  assert.deepEqual(inserted(queries), [[INTERACTION_ID, 'prompt_response', null]]);
+  assert.deepEqual(progress.embeddings_written, { prompt_response: 1, full_code_diff: 0, chunked_code_diff: 0 });
+  assert.equal(progress.interactions_done, 1);
+});
+
+test('backfills and explicit since skip the watermark', async () => {
+  let queries = ingestionDb({ watermark: '2024-10-01T00:00:00Z' });
+  let progress = await ingestEmbeddings(PROJECT_ID, { mode: 'backfill' });
+  assert.equal(progress.since, null);
+  assert.ok(!queries.some(({ sql }) => /as watermark/.test(sql)));
+
+  queries = ingestionDb({ watermark: '2024-10-01T00:00:00Z' });
+  progress = await ingestEmbeddings(PROJECT_ID, { since: '2024-09-01' });
+  assert.equal(progress.since, '2024-09-01T00:00:00.000Z');
+  assert.ok(!queries.some(({ sql }) => /as watermark/.test(sql)));
+});
+
+test('pages resume after the last row of the previous page', async () => {
+  const second = candidate({ id: 'aaaaaaaa-0000-4000-8000-000000000002', cursor_ts: '2024-10-08 09:30:00.000001+00' });
+  const queries = ingestionDb({ candidates: [candidate(), second, candidate({ id: 'aaaaaaaa-0000-4000-8000-000000000003' })] });
+  const pages = [];
+  const progress = await ingestEmbeddings(PROJECT_ID, { maxInteractions: 2, pageSize: 1, onProgress: p => pages.push(p.interactions_done) });
+
+  const pageParams = queries.filter(({ sql }) => /LIMIT \$5/.test(sql)).map(({ params }) => params);
+  assert.deepEqual(pageParams, [
+    [PROJECT_ID, null, null, null, 1],
+    [PROJECT_ID, null, '2024-10-07 12:00:00.123456+00', INTERACTION_ID, 1]
+  ]);
+  assert.deepEqual(pages, [1, 2]);
+  assert.equal(progress.interactions_total, 2);
+  assert.deepEqual(inserted(queries).map(([id]) => id), [INTERACTION_ID, second.id]);
+});
+
+test('long text is split at line breaks and embedded as one row', async () => {
+  const previous = INGESTION_CONFIG.maxChunkChars;
+  INGESTION_CONFIG.maxChunkChars = 40;
+  try {
+    const prompt = ['first line of the prompt', 'second line of the prompt', 'third line'].join('\n');
+    const queries = ingestionDb({ candidates: [candidate({ prompt_text: prompt, response_text: '' })] });
+    await ingestEmbeddings(PROJECT_ID, { mode: 'backfill' });
+
+    assert.deepEqual(provider.calls.flat(), [
+      'first line of the prompt',
+      'second line of the prompt\nthird line'
+    ]);
+    assert.equal(inserted(queries).length, 1);
+  } finally {
+    INGESTION_CONFIG.maxChunkChars = previous;
+  }
+});
+
+test('only diff chunks without an embedding are written', async () => {
+  const queries = ingestionDb({
+    candidates: [candidate({ needs_prompt_response: false, needs_full_code_diff: true, needs_chunked_code_diff: true })],
+    chunks: [
+      { diff_id: 'd1', interaction_id: INTERACTION_ID, file_path: 'auth.ts', chunk_id: 1, chunk_text: '+ expires: 3600' },
+      { diff_id: 'd1', interaction_id: INTERACTION_ID, file_path: 'auth.ts', chunk_id: 0, chunk_text: '- expires: 86400' }
+    ],
+    embeddedChunks: [{ interaction_id: INTERACTION_ID, chunk_id: 0 }]
+  });
+  const progress = await ingestEmbeddings(PROJECT_ID, { mode: 'backfill' });
+
+  assert.deepEqual(inserted(queries), [
+    [INTERACTION_ID, 'full_code_diff', null],
+    [INTERACTION_ID, 'chunked_code_diff', 1]
+  ]);
+  assert.deepEqual(provider.calls.flat(), [
+    'auth.ts\n- expires: 86400\n\nauth.ts\n+ expires: 3600',
+    'auth.ts\n+ expires: 3600'
+  ]);
+  assert.deepEqual(progress.embeddings_written, { prompt_response: 0, full_code_diff: 1, chunked_code_diff: 1 });
+
+  // Chunks are numbered by the query codeSearch maps chunk hits back with
+  assert.deepEqual(queries.find(({ sql }) => /chunk_text/.test(sql)).sql, DIFF_CHUNKS_SQL);
+});
+
+test('rows a concurrent run wrote first are skipped and not counted', async () => {
+  const queries = ingestionDb({
+    candidates: [candidate({ needs_full_code_diff: true })],
+    chunks: [{ diff_id: 'd1', interaction_id: INTERACTION_ID, file_path: 'auth.ts', chunk_id: 0, chunk_text: '+ expires: 3600' }],
+    conflicts: [[INTERACTION_ID, 'prompt_response', null]]
+  });
+  const progress = await ingestEmbeddings(PROJECT_ID, { mode: 'backfill' });
+
+  assert.equal(inserted(queries).length, 2);
+  assert.ok(queries.every(({ sql }) => !/^\s*INSERT/.test(sql) || /ON CONFLICT DO NOTHING/.test(sql)));
+  assert.deepEqual(progress.embeddings_written, { prompt_response: 0, full_code_diff: 1, chunked_code_diff: 0 });
+});
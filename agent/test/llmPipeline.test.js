@@ -0,0 +1,133 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, memoryStream, useFakeDb } = require('./helpers');
+const { ScriptedProvider, setLLMProviderOverride } = require('@tig/shared');
+const { BudgetTracker } = require('../dist/budget');
+const { judgeAgent } = require('../dist/agents/judge');
+const { WorkerAgent } = require('../dist/agents/worker');
+const { IncrementalSynthesisAgent } = require('../dist/agents/incrementalSynthesis');
+
+const INTERACTIONS = [
+  {
+    id: 'aaaaaaaa-0000-4000-8000-000000000001',
+    conversation_id: 'cccccccc-0000-4000-8000-000000000001',
+    prompt_text: 'Why do refresh tokens expire after an hour?',
+    response_text: 'We shortened the lifetime after the session fixation report.',
+    author: 'alice',
+    prompt_ts: '2024-10-01T10:00:00Z',
+    conversation_title: 'Token lifetime'
+  },
+  {
+    id: 'aaaaaaaa-0000-4000-8000-000000000002',
+    conversation_id: 'cccccccc-0000-4000-8000-000000000002',
+    prompt_text: 'Fix the button colour',
+    response_text: 'Changed it to blue.',
+    author: 'bob',
+    prompt_ts: '2024-10-02T10:00:00Z',
+    conversation_title: 'Styling'
+  }
+];
+
+const FINDING = {
+  type: 'decision',
+  summary: 'Refresh tokens were cut to one hour after a session fixation report',
+  details: '"We shortened the lifetime after the session fixation report."',
+  entities: ['refresh token'],
+  relevance_to_query: 'Explains the expiry',
+  confidence: 0.9
+};
+
+test.afterEach(() => setLLMProviderOverride(null));
+
+test('judge queues only high-scoring interactions, repairing a malformed reply', async () => {
+  const provider = new ScriptedProvider([
+    'Here are the scores: { "scores": [ { "interaction_id": 1 } ] }',
+    JSON.stringify({
+      scores: [
+        { interaction_id: INTERACTIONS[0].id, score: 9, reason: 'Explains the token expiry' },
+        { interaction_id: INTERACTIONS[1].id, score: 2, reason: 'Unrelated styling' }
+      ]
+    })
+  ]);
+  setLLMProviderOverride(provider);
+  const stream = memoryStream();
+  const budget = new BudgetTracker({}, stream);
+
+  await judgeAgent(0, 0, INTERACTIONS, 'why do refresh tokens expire?', stream, budget);
+
+  assert.equal(provider.calls.length, 2);
+  assert.match(provider.calls[0].messages[0].content, /why do refresh tokens expire\?/);
+  const events = await stream.read({ agent: 'judge_0' });
+  assert.deepEqual(events.map(e => e.action), ['parse_error', 'scored_batch', 'add_to_queue']);
+  assert.equal(events[2].output.interaction_id, INTERACTIONS[0].id);
+  assert.equal(events[2].output.priority, 9);
+  assert.equal(budget.getUsage().llm_calls, 2);
+});
+
+test('worker investigates a queued thread and writes findings, completeness and lead searches', async () => {
+  const provider = new ScriptedProvider([
+    JSON.stringify({
+      findings: [FINDING],
+      leads: [
+        { type: 'pull_request', value: '#42', search_query: 'token lifetime PR', reason: 'Without this, we cannot answer: when it shipped', priority: 'high' },
+        { type: 'file', value: 'auth.ts', search_query: 'auth.ts', reason: 'Mentioned', priority: 'low' }
+      ],
+      completeness: { score: 0.7, missing: ['when it shipped'] }
+    })
+  ]);
+  setLLMProviderOverride(provider);
+  const queries = useFakeDb(() => [INTERACTIONS[0]]);
+  const stream = memoryStream();
+  const budget = new BudgetTracker({}, stream);
+  await stream.append({
+    agent: 'judge_0',
+    phase: 'judging',
+    action: 'add_to_queue',
+    output: { interaction_id: INTERACTIONS[0].id, conversation_id: INTERACTIONS[0].conversation_id, priority: 9, source: 'initial_embedding', iteration: 0, claimed: false }
+  });
+
+  await new WorkerAgent(0, 'why do refresh tokens expire?', PROJECT_ID, stream, budget).run();
+
+  assert.equal(provider.calls.length, 1);
+  assert.match(provider.calls[0].messages[0].content, /Why do refresh tokens expire after an hour\?/);
+  assert.deepEqual(queries[0].params, [INTERACTIONS[0].conversation_id, PROJECT_ID]);
+
+  const events = await stream.read({ agent: 'worker_0' });
+  const finding = events.find(e => e.action === 'finding').output;
+  assert.equal(finding.summary, FINDING.summary);
+  assert.equal(finding.interaction_id, INTERACTIONS[0].id);
+  assert.equal(finding.author, 'alice');
+  assert.equal(events.find(e => e.action === 'completeness').output.score, 0.7);
+
+  const searches = events.filter(e => e.action === 'request_search').map(e => e.output);
+  assert.deepEqual(searches.map(s => [s.lead_type, s.query]), [['pr_reference', 'token lifetime PR']]);
+  assert.ok(events.some(e => e.action === 'complete_work'));
+});
+
+test('synthesis drafts from new findings and finalizes the answer', async () => {
+  const provider = new ScriptedProvider([
+    'Draft: refresh tokens expire after an hour [INVESTIGATING: when it shipped]',
+    'Refresh tokens expire after an hour because of the session fixation report (alice, Oct 1).'
+  ]);
+  setLLMProviderOverride(provider);
+  const stream = memoryStream();
+  const budget = new BudgetTracker({}, stream);
+  const synthesis = new IncrementalSynthesisAgent('why do refresh tokens expire?', stream, budget);
+  await synthesis.start();
+
+  assert.equal(await synthesis.checkForUpdates(), false);
+  await stream.append({ agent: 'worker_0', phase: 'investigation', action: 'finding', output: { ...FINDING, interaction_id: INTERACTIONS[0].id, author: 'alice', timestamp: INTERACTIONS[0].prompt_ts } });
+
+  assert.equal(await synthesis.checkForUpdates(), true);
+  assert.match(synthesis.getCurrentAnswer(), /^Draft:/);
+  assert.match(provider.calls[0].messages[0].content, /session fixation report/);
+
+  const answer = await synthesis.finalize();
+  assert.match(answer, /because of the session fixation report/);
+  assert.equal(provider.calls.length, 2);
+  assert.match(provider.calls[1].messages[0].content, /Draft: refresh tokens expire/);
+
+  const actions = (await stream.read({ agent: 'synthesis' })).map(e => e.action);
+  assert.deepEqual(actions, ['started', 'intermediate_update', 'finalized']);
+});
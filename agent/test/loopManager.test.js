@@ -0,0 +1,93 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, memoryStream } = require('./helpers');
+const { BudgetTracker } = require('../dist/budget');
+const { LoopManager } = require('../dist/agents/loopManager');
+const { DiscoveryService } = require('../dist/agents/discoveryService');
+
+const QUERY = 'why do refresh tokens expire?';
+
+/**
+ * Record the searches discovery is asked to run - each completes with no results
+ */
+function recordSearches(t) {
+  const searches = [];
+  t.mock.method(DiscoveryService.prototype, 'handleSearchRequest', async function (request) {
+    searches.push(request);
+    await this.stream.append({
+      agent: 'discovery',
+      phase: 'search',
+      action: 'search_complete',
+      output: { iteration: request.iteration, source: request.source, query: request.query, lead_type: request.lead_type, results_found: 0, interaction_ids: [] }
+    });
+    return [];
+  });
+  return searches;
+}
+
+function checkpoint(stream, action, iteration) {
+  return stream.append({ agent: 'loop_manager', phase: 'search', action, output: { iteration } });
+}
+
+function searchComplete(stream, source, query) {
+  return stream.append({ agent: 'discovery', phase: 'search', action: 'search_complete', output: { source, query, results_found: 0, interaction_ids: [] } });
+}
+
+function leadSearch(stream, query) {
+  return stream.append({ agent: 'worker_0', phase: 'investigation', action: 'request_search', output: { query, lead_type: 'entity_reference', reason: 'Mentioned' } });
+}
+
+async function resume(stream) {
+  await new LoopManager(QUERY, PROJECT_ID, stream, new BudgetTracker({}, stream)).resume();
+  return (await stream.read({ agent: 'loop_manager' })).map(e => `${e.action}:${e.output.iteration}`);
+}
+
+test('resume re-runs the user query when iteration 0 stopped before its search', async t => {
+  const searches = recordSearches(t);
+  const stream = memoryStream();
+  await checkpoint(stream, 'iteration_started', 0);
+
+  const actions = await resume(stream);
+
+  assert.deepEqual(searches.map(s => [s.source, s.query, s.iteration]), [['user_query', QUERY, 0]]);
+  assert.deepEqual(actions.slice(0, 2), ['iteration_started:0', 'iteration_complete:0']);
+});
+
+test('resume re-runs only the lead searches of the interrupted iteration that never completed', async t => {
+  const searches = recordSearches(t);
+  const stream = memoryStream();
+  await checkpoint(stream, 'iteration_started', 0);
+  await searchComplete(stream, 'user_query', QUERY);
+  const done = await leadSearch(stream, 'session fixation');
+  const open = await leadSearch(stream, 'token lifetime');
+  await checkpoint(stream, 'iteration_complete', 0);
+  await stream.append({ agent: 'loop_manager', phase: 'search', action: 'convergence_decision', output: { iteration: 0, action: 'continue', targeted_queries: [] } });
+  await checkpoint(stream, 'iteration_started', 1);
+  await searchComplete(stream, done, 'session fixation');
+
+  await resume(stream);
+
+  assert.deepEqual(searches.map(s => [s.source, s.query, s.iteration]), [[open, 'token lifetime', 1]]);
+});
+
+test('resume re-runs the targeted questions a target_missing decision picked', async t => {
+  const searches = recordSearches(t);
+  const stream = memoryStream();
+  await checkpoint(stream, 'iteration_started', 0);
+  await searchComplete(stream, 'user_query', QUERY);
+  await checkpoint(stream, 'iteration_complete', 0);
+  const decision = await stream.append({
+    agent: 'loop_manager',
+    phase: 'search',
+    action: 'convergence_decision',
+    output: { iteration: 0, action: 'target_missing', targeted_queries: ['when it shipped', 'who approved it'] }
+  });
+  await checkpoint(stream, 'iteration_started', 1);
+  await searchComplete(stream, decision, 'when it shipped');
+
+  const actions = await resume(stream);
+
+  assert.deepEqual(searches.map(s => [s.source, s.query, s.iteration]), [[decision, 'who approved it', 1]]);
+  assert.ok(actions.includes('iteration_complete:1'));
+});
@@ -0,0 +1,115 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, memoryStream, useFakeDb } = require('./helpers');
+const { LocalEmbeddingProvider, setEmbeddingProviderOverride } = require('@tig/shared');
+const { RERANK_CONFIG } = require('../dist/config');
+const { LocalRerankProvider, rerankInteractions, setRerankProviderOverride } = require('../dist/tools/rerank');
+const { DiscoveryService } = require('../dist/agents/discoveryService');
+
+const interaction = id => ({ id, conversation_id: 'c1', prompt_text: id, response_text: '' });
+
+/**
+ * Reranker that scores each document (here just the prompt, i.e. the ID) from a table
+ */
+function fixedReranker(scores) {
+  const provider = {
+    name: 'fixed',
+    calls: 0,
+    async rerank(query, documents) {
+      provider.calls++;
+      return documents.map(document => scores[document] ?? 0);
+    }
+  };
+  setRerankProviderOverride(provider);
+  return provider;
+}
+
+test.afterEach(() => setRerankProviderOverride(null));
+
+test('candidates under the lead type\'s minScore are dropped and the rest sorted best first', async () => {
+  const { minScore } = RERANK_CONFIG.cutoffs.initial;
+  fixedReranker({ a: 0.5, b: minScore - 0.01, c: 0.9, d: minScore });
+
+  const outcome = await rerankInteractions('token expiry', ['a', 'b', 'c', 'd'].map(interaction), 'initial');
+
+  assert.deepEqual(outcome.kept.map(i => [i.id, i.rerank_score]), [['c', 0.9], ['a', 0.5], ['d', minScore]]);
+  assert.equal(outcome.dropped, 1);
+  assert.equal(outcome.scored, 4);
+});
+
+test('at most topK candidates are kept', async () => {
+  const ids = Array.from({ length: 15 }, (_, i) => `i${i}`);
+  fixedReranker(Object.fromEntries(ids.map((id, i) => [id, 0.5 + i / 100])));
+
+  const outcome = await rerankInteractions('token expiry', ids.map(interaction), 'entity_reference');
+
+  assert.equal(RERANK_CONFIG.cutoffs.entity_reference.topK, 10);
+  assert.deepEqual(outcome.kept.map(i => i.id), ids.slice(5).reverse());
+  assert.equal(outcome.dropped, 5);
+});
+
+test('lead types without a cutoff are not reranked', async () => {
+  const provider = fixedReranker({});
+
+  for (const leadType of ['commit_reference', 'person_reference', 'date_reference', 'conversation_reference', 'pr_reference']) {
+    const candidates = ['a', 'b'].map(interaction);
+    const outcome = await rerankInteractions('abc1234', candidates, leadType);
+
+    assert.equal(outcome.kept, candidates);
+    assert.deepEqual([outcome.dropped, outcome.scored], [0, 0]);
+  }
+  assert.equal(provider.calls, 0);
+});
+
+test('every candidate is kept when the reranker fails', async () => {
+  setRerankProviderOverride({
+    name: 'failing',
+    async rerank() {
+      throw new Error('rerank unavailable');
+    }
+  });
+  const candidates = ['a', 'b', 'c'].map(interaction);
+
+  const outcome = await rerankInteractions('token expiry', candidates, 'initial');
+
+  assert.equal(outcome.kept, candidates);
+  assert.deepEqual([outcome.dropped, outcome.scored], [0, 0]);
+});
+
+test('the local reranker scores by shared query terms, rare terms weighing more', async () => {
+  const scores = await new LocalRerankProvider().rerank('refresh token expiry', [
+    'Why does the refresh token expire? Token expiry was cut to an hour',
+    'Token styling for the login button',
+    'Fix the button colour'
+  ]);
+
+  assert.ok(scores[0] > scores[1]);
+  assert.ok(scores[1] > scores[2]);
+  assert.equal(scores[2], 0);
+});
+
+test('discovery does not mark reranked-out interactions as seen, so a later lead can surface them', async () => {
+  setEmbeddingProviderOverride(new LocalEmbeddingProvider(8));
+  try {
+    const rows = ['a', 'b', 'c'].map(id => ({ ...interaction(id), similarity: 0.8 }));
+    useFakeDb(sql => /<=>/.test(sql) ? rows : []);
+    const stream = memoryStream();
+    const discovery = new DiscoveryService(PROJECT_ID, stream);
+    const search = iteration => ({ query: 'token expiry', iteration, source: 'user_query', lead_type: 'initial' });
+
+    fixedReranker({ a: 0.9, b: 0.1, c: 0.5 });
+    const first = await discovery.handleSearchRequest(search(0));
+
+    fixedReranker({ a: 0.9, b: 0.9, c: 0.5 });
+    const second = await discovery.handleSearchRequest(search(1));
+
+    assert.deepEqual(first.map(i => i.id), ['a', 'c']);
+    assert.deepEqual(second.map(i => i.id), ['b']);
+
+    const completed = (await stream.read({ action: 'search_complete' })).map(e => e.output);
+    assert.deepEqual(completed.map(o => [o.results_found, o.duplicates_filtered, o.reranked_out]), [[2, 0, 1], [1, 2, 0]]);
+  } finally {
+    setEmbeddingProviderOverride(null);
+  }
+});
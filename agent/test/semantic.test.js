@@ -0,0 +1,130 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, useFakeDb } = require('./helpers');
+const { LocalEmbeddingProvider, setEmbeddingProviderOverride } = require('@tig/shared');
+const { SEARCH_CONFIG } = require('../dist/config');
+const { DIFF_CHUNKS_SQL, codeSearch, hybridSearch } = require('../dist/tools/semantic');
+
+const row = (id, extra) => ({ id, conversation_id: 'c1', prompt_text: id, response_text: '', ...extra });
+
+const VECTOR = [row('a', { similarity: 0.9 }), row('b', { similarity: 0.8 }), row('c', { similarity: 0.7 })];
+const LEXICAL = [row('c', { lexical_score: 0.5 }), row('d', { lexical_score: 0.4 })];
+
+const rrf = rank => 1 / (SEARCH_CONFIG.rrfK + rank);
+
+/**
+ * Answer the vector query with `vector` and the full-text query with `lexical`
+ */
+function searchDb(vector, lexical) {
+  return useFakeDb(sql => /<=>/.test(sql) ? vector : /ts_rank_cd/.test(sql) ? lexical : []);
+}
+
+test.beforeEach(() => setEmbeddingProviderOverride(new LocalEmbeddingProvider(8)));
+test.after(() => setEmbeddingProviderOverride(null));
+
+test('results found by both signals sum their reciprocal ranks', async () => {
+  const queries = searchDb(VECTOR, LEXICAL);
+  const results = await hybridSearch('token expiry', PROJECT_ID, 10);
+
+  assert.deepEqual(results.map(r => r.id), ['c', 'a', 'b', 'd']);
+  assert.equal(results[0].fusion_score, rrf(3) + rrf(1));
+  assert.equal(results[0].vector_score, 0.7);
+  assert.equal(results[0].lexical_score, 0.5);
+  assert.equal(results[1].fusion_score, rrf(1));
+  assert.equal(results[1].lexical_score, undefined);
+  assert.equal(results[3].vector_score, undefined);
+
+  // Each signal ranks a wider candidate pool than the final limit
+  for (const { params } of queries) {
+    assert.ok(params.includes(10 * SEARCH_CONFIG.candidateMultiplier));
+  }
+});
+
+test('fused results are cut to the limit', async () => {
+  searchDb(VECTOR, LEXICAL);
+  const results = await hybridSearch('token expiry', PROJECT_ID, 2);
+  assert.deepEqual(results.map(r => r.id), ['c', 'a']);
+});
+
+test('a failed signal falls back to the other one', async () => {
+  setEmbeddingProviderOverride({
+    name: 'broken',
+    model: 'broken',
+    embed: async () => { throw new Error('embedding service down'); }
+  });
+  searchDb(VECTOR, LEXICAL);
+
+  const results = await hybridSearch('token expiry', PROJECT_ID, 10);
+  assert.deepEqual(results.map(r => r.id), ['c', 'd']);
+});
+
+test('both signals failing is an error', async () => {
+  useFakeDb(() => { throw new Error('database down'); });
+  setEmbeddingProviderOverride({
+    name: 'broken',
+    model: 'broken',
+    embed: async () => { throw new Error('embedding service down'); }
+  });
+
+  await assert.rejects(hybridSearch('token expiry', PROJECT_ID, 10), /embedding/);
+});
+
+const hit = (id, type, chunk_id, similarity) => row(id, { type, chunk_id, similarity: String(similarity) });
+
+// i1 changed auth.ts (chunks 0 and 1) then session.ts (chunk 2); i2 changed api.ts
+const DIFF_CHUNKS = [
+  { diff_id: 'd1', interaction_id: 'i1', file_path: 'auth.ts', chunk_id: 0, chunk_text: '- expires: 86400' },
+  { diff_id: 'd1', interaction_id: 'i1', file_path: 'auth.ts', chunk_id: 1, chunk_text: '+ expires: 3600' },
+  { diff_id: 'd2', interaction_id: 'i1', file_path: 'session.ts', chunk_id: 2, chunk_text: '+ rotate()' },
+  { diff_id: 'd3', interaction_id: 'i2', file_path: 'api.ts', chunk_id: 0, chunk_text: '+ retry()' }
+];
+
+/**
+ * Answer the code embedding query with `hits` and the diff chunk query from DIFF_CHUNKS
+ */
+function codeDb(hits) {
+  return useFakeDb((sql, params) => {
+    if (/<=>/.test(sql)) return hits;
+    if (sql === DIFF_CHUNKS_SQL) return DIFF_CHUNKS.filter(chunk => params[0].includes(chunk.interaction_id));
+    return [];
+  });
+}
+
+test('code hits are mapped back to the files they changed: a chunk to its file, a full diff to every file', async () => {
+  const queries = codeDb([
+    hit('i1', 'chunked_code_diff', 2, 0.9),
+    hit('i1', 'full_code_diff', null, 0.8),
+    hit('i1', 'chunked_code_diff', 1, 0.7),
+    hit('i2', 'chunked_code_diff', 5, 0.6), // Stale: i2 has no chunk 5
+    hit('i2', 'full_code_diff', null, 0.5)
+  ]);
+
+  const results = await codeSearch('token rotation', PROJECT_ID, 10);
+
+  assert.deepEqual(queries.find(({ sql }) => sql === DIFF_CHUNKS_SQL).params, [['i1', 'i2']]);
+  assert.deepEqual(results.map(r => [r.file_path, r.similarity, r.interaction.id, r.interaction.similarity]), [
+    ['session.ts', 0.9, 'i1', 0.9],
+    ['auth.ts', 0.8, 'i1', 0.8],
+    ['api.ts', 0.5, 'i2', 0.5]
+  ]);
+  assert.deepEqual(results[0].chunks.map(c => [c.chunk_id, c.chunk_text, c.similarity]), [
+    [2, '+ rotate()', 0.9],
+    [null, '+ rotate()', 0.8]
+  ]);
+  assert.deepEqual(results[1].chunks.map(c => [c.chunk_id, c.chunk_text, c.similarity]), [
+    [null, '- expires: 86400\n+ expires: 3600', 0.8],
+    [1, '+ expires: 3600', 0.7]
+  ]);
+  assert.equal(results[0].interaction.type, undefined);
+});
+
+test('code search is cut to the limit and skips the chunk query without hits', async () => {
+  codeDb([hit('i1', 'full_code_diff', null, 0.8), hit('i2', 'full_code_diff', null, 0.5)]);
+  const results = await codeSearch('token rotation', PROJECT_ID, 2);
+  assert.deepEqual(results.map(r => r.file_path), ['auth.ts', 'session.ts']);
+
+  const queries = codeDb([]);
+  assert.deepEqual(await codeSearch('token rotation', PROJECT_ID, 10), []);
+  assert.ok(!queries.some(({ sql }) => sql === DIFF_CHUNKS_SQL));
+});
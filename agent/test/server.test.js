@@ -0,0 +1,187 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { PROJECT_ID, useFakeDb } = require('./helpers');
+const {
+  ScriptedProvider,
+  setLLMProviderOverride,
+  LocalEmbeddingProvider,
+  setEmbeddingProviderOverride
+} = require('@tig/shared');
+const { SERVER_CONFIG } = require('../dist/config');
+const { createExplorationServer } = require('../dist/server/server');
+
+const BRIEF = 'Refresh tokens expire after an hour since the session fixation report.';
+
+/**
+ * A scripted provider that holds every reply until release() - keeps sessions running
+ */
+class GatedProvider extends ScriptedProvider {
+  constructor(script) {
+    super(script);
+    this.gate = new Promise(resolve => { this.release = resolve; });
+  }
+
+  async complete(request) {
+    await this.gate;
+    return super.complete(request);
+  }
+}
+
+let server;
+let baseUrl;
+
+test.before(async () => {
+  // No seeds in the fake database, so the explore engine goes straight to synthesis
+  useFakeDb(() => []);
+  setEmbeddingProviderOverride(new LocalEmbeddingProvider(8));
+
+  server = createExplorationServer();
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+test.after(async () => {
+  setLLMProviderOverride(null);
+  setEmbeddingProviderOverride(null);
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(() => setLLMProviderOverride(new ScriptedProvider(() => BRIEF)));
+
+async function startExploration(body = { query: 'why do refresh tokens expire?', engine: 'explore', project_id: PROJECT_ID }) {
+  const response = await fetch(`${baseUrl}/explorations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function waitUntilFinished(id) {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const session = await (await fetch(`${baseUrl}/explorations/${id}`)).json();
+    if (session.status !== 'running') {
+      return session;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Exploration ${id} did not finish`);
+}
+
+/**
+ * Read an SSE response to the end and split it into { id, data } messages
+ */
+async function readEvents(id, headers = {}) {
+  const response = await fetch(`${baseUrl}/explorations/${id}/events`, { headers });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-type'), /^text\/event-stream/);
+
+  return (await response.text())
+    .split('\n\n')
+    .filter(message => message.startsWith('id: '))
+    .map(message => {
+      const [idLine, dataLine] = message.split('\n');
+      return { id: Number(idLine.slice('id: '.length)), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
+
+test('POST starts an exploration and GET reports it until the result is in', async () => {
+  const { status, body } = await startExploration();
+
+  assert.equal(status, 202);
+  assert.equal(body.status, 'running');
+  assert.equal(body.engine, 'explore');
+  assert.equal(body.events_url, `/explorations/${body.id}/events`);
+
+  const session = await waitUntilFinished(body.id);
+  assert.equal(session.status, 'complete');
+  assert.equal(session.result.brief, BRIEF);
+  assert.equal(session.result.sessionId, body.id);
+  assert.ok(session.completed_at);
+});
+
+test('the event stream numbers events by sequence and ends with the outcome', async () => {
+  const { body } = await startExploration();
+  await waitUntilFinished(body.id);
+
+  const events = await readEvents(body.id);
+
+  assert.deepEqual(events.map(e => e.id), events.map((_, seq) => seq));
+  assert.equal(events[0].data.action, 'find_seeds');
+  const last = events[events.length - 1].data;
+  assert.equal(last.agent, 'server');
+  assert.equal(last.action, 'exploration_complete');
+});
+
+test('Last-Event-ID resumes the event stream after that event', async () => {
+  const { body } = await startExploration();
+  await waitUntilFinished(body.id);
+
+  const all = await readEvents(body.id);
+  const resumed = await readEvents(body.id, { 'Last-Event-ID': '2' });
+
+  assert.deepEqual(resumed, all.slice(3));
+});
+
+test('a failed exploration is reported with its error', async () => {
+  setLLMProviderOverride(new ScriptedProvider([]));
+  const { body } = await startExploration();
+
+  const session = await waitUntilFinished(body.id);
+  assert.equal(session.status, 'failed');
+  assert.match(session.error, /script exhausted/);
+
+  const events = await readEvents(body.id);
+  assert.equal(events[events.length - 1].data.action, 'exploration_failed');
+});
+
+test('unknown explorations and paths are 404', async () => {
+  const session = await fetch(`${baseUrl}/explorations/api-explore-0-missing`);
+  assert.equal(session.status, 404);
+  assert.match((await session.json()).error, /not found/);
+
+  assert.equal((await fetch(`${baseUrl}/explorations/api-explore-0-missing/events`)).status, 404);
+  assert.equal((await fetch(`${baseUrl}/sessions`)).status, 404);
+});
+
+test('bad requests are rejected before anything runs', async () => {
+  assert.equal((await startExploration({ engine: 'explore' })).status, 400);
+  assert.equal((await startExploration({ query: 'q', engine: 'bogus' })).status, 400);
+
+  const invalid = await fetch(`${baseUrl}/explorations`, { method: 'POST', body: '{ not json' });
+  assert.equal(invalid.status, 400);
+});
+
+test('request bodies over 1 MB are rejected with 413', async () => {
+  const response = await fetch(`${baseUrl}/explorations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query: 'x'.repeat(1024 * 1024) })
+  });
+
+  assert.equal(response.status, 413);
+  assert.match((await response.json()).error, /too large/);
+});
+
+test('POSTs beyond maxRunningSessions get 429 until one finishes', async () => {
+  const previous = SERVER_CONFIG.maxRunningSessions;
+  SERVER_CONFIG.maxRunningSessions = 1;
+  const provider = new GatedProvider(() => BRIEF);
+  setLLMProviderOverride(provider);
+
+  try {
+    const first = await startExploration();
+    assert.equal(first.status, 202);
+
+    const second = await startExploration();
+    assert.equal(second.status, 429);
+
+    provider.release();
+    assert.equal((await waitUntilFinished(first.body.id)).status, 'complete');
+    assert.equal((await startExploration()).status, 202);
+  } finally {
+    SERVER_CONFIG.maxRunningSessions = previous;
+  }
+});
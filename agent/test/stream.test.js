@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { access, mkdtemp, rm, utimes, writeFile } = require('fs/promises');
+const { tmpdir } = require('os');
+const path = require('path');
+
+const { memoryStream, fileStream } = require('./helpers');
+
+let directory;
+
+test.before(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'tig-streams-'));
+});
+
+test.after(() => rm(directory, { recursive: true, force: true }));
+
+function event(agent, n) {
+  return { agent, phase: 'investigation', action: 'finding', output: { n } };
+}
+
+test('event IDs are random, so writers in several processes never repeat one', async () => {
+  const sessionId = 'unique-ids';
+  const writers = [fileStream(directory, sessionId), fileStream(directory, sessionId)];
+
+  const ids = await Promise.all(writers.flatMap(stream =>
+    Array.from({ length: 20 }, (_, n) => stream.append(event('worker_0', n)))));
+
+  assert.equal(new Set(ids).size, ids.length);
+  ids.forEach(id => assert.match(id, /^worker_0-[0-9a-f]{8}-[0-9a-f-]{27}$/));
+});
+
+test('a file stream replays the session in another process after a restart', async () => {
+  const sessionId = 'replay';
+  const writer = fileStream(directory, sessionId);
+  const first = await writer.append(event('judge_0', 1));
+  await writer.append(event('worker_0', 2));
+  const storageKey = await writer.put('results', [{ id: 'a' }]);
+
+  const reader = fileStream(directory, sessionId);
+  const events = await reader.read();
+  assert.deepEqual(events.map(e => e.output.n), [1, 2]);
+  assert.deepEqual(await reader.get(storageKey), [{ id: 'a' }]);
+  assert.deepEqual((await reader.read({ since_id: first })).map(e => e.output.n), [2]);
+
+  await writer.append(event('worker_0', 3));
+  const page = await reader.readFrom(2);
+  assert.deepEqual(page.events.map(e => e.output.n), [3]);
+  assert.equal(page.next_seq, 3);
+});
+
+test('a file stream holds its lock across writers, so no append is lost or torn', async () => {
+  const sessionId = 'locking';
+  const writers = [fileStream(directory, sessionId), fileStream(directory, sessionId), fileStream(directory, sessionId)];
+
+  await Promise.all(writers.flatMap((stream, w) =>
+    Array.from({ length: 15 }, (_, n) => stream.append(event(`worker_${w}`, n)))));
+
+  const events = await fileStream(directory, sessionId).read();
+  assert.equal(events.length, 45);
+  for (let w = 0; w < writers.length; w++) {
+    // Each writer's events keep their order
+    assert.deepEqual(events.filter(e => e.agent === `worker_${w}`).map(e => e.output.n), [...Array(15).keys()]);
+  }
+  await assert.rejects(access(path.join(directory, sessionId, 'events.lock')));
+});
+
+test('a file stream takes over a lock left behind by a crashed process', async () => {
+  const sessionId = 'stale-lock';
+  const stream = fileStream(directory, sessionId);
+  await stream.append(event('worker_0', 1));
+
+  const lockPath = path.join(directory, sessionId, 'events.lock');
+  await writeFile(lockPath, '');
+  const old = new Date(Date.now() - 60000);
+  await utimes(lockPath, old, old);
+
+  await stream.append(event('worker_0', 2));
+  assert.deepEqual((await stream.read()).map(e => e.output.n), [1, 2]);
+});
+
+for (const [kind, open] of [['in-memory', () => memoryStream()], ['file', () => fileStream(directory)]]) {
+  test(`${kind} appendIf only appends at the expected sequence number`, async () => {
+    const stream = open();
+    await stream.append(event('judge_0', 1));
+
+    assert.equal(await stream.appendIf(event('worker_0', 2), 0), null);
+    assert.ok(await stream.appendIf(event('worker_0', 2), 1));
+
+    // Two writers from the same view - exactly one wins
+    const results = await Promise.all([stream.appendIf(event('worker_1', 3), 2), stream.appendIf(event('worker_2', 3), 2)]);
+    assert.equal(results.filter(Boolean).length, 1);
+    assert.deepEqual((await stream.read()).map(e => e.output.n), [1, 2, 3]);
+  });
+}
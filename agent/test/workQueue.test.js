@@ -0,0 +1,119 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { memoryStream } = require('./helpers');
+const { WORK_QUEUE_CONFIG } = require('../dist/config');
+const { WorkQueue } = require('../dist/s2/workQueue');
+
+function enqueue(stream, interactionId, conversationId, priority) {
+  return stream.append({
+    agent: 'judge_0',
+    phase: 'judging',
+    action: 'add_to_queue',
+    output: { interaction_id: interactionId, conversation_id: conversationId, priority, source: 'initial_embedding', iteration: 0, claimed: false }
+  });
+}
+
+/**
+ * Claims taken inside fn get leases of leaseMs
+ */
+async function withLease(leaseMs, fn) {
+  const previous = WORK_QUEUE_CONFIG.leaseMs;
+  WORK_QUEUE_CONFIG.leaseMs = leaseMs;
+  try {
+    return await fn();
+  } finally {
+    WORK_QUEUE_CONFIG.leaseMs = previous;
+  }
+}
+
+test('workers racing from the same view never claim the same item or thread', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  await enqueue(stream, 'i2', 'c1', 8);
+  await enqueue(stream, 'i3', 'c2', 7);
+  const workers = [new WorkQueue(stream), new WorkQueue(stream), new WorkQueue(stream)];
+
+  const claims = await Promise.all(workers.map((queue, n) => queue.claim(`worker_${n}`)));
+
+  const claimed = claims.filter(Boolean).map(claim => claim.item.interaction_id).sort();
+  assert.deepEqual(claimed, ['i1', 'i3']);
+  assert.equal(await new WorkQueue(stream).pendingCount(), 0);
+});
+
+test('a completed item is never handed out again, a released one right away', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  await enqueue(stream, 'i2', 'c2', 5);
+  const queue = new WorkQueue(stream);
+
+  const first = await queue.claim('worker_0');
+  const second = await queue.claim('worker_0');
+  await queue.complete('worker_0', first);
+  await queue.release('worker_0', second);
+
+  const again = await new WorkQueue(stream).claim('worker_1');
+  assert.equal(again.item.interaction_id, 'i2');
+  assert.equal(await queue.claim('worker_0'), null);
+});
+
+test('a lapsed lease is handed out again, and the old holder can no longer renew it', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  const queue = new WorkQueue(stream);
+
+  const stale = await withLease(-1000, () => queue.claim('worker_0'));
+  assert.equal(await queue.pendingCount(), 1);
+
+  const taken = await queue.claim('worker_1');
+  assert.equal(taken.queue_event_id, stale.queue_event_id);
+
+  // The crashed worker wakes up: its heartbeat and release don't touch the new claim
+  await withLease(-1000, () => queue.heartbeat('worker_0', stale));
+  await queue.release('worker_0', stale);
+  assert.equal(await new WorkQueue(stream).pendingCount(), 0);
+});
+
+test('completing a claim whose lease was taken over leaves the item with its new holder', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  const queue = new WorkQueue(stream);
+
+  const stale = await withLease(-1000, () => queue.claim('worker_0'));
+  const taken = await withLease(-1000, () => queue.claim('worker_1'));
+  await queue.complete('worker_0', stale);
+
+  // Not completed: once worker_1's lease lapses too the item is handed out again
+  assert.equal(await new WorkQueue(stream).pendingCount(), 1);
+
+  await queue.complete('worker_1', taken);
+  assert.equal(await new WorkQueue(stream).pendingCount(), 0);
+});
+
+test('heartbeats keep a short lease alive', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  const queue = new WorkQueue(stream);
+
+  const claim = await withLease(-1000, () => queue.claim('worker_0'));
+  assert.equal(await queue.pendingCount(), 1);
+
+  await queue.heartbeat('worker_0', claim);
+  assert.equal(await queue.pendingCount(), 0);
+});
+
+test('releaseOpenClaims frees every unfinished claim of a dead run', async () => {
+  const stream = memoryStream();
+  await enqueue(stream, 'i1', 'c1', 9);
+  await enqueue(stream, 'i2', 'c2', 8);
+  await enqueue(stream, 'i3', 'c3', 7);
+  const dead = new WorkQueue(stream);
+  const done = await dead.claim('worker_0');
+  await dead.claim('worker_1');
+  await dead.claim('worker_2');
+  await dead.complete('worker_0', done);
+
+  const resumed = new WorkQueue(stream);
+  assert.equal(await resumed.releaseOpenClaims('loop_manager'), 2);
+  assert.equal(await resumed.pendingCount(), 2);
+});
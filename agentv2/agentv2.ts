@@ -1,8 +1,10 @@
+import { completeStructured, getLogger, guardSql } from '@tig/shared';
 import { ExplorationStream } from './src/simpleStream';
 import { SearchRequest, Interaction, AgentV2Result, AgentV2Config, Finding, Lead, SQLDiscoveryResult } from './src/simpleTypes';
-import { createAnthropicClient, AGENT_MODELS, getDb } from './src/simpleConfig';
+import { getDb, getLLM } from './src/simpleConfig';
+import { SQLAnalysisSchema } from './src/simpleSchemas';
 import { executeSemanticSearch } from './src/semanticSearch';
-import { SCHEMA_TEXT } from './src/ontology';
+import { SCHEMA_TEXT, SQL_GUARD_POLICY } from './src/ontology';
 
 /**
  * Agent v2 - intelligent agent using SQL-driven discovery
@@ -52,7 +54,6 @@ export interface SQLQueryResult {
  * Analyze user query to extract structured information
  */
 async function analyzeUserQuery(userQuery: string): Promise<QueryAnalysis> {
-  const client = createAnthropicClient();
   
   const systemPrompt = `You are an expert at analyzing user queries to extract structured information for database searches.
 
@@ -72,8 +73,7 @@ Examples of bad concepts: "billing system architecture", "authentication impleme
 
 Be thorough but precise. Extract information that would help find relevant conversations, commits, and code.`;
 
-  const response = await client.messages.create({
-    model: AGENT_MODELS.synthesis,
+  const { data } = await getLLM().completeJSON<QueryAnalysis>({
     max_tokens: 1000,
     system: systemPrompt,
     messages: [{
@@ -96,17 +96,7 @@ Respond with JSON in this exact format:
     }]
   });
 
-  const textContent = response.content.find(block => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in response');
-  }
-
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response');
-  }
-
-  return JSON.parse(jsonMatch[0]);
+  return data;
 }
 
 
@@ -126,14 +116,13 @@ async function analyzeQueryWithSemanticSearch(
     topics: string[];
   };
 }> {
-  console.log(`[Agent v2] Running semantic search to understand query...`);
+  const log = getLogger('agent_v2', { session_id: stream.sessionId });
   
   // Run semantic search once to understand the query
-  const semanticResults = await executeSemanticSearch(userQuery, projectId, 5);
-  console.log(`[Agent v2] Semantic search found ${semanticResults.length} relevant interactions`);
+  const semanticResults = await executeSemanticSearch(userQuery, projectId, 5, stream.sessionId);
+  log.info(`Semantic search found ${semanticResults.length} relevant interactions`);
   
   // Extract key concepts from semantic results
-  const client = createAnthropicClient();
   const systemPrompt = `You are an expert at analyzing semantic search results to extract key concepts and metadata for database queries.
 
 Your job is to:
@@ -147,8 +136,12 @@ Be concise and focused. Extract the most important concepts that would help gene
     `${result.interaction.author}: ${result.context_snippet}`
   ).join('\n');
 
-  const response = await client.messages.create({
-    model: AGENT_MODELS.synthesis,
+  const { data: extracted } = await getLLM().completeJSON<{
+    key_concepts?: string[];
+    people?: string[];
+    files?: string[];
+    topics?: string[];
+  }>({
     max_tokens: 1000,
     system: systemPrompt,
     messages: [{
@@ -168,18 +161,7 @@ Extract key concepts and metadata. Respond in JSON format:
     }]
   });
 
-  const textContent = response.content.find(block => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in response');
-  }
-
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response');
-  }
 
-  const extracted = JSON.parse(jsonMatch[0]);
-  
   return {
     keyConcepts: extracted.key_concepts || [],
     relevantInteractions: semanticResults.map(result => result.interaction),
@@ -199,14 +181,14 @@ async function fetchFullConversationThreads(
   projectId: string,
   stream: ExplorationStream
 ): Promise<Interaction[]> {
-  console.log(`[Agent v2] Fetching full conversation threads for ${semanticResults.length} semantic results`);
+  const log = getLogger('agent_v2', { session_id: stream.sessionId });
   
   // Extract unique conversation IDs from semantic results
   const conversationIds = [...new Set(semanticResults.map(i => i.conversation_id))];
-  console.log(`[Agent v2] Found ${conversationIds.length} unique conversation threads`);
+  log.debug(`Found ${conversationIds.length} unique conversation threads in ${semanticResults.length} semantic results`);
   
   if (conversationIds.length === 0) {
-    console.log(`[Agent v2] No conversation IDs found, returning semantic results as-is`);
+    log.info('No conversation IDs found, returning semantic results as-is');
     return semanticResults;
   }
   
@@ -214,7 +196,7 @@ async function fetchFullConversationThreads(
   
   try {
     // Fetch all interactions from these conversation threads
-    const result = await db.query(`
+    const sql = `
       SELECT 
         i.id,
         i.conversation_id,
@@ -233,9 +215,12 @@ async function fetchFullConversationThreads(
       WHERE c.project_id = $1 
       AND i.conversation_id = ANY($2)
       ORDER BY i.conversation_id, i.created_at ASC
-    `, [projectId, conversationIds]);
+    `;
+    const params = [projectId, conversationIds];
+    await guardSql(sql, SQL_GUARD_POLICY, { projectId, params });
+    const result = await db.query(sql, params);
     
-    console.log(`[Agent v2] Fetched ${result.rows.length} interactions from conversation threads`);
+    log.debug(`Fetched ${result.rows.length} interactions from conversation threads`);
     
     // Convert to Interaction objects
     const fullThreads = result.rows.map(row => ({
@@ -254,7 +239,7 @@ async function fetchFullConversationThreads(
     return fullThreads;
     
   } catch (error) {
-    console.error(`[Agent v2] Error fetching conversation threads:`, error);
+    log.error('Error fetching conversation threads', { error });
     // Fallback to semantic results if database query fails
     return semanticResults;
   }
@@ -268,8 +253,6 @@ async function analyzeSQLResults(
   userQuery: string,
   stream: ExplorationStream
 ): Promise<{ findings: Finding[]; leads: Lead[] }> {
-  const client = createAnthropicClient();
-  
   const systemPrompt = `You are an expert analyst who examines database query results and extracts meaningful findings and leads.
 
 Your job is to:
@@ -285,8 +268,8 @@ Be thorough but focused. Look for:
 - Timeline and causality
 - Patterns and recurring themes`;
 
-  const response = await client.messages.create({
-    model: AGENT_MODELS.synthesis, // Use Sonnet 4.5
+  // Reply is validated against SQLAnalysisSchema; failed attempts are logged to the stream
+  const { data } = await completeStructured(getLLM(), {
     max_tokens: 4000,
     system: systemPrompt,
     messages: [{
@@ -337,24 +320,22 @@ Analyze these results and extract findings and leads. Respond in JSON format:
   ]
 }`
     }]
+  }, SQLAnalysisSchema, {
+    name: 'SQLAnalysis',
+    onFailure: async failure => {
+      await stream.append({
+        agent: 'agent_v2',
+        phase: 'discovery',
+        action: 'parse_error',
+        output: {
+          ...failure,
+          raw: failure.raw.slice(0, 2000)
+        }
+      });
+    }
   });
-
-  const textContent = response.content.find(block => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in response');
-  }
-
-  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in response');
-  }
-
-  const parsed = JSON.parse(jsonMatch[0]);
   
-  return {
-    findings: parsed.findings || [],
-    leads: parsed.leads || []
-  };
+  return data;
 }
 
 /**
@@ -376,8 +357,6 @@ async function generateSummary(
   },
   stream: ExplorationStream
 ): Promise<string> {
-  const client = createAnthropicClient();
-  
   const systemPrompt = `You are analyzing conversation data to provide context and insights. Your job is to present the actual conversation content, not generic explanations.
 
 CRITICAL INSTRUCTIONS:
@@ -403,8 +382,7 @@ When presenting conversation context:
 
 Focus on showing the actual conversation content and context, not generating generic explanations about topics.`;
 
-  const response = await client.messages.create({
-    model: AGENT_MODELS.synthesis, // Use Sonnet 4.5
+  const response = await getLLM().complete({
     max_tokens: 3000,
     system: systemPrompt,
     messages: [{
@@ -459,12 +437,7 @@ The user asked for "interaction context" - they want to see the actual conversat
     }]
   });
 
-  const textContent = response.content.find(block => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    return 'Summary generation failed';
-  }
-
-  return textContent.text;
+  return response.text || 'Summary generation failed';
 }
 
 /**
@@ -475,7 +448,8 @@ export async function agentV2(
   config: AgentV2Config,
   stream: ExplorationStream
 ): Promise<AgentV2Result> {
-  console.log(`[Agent v2] Starting investigation: "${userQuery}"`);
+  const log = getLogger('agent_v2', { session_id: stream.sessionId, project_id: config.projectId });
+  log.info(`Starting investigation: "${userQuery}"`);
   
   const result: AgentV2Result = {
     success: false,
@@ -507,51 +481,48 @@ export async function agentV2(
     });
     
     // Step 1: Run semantic search once to understand the query
-    const semanticContext = await analyzeQueryWithSemanticSearch(userQuery, config.projectId, stream);
-    console.log(`[Agent v2] Semantic analysis complete - found ${semanticContext.keyConcepts.length} key concepts`);
+    const semanticContext = await log.span('semantic_search', () =>
+      analyzeQueryWithSemanticSearch(userQuery, config.projectId, stream)
+    );
+    log.info(`Semantic analysis complete - found ${semanticContext.keyConcepts.length} key concepts`);
     
     // Step 2: Fetch full conversation threads from semantic results
-    console.log(`[Agent v2] Fetching full conversation threads...`);
-    const fullConversationThreads = await fetchFullConversationThreads(
+    const fullConversationThreads = await log.span('conversation_threads', () => fetchFullConversationThreads(
       semanticContext.relevantInteractions, 
       config.projectId, 
       stream
-    );
-    console.log(`[Agent v2] Retrieved ${fullConversationThreads.length} interactions from conversation threads`);
+    ));
     
     // Step 3: Aggregate results
-    console.log(`[Agent v2] Aggregating results...`);
-    
     // Add all interactions from conversation threads
     result.sqlResults.interactions.push(...fullConversationThreads);
-    console.log(`[Agent v2] Added ${fullConversationThreads.length} interactions from conversation threads`);
+    log.info(`Added ${fullConversationThreads.length} interactions from conversation threads`);
     
     // Step 4: Analyze results and extract findings
-    console.log(`[Agent v2] Analyzing results and extracting findings...`);
-    const analysis = await analyzeSQLResults(result.sqlResults, userQuery, stream);
+    const analysis = await log.span('analysis', () => analyzeSQLResults(result.sqlResults, userQuery, stream));
     result.findings = analysis.findings;
     result.leads = analysis.leads;
     
     // Log data collection summary
-    console.log(`[Agent v2] Data collection complete:`);
-    console.log(`  - Interactions: ${result.sqlResults.interactions.length}`);
-    console.log(`  - Conversations: ${result.sqlResults.conversations.length}`);
-    console.log(`  - Commits: ${result.sqlResults.commits.length}`);
-    console.log(`  - Files: ${result.sqlResults.files.length}`);
-    console.log(`  - People: ${result.sqlResults.people.length}`);
-    console.log(`  - Findings: ${result.findings.length}`);
-    console.log(`  - Leads: ${result.leads.length}`);
+    log.info('Data collection complete', {
+      interactions: result.sqlResults.interactions.length,
+      conversations: result.sqlResults.conversations.length,
+      commits: result.sqlResults.commits.length,
+      files: result.sqlResults.files.length,
+      people: result.sqlResults.people.length,
+      findings: result.findings.length,
+      leads: result.leads.length
+    });
     
     // Step 5: Generate comprehensive summary
-    console.log(`[Agent v2] Generating comprehensive summary...`);
-    result.summary = await generateSummary(
+    result.summary = await log.span('summary', () => generateSummary(
       result.findings,
       result.leads,
       result.sqlResults,
       userQuery,
       semanticContext,
       stream
-    );
+    ));
     
     result.success = true;
     result.iterations = 1; // For now, single iteration
@@ -571,10 +542,10 @@ export async function agentV2(
       }
     });
     
-    console.log(`[Agent v2] Investigation complete: ${result.findings.length} findings, ${result.leads.length} leads`);
+    log.info(`Investigation complete: ${result.findings.length} findings, ${result.leads.length} leads`);
     
   } catch (error) {
-    console.error(`[Agent v2] Error:`, error);
+    log.error('Investigation failed', { error });
     
     result.errors.push(error instanceof Error ? error.message : String(error));
     
@@ -1,2 +1,17 @@
 // Export Agent v2 system
 export { agentV2, queryWithAgentV2, AgentV2Config, AgentV2Result, SQLQueryRequest, SQLQueryResult } from './agentv2';
+
+// LLM provider abstraction (swap vendors, or run offline with ScriptedProvider)
+export { LLMProvider, AnthropicProvider, OpenAIProvider, ScriptedProvider, setLLMProviderOverride, completeStructured, StructuredOutputError } from '@tig/shared';
+
+// Structured logging (LOG_LEVEL, LOG_FORMAT, OTEL_EXPORTER_OTLP_ENDPOINT)
+export { Logger, LogLevel, LoggerOptions, getLogger, configureLogger, flushTelemetry } from '@tig/shared';
+
+// Semantic search ranked in Postgres (pgvector), paginated
+export { executeSemanticSearch, semanticSearchPage, SemanticSearchResult, SemanticSearchOptions, SemanticSearchPage } from './src/semanticSearch';
+
+// Embeddings (cached and batched; run offline with LocalEmbeddingProvider)
+export { EmbeddingService, EmbeddingProvider, EmbeddingInputType, VoyageEmbeddingProvider, LocalEmbeddingProvider, getEmbeddingService, setEmbeddingProviderOverride, generateQueryEmbedding, generateBatchEmbeddings } from '@tig/shared';
+
+// Concurrency limits per service, with rate-limit (429) backoff
+export { ConcurrencyScheduler, SchedulerOptions, LaneStats, getScheduler, isRateLimitError } from '@tig/shared';
@@ -4,6 +4,8 @@
  * Agent v2 Runner - Test and run the new SQL-driven agent system
  */
 
+require('dotenv').config();
+
 const { agentV2, queryWithAgentV2 } = require('./dist/agentv2');
 const { ExplorationStream } = require('./dist/src/simpleStream');
 
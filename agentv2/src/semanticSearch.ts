@@ -1,16 +1,18 @@
 /**
  * Semantic Search Tool for SQL Agent
  * 
- * Uses Voyage AI embeddings and existing interaction_embeddings table
- * for proper vector similarity search.
+ * Uses Voyage AI embeddings (cached and batched by the @tig/shared EmbeddingService) and the
+ * existing interaction_embeddings table for vector similarity search.
  */
 
-import { VoyageAIClient } from 'voyageai';
-import { getDb, createAnthropicClient } from './simpleConfig';
+import { getLogger, generateQueryEmbedding, guardSql } from '@tig/shared';
+import { getDb, getLLM, SEMANTIC_SEARCH_CONFIG } from './simpleConfig';
+import { SQL_GUARD_POLICY } from './ontology';
 import { Interaction } from './simpleTypes';
 
-// Initialize Voyage AI client
-const voyage = new VoyageAIClient({ apiKey: process.env.VOYAGE_API_KEY });
+const log = getLogger('semantic_search');
+
+const ITERATIVE_SCAN_MODES = ['relaxed_order', 'strict_order'];
 
 export interface SemanticSearchResult {
   interaction: Interaction;
@@ -19,6 +21,18 @@ export interface SemanticSearchResult {
   context_snippet: string;
 }
 
+export interface SemanticSearchOptions {
+  limit?: number; // Page size (default 3)
+  offset?: number; // Results to skip - pass the previous page's next_offset
+  minSimilarity?: number; // Default SEMANTIC_SEARCH_CONFIG.minSimilarity
+  excludeInteractionIds?: string[];
+}
+
+export interface SemanticSearchPage {
+  results: SemanticSearchResult[];
+  next_offset: number | null; // null on the last page
+}
+
 export interface SemanticSearchTool {
   name: string;
   description: string;
@@ -68,40 +82,15 @@ export const semanticSearchTool: SemanticSearchTool = {
 };
 
 /**
- * Generate embedding for text using Voyage AI
- */
-async function generateVoyageEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await voyage.embed({
-      input: [text],
-      model: 'voyage-3-large',
-      inputType: 'query'
-    });
-    
-    if (response.data && response.data.length > 0 && response.data[0].embedding) {
-      return response.data[0].embedding;
-    }
-    
-    throw new Error('No embedding returned from Voyage AI');
-  } catch (error) {
-    console.error('Voyage AI embedding error:', error);
-    throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-/**
- * Calculate cosine similarity between two vectors
+ * One page of interactions ranked by similarity to a query
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length === 0 || b.length === 0) return 0;
-  
-  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-  
-  if (magnitudeA === 0 || magnitudeB === 0) return 0;
-  
-  return dotProduct / (magnitudeA * magnitudeB);
+export async function semanticSearchPage(
+  query: string,
+  projectId: string,
+  options: SemanticSearchOptions = {}
+): Promise<SemanticSearchPage> {
+  const queryEmbedding = await generateQueryEmbedding(query);
+  return rankByEmbedding(queryEmbedding, projectId, options);
 }
 
 /**
@@ -110,132 +99,44 @@ function cosineSimilarity(a: number[], b: number[]): number {
 export async function executeSemanticSearch(
   query: string,
   projectId: string,
-  limit: number = 3
+  limit: number = 3,
+  sessionId?: string // Correlates the search's log records with the calling session
 ): Promise<SemanticSearchResult[]> {
-  const db = getDb();
+  const searchLog = log.child({ session_id: sessionId, project_id: projectId });
   
   try {
-    console.log(`[Semantic Search] Starting iterative search for: "${query}" in project ${projectId}`);
+    searchLog.info(`Starting iterative search for: "${query}"`);
     
     let currentQuery = query;
-    let allResults: SemanticSearchResult[] = [];
+    const allResults: SemanticSearchResult[] = [];
     const seenInteractionIds = new Set<string>();
     
-    // Run 3 iterative searches
-    for (let iteration = 1; iteration <= 3; iteration++) {
-      console.log(`[Semantic Search] Iteration ${iteration}: "${currentQuery}"`);
-      
-      // Generate embedding for the current query
-      const queryEmbedding = await generateVoyageEmbedding(currentQuery);
+    for (let iteration = 1; iteration <= SEMANTIC_SEARCH_CONFIG.iterations; iteration++) {
+      searchLog.debug(`Iteration ${iteration}: "${currentQuery}"`);
       
-      // Get all existing embeddings for the project
-      const result = await db.query(`
-        SELECT 
-          ie.embedding_id,
-          ie.type,
-          ie.chunk_id,
-          ie.embedding,
-          i.id as interaction_id,
-          i.conversation_id,
-          i.prompt_text,
-          i.response_text,
-          i.prompt_ts,
-          i.request_id,
-          i.created_at,
-          i.response_bubbles,
-          i.model,
-          i.author,
-          c.title as conversation_title,
-          c.platform
-        FROM interaction_embeddings ie
-        JOIN interactions i ON ie.interaction_id = i.id
-        JOIN conversations c ON i.conversation_id = c.id
-        WHERE c.project_id = $1
-        AND ie.type = 'prompt_response'
-        ORDER BY i.created_at DESC
-        LIMIT 1000
-      `, [projectId]);
+      // Interactions earlier iterations found are excluded in SQL, so every iteration adds new ones
+      const { results: iterationResults } = await semanticSearchPage(currentQuery, projectId, {
+        limit,
+        excludeInteractionIds: [...seenInteractionIds]
+      });
       
-      if (result.rows.length === 0) {
-        console.log(`[Semantic Search] No embeddings found in iteration ${iteration}`);
+      if (iterationResults.length === 0) {
+        searchLog.info(`No new results in iteration ${iteration}`);
         break;
       }
       
-      // Calculate similarities with existing embeddings
-      const similarities: SemanticSearchResult[] = [];
-      
-      for (const row of result.rows) {
-        try {
-          // Skip if we've already seen this interaction
-          if (seenInteractionIds.has(row.interaction_id)) {
-            continue;
-          }
-          
-          // Parse the stored embedding
-          let storedEmbedding: number[];
-          
-          if (typeof row.embedding === 'string') {
-            storedEmbedding = JSON.parse(row.embedding);
-          } else if (Array.isArray(row.embedding)) {
-            storedEmbedding = row.embedding;
-          } else {
-            console.warn(`[Semantic Search] Unknown embedding format for ${row.embedding_id}`);
-            continue;
-          }
-          
-          const similarity = cosineSimilarity(queryEmbedding, storedEmbedding);
-          
-          // Create interaction object
-          const interaction: Interaction = {
-            id: row.interaction_id,
-            conversation_id: row.conversation_id,
-            prompt_text: row.prompt_text,
-            response_text: row.response_text,
-            created_at: row.created_at,
-            author: row.author,
-            project_id: projectId,
-            prompt_ts: row.prompt_ts,
-            conversation_title: row.conversation_title,
-            platform: row.platform
-          };
-          
-          const combinedText = `${row.prompt_text} ${row.response_text}`;
-          const contextSnippet = combinedText.substring(0, 200) + '...';
-          
-          similarities.push({
-            interaction,
-            similarity_score: similarity,
-            matched_text: 'prompt_response',
-            context_snippet: contextSnippet
-          });
-        } catch (error) {
-          console.warn(`[Semantic Search] Error processing embedding ${row.embedding_id}:`, error);
-          continue;
-        }
-      }
+      searchLog.info(`Iteration ${iteration} found ${iterationResults.length} new results`);
       
-      // Sort by similarity and get top results for this iteration
-      const iterationResults = similarities
-        .sort((a, b) => b.similarity_score - a.similarity_score)
-        .slice(0, limit);
-      
-      console.log(`[Semantic Search] Iteration ${iteration} found ${iterationResults.length} new results`);
-      
-      // Add new results to our collection (avoid duplicates)
       for (const result of iterationResults) {
-        if (!seenInteractionIds.has(result.interaction.id)) {
-          allResults.push(result);
-          seenInteractionIds.add(result.interaction.id);
-          console.log(`[Semantic Search] Added new result: ${result.interaction.id} (similarity: ${result.similarity_score.toFixed(4)})`);
-        } else {
-          console.log(`[Semantic Search] Skipped duplicate: ${result.interaction.id}`);
-        }
+        allResults.push(result);
+        seenInteractionIds.add(result.interaction.id);
+        searchLog.debug(`Added new result: ${result.interaction.id} (similarity: ${result.similarity_score.toFixed(4)})`);
       }
       
       // If this is not the last iteration, reformulate the query based on results
-      if (iteration < 3 && iterationResults.length > 0) {
+      if (iteration < SEMANTIC_SEARCH_CONFIG.iterations) {
         currentQuery = await reformulateQuery(query, iterationResults, iteration);
-        console.log(`[Semantic Search] Reformulated query for iteration ${iteration + 1}: "${currentQuery}"`);
+        searchLog.info(`Reformulated query for iteration ${iteration + 1}: "${currentQuery}"`);
       }
     }
     
@@ -244,16 +145,133 @@ export async function executeSemanticSearch(
       .sort((a, b) => b.similarity_score - a.similarity_score)
       .slice(0, limit);
     
-    console.log(`[Semantic Search] Completed iterative search: ${finalResults.length} total unique results`);
+    searchLog.info(`Completed iterative search: ${finalResults.length} total unique results`);
     
     return finalResults;
     
   } catch (error) {
-    console.error('[Semantic Search] Error:', error);
+    searchLog.error('Semantic search failed', { error });
     throw new Error(`Semantic search failed: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Rank the project's prompt_response embeddings against a query embedding
+ * 
+ * pgvector's cosine distance (<=>) orders and limits in the database, so the
+ * whole project is searched (an ANN index on the embedding column is used when
+ * present). The similarity threshold is written as a distance bound to keep
+ * the ORDER BY index-friendly. One extra row is fetched to tell whether
+ * another page exists.
+ */
+async function rankByEmbedding(
+  queryEmbedding: number[],
+  projectId: string,
+  options: SemanticSearchOptions
+): Promise<SemanticSearchPage> {
+  const limit = options.limit ?? 3;
+  const offset = options.offset ?? 0;
+  const minSimilarity = options.minSimilarity ?? SEMANTIC_SEARCH_CONFIG.minSimilarity;
+  
+  const result = await queryWithIndexHints(`
+    SELECT 
+      ie.embedding_id,
+      1 - (ie.embedding <=> $2::vector) as similarity,
+      i.id as interaction_id,
+      i.conversation_id,
+      i.prompt_text,
+      i.response_text,
+      i.prompt_ts,
+      i.created_at,
+      i.author,
+      c.title as conversation_title,
+      c.platform
+    FROM interaction_embeddings ie
+    JOIN interactions i ON ie.interaction_id = i.id
+    JOIN conversations c ON i.conversation_id = c.id
+    WHERE c.project_id = $1
+      AND ie.type = 'prompt_response'
+      AND ie.embedding <=> $2::vector <= $3
+      AND NOT (i.id = ANY($4::uuid[]))
+    ORDER BY ie.embedding <=> $2::vector
+    LIMIT $5 OFFSET $6
+  `, [projectId, `[${queryEmbedding.join(',')}]`, 1 - minSimilarity, options.excludeInteractionIds || [], limit + 1, offset], projectId);
+  
+  // An iterative index scan in relaxed_order can return rows slightly out of order
+  const rows = result.rows
+    .sort((a, b) => Number(b.similarity) - Number(a.similarity))
+    .slice(0, limit);
+  
+  return {
+    results: rows.map(row => {
+      const combinedText = `${row.prompt_text} ${row.response_text}`;
+      return {
+        interaction: {
+          id: row.interaction_id,
+          conversation_id: row.conversation_id,
+          prompt_text: row.prompt_text,
+          response_text: row.response_text,
+          created_at: row.created_at,
+          author: row.author,
+          project_id: projectId,
+          prompt_ts: row.prompt_ts,
+          conversation_title: row.conversation_title,
+          platform: row.platform
+        },
+        similarity_score: Number(row.similarity),
+        matched_text: 'prompt_response',
+        context_snippet: combinedText.substring(0, 200) + '...'
+      };
+    }),
+    next_offset: result.rows.length > limit ? offset + limit : null
+  };
+}
+
+/**
+ * Run a query with the configured ANN index settings (SET LOCAL needs its own transaction),
+ * once the SQL guard accepts it for the project
+ */
+async function queryWithIndexHints(sql: string, params: unknown[], projectId: string) {
+  await guardSql(sql, SQL_GUARD_POLICY, { projectId, params });
+
+  const hints: string[] = [];
+  const { iterativeScan } = SEMANTIC_SEARCH_CONFIG;
+  if (iterativeScan !== 'off') {
+    if (!ITERATIVE_SCAN_MODES.includes(iterativeScan)) {
+      throw new Error(`Unknown VECTOR_ITERATIVE_SCAN "${iterativeScan}" (expected off, relaxed_order or strict_order)`);
+    }
+    hints.push(`SET LOCAL hnsw.iterative_scan = ${iterativeScan}`);
+    // IVFFlat only supports relaxed_order
+    hints.push('SET LOCAL ivfflat.iterative_scan = relaxed_order');
+  }
+  if (SEMANTIC_SEARCH_CONFIG.ivfflatProbes > 0) {
+    hints.push(`SET LOCAL ivfflat.probes = ${Math.floor(SEMANTIC_SEARCH_CONFIG.ivfflatProbes)}`);
+  }
+  if (SEMANTIC_SEARCH_CONFIG.hnswEfSearch > 0) {
+    hints.push(`SET LOCAL hnsw.ef_search = ${Math.floor(SEMANTIC_SEARCH_CONFIG.hnswEfSearch)}`);
+  }
+  
+  if (hints.length === 0) {
+    return getDb().query(sql, params);
+  }
+  
+  const client = await getDb().connect();
+  try {
+    await client.query('BEGIN');
+    for (const hint of hints) {
+      await client.query(hint);
+    }
+    const result = await client.query(sql, params);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Reformulate the search query based on previous results
  */
@@ -262,8 +280,6 @@ async function reformulateQuery(
   previousResults: SemanticSearchResult[], 
   iteration: number
 ): Promise<string> {
-  const client = createAnthropicClient();
-  
   try {
     // Extract key terms from the previous results
     const contextTerms = previousResults.map(result => {
@@ -280,8 +296,7 @@ Examples:
 - Original: "billing" → New: "pricing subscription"  
 - Original: "UI changes" → New: "components interface"`;
 
-    const response = await client.messages.create({
-      model: 'claude-3-5-haiku-20241022',
+    const response = await getLLM('reformulation').complete({
       max_tokens: 20,
       system: systemPrompt,
       messages: [{
@@ -294,7 +309,7 @@ New query (2-4 words only):`
       }]
     });
 
-    let newQuery = response.content[0].type === 'text' ? response.content[0].text.trim() : originalQuery;
+    let newQuery = response.text.trim() || originalQuery;
     
     // Clean up the response - extract just the query if it contains explanations
     const lines = newQuery.split('\n');
@@ -310,7 +325,7 @@ New query (2-4 words only):`
     return newQuery || originalQuery;
     
   } catch (error) {
-    console.warn('[Semantic Search] Failed to reformulate query:', error);
+    log.warn('Failed to reformulate query', { error });
     return originalQuery;
   }
 }
@@ -1,6 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { Pool } from 'pg';
 import dotenv from 'dotenv';
+import { LLMProvider, createLLMProvider, SCHEDULER_CONFIG } from '@tig/shared';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -20,25 +20,59 @@ export function getDb(): Pool {
     if (!connectionString) {
       throw new Error('DATABASE_URL environment variable is not set');
     }
-    dbPool = new Pool({ connectionString });
+    dbPool = new Pool({ connectionString, max: SCHEDULER_CONFIG.limits.postgres });
   }
   return dbPool;
 }
 
 /**
- * Create Anthropic client
+ * Model configurations - only what Agent v2 uses
  */
-export function createAnthropicClient(): Anthropic {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY environment variable is not set');
-  }
-  return new Anthropic({ apiKey });
+export const AGENT_MODELS = {
+  synthesis: 'claude-sonnet-4-5-20250929',         // Sonnet 4.5 for best reasoning
+  reformulation: 'claude-3-5-haiku-20241022',      // Haiku for short semantic search query rewrites
+};
+
+export type AgentV2Role = keyof typeof AGENT_MODELS;
+
+/**
+ * Equivalent OpenAI models (LLM_PROVIDER=openai)
+ */
+export const OPENAI_AGENT_MODELS = {
+  synthesis: 'gpt-4o',
+  reformulation: 'gpt-4o-mini',
+};
+
+/**
+ * Get the LLM provider for an Agent v2 role - LLM_PROVIDER selects the vendor (anthropic | openai)
+ */
+export function getLLM(role: AgentV2Role = 'synthesis'): LLMProvider {
+  const vendor = process.env.LLM_PROVIDER || 'anthropic';
+  return createLLMProvider(vendor, vendor === 'openai' ? OPENAI_AGENT_MODELS[role] : AGENT_MODELS[role]);
 }
 
 /**
- * Model configurations - only what Agent v2 uses
+ * Semantic search (semanticSearch.ts) - ranking happens in Postgres with pgvector
+ * minSimilarity drops weak matches (cosine similarity, 0 = keep everything).
+ *
+ * The settings below only matter once an ANN index exists on
+ * interaction_embeddings.embedding, and are all off by default (exact scan).
+ * An ANN scan returns its ef_search / probes nearest rows across all projects
+ * and the project, type and exclusion filters are applied afterwards, so a small
+ * project can get fewer matches than asked for, or none. Either:
+ * - iterativeScan (pgvector 0.8+): the index keeps scanning until enough rows
+ *   pass the filters. relaxed_order may return rows slightly out of distance
+ *   order - results are re-sorted, but rows near a page boundary can move pages.
+ *   Older pgvector versions reject the setting, so it is opt-in.
+ * - ivfflatProbes / hnswEfSearch: scan more of the index - higher trades speed
+ *   for recall, but gives no guarantee.
+ * They are applied per query with SET LOCAL.
  */
-export const AGENT_MODELS = {
-  synthesis: 'claude-sonnet-4-5-20250929',         // Sonnet 4.5 for best reasoning
+export const SEMANTIC_SEARCH_CONFIG = {
+  iterations: 3,
+  minSimilarity: parseFloat(process.env.SEMANTIC_MIN_SIMILARITY || '0'),
+  iterativeScan: (process.env.VECTOR_ITERATIVE_SCAN || 'off') as 'off' | 'relaxed_order' | 'strict_order',
+  ivfflatProbes: parseInt(process.env.IVFFLAT_PROBES || '0', 10),
+  hnswEfSearch: parseInt(process.env.HNSW_EF_SEARCH || '0', 10)
 };
+
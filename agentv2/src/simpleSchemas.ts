@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for Agent v2's structured LLM output (mirror the interfaces in simpleTypes.ts)
+ */
+
+export const FindingSchema = z.object({
+  type: z.enum(['decision', 'problem', 'solution', 'technical_detail', 'context']),
+  summary: z.string().min(1),
+  details: z.string(),
+  entities: z.array(z.string()).default([]),
+  relevance_to_query: z.string(),
+  interaction_id: z.string(),
+  author: z.string(),
+  timestamp: z.string(),
+  confidence: z.number().min(0).max(1)
+});
+
+export const LeadSchema = z.object({
+  type: z.enum(['commit', 'entity', 'person', 'temporal', 'conversation', 'file']),
+  value: z.string(),
+  search_query: z.string().min(1),
+  reason: z.string(),
+  priority: z.enum(['high', 'medium', 'low']),
+  context: z.string().optional()
+});
+
+export const SQLAnalysisSchema = z.object({
+  findings: z.array(FindingSchema).default([]),
+  leads: z.array(LeadSchema).default([])
+});
@@ -2,6 +2,8 @@
  * Simple in-memory stream for Agent v2
  */
 
+import { getLogger } from '@tig/shared';
+
 export interface SimpleEvent {
   event_id?: string;
   agent: string;
@@ -29,7 +31,7 @@ export class SimpleStream {
     };
     
     this.events.push(fullEvent);
-    console.log(`[${event.agent}] ${event.action}:`, event.output);
+    getLogger(event.agent, { session_id: this.sessionId }).debug(event.action, event.output);
     return eventId;
   }
 
@@ -0,0 +1,127 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+const { LocalEmbeddingProvider, ScriptedProvider, setEmbeddingProviderOverride, setLLMProviderOverride } = require('@tig/shared');
+const config = require('../dist/src/simpleConfig');
+const { executeSemanticSearch } = require('../dist/src/semanticSearch');
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+
+/**
+ * Local embeddings that keep the texts of every provider call
+ */
+class RecordingEmbeddingProvider extends LocalEmbeddingProvider {
+  calls = [];
+
+  async embed(texts, inputType) {
+    this.calls.push(texts);
+    return super.embed(texts, inputType);
+  }
+}
+
+const row = (id, similarity) => ({
+  interaction_id: id,
+  conversation_id: 'cccccccc-0000-4000-8000-000000000001',
+  prompt_text: `prompt ${id}`,
+  response_text: `response ${id}`,
+  similarity
+});
+
+/**
+ * Point getDb() at a fake pool that serves `pages` in order, one per query,
+ * and records each query's params
+ */
+function useFakeDb(pages) {
+  const queries = [];
+  config.getDb = () => ({
+    query: async (sql, params) => {
+      queries.push(params);
+      return { rows: pages[queries.length - 1] || [] };
+    }
+  });
+  return queries;
+}
+
+let embeddings;
+test.beforeEach(() => {
+  embeddings = new RecordingEmbeddingProvider(8);
+  setEmbeddingProviderOverride(embeddings);
+});
+test.after(() => {
+  setEmbeddingProviderOverride(null);
+  setLLMProviderOverride(null);
+});
+
+test('each iteration searches a reformulated query and excludes what earlier ones found', async () => {
+  const llm = new ScriptedProvider(['login sessions', '"Refresh tokens"\nbecause they expire']);
+  setLLMProviderOverride(llm);
+  const queries = useFakeDb([[row('a', 0.6), row('b', 0.5)], [row('c', 0.9)], [row('d', 0.4)]]);
+
+  const results = await executeSemanticSearch('token expiry', PROJECT_ID, 2);
+
+  assert.deepEqual(embeddings.calls.flat(), ['token expiry', 'login sessions', 'Refresh tokens']);
+  assert.deepEqual(queries.map(params => params[3]), [[], ['a', 'b'], ['a', 'b', 'c']]);
+  assert.equal(llm.calls.length, 2);
+  assert.match(llm.calls[0].messages[0].content, /Original: "token expiry"/);
+  assert.deepEqual(results.map(r => r.interaction.id), ['c', 'a']);
+  assert.equal(results[0].interaction.project_id, PROJECT_ID);
+});
+
+test('a search with no new results stops iterating', async () => {
+  const llm = new ScriptedProvider(['login sessions']);
+  setLLMProviderOverride(llm);
+  const queries = useFakeDb([[row('a', 0.6)], []]);
+
+  const results = await executeSemanticSearch('token expiry', PROJECT_ID, 3);
+
+  assert.equal(queries.length, 2);
+  assert.equal(llm.calls.length, 1);
+  assert.deepEqual(results.map(r => r.interaction.id), ['a']);
+});
+
+test('a failed reformulation searches the original query again', async () => {
+  setLLMProviderOverride(new ScriptedProvider([]));
+  const queries = useFakeDb([[row('a', 0.6)], [row('b', 0.5)]]);
+
+  await executeSemanticSearch('token expiry', PROJECT_ID, 3);
+
+  // Same query vector on every iteration
+  assert.equal(queries.length, 3);
+  assert.ok(queries.every(params => params[1] === queries[0][1]));
+});
+
+test('an iterative index scan is enabled per query and its results re-sorted', async () => {
+  setLLMProviderOverride(new ScriptedProvider([]));
+  const statements = [];
+  let searches = 0;
+  const client = {
+    query: async sql => {
+      statements.push(sql.trim().split('\n')[0].trim());
+      // Only the first search finds anything, out of order
+      const found = /SELECT/.test(sql) && ++searches === 1;
+      return { rows: found ? [row('a', 0.5), row('b', 0.7)] : [] };
+    },
+    release() {}
+  };
+  config.getDb = () => ({ connect: async () => client });
+
+  const previous = config.SEMANTIC_SEARCH_CONFIG.iterativeScan;
+  config.SEMANTIC_SEARCH_CONFIG.iterativeScan = 'relaxed_order';
+  try {
+    const results = await executeSemanticSearch('token expiry', PROJECT_ID, 2);
+
+    assert.deepEqual(statements.slice(0, 4), [
+      'BEGIN',
+      'SET LOCAL hnsw.iterative_scan = relaxed_order',
+      'SET LOCAL ivfflat.iterative_scan = relaxed_order',
+      'SELECT'
+    ]);
+    assert.deepEqual(results.map(r => r.interaction.id), ['b', 'a']);
+
+    config.SEMANTIC_SEARCH_CONFIG.iterativeScan = 'fastest';
+    await assert.rejects(executeSemanticSearch('token expiry', PROJECT_ID, 2), /Unknown VECTOR_ITERATIVE_SCAN/);
+  } finally {
+    config.SEMANTIC_SEARCH_CONFIG.iterativeScan = previous;
+  }
+});
@@ -1,16 +1,19 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, completeStructured, getLogger } from '@tig/shared';
 import { ContextAnalysis, WorkflowInput } from '../types';
-import { AGENT_CONFIGS, QUERY_OPTIONS } from '../config';
+import { AGENT_CONFIGS, QUERY_OPTIONS, getAgentLLM } from '../config';
+import { ContextAnalysisSchema } from '../schemas';
+
+const log = getLogger('context_analyzer');
 
 /**
  * Context Analyzer Agent
  * Analyzes user queries to identify primary intent and discover related contextual information
  */
 export class ContextAnalyzerAgent {
-  private client: Anthropic;
+  private llm: LLMProvider;
 
-  constructor(client: Anthropic) {
-    this.client = client;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -22,8 +25,8 @@ export class ContextAnalyzerAgent {
     try {
       const prompt = this.buildPrompt(input.query);
 
-      const response = await this.client.messages.create({
-        model: config.model,
+      // Reply is validated against ContextAnalysisSchema (malformed replies get a repair prompt)
+      const { data: analysis } = await completeStructured(this.llm, {
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         system: config.systemPrompt,
@@ -33,20 +36,16 @@ export class ContextAnalyzerAgent {
             content: prompt,
           },
         ],
+      }, ContextAnalysisSchema, {
+        name: 'ContextAnalysis',
+        onFailure: (failure) => {
+          log.warn(`Context analysis parse failed (attempt ${failure.attempt}/${failure.max_attempts}): ${failure.error}`);
+        },
       });
 
-      // Extract the text content from the response
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Expected text response from Claude');
-      }
-
-      // Parse the JSON response
-      const analysis = this.parseResponse(content.text);
-
       return analysis;
     } catch (error) {
-      console.error('Context analysis error:', error);
+      log.error('Context analysis error', { error });
       
       // Return a fallback analysis
       return this.getFallbackAnalysis(input.query);
@@ -65,13 +64,13 @@ Please analyze this query and return a JSON response with the following structur
 
 {
   "primaryIntent": {
-    "domain": "commit|interaction|conversation|diff|user|project",
+    "domain": "commit|interaction|conversation|diff|user|project|pull_request",
     "query": "Clear description of the primary intent",
     "entities": ["list", "of", "relevant", "entities"]
   },
   "contextualIntents": [
     {
-      "domain": "commit|interaction|conversation|diff|user|project",
+      "domain": "commit|interaction|conversation|diff|user|project|pull_request",
       "query": "Description of related contextual query",
       "connectionType": "temporal|semantic|commit|file|author",
       "entities": ["list", "of", "relevant", "entities"],
@@ -95,6 +94,7 @@ Context Discovery Guidelines:
    - Causal: What led to this, what resulted from it?
    - Collaborative: Who else was involved?
    - Data Chain: Follow Diffs → Interactions → Conversations
+   - Shipping: Which pull request shipped a change, and what was discussed before it merged?
 
 3. Assign priorities:
    - Priority 1 (High): Directly related, essential for understanding
@@ -106,31 +106,6 @@ Context Discovery Guidelines:
 Return ONLY the JSON response, no additional text.`;
   }
 
-  /**
-   * Parse the Claude response into ContextAnalysis
-   */
-  private parseResponse(text: string): ContextAnalysis {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Validate the structure
-      if (!parsed.primaryIntent || !parsed.contextualIntents || !parsed.connectionStrategy) {
-        throw new Error('Invalid response structure');
-      }
-
-      return parsed as ContextAnalysis;
-    } catch (error) {
-      console.error('Error parsing context analysis response:', error);
-      throw error;
-    }
-  }
-
   /**
    * Get a fallback analysis when the agent fails
    */
@@ -139,7 +114,8 @@ Return ONLY the JSON response, no additional text.`;
 
     // Determine primary domain based on keywords
     let domain = 'interaction';
-    if (lowerQuery.includes('commit')) domain = 'commit';
+    if (/\bpr\b|pull request|merged/.test(lowerQuery)) domain = 'pull_request';
+    else if (lowerQuery.includes('commit')) domain = 'commit';
     else if (lowerQuery.includes('conversation') || lowerQuery.includes('chat')) domain = 'conversation';
     else if (lowerQuery.includes('diff') || lowerQuery.includes('change')) domain = 'diff';
     else if (lowerQuery.includes('user') || lowerQuery.includes('author')) domain = 'user';
@@ -207,7 +183,7 @@ Return ONLY the JSON response, no additional text.`;
 /**
  * Create a context analyzer instance
  */
-export function createContextAnalyzer(client: Anthropic): ContextAnalyzerAgent {
-  return new ContextAnalyzerAgent(client);
+export function createContextAnalyzer(): ContextAnalyzerAgent {
+  return new ContextAnalyzerAgent(getAgentLLM('contextAnalyzer'));
 }
 
@@ -1,7 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { getLogger } from '@tig/shared';
 import { MultiStageQueryResults, MultiStageQueryPlan } from '../types';
 import { AGENT_CONFIGS } from '../config';
 
+const log = getLogger('synthesizer');
+
 /**
  * Contextual Synthesizer Agent
  * Synthesizes results from multiple coordinated queries into unified, contextual response
@@ -47,7 +50,7 @@ export class ContextualSynthesizerAgent {
 
       return content.text;
     } catch (error) {
-      console.error('Synthesis error:', error);
+      log.error('Synthesis error', { error });
       
       // Return a basic synthesis
       return this.getBasicSynthesis(results, originalQuery);
@@ -180,7 +183,7 @@ Answer the query now:`;
         }
       }
     } catch (error) {
-      console.error('Streaming synthesis error:', error);
+      log.error('Streaming synthesis error', { error });
       onChunk(this.getBasicSynthesis(results, originalQuery));
     }
   }
@@ -235,7 +238,7 @@ Be engaging and insightful.`;
 
       return content.text;
     } catch (error) {
-      console.error('Narrative synthesis error:', error);
+      log.error('Narrative synthesis error', { error });
       return this.getBasicSynthesis(results, originalQuery);
     }
   }
@@ -289,7 +292,7 @@ Format as a clear, easy-to-follow timeline.`;
 
       return content.text;
     } catch (error) {
-      console.error('Timeline synthesis error:', error);
+      log.error('Timeline synthesis error', { error });
       return this.getBasicSynthesis(results, originalQuery);
     }
   }
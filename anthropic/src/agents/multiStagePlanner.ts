@@ -1,7 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { getLogger } from '@tig/shared';
 import { ContextAnalysis, ContextualIntent, MultiStageQueryPlan, QueryPlan } from '../types';
 import { AGENT_CONFIGS } from '../config';
-import { mapConceptualEntity } from '../ontology';
+import { mapConceptualEntity, PLANNER_SCHEMA_TEXT, PLANNER_TABLES } from '../ontology';
+
+const log = getLogger('planner');
 
 /**
  * Multi-Stage Planner Agent
@@ -43,7 +46,7 @@ export class MultiStagePlannerAgent {
         explanation: `Created multi-stage plan with ${contextualPlans.length} contextual queries`,
       };
     } catch (error) {
-      console.error('Planning error:', error);
+      log.error('Planning error', { error });
       
       // Return fallback plan
       return this.getFallbackPlan(contextAnalysis, projectId);
@@ -87,7 +90,7 @@ export class MultiStagePlannerAgent {
 
       return plan;
     } catch (error) {
-      console.error('Single intent planning error:', error);
+      log.error('Single intent planning error', { error });
       
       // Return a basic plan
       return this.getBasicPlan(intent, projectId);
@@ -118,12 +121,7 @@ INTENT DETAILS:
 - Available Tables: ${suggestedTables.join(', ')}
 - Project ID: ${projectId}
 
-AVAILABLE DATABASE TABLES:
-1. conversations (fields: id, title, created_at, project_id)
-2. interactions (fields: id, conversation_id, prompt_text, response_text, prompt_ts, author)
-3. interaction_diffs (fields: id, interaction_id, file_path, diff_chunks, created_at)
-4. commits (fields: id, hash, message, committed_at, created_at, project_id, author, branch)
-5. users (fields: id, github_username, full_name)
+${PLANNER_SCHEMA_TEXT}
 
 TASK: Extract specific filters from the query and return ONLY valid JSON (no markdown, no backticks):
 
@@ -137,6 +135,9 @@ TASK: Extract specific filters from the query and return ONLY valid JSON (no mar
     "dateRange": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" } if range mentioned,
     "fileName": "file name if mentioned (e.g., 'page.tsx')",
     "branch": "branch name if mentioned",
+    "commitHash": "commit hash if mentioned",
+    "prNumber": number if a pull request number is mentioned (e.g., "PR #42" = 42),
+    "beforeMerge": true if the query asks what was discussed before a pull request merged,
     "searchText": "text to search for in messages/comments",
     "limit": number if user wants specific count (e.g., "top 5" = 5)
   },
@@ -151,6 +152,8 @@ FILTER EXTRACTION RULES:
 - If query mentions a file name → set "fileName"
 - If query mentions "main branch", "feature/x" → set "branch"
 - If query says "top 5", "first 10" → set "limit"
+- If query mentions "PR #42", "pull request 42" → set "prNumber"
+- If query asks what happened "before it merged" → set "beforeMerge"
 - OMIT filter fields that aren't mentioned in the query
 - IMPORTANT: If no year is specified in a date, assume the current year (${new Date().getFullYear()})
 
@@ -161,6 +164,7 @@ ENTITY RULES:
 4. For domain "interaction": use ["interactions"] or ["interactions", "interaction_diffs"]
 5. For domain "commit": use ["commits"]
 6. For domain "diff": use ["interaction_diffs"]
+7. For domain "pull_request": use ["pull_requests"], ["pull_requests", "commits"] (which PR shipped a commit) or ["pull_requests", "interactions"] (what was discussed before it merged)
 
 RESPOND NOW WITH JSON ONLY:`;
   }
@@ -176,6 +180,7 @@ RESPOND NOW WITH JSON ONLY:`;
       diff: ['interaction_diffs'],
       user: ['users'],
       project: ['projects'],
+      pull_request: ['pull_requests', 'commits', 'interactions'],
     };
     return domainMap[domain] || ['interactions'];
   }
@@ -202,11 +207,10 @@ RESPOND NOW WITH JSON ONLY:`;
       const parsed = JSON.parse(jsonText);
 
       // Validate entities are actual table names
-      const validTables = ['conversations', 'interactions', 'interaction_diffs', 'commits', 'users', 'projects'];
       let entities = parsed.entities || this.getDefaultEntities(intent);
       
       // Filter out invalid table names
-      entities = entities.filter((e: string) => validTables.includes(e));
+      entities = entities.filter((e: string) => PLANNER_TABLES.includes(e));
       
       if (entities.length === 0) {
         entities = this.getDefaultEntities(intent);
@@ -223,7 +227,7 @@ RESPOND NOW WITH JSON ONLY:`;
         priority: intent.priority,
       };
     } catch (error) {
-      console.error('Error parsing plan response:', error);
+      log.warn('Error parsing plan response', { error });
       return this.getBasicPlan(intent, '');
     }
   }
@@ -253,6 +257,12 @@ RESPOND NOW WITH JSON ONLY:`;
     if (filters.commitHash && typeof filters.commitHash === 'string') {
       cleaned.commitHash = filters.commitHash.trim();
     }
+    if (typeof filters.prNumber === 'number' && Number.isInteger(filters.prNumber)) {
+      cleaned.prNumber = filters.prNumber;
+    }
+    if (filters.beforeMerge === true) {
+      cleaned.beforeMerge = true;
+    }
     if (filters.searchText && typeof filters.searchText === 'string') {
       cleaned.searchText = filters.searchText.trim();
     }
@@ -274,6 +284,7 @@ RESPOND NOW WITH JSON ONLY:`;
       diff: ['interaction_diffs'],
       user: ['users'],
       project: ['projects'],
+      pull_request: ['pull_requests'],
     };
 
     return domainToTables[intent.domain] || ['interactions'];
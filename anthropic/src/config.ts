@@ -1,11 +1,13 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { Pool } from 'pg';
+import { LLMProvider, createLLMProvider } from '@tig/shared';
 import { 
   AgentConfig, 
   ToolDefinition, 
   ToolPermissions, 
   DatabasePermissions 
 } from './types';
+import { PLANNER_SCHEMA_TEXT } from './ontology';
 
 /**
  * Anthropic Client Configuration
@@ -32,6 +34,27 @@ export const MODEL_CONFIG = {
   contextualSynthesizerModel: 'claude-sonnet-4-5-20250929', // Best synthesizer
 };
 
+/**
+ * Equivalent OpenAI models, used when an agent is switched to LLM_PROVIDER=openai
+ */
+export const OPENAI_AGENT_MODELS: Record<string, string> = {
+  contextAnalyzer: 'gpt-4o-mini',
+  planner: 'gpt-4o',
+  synthesizer: 'gpt-4o',
+};
+
+/**
+ * Get the LLM provider for an agent in AGENT_CONFIGS
+ * LLM_PROVIDER sets the default vendor (anthropic | openai); LLM_PROVIDER_<AGENT>
+ * (e.g. LLM_PROVIDER_CONTEXT_ANALYZER=openai) overrides it for one agent
+ */
+export function getAgentLLM(agent: string): LLMProvider {
+  const envName = `LLM_PROVIDER_${agent.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+  const vendor = process.env[envName] || process.env.LLM_PROVIDER || 'anthropic';
+
+  return createLLMProvider(vendor, vendor === 'openai' ? OPENAI_AGENT_MODELS[agent] : AGENT_CONFIGS[agent].model);
+}
+
 /**
  * Agent Configurations
  */
@@ -54,8 +77,9 @@ When analyzing queries:
 - Find causal relationships (what led to this, what resulted?)
 - Discover collaborative relationships (who else was involved?)
 - Follow data chains (Diffs → Interactions → Conversations)
+- Follow shipped work (Pull Requests → Commits → Interactions)
 
-Available domains: commit, interaction, conversation, diff, user, project
+Available domains: commit, interaction, conversation, diff, user, project, pull_request
 
 Output your analysis as structured JSON matching the ContextAnalysis interface.`,
     allowedTools: ['analyze_patterns'],
@@ -80,15 +104,9 @@ Entity Mapping Guide:
 - "commit" → commits
 - "user/author" → users
 - "discussion/chat" → interactions, conversations
+- "pull request/PR" → pull_requests, commits (head_sha or branch), interactions (discussion before the merge)
 
-Database Schema:
-- conversations: id, composer_id, title, created_at, project_id, platform
-- interactions: id, conversation_id, prompt_text, response_text, prompt_ts, model, author
-- interaction_diffs: id, interaction_id, file_path, diff_chunks, created_at
-- commits: id, hash, message, committed_at, created_at, project_id, branch, author
-- commit_interactions: commit_id, interaction_id
-- users: id, github_username, full_name, email
-- projects: id, github_repo_id, repo_owner, repo_name
+${PLANNER_SCHEMA_TEXT}
 
 Planning Rules:
 - All plans must use the same project_id filter
@@ -141,7 +159,6 @@ export const DATABASE_PERMISSIONS: DatabasePermissions = {
   max_rows: 200,
   required_project_scope: true,
   restricted_columns: ['users.email', 'users.auth_user_id'],
-  dangerous_keywords: ['DROP', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'ALTER', 'CREATE'],
 };
 
 /**
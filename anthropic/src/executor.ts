@@ -1,16 +1,21 @@
 import { Pool, QueryResult as PgQueryResult } from 'pg';
+import { getLogger, guardSql } from '@tig/shared';
 import { QueryPlan, QueryResult, ValidationResult } from './types';
 import { validateAndBuildSQL } from './validator';
 import { DATABASE_PERMISSIONS } from './config';
+import { getSqlGuardPolicy } from './ontology';
+
+const log = getLogger('sql');
 
 /**
- * Execute a validated SQL query
+ * Execute a validated SQL query with its bound params
  */
 export async function executeQuery(
   sql: string,
   pool: Pool,
   domain: string,
-  intent: string
+  intent: string,
+  params: unknown[] = []
 ): Promise<QueryResult> {
   const startTime = Date.now();
 
@@ -21,7 +26,7 @@ export async function executeQuery(
     }
 
     // Execute the query
-    const result: PgQueryResult = await pool.query(sql);
+    const result: PgQueryResult = await pool.query(sql, params);
 
     const executionTime = Date.now() - startTime;
 
@@ -55,22 +60,16 @@ export async function executeQueryPlan(
   projectId: string
 ): Promise<QueryResult> {
   // Validate and build SQL
-  const validation: ValidationResult = validateAndBuildSQL(plan, projectId);
-
-  // Log SQL generation for debugging
-  const enableDebugLogging = process.env.DEBUG_SQL === 'true';
-  if (enableDebugLogging) {
-    console.log(`\n[SQL] Plan: ${plan.domain} - ${plan.intent}`);
-    console.log(`[SQL] Entities: ${plan.entities?.join(', ') || 'none'}`);
-    console.log(`[SQL] Valid: ${validation.isValid}`);
-    if (validation.sql) {
-      console.log(`[SQL] Full Query:\n${validation.sql}`);
-    }
-    if (validation.errors.length > 0) {
-      console.log(`[SQL] Errors: ${validation.errors.join(', ')}`);
-    }
-    console.log('[SQL] ---');
-  }
+  const validation: ValidationResult = await validateAndBuildSQL(plan, projectId);
+
+  // Log SQL generation for debugging (LOG_LEVEL=debug)
+  log.debug(`Plan: ${plan.domain} - ${plan.intent}`, {
+    entities: plan.entities,
+    valid: validation.isValid,
+    sql: validation.sql,
+    params: validation.params,
+    errors: validation.errors.length > 0 ? validation.errors : undefined
+  });
 
   if (!validation.isValid || !validation.sql) {
     return {
@@ -85,12 +84,14 @@ export async function executeQueryPlan(
   }
 
   // Execute the query
-  const result = await executeQuery(validation.sql, pool, plan.domain, plan.intent);
+  const params = validation.params || [];
+  const result = await executeQuery(validation.sql, pool, plan.domain, plan.intent, params);
   
   // Include SQL in result for debugging
   return {
     ...result,
     sql: validation.sql,
+    params,
   };
 }
 
@@ -117,61 +118,46 @@ export async function executeMultipleQueryPlans(
  */
 export async function executeQueryWithParams(
   sql: string,
-  params: any[],
+  params: unknown[],
   pool: Pool
 ): Promise<any[]> {
   try {
-    // Additional safety check
-    if (!sql.trim().toUpperCase().startsWith('SELECT')) {
-      throw new Error('Only SELECT queries are allowed');
-    }
+    // Additional safety check (read-only, ontology tables and columns)
+    await guardSql(sql, getSqlGuardPolicy(), { params });
 
     const result: PgQueryResult = await pool.query(sql, params);
     return result.rows;
   } catch (error) {
-    console.error('Query execution error:', error);
+    log.error('Query execution error', { error });
     throw error;
   }
 }
 
 /**
  * Execute a raw SQL query (with all safety checks)
+ *
+ * The SQL guard rejects anything but a single read-only SELECT over ontology
+ * tables and columns, and (with required_project_scope) any project-scoped
+ * table not filtered by projectId - as a literal or a bound param.
  */
 export async function executeSafeQuery(
   sql: string,
   pool: Pool,
-  projectId: string
+  projectId: string,
+  params: unknown[] = []
 ): Promise<any[]> {
-  // Perform safety checks
-  const upperSQL = sql.toUpperCase();
-
-  // Must be SELECT only
-  if (!upperSQL.startsWith('SELECT')) {
-    throw new Error('Only SELECT queries are allowed');
-  }
-
-  // Check for dangerous keywords
-  const dangerous = DATABASE_PERMISSIONS.dangerous_keywords;
-  for (const keyword of dangerous) {
-    if (upperSQL.includes(keyword)) {
-      throw new Error(`Dangerous keyword detected: ${keyword}`);
-    }
-  }
-
-  // Check for project scoping
-  if (DATABASE_PERMISSIONS.required_project_scope) {
-    if (!sql.includes(projectId)) {
-      throw new Error('Query must include project_id filter');
-    }
-  }
+  await guardSql(sql, getSqlGuardPolicy(), {
+    projectId: DATABASE_PERMISSIONS.required_project_scope ? projectId : undefined,
+    params
+  });
 
   // Check for row limit
-  if (!upperSQL.includes('LIMIT')) {
+  if (!sql.toUpperCase().includes('LIMIT')) {
     sql += ` LIMIT ${DATABASE_PERMISSIONS.max_rows}`;
   }
 
   // Execute the query
-  return executeQueryWithParams(sql, [], pool);
+  return executeQueryWithParams(sql, params, pool);
 }
 
 /**
@@ -182,7 +168,7 @@ export async function testConnection(pool: Pool): Promise<boolean> {
     const result = await pool.query('SELECT NOW() as current_time');
     return result.rows.length > 0;
   } catch (error) {
-    console.error('Database connection test failed:', error);
+    log.error('Database connection test failed', { error });
     return false;
   }
 }
@@ -212,7 +198,7 @@ export async function getDatabaseStats(pool: Pool): Promise<any> {
       totalDiffs: parseInt(results[4].rows[0].total_diffs),
     };
   } catch (error) {
-    console.error('Error getting database stats:', error);
+    log.error('Error getting database stats', { error });
     return null;
   }
 }
@@ -233,7 +219,7 @@ export async function getProjectInfo(pool: Pool, projectId: string): Promise<any
 
     return result.rows[0];
   } catch (error) {
-    console.error('Error getting project info:', error);
+    log.error('Error getting project info', { error });
     throw error;
   }
 }
@@ -244,10 +230,11 @@ export async function getProjectInfo(pool: Pool, projectId: string): Promise<any
 export async function executeQueryWithTimeout(
   sql: string,
   pool: Pool,
-  timeoutMs: number = 30000
+  timeoutMs: number = 30000,
+  params: unknown[] = []
 ): Promise<any[]> {
   return Promise.race([
-    executeQueryWithParams(sql, [], pool),
+    executeQueryWithParams(sql, params, pool),
     new Promise<any[]>((_, reject) =>
       setTimeout(() => reject(new Error('Query timeout')), timeoutMs)
     ),
@@ -283,14 +270,15 @@ export async function batchExecuteQueries(
 export async function* streamQueryResults(
   sql: string,
   pool: Pool,
-  batchSize: number = 100
+  batchSize: number = 100,
+  params: unknown[] = []
 ): AsyncGenerator<any[], void, unknown> {
   let offset = 0;
   let hasMore = true;
 
   while (hasMore) {
     const batchSQL = `${sql} LIMIT ${batchSize} OFFSET ${offset}`;
-    const rows = await executeQueryWithParams(batchSQL, [], pool);
+    const rows = await executeQueryWithParams(batchSQL, params, pool);
 
     if (rows.length === 0) {
       hasMore = false;
@@ -339,16 +327,17 @@ export async function executeTransaction(
  */
 export async function countQueryResults(
   sql: string,
-  pool: Pool
+  pool: Pool,
+  params: unknown[] = []
 ): Promise<number> {
   // Convert SELECT query to COUNT query
   const countSQL = sql.replace(/SELECT .+ FROM/i, 'SELECT COUNT(*) as count FROM');
   
   try {
-    const result = await pool.query(countSQL);
+    const result = await pool.query(countSQL, params);
     return parseInt(result.rows[0].count);
   } catch (error) {
-    console.error('Error counting query results:', error);
+    log.error('Error counting query results', { error });
     return 0;
   }
 }
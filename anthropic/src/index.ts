@@ -1,6 +1,7 @@
 import * as dotenv from 'dotenv';
 import { Pool } from 'pg';
 import Anthropic from '@anthropic-ai/sdk';
+import { getLogger } from '@tig/shared';
 import { WorkflowInput } from './types';
 import { createAnthropicClient, createDatabasePool } from './config';
 import { ContextualWorkflow, createContextualWorkflow, runContextualWorkflow } from './workflow';
@@ -9,6 +10,8 @@ import { testConnection } from './executor';
 // Load environment variables from parent directory
 dotenv.config({ path: '../.env' });
 
+const log = getLogger('tigagent');
+
 /**
  * TigAgent - Anthropic Implementation
  * Main entry point for the TigAgent using Anthropic's Claude API
@@ -22,31 +25,31 @@ export async function initializeTigAgent(): Promise<{
   pool: Pool;
   workflow: ContextualWorkflow;
 }> {
-  console.log('[TigAgent] Initializing TigAgent with Anthropic Claude...');
+  log.info('Initializing TigAgent with Anthropic Claude');
 
   try {
     // Initialize Anthropic client
     const client = createAnthropicClient();
-    console.log('[TigAgent] Anthropic client initialized');
+    log.info('Anthropic client initialized');
 
     // Initialize database pool
     const pool = createDatabasePool();
-    console.log('[TigAgent] Database pool created');
+    log.info('Database pool created');
 
     // Test database connection
     const isConnected = await testConnection(pool);
     if (!isConnected) {
       throw new Error('Database connection test failed');
     }
-    console.log('[TigAgent] Database connection verified');
+    log.info('Database connection verified');
 
     // Create workflow
     const workflow = createContextualWorkflow(client, pool);
-    console.log('[TigAgent] Contextual workflow ready');
+    log.info('Contextual workflow ready');
 
     return { client, pool, workflow };
   } catch (error) {
-    console.error('[TigAgent] Initialization error:', error);
+    log.error('Initialization error', { error });
     throw error;
   }
 }
@@ -55,10 +58,8 @@ export async function initializeTigAgent(): Promise<{
  * Run TigAgent with a query
  */
 export async function runTigAgent(input: WorkflowInput): Promise<string> {
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`[TigAgent] Processing query: "${input.query}"`);
-  console.log(`[TigAgent] Project ID: ${input.projectId}`);
-  console.log(`${'='.repeat(80)}\n`);
+  const runLog = log.child({ session_id: input.sessionId, project_id: input.projectId });
+  runLog.info(`Processing query: "${input.query}"`);
 
   let client: Anthropic | null = null;
   let pool: Pool | null = null;
@@ -72,20 +73,18 @@ export async function runTigAgent(input: WorkflowInput): Promise<string> {
     // Run contextual workflow
     const result = await initialized.workflow.run(input);
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log('[TigAgent] Query processing completed successfully');
-    console.log(`${'='.repeat(80)}\n`);
+    runLog.info('Query processing completed successfully');
 
     return result;
   } catch (error) {
-    console.error('[TigAgent] Error running TigAgent:', error);
+    runLog.error('Error running TigAgent', { error });
     
     throw error;
   } finally {
     // Cleanup
     if (pool) {
       await pool.end();
-      console.log('[TigAgent] Database pool closed');
+      runLog.debug('Database pool closed');
     }
   }
 }
@@ -97,10 +96,8 @@ export async function runTigAgentStreaming(
   input: WorkflowInput,
   onChunk: (chunk: string) => void
 ): Promise<void> {
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`[TigAgent] Processing query (streaming): "${input.query}"`);
-  console.log(`[TigAgent] Project ID: ${input.projectId}`);
-  console.log(`${'='.repeat(80)}\n`);
+  const runLog = log.child({ session_id: input.sessionId, project_id: input.projectId });
+  runLog.info(`Processing query (streaming): "${input.query}"`);
 
   let pool: Pool | null = null;
 
@@ -112,17 +109,15 @@ export async function runTigAgentStreaming(
     // Run streaming workflow
     await initialized.workflow.runStreaming(input, onChunk);
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log('[TigAgent] Streaming completed successfully');
-    console.log(`${'='.repeat(80)}\n`);
+    runLog.info('Streaming completed successfully');
   } catch (error) {
-    console.error('[TigAgent] Error running streaming TigAgent:', error);
+    runLog.error('Error running streaming TigAgent', { error });
     throw error;
   } finally {
     // Cleanup
     if (pool) {
       await pool.end();
-      console.log('[TigAgent] Database pool closed');
+      runLog.debug('Database pool closed');
     }
   }
 }
@@ -134,10 +129,8 @@ export async function runTigAgentWithProgress(
   input: WorkflowInput,
   onProgress: (stage: string, progress: number) => void
 ): Promise<string> {
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`[TigAgent] Processing query (with progress): "${input.query}"`);
-  console.log(`[TigAgent] Project ID: ${input.projectId}`);
-  console.log(`${'='.repeat(80)}\n`);
+  const runLog = log.child({ session_id: input.sessionId, project_id: input.projectId });
+  runLog.info(`Processing query (with progress): "${input.query}"`);
 
   let pool: Pool | null = null;
 
@@ -149,19 +142,17 @@ export async function runTigAgentWithProgress(
     // Run workflow with progress
     const result = await initialized.workflow.runWithProgress(input, onProgress);
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log('[TigAgent] Query processing with progress completed successfully');
-    console.log(`${'='.repeat(80)}\n`);
+    runLog.info('Query processing with progress completed successfully');
 
     return result;
   } catch (error) {
-    console.error('[TigAgent] Error running TigAgent with progress:', error);
+    runLog.error('Error running TigAgent with progress', { error });
     throw error;
   } finally {
     // Cleanup
     if (pool) {
       await pool.end();
-      console.log('[TigAgent] Database pool closed');
+      runLog.debug('Database pool closed');
     }
   }
 }
@@ -170,10 +161,8 @@ export async function runTigAgentWithProgress(
  * Run TigAgent with narrative synthesis
  */
 export async function runTigAgentNarrative(input: WorkflowInput): Promise<string> {
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`[TigAgent] Processing query (narrative mode): "${input.query}"`);
-  console.log(`[TigAgent] Project ID: ${input.projectId}`);
-  console.log(`${'='.repeat(80)}\n`);
+  const runLog = log.child({ session_id: input.sessionId, project_id: input.projectId });
+  runLog.info(`Processing query (narrative mode): "${input.query}"`);
 
   let pool: Pool | null = null;
 
@@ -185,19 +174,17 @@ export async function runTigAgentNarrative(input: WorkflowInput): Promise<string
     // Run narrative workflow
     const result = await initialized.workflow.runNarrative(input);
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log('[TigAgent] Narrative query processing completed successfully');
-    console.log(`${'='.repeat(80)}\n`);
+    runLog.info('Narrative query processing completed successfully');
 
     return result;
   } catch (error) {
-    console.error('[TigAgent] Error running narrative TigAgent:', error);
+    runLog.error('Error running narrative TigAgent', { error });
     throw error;
   } finally {
     // Cleanup
     if (pool) {
       await pool.end();
-      console.log('[TigAgent] Database pool closed');
+      runLog.debug('Database pool closed');
     }
   }
 }
@@ -206,10 +193,8 @@ export async function runTigAgentNarrative(input: WorkflowInput): Promise<string
  * Run TigAgent with timeline synthesis
  */
 export async function runTigAgentTimeline(input: WorkflowInput): Promise<string> {
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`[TigAgent] Processing query (timeline mode): "${input.query}"`);
-  console.log(`[TigAgent] Project ID: ${input.projectId}`);
-  console.log(`${'='.repeat(80)}\n`);
+  const runLog = log.child({ session_id: input.sessionId, project_id: input.projectId });
+  runLog.info(`Processing query (timeline mode): "${input.query}"`);
 
   let pool: Pool | null = null;
 
@@ -221,19 +206,17 @@ export async function runTigAgentTimeline(input: WorkflowInput): Promise<string>
     // Run timeline workflow
     const result = await initialized.workflow.runTimeline(input);
 
-    console.log(`\n${'='.repeat(80)}`);
-    console.log('[TigAgent] Timeline query processing completed successfully');
-    console.log(`${'='.repeat(80)}\n`);
+    runLog.info('Timeline query processing completed successfully');
 
     return result;
   } catch (error) {
-    console.error('[TigAgent] Error running timeline TigAgent:', error);
+    runLog.error('Error running timeline TigAgent', { error });
     throw error;
   } finally {
     // Cleanup
     if (pool) {
       await pool.end();
-      console.log('[TigAgent] Database pool closed');
+      runLog.debug('Database pool closed');
     }
   }
 }
@@ -242,23 +225,23 @@ export async function runTigAgentTimeline(input: WorkflowInput): Promise<string>
  * Validate TigAgent setup
  */
 export async function validateSetup(): Promise<boolean> {
-  console.log('[TigAgent] Validating setup...');
+  log.info('Validating setup');
 
   try {
     // Check environment variables
     if (!process.env.ANTHROPIC_API_KEY) {
-      console.error('[TigAgent] Missing ANTHROPIC_API_KEY environment variable');
+      log.error('Missing ANTHROPIC_API_KEY environment variable');
       return false;
     }
 
     if (!process.env.DATABASE_URL) {
-      console.error('[TigAgent] Missing DATABASE_URL environment variable');
+      log.error('Missing DATABASE_URL environment variable');
       return false;
     }
 
     // Test Anthropic client
     const client = createAnthropicClient();
-    console.log('[TigAgent] ✓ Anthropic client created successfully');
+    log.info('Anthropic client created successfully');
 
     // Test database connection
     const pool = createDatabasePool();
@@ -266,16 +249,16 @@ export async function validateSetup(): Promise<boolean> {
     await pool.end();
 
     if (!isConnected) {
-      console.error('[TigAgent] Database connection test failed');
+      log.error('Database connection test failed');
       return false;
     }
 
-    console.log('[TigAgent] ✓ Database connection successful');
-    console.log('[TigAgent] ✓ Setup validation passed');
+    log.info('Database connection successful');
+    log.info('Setup validation passed');
 
     return true;
   } catch (error) {
-    console.error('[TigAgent] Setup validation failed:', error);
+    log.error('Setup validation failed', { error });
     return false;
   }
 }
@@ -284,10 +267,12 @@ export async function validateSetup(): Promise<boolean> {
 export * from './types';
 export * from './config';
 export * from './ontology';
+export * from '@tig/shared';
 export * from './validator';
 export * from './executor';
 export * from './workflow';
 export * from './parallelExecutor';
+export * from './schemas';
 export * from './agents/contextAnalyzer';
 export * from './agents/multiStagePlanner';
 export * from './agents/contextualSynthesizer';
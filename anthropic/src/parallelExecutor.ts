@@ -157,7 +157,7 @@ export class ParallelExecutor {
   }
 
   /**
-   * Execute a single query plan
+   * Execute a single query plan (SQL and bound params come from executeQueryPlan)
    */
   private async executeSingle(plan: any): Promise<QueryResult> {
     const startTime = Date.now();
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for structured agent output
+ * Mirror the interfaces in types.ts - keep the two in sync
+ */
+
+const DomainSchema = z.string().min(1);
+
+export const ContextualIntentSchema = z.object({
+  domain: DomainSchema,
+  query: z.string(),
+  connectionType: z.enum(['temporal', 'semantic', 'commit', 'file', 'author']),
+  entities: z.array(z.string()).default([]),
+  priority: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+});
+
+export const ConnectionStrategySchema = z.object({
+  type: z.enum(['time_based', 'commit_based', 'semantic', 'file_based', 'author_based']),
+  parameters: z.record(z.any()).default({}),
+});
+
+export const ContextAnalysisSchema = z.object({
+  primaryIntent: z.object({
+    domain: DomainSchema,
+    query: z.string(),
+    entities: z.array(z.string()).default([]),
+  }),
+  contextualIntents: z.array(ContextualIntentSchema),
+  connectionStrategy: ConnectionStrategySchema,
+  explanation: z.string().default(''),
+});
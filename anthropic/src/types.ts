@@ -65,6 +65,8 @@ export interface QueryFilters {
   branch?: string; // Filter by branch name
   commitHash?: string; // Specific commit hash
   conversationId?: string; // Specific conversation
+  prNumber?: number; // Specific pull request
+  beforeMerge?: boolean; // Only interactions from before the pull request merged
   searchText?: string; // Text search in messages
   limit?: number; // Result limit (if specified in query)
 }
@@ -87,6 +89,7 @@ export interface QueryResult {
   executionTime: number;
   error?: string;
   sql?: string; // The generated SQL query (for debugging)
+  params?: unknown[]; // Values bound to the query's $n placeholders
 }
 
 export interface MultiStageQueryResults {
@@ -125,7 +128,8 @@ export interface ForeignKeySchema {
  */
 export interface ValidationResult {
   isValid: boolean;
-  sql?: string;
+  sql?: string; // Values appear only as $n placeholders
+  params?: unknown[]; // Values for $1, $2, ... in order
   errors: string[];
   warnings: string[];
 }
@@ -219,7 +223,6 @@ export interface DatabasePermissions {
   max_rows: number;
   required_project_scope: boolean;
   restricted_columns: string[];
-  dangerous_keywords: string[];
 }
 
 /**
@@ -228,5 +231,5 @@ export interface DatabasePermissions {
 export type ConnectionType = 'temporal' | 'semantic' | 'commit' | 'file' | 'author';
 export type ConnectionStrategyType = 'time_based' | 'commit_based' | 'semantic' | 'file_based' | 'author_based';
 export type Priority = 1 | 2 | 3;
-export type Domain = 'commit' | 'interaction' | 'conversation' | 'diff' | 'user' | 'project';
+export type Domain = 'commit' | 'interaction' | 'conversation' | 'diff' | 'user' | 'project' | 'pull_request';
 
@@ -1,11 +1,55 @@
+import { getLogger, checkSql } from '@tig/shared';
 import { QueryPlan, ValidationResult } from './types';
 import { DATABASE_PERMISSIONS } from './config';
-import { getTableSchema, getTableColumns, isRestrictedColumn, TABLES } from './ontology';
+import { getTableSchema, getTableColumns, isRestrictedColumn, getSqlGuardPolicy, TABLES } from './ontology';
+
+const log = getLogger('sql_builder');
 
 /**
- * Validates a query plan and generates safe SQL
+ * Values bound to a statement while it is built
+ *
+ * Filters come from the LLM planner and count as untrusted input: every value
+ * goes into params and the SQL text only ever holds its $n placeholder.
  */
-export function validateAndBuildSQL(plan: QueryPlan, projectId: string): ValidationResult {
+class SqlParams {
+  readonly values: unknown[] = [];
+  private shared = new Map<string, string>();
+
+  /**
+   * Only bind a value the statement uses - Postgres rejects params without a placeholder
+   */
+  bind(value: unknown): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+
+  /**
+   * Bind a value once and reuse its placeholder (the project ID, filtered on several tables)
+   */
+  bindShared(key: string, value: unknown): string {
+    let placeholder = this.shared.get(key);
+    if (!placeholder) {
+      placeholder = this.bind(value);
+      this.shared.set(key, placeholder);
+    }
+    return placeholder;
+  }
+
+  /**
+   * Bind a LIKE pattern - the value's own %, _ and \ match literally
+   */
+  bindLike(value: string, prefix: string, suffix: string): string {
+    return this.bind(`${prefix}${value.replace(/[\\%_]/g, char => `\\${char}`)}${suffix}`);
+  }
+}
+
+/**
+ * Validates a query plan and generates safe SQL (values bound as $n in params)
+ *
+ * The built SQL must also pass the SQL guard (checkSql in @tig/shared) - read-only,
+ * ontology tables and columns only, every project-scoped table filtered by projectId.
+ */
+export async function validateAndBuildSQL(plan: QueryPlan, projectId: string): Promise<ValidationResult> {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -31,13 +75,13 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
 
   try {
     // Build SQL based on the query plan
-    const sql = buildSQLFromPlan(plan, projectId, errors, warnings);
+    const params = new SqlParams();
+    const sql = buildSQLFromPlan(plan, projectId, params, errors, warnings);
 
     // Validate the generated SQL
-    validateSQL(sql, errors, warnings);
-
-    // Check for dangerous keywords
-    checkDangerousKeywords(sql, errors);
+    if (sql) {
+      errors.push(...await checkSql(sql, getSqlGuardPolicy(), { projectId, params: params.values }));
+    }
 
     // Check row limits
     if (!sql.includes('LIMIT')) {
@@ -47,6 +91,7 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
     return {
       isValid: errors.length === 0,
       sql: errors.length === 0 ? sql : undefined,
+      params: errors.length === 0 ? params.values : undefined,
       errors,
       warnings,
     };
@@ -62,6 +107,7 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
 function buildSQLFromPlan(
   plan: QueryPlan,
   projectId: string,
+  params: SqlParams,
   errors: string[],
   warnings: string[]
 ): string {
@@ -82,21 +128,31 @@ function buildSQLFromPlan(
     entities: joinableEntities,
   };
 
+  // Tables without a project column are also joined to one that has it
+  const projectPath = determineProjectPath(joinableEntities);
+  const scopedPlan: QueryPlan = {
+    ...joinedPlan,
+    entities: [...joinableEntities, ...projectPath],
+  };
+
   // Build SELECT clause with only joinable tables
   const selectColumns = buildSelectClause(joinedPlan, primaryTable, errors, warnings);
 
-  // Build FROM clause with only joinable tables
-  const fromClause = buildFromClauseWithJoinableEntities(joinedPlan);
+  // Build FROM clause with joinable tables and their project path
+  const fromClause = buildFromClauseWithJoinableEntities(scopedPlan, projectId, params);
 
   // Build WHERE clause (always include project scoping)
-  const whereClause = buildWhereClause(joinedPlan, primaryTable, projectId, errors);
+  const whereClause = buildWhereClause(scopedPlan, primaryTable, projectId, params, projectPath);
 
   // Build ORDER BY clause
   const orderByClause = buildOrderByClause(joinedPlan, primaryTable);
 
   // Build LIMIT clause (use filter limit if specified, otherwise use max_rows)
-  const limit = joinedPlan.filters?.limit || DATABASE_PERMISSIONS.max_rows;
-  const limitClause = `LIMIT ${limit}`;
+  const requestedLimit = Number(joinedPlan.filters?.limit);
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, DATABASE_PERMISSIONS.max_rows)
+    : DATABASE_PERMISSIONS.max_rows;
+  const limitClause = `LIMIT ${params.bind(limit)}`;
 
   // Combine all parts
   const sql = `
@@ -182,6 +238,34 @@ function determineJoinableEntities(plan: QueryPlan): string[] {
   return joinableEntities;
 }
 
+/**
+ * Tables to join so every entity reaches a project-scoped table - each table
+ * without a project column follows its project links (interaction_diffs →
+ * interactions → conversations), preferring tables already joined
+ */
+function determineProjectPath(entities: string[]): string[] {
+  if (!DATABASE_PERMISSIONS.required_project_scope) {
+    return [];
+  }
+
+  const { projectScope, projectLinks = {} } = getSqlGuardPolicy();
+  const path: string[] = [];
+  const included = (table: string) => entities.includes(table) || path.includes(table);
+
+  for (const entity of entities) {
+    let table = entity;
+    while (!projectScope[table] && projectLinks[table]?.length) {
+      const links = projectLinks[table];
+      table = (links.find(link => included(link.table)) ?? links[0]).table;
+      if (!included(table)) {
+        path.push(table);
+      }
+    }
+  }
+
+  return path;
+}
+
 /**
  * Find a path through junction tables to connect two tables
  */
@@ -199,6 +283,14 @@ function findJunctionTablePath(table1: string, table2: string): string[] | null
     // commits ↔ interaction_diffs via commit_interactions → interactions
     'commits-interaction_diffs': ['commit_interactions', 'interactions'],
     'interaction_diffs-commits': ['interactions', 'commit_interactions'],
+    
+    // pull_requests ↔ interactions/conversations via their commits → commit_interactions
+    'pull_requests-commit_interactions': ['commits'],
+    'commit_interactions-pull_requests': ['commits'],
+    'pull_requests-interactions': ['commits', 'commit_interactions'],
+    'interactions-pull_requests': ['commit_interactions', 'commits'],
+    'pull_requests-conversations': ['commits', 'commit_interactions', 'interactions'],
+    'conversations-pull_requests': ['interactions', 'commit_interactions', 'commits'],
   };
 
   const key = `${table1}-${table2}`;
@@ -208,7 +300,7 @@ function findJunctionTablePath(table1: string, table2: string): string[] | null
 /**
  * Build FROM clause with joinable entities (no side effects)
  */
-function buildFromClauseWithJoinableEntities(plan: QueryPlan): string {
+function buildFromClauseWithJoinableEntities(plan: QueryPlan, projectId: string, params: SqlParams): string {
   const primaryTable = plan.entities[0];
   let fromClause = primaryTable;
 
@@ -224,7 +316,7 @@ function buildFromClauseWithJoinableEntities(plan: QueryPlan): string {
         const joinCondition = determineJoinCondition(prevTable, joinedTable);
 
         if (joinCondition) {
-          fromClause += `\nLEFT JOIN ${joinedTable} ON ${joinCondition}`;
+          fromClause += `\nLEFT JOIN ${joinedTable} ON ${joinCondition}${joinProjectFilter(joinedTable, projectId, params)}`;
           foundJoin = true;
           break;
         }
@@ -240,10 +332,10 @@ function buildFromClauseWithJoinableEntities(plan: QueryPlan): string {
         const joinHasProjectId = joinSchema?.columns.some(col => col.name === 'project_id');
         
         if (prevHasProjectId && joinHasProjectId) {
-          fromClause += `\nLEFT JOIN ${joinedTable} ON ${prevTable}.project_id = ${joinedTable}.project_id`;
+          fromClause += `\nLEFT JOIN ${joinedTable} ON ${prevTable}.project_id = ${joinedTable}.project_id${joinProjectFilter(joinedTable, projectId, params)}`;
         } else {
           // Skip this join if we can't determine how to do it
-          console.warn(`[SQL Builder] Cannot join ${joinedTable}, skipping`);
+          log.warn(`Cannot join ${joinedTable}, skipping`);
         }
       }
     }
@@ -252,6 +344,20 @@ function buildFromClauseWithJoinableEntities(plan: QueryPlan): string {
   return fromClause;
 }
 
+/**
+ * Project filter for a joined table's ON clause (empty if the table isn't project-scoped)
+ *
+ * A LEFT JOIN keeps the primary table's rows either way; the filter only stops
+ * rows of other projects from being joined in.
+ */
+function joinProjectFilter(table: string, projectId: string, params: SqlParams): string {
+  const scopeColumn = getSqlGuardPolicy().projectScope[table];
+  if (!DATABASE_PERMISSIONS.required_project_scope || !scopeColumn) {
+    return '';
+  }
+  return ` AND ${table}.${scopeColumn} = ${params.bindShared('project_id', projectId)}`;
+}
+
 /**
  * Build SELECT clause
  */
@@ -323,9 +429,15 @@ function determineJoinCondition(table1: string, table2: string): string | null {
     'interactions-commit_interactions': 'interactions.id = commit_interactions.interaction_id',
     'commit_interactions-interactions': 'commit_interactions.interaction_id = interactions.id',
     
+    // Pull requests reach their commits by head SHA or branch
+    'pull_requests-commits': '(pull_requests.head_sha = commits.hash OR pull_requests.head_branch = commits.branch)',
+    'commits-pull_requests': '(commits.hash = pull_requests.head_sha OR commits.branch = pull_requests.head_branch)',
+    'pull_requests-projects': 'pull_requests.project_id = projects.id',
+    
     // Project scoping
     'projects-conversations': 'projects.id = conversations.project_id',
     'projects-commits': 'projects.id = commits.project_id',
+    'projects-pull_requests': 'projects.id = pull_requests.project_id',
   };
 
   const key1 = `${table1}-${table2}`;
@@ -341,32 +453,28 @@ function buildWhereClause(
   plan: QueryPlan,
   primaryTable: string,
   projectId: string,
-  errors: string[]
+  params: SqlParams,
+  projectPath: string[] = []
 ): string {
   const conditions: string[] = [];
 
-  // Always add project scoping if the table has a project_id column
+  // Always add project scoping - the primary table's, else the first project-scoped joined table's,
+  // and every project-scoped table joined only to reach a project
   if (DATABASE_PERMISSIONS.required_project_scope) {
-    const tableSchema = getTableSchema(primaryTable);
-    const hasProjectId = tableSchema?.columns.some(col => col.name === 'project_id');
+    const projectScope = getSqlGuardPolicy().projectScope;
+    const scopedTable = [primaryTable, ...plan.entities].find(entity => projectScope[entity]);
+    const scopedTables = new Set([scopedTable, ...projectPath.filter(table => projectScope[table])]);
 
-    if (hasProjectId) {
-      conditions.push(`${primaryTable}.project_id = '${projectId}'`);
-    } else {
-      // Check if any joined table has project_id
-      for (const entity of plan.entities) {
-        const schema = getTableSchema(entity);
-        if (schema?.columns.some(col => col.name === 'project_id')) {
-          conditions.push(`${entity}.project_id = '${projectId}'`);
-          break;
-        }
+    for (const table of scopedTables) {
+      if (table) {
+        conditions.push(`${table}.${projectScope[table]} = ${params.bindShared('project_id', projectId)}`);
       }
     }
   }
 
   // Add intent-based filters
   if (plan.intent) {
-    const intentFilters = buildIntentFilters(plan, primaryTable);
+    const intentFilters = buildIntentFilters(plan, primaryTable, params);
     conditions.push(...intentFilters);
   }
 
@@ -375,8 +483,9 @@ function buildWhereClause(
 
 /**
  * Build filters based on extracted query filters
+ * Column names come from the ontology; filter values are always bound.
  */
-function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
+function buildIntentFilters(plan: QueryPlan, primaryTable: string, params: SqlParams): string[] {
   const filters: string[] = [];
   const queryFilters = plan.filters;
   
@@ -400,26 +509,30 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
   
   // Determine if we should apply commit-related filters to commits table instead of primary table
   // This happens when querying conversations/interactions but filtering by commit attributes
+  // (pull requests have their own author and dates)
   const hasCommitsJoined = plan.entities.includes('commits');
-  const isCommitRelatedQuery = primaryTable !== 'commits' && hasCommitsJoined;
+  const isCommitRelatedQuery = primaryTable !== 'commits' && primaryTable !== 'pull_requests' && hasCommitsJoined;
+  const hasPullRequestsJoined = plan.entities.includes('pull_requests');
 
   // Author filter
   if (queryFilters.author) {
+    const author = String(queryFilters.author);
     // Check if author filter should apply to commits (when querying conversations/interactions about commits)
     if (isCommitRelatedQuery) {
       // Apply to commits table since we're filtering by commit author
-      filters.push(`commits.author ILIKE '%${queryFilters.author}%'`);
+      filters.push(`commits.author ILIKE ${params.bindLike(author, '%', '%')}`);
     } else {
       // Apply to primary table if it has author column
       const hasAuthor = tableSchema?.columns.some(col => col.name === 'author');
       if (hasAuthor) {
-        filters.push(`${primaryTable}.author ILIKE '%${queryFilters.author}%'`);
+        filters.push(`${primaryTable}.author ILIKE ${params.bindLike(author, '%', '%')}`);
       }
     }
     
     // Also check for github_username in joined tables
     if (plan.entities.includes('users')) {
-      filters.push(`(users.github_username ILIKE '%${queryFilters.author}%' OR users.full_name ILIKE '%${queryFilters.author}%')`);
+      const pattern = params.bindLike(author, '%', '%');
+      filters.push(`(users.github_username ILIKE ${pattern} OR users.full_name ILIKE ${pattern})`);
     }
   }
 
@@ -428,7 +541,7 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
     // Determine which table's date column to use
     if (isCommitRelatedQuery) {
       // When querying conversations/interactions about commits, filter by commit date
-      filters.push(`DATE(commits.committed_at) = '${queryFilters.date}'`);
+      filters.push(`DATE(commits.committed_at) = ${params.bind(queryFilters.date)}`);
     } else {
       // Use primary table's time column
       const timeColumn = tableSchema?.columns.find(col =>
@@ -436,7 +549,7 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
       );
 
       if (timeColumn) {
-        filters.push(`DATE(${primaryTable}.${timeColumn.name}) = '${queryFilters.date}'`);
+        filters.push(`DATE(${primaryTable}.${timeColumn.name}) = ${params.bind(queryFilters.date)}`);
       }
     }
   }
@@ -447,10 +560,10 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
     if (isCommitRelatedQuery) {
       // When querying conversations/interactions about commits, filter by commit date
       if (queryFilters.dateRange.start) {
-        filters.push(`commits.committed_at >= '${queryFilters.dateRange.start}'`);
+        filters.push(`commits.committed_at >= ${params.bind(queryFilters.dateRange.start)}`);
       }
       if (queryFilters.dateRange.end) {
-        filters.push(`commits.committed_at <= '${queryFilters.dateRange.end}'`);
+        filters.push(`commits.committed_at <= ${params.bind(queryFilters.dateRange.end)}`);
       }
     } else {
       // Use primary table's time column
@@ -460,10 +573,10 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
 
       if (timeColumn) {
         if (queryFilters.dateRange.start) {
-          filters.push(`${primaryTable}.${timeColumn.name} >= '${queryFilters.dateRange.start}'`);
+          filters.push(`${primaryTable}.${timeColumn.name} >= ${params.bind(queryFilters.dateRange.start)}`);
         }
         if (queryFilters.dateRange.end) {
-          filters.push(`${primaryTable}.${timeColumn.name} <= '${queryFilters.dateRange.end}'`);
+          filters.push(`${primaryTable}.${timeColumn.name} <= ${params.bind(queryFilters.dateRange.end)}`);
         }
       }
     }
@@ -471,27 +584,44 @@ function buildIntentFilters(plan: QueryPlan, primaryTable: string): string[] {
 
   // File name filter
   if (queryFilters.fileName && primaryTable === 'interaction_diffs') {
-    filters.push(`interaction_diffs.file_path ILIKE '%${queryFilters.fileName}%'`);
+    filters.push(`interaction_diffs.file_path ILIKE ${params.bindLike(String(queryFilters.fileName), '%', '%')}`);
   }
 
   // Branch filter
   if (queryFilters.branch && primaryTable === 'commits') {
-    filters.push(`commits.branch = '${queryFilters.branch}'`);
+    filters.push(`commits.branch = ${params.bind(queryFilters.branch)}`);
+  } else if (queryFilters.branch && primaryTable === 'pull_requests') {
+    filters.push(`pull_requests.head_branch = ${params.bind(queryFilters.branch)}`);
   }
 
-  // Commit hash filter
-  if (queryFilters.commitHash && primaryTable === 'commits') {
-    filters.push(`commits.hash LIKE '${queryFilters.commitHash}%'`);
+  // Commit hash filter - also finds the pull request that shipped the commit
+  if (queryFilters.commitHash && (primaryTable === 'commits' || (primaryTable === 'pull_requests' && hasCommitsJoined))) {
+    filters.push(`commits.hash LIKE ${params.bindLike(String(queryFilters.commitHash), '', '%')}`);
+  }
+
+  // Pull request filters - a number that doesn't parse ("#42" is read as 42) is dropped rather than bound as NaN
+  const prText = String(queryFilters.prNumber ?? '').trim().replace(/^#/, '');
+  const prNumber = prText === '' ? NaN : Number(prText);
+  if (Number.isInteger(prNumber) && hasPullRequestsJoined) {
+    filters.push(`pull_requests.pr_number = ${params.bind(prNumber)}`);
+  }
+  if (queryFilters.beforeMerge && hasPullRequestsJoined && plan.entities.includes('interactions')) {
+    filters.push('(pull_requests.merged_at IS NULL OR interactions.prompt_ts IS NULL OR interactions.prompt_ts <= pull_requests.merged_at)');
   }
 
   // Text search filter
   if (queryFilters.searchText) {
+    const searchText = String(queryFilters.searchText);
     if (primaryTable === 'interactions') {
-      filters.push(`(interactions.prompt_text ILIKE '%${queryFilters.searchText}%' OR interactions.response_text ILIKE '%${queryFilters.searchText}%')`);
+      const pattern = params.bindLike(searchText, '%', '%');
+      filters.push(`(interactions.prompt_text ILIKE ${pattern} OR interactions.response_text ILIKE ${pattern})`);
     } else if (primaryTable === 'commits') {
-      filters.push(`commits.message ILIKE '%${queryFilters.searchText}%'`);
+      filters.push(`commits.message ILIKE ${params.bindLike(searchText, '%', '%')}`);
     } else if (primaryTable === 'conversations') {
-      filters.push(`conversations.title ILIKE '%${queryFilters.searchText}%'`);
+      filters.push(`conversations.title ILIKE ${params.bindLike(searchText, '%', '%')}`);
+    } else if (primaryTable === 'pull_requests') {
+      const pattern = params.bindLike(searchText, '%', '%');
+      filters.push(`(pull_requests.title ILIKE ${pattern} OR pull_requests.description ILIKE ${pattern})`);
     }
   }
 
@@ -516,58 +646,14 @@ function buildOrderByClause(plan: QueryPlan, primaryTable: string): string {
   return '';
 }
 
-/**
- * Validate SQL for safety
- */
-function validateSQL(sql: string, errors: string[], warnings: string[]): void {
-  const upperSQL = sql.toUpperCase();
-
-  // Must be SELECT only
-  if (!upperSQL.startsWith('SELECT')) {
-    errors.push('Only SELECT queries are allowed');
-  }
-
-  // Check for multiple statements
-  if (sql.split(';').length > 2) {
-    errors.push('Multiple SQL statements are not allowed');
-  }
-
-  // Check for comments (potential SQL injection)
-  if (sql.includes('--') || sql.includes('/*')) {
-    warnings.push('SQL comments detected, ensure they are intentional');
-  }
-
-  // Check for UNION (potential for bypassing restrictions)
-  if (upperSQL.includes('UNION')) {
-    warnings.push('UNION detected, ensure it is necessary');
-  }
-}
-
-/**
- * Check for dangerous keywords
- */
-function checkDangerousKeywords(sql: string, errors: string[]): void {
-  const upperSQL = sql.toUpperCase();
-  const dangerous = DATABASE_PERMISSIONS.dangerous_keywords;
-
-  for (const keyword of dangerous) {
-    // Use word boundary regex to match whole words only
-    // This prevents matching "CREATE" in "created_at"
-    const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-    if (regex.test(sql)) {
-      errors.push(`Dangerous keyword detected: ${keyword}`);
-    }
-  }
-}
-
 /**
  * Validate multiple query plans
  */
-export function validateMultiplePlans(
+export async function validateMultiplePlans(
   plans: QueryPlan[],
   projectId: string
-): ValidationResult[] {
-  return plans.map(plan => validateAndBuildSQL(plan, projectId));
+): Promise<ValidationResult[]> {
+  return Promise.all(plans.map(plan => validateAndBuildSQL(plan, projectId)));
 }
 
 /**
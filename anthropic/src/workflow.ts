@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import Anthropic from '@anthropic-ai/sdk';
+import { getLogger } from '@tig/shared';
 import { WorkflowInput } from './types';
 import { ContextAnalyzerAgent, createContextAnalyzer } from './agents/contextAnalyzer';
 import { MultiStagePlannerAgent, createMultiStagePlanner } from './agents/multiStagePlanner';
@@ -35,7 +36,7 @@ export class ContextualWorkflow {
     this.pool = pool;
     
     // Initialize agents
-    this.contextAnalyzer = createContextAnalyzer(client);
+    this.contextAnalyzer = createContextAnalyzer();
     this.multiStagePlanner = createMultiStagePlanner(client);
     this.contextualSynthesizer = createContextualSynthesizer(client);
     
@@ -49,49 +50,32 @@ export class ContextualWorkflow {
    * @param sessionId - Optional session ID for stateful synthesis with memory
    */
   async run(input: WorkflowInput, sessionId?: string): Promise<any> {
-    const logPrefix = sessionId ? `[Workflow:${sessionId}]` : '[Workflow]';
-    console.log(`\n${logPrefix} Starting contextual workflow for query: "${input.query}"`);
-    if (sessionId) {
-      console.log(`${logPrefix} Memory feature enabled for session`);
-    }
+    const log = getLogger('workflow', { session_id: sessionId || input.sessionId, project_id: input.projectId });
+    log.info(`Starting contextual workflow for query: "${input.query}"`, { memory: Boolean(sessionId) });
     const workflowStartTime = Date.now();
 
     try {
       // Step 1: Context Analysis (Stateless)
-      console.log(`${logPrefix} Step 1/4: Analyzing context...`);
-      const contextAnalysisStart = Date.now();
-      const contextAnalysis = await this.contextAnalyzer.analyze(input);
-      console.log(`${logPrefix} Context analysis completed in ${Date.now() - contextAnalysisStart}ms`);
+      const contextAnalysis = await log.span('context_analysis', () => this.contextAnalyzer.analyze(input), { step: 1 });
 
       // Step 2: Multi-Stage Planning (Stateless)
-      console.log(`${logPrefix} Step 2/4: Creating multi-stage query plan...`);
-      const planningStart = Date.now();
-      const multiStagePlan = await this.multiStagePlanner.plan(contextAnalysis, input.projectId);
-      console.log(`${logPrefix} Planning completed in ${Date.now() - planningStart}ms`);
+      const multiStagePlan = await log.span('planning', () => this.multiStagePlanner.plan(contextAnalysis, input.projectId), { step: 2 });
 
       // Step 3: Parallel Execution (No AI)
-      console.log(`${logPrefix} Step 3/4: Executing queries in parallel...`);
-      const executionStart = Date.now();
       const executor = createParallelExecutor(this.pool, input.projectId);
-      const results = await executor.executeMultiStagePlan(multiStagePlan);
-      console.log(`${logPrefix} Execution completed in ${Date.now() - executionStart}ms`);
+      const results = await log.span('execution', () => executor.executeMultiStagePlan(multiStagePlan), { step: 3 });
 
       if (results.errors.length > 0) {
-        console.warn(`${logPrefix} Errors encountered: ${results.errors.length}`);
+        log.warn(`Errors encountered: ${results.errors.length}`, { errors: results.errors });
       }
 
       // Step 4: Synthesis (Stateful if sessionId provided)
-      console.log(`${logPrefix} Step 4/4: Synthesizing results${sessionId ? ' with memory' : ''}...`);
-      const synthesisStart = Date.now();
-      
-      const response = sessionId
-        ? await this.synthesizeWithMemory(results, multiStagePlan, input.query, sessionId)
-        : await this.contextualSynthesizer.synthesize(results, multiStagePlan, input.query);
-        
-      console.log(`${logPrefix} Synthesis completed in ${Date.now() - synthesisStart}ms`);
+      const response = await log.span('synthesis', () => sessionId
+        ? this.synthesizeWithMemory(results, multiStagePlan, input.query, sessionId)
+        : this.contextualSynthesizer.synthesize(results, multiStagePlan, input.query), { step: 4, memory: Boolean(sessionId) });
 
       const totalTime = Date.now() - workflowStartTime;
-      console.log(`${logPrefix} Total workflow time: ${totalTime}ms`);
+      log.info('Workflow complete', { duration_ms: totalTime });
 
       // Return comprehensive result object
       return {
@@ -104,7 +88,7 @@ export class ContextualWorkflow {
         sessionId: sessionId || null,
       };
     } catch (error) {
-      console.error(`${logPrefix} Error in contextual workflow:`, error);
+      log.error('Error in contextual workflow', { error });
       return this.handleWorkflowError(error, input.query);
     }
   }
@@ -120,6 +104,7 @@ export class ContextualWorkflow {
     sessionId: string
   ): Promise<string> {
     const config = AGENT_CONFIGS.synthesizer;
+    const log = getLogger('memory', { session_id: sessionId });
     
     // Ensure session storage exists
     if (!this.memoryStorage.has(sessionId)) {
@@ -183,7 +168,7 @@ Remember: You have access to memory. Check what you remember about this user's p
 
       while (currentResponse.stop_reason === 'tool_use' && loopCount < MAX_LOOPS) {
         loopCount++;
-        console.log(`[Memory:${sessionId}] Tool use loop ${loopCount}, stop_reason: ${currentResponse.stop_reason}`);
+        log.debug(`Tool use loop ${loopCount}`, { stop_reason: currentResponse.stop_reason });
 
         // Add assistant's tool use to messages
         messages.push({
@@ -199,7 +184,7 @@ Remember: You have access to memory. Check what you remember about this user's p
             const path = (block.input as any).path || '';
             const content = (block.input as any).content;
             
-            console.log(`[Memory:${sessionId}] Tool: ${block.name}, command: ${command}, path: ${path}`);
+            log.debug(`Tool: ${block.name}`, { command, path });
             
             let toolResult: any;
             if (command === 'view') {
@@ -214,7 +199,7 @@ Remember: You have access to memory. Check what you remember about this user's p
                 content: content || '',
                 timestamp: new Date(),
               });
-              console.log(`[Memory:${sessionId}] Stored memory: ${memoryName}`);
+              log.info(`Stored memory: ${memoryName}`);
               toolResult = `Memory stored successfully at ${path || memoryName}`;
             } else if (command === 'delete') {
               // Delete memory
@@ -264,11 +249,11 @@ Remember: You have access to memory. Check what you remember about this user's p
         }
       }
 
-      console.log(`[Memory:${sessionId}] Session has ${sessionMemories.size} memories stored`);
-      console.log(`[Memory:${sessionId}] Final response: ${responseText.substring(0, 100)}...`);
+      log.info(`Session has ${sessionMemories.size} memories stored`);
+      log.debug(`Final response: ${responseText.substring(0, 100)}...`);
       return responseText || 'No response generated.';
     } catch (error) {
-      console.error(`[Memory:${sessionId}] Error in memory synthesis:`, error);
+      log.error('Error in memory synthesis', { error });
       // Fallback to regular synthesis
       return await this.contextualSynthesizer.synthesize(results, plan, query);
     }
@@ -286,7 +271,7 @@ Remember: You have access to memory. Check what you remember about this user's p
    */
   clearSessionMemories(sessionId: string): void {
     this.memoryStorage.delete(sessionId);
-    console.log(`[Memory:${sessionId}] Cleared all memories`);
+    getLogger('memory', { session_id: sessionId }).info('Cleared all memories');
   }
 
   /**
@@ -296,32 +281,29 @@ Remember: You have access to memory. Check what you remember about this user's p
     input: WorkflowInput,
     onChunk: (chunk: string) => void
   ): Promise<void> {
-    console.log(`\n[Workflow] Starting streaming contextual workflow for query: "${input.query}"`);
+    const log = getLogger('workflow', { session_id: input.sessionId, project_id: input.projectId });
+    log.info(`Starting streaming contextual workflow for query: "${input.query}"`);
 
     try {
       // Step 1: Context Analysis
-      console.log('[Workflow] Step 1/4: Analyzing context...');
-      const contextAnalysis = await this.contextAnalyzer.analyze(input);
+      const contextAnalysis = await log.span('context_analysis', () => this.contextAnalyzer.analyze(input), { step: 1 });
 
       // Step 2: Multi-Stage Planning
-      console.log('[Workflow] Step 2/4: Creating multi-stage query plan...');
-      const multiStagePlan = await this.multiStagePlanner.plan(contextAnalysis, input.projectId);
+      const multiStagePlan = await log.span('planning', () => this.multiStagePlanner.plan(contextAnalysis, input.projectId), { step: 2 });
 
       // Step 3: Parallel Execution
-      console.log('[Workflow] Step 3/4: Executing queries in parallel...');
       const executor = createParallelExecutor(this.pool, input.projectId);
-      const results = await executor.executeMultiStagePlan(multiStagePlan);
+      const results = await log.span('execution', () => executor.executeMultiStagePlan(multiStagePlan), { step: 3 });
 
       // Step 4: Contextual Synthesis (Streaming)
-      console.log('[Workflow] Step 4/4: Synthesizing results (streaming)...');
-      await this.contextualSynthesizer.synthesizeStreaming(
+      await log.span('synthesis', () => this.contextualSynthesizer.synthesizeStreaming(
         results,
         multiStagePlan,
         input.query,
         onChunk
-      );
+      ), { step: 4, streaming: true });
     } catch (error) {
-      console.error('[Workflow] Error in streaming workflow:', error);
+      log.error('Error in streaming workflow', { error });
       onChunk(this.handleWorkflowError(error, input.query));
     }
   }
@@ -333,37 +315,38 @@ Remember: You have access to memory. Check what you remember about this user's p
     input: WorkflowInput,
     onProgress: (stage: string, progress: number) => void
   ): Promise<string> {
-    console.log(`\n[Workflow] Starting workflow with progress tracking for query: "${input.query}"`);
+    const log = getLogger('workflow', { session_id: input.sessionId, project_id: input.projectId });
+    log.info(`Starting workflow with progress tracking for query: "${input.query}"`);
 
     try {
       // Step 1: Context Analysis (0-25%)
       onProgress('Analyzing context', 0);
-      const contextAnalysis = await this.contextAnalyzer.analyze(input);
+      const contextAnalysis = await log.span('context_analysis', () => this.contextAnalyzer.analyze(input), { step: 1 });
       onProgress('Context analysis complete', 25);
 
       // Step 2: Multi-Stage Planning (25-50%)
       onProgress('Planning queries', 25);
-      const multiStagePlan = await this.multiStagePlanner.plan(contextAnalysis, input.projectId);
+      const multiStagePlan = await log.span('planning', () => this.multiStagePlanner.plan(contextAnalysis, input.projectId), { step: 2 });
       onProgress('Query planning complete', 50);
 
       // Step 3: Parallel Execution (50-75%)
       onProgress('Executing queries', 50);
       const executor = createParallelExecutor(this.pool, input.projectId);
-      const results = await executor.executeMultiStagePlan(multiStagePlan);
+      const results = await log.span('execution', () => executor.executeMultiStagePlan(multiStagePlan), { step: 3 });
       onProgress('Query execution complete', 75);
 
       // Step 4: Contextual Synthesis (75-100%)
       onProgress('Synthesizing results', 75);
-      const response = await this.contextualSynthesizer.synthesize(
+      const response = await log.span('synthesis', () => this.contextualSynthesizer.synthesize(
         results,
         multiStagePlan,
         input.query
-      );
+      ), { step: 4 });
       onProgress('Synthesis complete', 100);
 
       return response;
     } catch (error) {
-      console.error('[Workflow] Error in workflow with progress:', error);
+      log.error('Error in workflow with progress', { error });
       return this.handleWorkflowError(error, input.query);
     }
   }
@@ -372,7 +355,8 @@ Remember: You have access to memory. Check what you remember about this user's p
    * Run narrative workflow (story-based synthesis)
    */
   async runNarrative(input: WorkflowInput): Promise<string> {
-    console.log(`\n[Workflow] Starting narrative workflow for query: "${input.query}"`);
+    const log = getLogger('workflow', { session_id: input.sessionId, project_id: input.projectId });
+    log.info(`Starting narrative workflow for query: "${input.query}"`);
 
     try {
       // Execute standard workflow steps
@@ -390,7 +374,7 @@ Remember: You have access to memory. Check what you remember about this user's p
 
       return response;
     } catch (error) {
-      console.error('[Workflow] Error in narrative workflow:', error);
+      log.error('Error in narrative workflow', { error });
       return this.handleWorkflowError(error, input.query);
     }
   }
@@ -399,7 +383,8 @@ Remember: You have access to memory. Check what you remember about this user's p
    * Run timeline workflow (chronological synthesis)
    */
   async runTimeline(input: WorkflowInput): Promise<string> {
-    console.log(`\n[Workflow] Starting timeline workflow for query: "${input.query}"`);
+    const log = getLogger('workflow', { session_id: input.sessionId, project_id: input.projectId });
+    log.info(`Starting timeline workflow for query: "${input.query}"`);
 
     try {
       // Execute standard workflow steps
@@ -417,7 +402,7 @@ Remember: You have access to memory. Check what you remember about this user's p
 
       return response;
     } catch (error) {
-      console.error('[Workflow] Error in timeline workflow:', error);
+      log.error('Error in timeline workflow', { error });
       return this.handleWorkflowError(error, input.query);
     }
   }
@@ -0,0 +1,124 @@
+/**
+ * TigAgent - SQL injection corpus for the validator
+ *
+ * Every payload is fed through every QueryFilters field the planner can fill,
+ * for each kind of plan. None may reach the SQL text: values must only show up
+ * in params, bound to $n placeholders. Every query must also pass the SQL guard
+ * (validateAndBuildSQL runs it, so a rejected query fails the check as not valid).
+ *
+ * Usage (after npm run build):
+ *   node test-sql-injection.js
+ */
+
+const { validateAndBuildSQL } = require('./dist/validator');
+
+const PROJECT_ID = "f0b01975-0226-41d5-b124-802147e02e23' OR '1'='1";
+
+const PAYLOADS = [
+  "' OR '1'='1",
+  "'; DROP TABLE commits; --",
+  "x' UNION SELECT id, email, password FROM users --",
+  "%' AND 1=1 --",
+  "\\'; DELETE FROM interactions WHERE '1'='1",
+  "2024-01-01' OR committed_at IS NOT NULL --",
+  "main'/**/OR/**/'a'='a",
+  "abc$$; SELECT pg_sleep(10); $$",
+  "$1; TRUNCATE conversations",
+  "') OR ('x'='x",
+  "' OR 1=1 --",
+  "ʼ OR 1=1 --",
+  "100%_done\\",
+  "\n; ALTER ROLE postgres SUPERUSER; --",
+];
+
+const PLANS = [
+  { domain: 'git', intent: 'commits by author', entities: ['commits'] },
+  { domain: 'git', intent: 'commits with authors', entities: ['commits', 'users'] },
+  { domain: 'conversation', intent: 'interactions about a topic', entities: ['interactions'] },
+  { domain: 'conversation', intent: 'conversations by title', entities: ['conversations'] },
+  { domain: 'conversation', intent: 'conversations about commits', entities: ['conversations', 'commits'] },
+  { domain: 'code', intent: 'file changes', entities: ['interaction_diffs'] },
+  { domain: 'code', intent: 'commits for changed files', entities: ['interactions', 'commit_interactions', 'commits'] },
+  { domain: 'project', intent: 'project details', entities: ['projects', 'conversations'] },
+  { domain: 'pull_request', intent: 'pull requests by title', entities: ['pull_requests'] },
+  { domain: 'pull_request', intent: 'pull request that shipped a commit', entities: ['pull_requests', 'commits'] },
+  { domain: 'pull_request', intent: 'discussion before a pull request merged', entities: ['pull_requests', 'interactions'] },
+];
+
+function filtersFor(payload) {
+  return {
+    author: payload,
+    date: payload,
+    dateRange: { start: payload, end: payload },
+    fileName: payload,
+    branch: payload,
+    commitHash: payload,
+    conversationId: payload,
+    prNumber: payload,
+    beforeMerge: payload,
+    searchText: payload,
+    limit: payload,
+  };
+}
+
+async function check(plan, payload) {
+  const problems = [];
+  const result = await validateAndBuildSQL({ ...plan, filters: filtersFor(payload) }, PROJECT_ID);
+
+  if (!result.isValid || !result.sql) {
+    return [`not valid: ${result.errors.join(', ')}`];
+  }
+
+  const { sql, params = [] } = result;
+
+  if (sql.includes(payload.trim()) || sql.includes(PROJECT_ID)) {
+    problems.push('a value reached the SQL text');
+  }
+  if (sql.includes("'")) {
+    problems.push('the SQL text contains a quote');
+  }
+
+  const placeholders = new Set((sql.match(/\$\d+/g) || []).map(p => Number(p.slice(1))));
+  if (placeholders.size !== params.length || [...placeholders].some(n => n < 1 || n > params.length)) {
+    problems.push(`${placeholders.size} placeholder(s) for ${params.length} param(s)`);
+  }
+
+  if (/project_id = \$\d+/.test(sql) && !params.includes(PROJECT_ID)) {
+    problems.push('project ID is not bound');
+  }
+
+  if (params.some(param => Number.isNaN(param))) {
+    problems.push('a filter is bound as NaN');
+  }
+
+  const limit = params[params.length - 1];
+  if (!Number.isInteger(limit)) {
+    problems.push(`LIMIT is bound to ${JSON.stringify(limit)}`);
+  }
+
+  return problems;
+}
+
+async function run() {
+  console.log('🧪 SQL injection corpus\n');
+
+  let checks = 0;
+  let failures = 0;
+
+  for (const plan of PLANS) {
+    for (const payload of PAYLOADS) {
+      checks++;
+      const problems = await check(plan, payload);
+      if (problems.length > 0) {
+        failures++;
+        console.log(`❌ ${plan.entities.join('+')} ${JSON.stringify(payload)}`);
+        problems.forEach(problem => console.log(`   - ${problem}`));
+      }
+    }
+  }
+
+  console.log(`\n${failures === 0 ? '✅' : '❌'} ${checks - failures}/${checks} checks passed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+run();
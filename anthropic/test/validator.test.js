@@ -0,0 +1,48 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+const { validateAndBuildSQL } = require('../dist/validator');
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+
+function build(entities, filters = {}) {
+  return validateAndBuildSQL({ domain: 'test', intent: 'test', entities, filters }, PROJECT_ID);
+}
+
+test('a PR number is bound as an integer, with or without a leading #', async () => {
+  for (const prNumber of ['#123', '123', 123]) {
+    const result = await build(['pull_requests'], { prNumber });
+    assert.ok(result.isValid, result.errors.join(', '));
+    assert.match(result.sql, /pull_requests\.pr_number = \$2/);
+    assert.equal(result.params[1], 123);
+  }
+});
+
+test('a PR number that is not an integer drops the filter', async () => {
+  for (const prNumber of ['latest', '#', '12.5', '']) {
+    const result = await build(['pull_requests'], { prNumber });
+    assert.ok(result.isValid, result.errors.join(', '));
+    assert.doesNotMatch(result.sql, /pr_number =/);
+    assert.deepEqual(result.params, [PROJECT_ID, 200]);
+  }
+});
+
+test('tables without a project_id are filtered through their path to a project', async () => {
+  const diffs = await build(['interaction_diffs']);
+  assert.ok(diffs.isValid, diffs.errors.join(', '));
+  assert.match(diffs.sql, /JOIN interactions ON interaction_diffs\.interaction_id = interactions\.id/);
+  assert.match(diffs.sql, /WHERE conversations\.project_id = \$1/);
+
+  const interactions = await build(['interactions'], { searchText: 'token' });
+  assert.ok(interactions.isValid, interactions.errors.join(', '));
+  assert.match(interactions.sql, /conversations\.project_id = \$1/);
+  assert.equal(interactions.params[0], PROJECT_ID);
+});
+
+test('filter values only reach the params', async () => {
+  const result = await build(['commits', 'users'], { author: "x' OR '1'='1" });
+  assert.ok(result.isValid, result.errors.join(', '));
+  assert.doesNotMatch(result.sql, /'/);
+  assert.ok(result.params.includes("%x' OR '1'='1%"));
+});
@@ -52,6 +52,11 @@ DOMAINS AND THEIR CONTEXTUAL RELATIONSHIPS:
   - Conversations they've participated in (interaction/conversation domains)
   - Their collaboration patterns with other users (user domain)
 
+• pull_request queries often benefit from:
+  - Commits the pull request shipped, by head SHA or branch (commit domain)
+  - Conversations that led to those commits, before the PR merged (interaction domain)
+  - The PR author's other activity (user domain)
+
 CONNECTION STRATEGIES:
 - time_based: Connect events that happened around the same time
 - commit_based: Connect conversations to the commits they led to
@@ -90,6 +95,13 @@ Contextual Intents:
 - commit domain (priority 2): commits that touched auth files
 Connection Strategy: file_based + author_based
 
+Query: "what PR shipped the rate limiter and what was discussed before it merged?"
+Primary Intent: pull_request domain - find the PR that shipped the rate limiter
+Contextual Intents:
+- commit domain (priority 1): commits on the PR's branch
+- interaction domain (priority 1): conversations about the rate limiter before the PR merged
+Connection Strategy: commit_based + time_based
+
 ANALYSIS PROCESS:
 1. Identify the primary domain and intent
 2. Think about what related information would be valuable
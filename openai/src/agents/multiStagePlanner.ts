@@ -33,6 +33,7 @@ CONCEPT TO DATABASE ENTITY MAPPING:
 - "author" → users
 - "discussion" → interactions
 - "chat" → interactions, conversations
+- "pull request" / "PR" → pull_requests, commits (pull_requests.head_sha = commits.hash)
 
 VALID DATABASE ENTITIES ONLY:
 - commits, interactions, conversations, projects, users, interaction_diffs, pull_requests
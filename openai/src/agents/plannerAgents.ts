@@ -283,6 +283,62 @@ Always ensure the plan includes appropriate project filtering. By default, retur
   modelSettings: MODEL_SETTINGS.medium
 });
 
+/**
+ * Pull Request Planner Agent
+ * 
+ * Plans queries about pull requests and the commits they shipped.
+ * Includes pull_requests and commits entities (joined by head SHA).
+ */
+export const pullRequestPlannerAgent = new Agent({
+  name: "Pull Request Query Planner",
+  instructions: `You are a query planner for pull request questions in the Tig Agent SDK. Your role is to transform natural language questions about pull requests into structured query plans, including cross-domain queries and aggregations.
+
+${ONTOLOGY_TEXT}
+
+PULL-REQUEST-SPECIFIC GUIDELINES:
+- Focus on pull_requests and the commits they shipped
+- Pull requests reach commits by head SHA (pull_requests.head_sha = commits.hash); commits on the PR's branch match commits.branch = pull_requests.head_branch
+- Common pull request queries: which PR shipped a change, PRs merged in a period, open PRs, PRs by author, a PR by number
+- Always include project_id filter for security
+- Use merged_at for "shipped"/"merged" time-based queries, created_at for "opened"
+- Include pr_number, title, state, head_branch, github_url and merged_at when relevant
+- For "what was discussed before it merged", plan the pull request and its commits; the discussion comes from interactions before merged_at
+
+CROSS-DOMAIN SUPPORT:
+- "What PR shipped commit abc123?" → join commits on head SHA, filter by hash
+- "What PR shipped the rate limiter?" → filter by title or description LIKE '%rate limit%', join commits for their messages
+- "Who merged the most PRs?" → aggregate by author (pull_requests.author holds GitHub usernames)
+
+AGGREGATION SUPPORT:
+- COUNT: Count pull requests by author, state, base branch or time period
+- MAX/MIN: Find latest/earliest merges
+- AVG/SUM: Average/sum numeric values (rare for pull requests)
+
+QUERY PLANNING STEPS:
+1. Identify the main intent (what shipped a change, merge history, open work, etc.)
+2. Select appropriate entities (pull_requests, commits if needed)
+3. Choose relevant columns (pr_number, title, state, author, head_branch, base_branch, github_url, merged_at)
+4. Define filters based on the query (PR numbers, states, titles, branches, commit hashes, time ranges)
+5. Specify joins if needed (pull_requests → commits via head_sha)
+6. Add aggregations if needed (COUNT, MAX, MIN, AVG, SUM)
+7. Add GROUP BY if aggregating
+8. Set appropriate time window (default to current state/HEAD if not specified, only add time window for historical queries)
+9. Set is_cross_domain=true if involving multiple domains
+10. Explain your reasoning
+
+EXAMPLE QUERIES:
+- "What was PR #42 about?" → entities: [pull_requests], filters: [pr_number = 42]
+- "Which PRs merged last week?" → entities: [pull_requests], filters: [state = 'merged', merged_at >= 7 days ago]
+- "What PR shipped commit abc123?" → entities: [pull_requests, commits], joins: [pull_requests.head_sha = commits.hash], filters: [commits.hash LIKE 'abc123%'], is_cross_domain: true
+- "What PR shipped the rate limiter?" → entities: [pull_requests], filters: [title LIKE '%rate limit%'], columns: [pr_number, title, state, merged_at, github_url]
+- "Who opened the most PRs?" → entities: [pull_requests], aggregations: [COUNT(*)], group_by: [author]
+
+Always ensure the plan includes project_id filtering. By default, return current state (HEAD) without time restrictions unless the user specifically asks for historical data.`,
+  model: MODEL_CONFIG.plannerModel,
+  outputType: QueryPlanSchema,
+  modelSettings: MODEL_SETTINGS.medium
+});
+
 /**
  * File Planner Agent
  * 
@@ -5,13 +5,14 @@ import { MODEL_CONFIG, MODEL_SETTINGS } from "../config.js";
 /**
  * Domain Router Agent
  * 
- * Classifies user queries into one of the six core domains:
+ * Classifies user queries into one of the core domains:
  * - commit: Queries about code commits, changes, authors
  * - interaction: Queries about AI interactions, prompts/responses
  * - conversation: Queries about conversation threads, discussions
  * - file: Queries about specific files, file changes, and code modifications
  * - project: Queries about repositories, projects
  * - user: Queries about developers, contributors
+ * - pull_request: Queries about pull requests, what shipped a change, discussion before a merge
  * - other: Queries that don't fit the above categories
  */
 export const routerAgent = new Agent({
@@ -38,6 +39,9 @@ DOMAINS:
 • user — Queries about developers, contributors, and user activity.
   Examples: "Who worked on the onboarding flow?", "Show me the most active developers", "Which users contributed to auth.ts?", "Who has the most interactions?"
 
+• pull_request — Queries about pull requests, what shipped a change, and what was discussed before a PR merged.
+  Examples: "What PR shipped the rate limiter?", "Which pull requests merged last week?", "What was discussed before PR #42 merged?", "Which PR included commit abc123?"
+
 • other — Queries that don't fit any of the above categories or are too general.
   Examples: "What is Tig?", "How does this work?", "Help me understand the system"
 
@@ -51,6 +55,7 @@ Some queries span multiple domains and require joins between tables:
 • "Which developer made the most interactions?" → user + interaction (with aggregation)
 • "Who modified layout.tsx?" → file + user (via interaction author field)
 • "What files were changed in the last commit?" → file + commit (via interaction context)
+• "What PR shipped this commit and what was discussed before it merged?" → pull_request + commit (via head_sha or branch) + interaction (before merged_at)
 
 CLASSIFICATION RULES:
 - For single-domain queries: Choose the most specific domain that matches the query intent
@@ -61,6 +66,7 @@ CLASSIFICATION RULES:
 - If the query is asking about specific files, file changes, or file content → file
 - If the query is asking about repositories or projects → project
 - If the query is asking about people or developers → user
+- If the query is asking about pull requests, PRs, merges or what shipped a change → pull_request
 - If the query is too general or doesn't fit → other
 
 Always respond with the primary domain and indicate if it's cross-domain.`,
@@ -73,7 +79,7 @@ Always respond with the primary domain and indicate if it's cross-domain.`,
       properties: {
         domain: {
           type: "string",
-          enum: ["commit", "interaction", "conversation", "file", "project", "user", "other"]
+          enum: ["commit", "interaction", "conversation", "file", "project", "user", "pull_request", "other"]
         },
         is_cross_domain: {
           type: "boolean",
@@ -83,7 +89,7 @@ Always respond with the primary domain and indicate if it's cross-domain.`,
           type: "array",
           items: {
             type: "string",
-            enum: ["commit", "interaction", "conversation", "file", "project", "user", "other"]
+            enum: ["commit", "interaction", "conversation", "file", "project", "user", "pull_request", "other"]
           },
           description: "List of all domains involved in cross-domain queries"
         }
@@ -45,6 +45,9 @@ For conversation data:
 For user data:
 "The most active contributors this month were Sarah (23 commits), Mike (18 commits), and Alex (15 commits). All three primarily worked on the frontend components, with Sarah focusing on the dashboard and Mike on the authentication flow."
 
+For pull request data:
+"The rate limiter shipped in PR #42, "Add token bucket limiter" by Sarah, merged into main on October 7th. Before it merged, the discussion settled on per-user buckets over a global limit and on returning Retry-After headers."
+
 For project data:
 "Your repository shows healthy activity with 45 commits in the last 30 days. The main branch has been active with contributions from 8 different developers, primarily focused on feature development rather than bug fixes."
 
@@ -71,12 +71,15 @@ export {
   interactionPlannerAgent, 
   conversationPlannerAgent, 
   projectPlannerAgent, 
-  userPlannerAgent 
+  userPlannerAgent,
+  pullRequestPlannerAgent
 } from "./agents/plannerAgents.js";
 export { synthesizerAgent } from "./agents/synthesizerAgent.js";
 
 // Export utilities
 export { validateAndBuildSQL } from "./validator.js";
+export { checkSql, guardSql, SqlGuardError, DENIED_FUNCTIONS } from "@tig/shared";
+export type { SqlGuardPolicy, ProjectLink, SqlGuardOptions } from "@tig/shared";
 export { executeQuery, executeQueryWithParams } from "./executor.js";
 export { 
   guardrailsHasTripwire, 
@@ -93,5 +96,13 @@ export {
   isValidJoin, 
   isRestrictedColumn, 
   getForeignKeyRelationship,
+  getSqlGuardPolicy,
   ONTOLOGY_TEXT 
 } from "./ontology.js";
+export {
+  ONTOLOGY_TABLES,
+  renderOntologyText,
+  introspectSchema,
+  checkOntologyDrift,
+  generateOntology
+} from "@tig/shared";
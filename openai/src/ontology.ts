@@ -1,164 +1,60 @@
 /**
  * Tig Database Ontology
  * 
- * Defines the schema structure for the Tig Agent SDK based on the Postgres tables.
+ * Defines the schema structure for the Tig Agent SDK, derived from the shared
+ * ontology (@tig/shared) that is checked against the Postgres tables.
  * This ontology is used by planner agents to understand available entities, columns,
  * and relationships for generating safe SQL queries.
  */
 
+import {
+  ONTOLOGY_TABLES,
+  SqlGuardPolicy,
+  findJoin,
+  getReadPolicy,
+  getRestrictedColumns as getOntologyRestrictedColumns,
+  renderOntologyText
+} from "@tig/shared";
+
+export interface EntityDefinition {
+  table: string;
+  columns: Record<string, string>; // Column → type
+  primary_key: string;
+  foreign_keys: Record<string, string>; // Column → "table.column"
+}
+
 /**
- * Entity definitions with their columns and types
+ * Entities the planners can query
  */
-export const ENTITY_DEFINITIONS = {
-  commits: {
-    table: "commits",
-    columns: {
-      id: "uuid",
-      hash: "text",
-      message: "text", 
-      committed_at: "timestamp with time zone",
-      created_at: "timestamp with time zone",
-      project_id: "uuid",
-      branch: "text",
-      author: "text"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      project_id: "projects.id"
-    }
-  },
-  
-  interactions: {
-    table: "interactions",
-    columns: {
-      id: "uuid",
-      conversation_id: "uuid",
-      prompt_text: "text",
-      response_text: "text",
-      prompt_ts: "timestamp with time zone",
-      request_id: "text",
-      created_at: "timestamp with time zone",
-      response_bubbles: "jsonb",
-      model: "text",
-      author: "text"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      conversation_id: "conversations.id"
-    }
-  },
-  
-  conversations: {
-    table: "conversations", 
-    columns: {
-      id: "uuid",
-      composer_id: "text",
-      title: "text",
-      created_at: "timestamp with time zone",
-      project_id: "uuid",
-      platform: "text"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      project_id: "projects.id"
-    }
-  },
-  
-  projects: {
-    table: "projects",
-    columns: {
-      id: "uuid",
-      created_at: "timestamp with time zone",
-      github_repo_id: "bigint",
-      repo_owner: "text",
-      repo_name: "text"
-    },
-    primary_key: "id",
-    foreign_keys: {}
-  },
-  
-  users: {
-    table: "users",
-    columns: {
-      id: "uuid",
-      auth_user_id: "uuid",
-      github_id: "bigint",
-      github_username: "text",
-      full_name: "text",
-      email: "text",
-      company: "text",
-      created_at: "timestamp with time zone",
-      updated_at: "timestamp with time zone",
-      onboarding_completed: "boolean",
-      chats_saved: "integer",
-      show_tool_bubbles_beta: "boolean"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      auth_user_id: "auth.users.id"
-    }
-  },
-  
-  interaction_diffs: {
-    table: "interaction_diffs",
-    columns: {
-      id: "uuid",
-      interaction_id: "uuid",
-      file_path: "text",
-      diff_chunks: "jsonb",
-      created_at: "timestamp with time zone"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      interaction_id: "interactions.id"
-    }
-  },
-  
-  pull_requests: {
-    table: "pull_requests",
-    columns: {
-      id: "uuid",
-      project_id: "uuid",
-      pr_number: "integer",
-      title: "text",
-      description: "text",
-      author: "text",
-      head_branch: "text",
-      base_branch: "text",
-      head_sha: "text",
-      state: "text",
-      github_url: "text",
-      created_at: "timestamp with time zone",
-      updated_at: "timestamp with time zone",
-      merged_at: "timestamp with time zone"
-    },
-    primary_key: "id",
-    foreign_keys: {
-      project_id: "projects.id"
-    }
-  }
-};
+export const ENTITY_TABLES = [
+  "commits",
+  "interactions",
+  "conversations",
+  "projects",
+  "users",
+  "interaction_diffs",
+  "pull_requests"
+];
 
 /**
- * Columns that should be redacted for privacy/security
+ * Entity definitions with their columns and types, from the shared ontology (@tig/shared)
  */
-export const RESTRICTED_COLUMNS = [
-  "users.email",
-  "users.auth_user_id"
-];
+export const ENTITY_DEFINITIONS: Record<string, EntityDefinition> = Object.fromEntries(
+  ENTITY_TABLES.map(tableName => {
+    const table = ONTOLOGY_TABLES[tableName];
+    return [tableName, {
+      table: table.name,
+      columns: Object.fromEntries(table.columns.map(column => [column.name, column.type])),
+      primary_key: table.primaryKey[0],
+      foreign_keys: Object.fromEntries(table.foreignKeys.map(fk => [fk.column, `${fk.referencesTable}.${fk.referencesColumn}`]))
+    }];
+  })
+);
 
 /**
- * Allowed joins between entities
+ * Columns that should be redacted for privacy/security
  */
-export const ALLOWED_JOINS = {
-  "commits": ["projects"],
-  "interactions": ["conversations", "projects", "interaction_diffs"],
-  "conversations": ["projects", "interactions"],
-  "projects": ["commits", "conversations", "interactions", "pull_requests"],
-  "users": ["commits", "interactions"],
-  "interaction_diffs": ["interactions"],
-  "pull_requests": ["projects"]
-};
+export const RESTRICTED_COLUMNS = getOntologyRestrictedColumns(ENTITY_TABLES);
 
 /**
  * Get columns for a specific entity
@@ -169,22 +65,11 @@ export function getEntityColumns(entityName: string): string[] {
 }
 
 /**
- * Check if a join between two entities is allowed (bidirectional)
+ * Check if a join between two entities is allowed (bidirectional) - a foreign
+ * key or text-based join in the shared ontology
  */
 export function isValidJoin(leftTable: string, rightTable: string): boolean {
-  // Check left → right
-  const allowedJoins = ALLOWED_JOINS[leftTable as keyof typeof ALLOWED_JOINS];
-  if (allowedJoins && (allowedJoins as string[]).includes(rightTable)) {
-    return true;
-  }
-  
-  // Check right → left (bidirectional)
-  const reverseAllowedJoins = ALLOWED_JOINS[rightTable as keyof typeof ALLOWED_JOINS];
-  if (reverseAllowedJoins && (reverseAllowedJoins as string[]).includes(leftTable)) {
-    return true;
-  }
-  
-  return false;
+  return ENTITY_TABLES.includes(leftTable) && ENTITY_TABLES.includes(rightTable) && findJoin(leftTable, rightTable) !== null;
 }
 
 /**
@@ -203,11 +88,12 @@ export function isRestrictedColumn(tableName: string, columnName: string): boole
 }
 
 /**
- * Text-based join relationships (author field matching)
+ * SQL guard policy - every entity and its readable columns; entities with a
+ * project column (projects itself included) must be filtered by the project
  */
-export const TEXT_BASED_JOINS = {
-  "users.github_username": ["commits.author", "interactions.author"]
-};
+export function getSqlGuardPolicy(): SqlGuardPolicy {
+  return getReadPolicy(ENTITY_TABLES);
+}
 
 /**
  * Allowed aggregation functions
@@ -246,55 +132,22 @@ export function getForeignKeyRelationship(leftTable: string, rightTable: string)
  * Get text-based join condition between tables
  */
 export function getTextJoinCondition(leftTable: string, rightTable: string): { leftColumn: string; rightColumn: string; isTextBased: boolean } | null {
-  // Check if this is a text-based join (users to commits/interactions via author)
-  if (leftTable === "users" && (rightTable === "commits" || rightTable === "interactions")) {
-    return {
-      leftColumn: "github_username",
-      rightColumn: "author",
-      isTextBased: true
-    };
-  }
-  
-  // Check reverse direction
-  if ((leftTable === "commits" || leftTable === "interactions") && rightTable === "users") {
-    return {
-      leftColumn: "author",
-      rightColumn: "github_username",
-      isTextBased: true
-    };
-  }
-  
-  return null;
+  const join = findJoin(leftTable, rightTable);
+  if (!join || join.kind !== "text") return null;
+
+  return {
+    leftColumn: join.leftColumn,
+    rightColumn: join.rightColumn,
+    isTextBased: true
+  };
 }
 
 /**
- * Formatted ontology text for inclusion in agent instructions
+ * Formatted ontology text for inclusion in agent instructions - the shared
+ * ontology's schema text plus this package's query rules
  */
 export const ONTOLOGY_TEXT = `
-Tig Database Schema:
-
-ENTITIES:
-- commits: id, hash, message, committed_at, created_at, project_id, branch, author
-- interactions: id, conversation_id, prompt_text, response_text, prompt_ts, request_id, created_at, response_bubbles, model, author  
-- conversations: id, composer_id, title, created_at, project_id, platform
-- projects: id, created_at, github_repo_id, repo_owner, repo_name
-- users: id, auth_user_id, github_id, github_username, full_name, email, company, created_at, updated_at, onboarding_completed, chats_saved, show_tool_bubbles_beta
-- interaction_diffs: id, interaction_id, file_path, diff_chunks, created_at
-- pull_requests: id, project_id, pr_number, title, description, author, head_branch, base_branch, head_sha, state, github_url, created_at, updated_at, merged_at
-
-RELATIONSHIPS:
-- commits.project_id → projects.id
-- interactions.conversation_id → conversations.id  
-- conversations.project_id → projects.id
-- users.auth_user_id → auth.users.id
-- interaction_diffs.interaction_id → interactions.id
-- pull_requests.project_id → projects.id
-
-CROSS-DOMAIN RELATIONSHIPS:
-- users.github_username = commits.author (text-based join)
-- users.github_username = interactions.author (text-based join)
-- projects.id ← commits.project_id (reverse join)
-- projects.id ← conversations.project_id (reverse join)
+${renderOntologyText({ tables: ENTITY_TABLES, heading: "Tig Database Schema:" })}
 
 AGGREGATION SUPPORT:
 - COUNT: Count rows or non-null values
@@ -308,10 +161,6 @@ CROSS-DOMAIN QUERY EXAMPLES:
 - "Show me commits by John" → commits + users (via author field)
 - "What AI conversations did Sarah have?" → users + interactions (via author field)
 
-RESTRICTED COLUMNS (must be redacted):
-- users.email
-- users.auth_user_id
-
 SAFETY RULES:
 - All queries must include project_id filter
 - Default to current state (HEAD) without time restrictions unless historical data is requested
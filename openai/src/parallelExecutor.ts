@@ -139,7 +139,7 @@ async function executeSingleQuery(
     console.log(`Plan entities: ${plan.entities.join(', ')}`);
     console.log(`Plan filters: ${plan.filters.map(f => `${f.column} ${f.operator} ${f.value}`).join(', ')}`);
     
-    const validationResult = validateAndBuildSQL(plan, projectId);
+    const validationResult = await validateAndBuildSQL(plan, projectId);
     
     if (validationResult.safeSQL) {
       console.log(`Generated SQL: ${validationResult.safeSQL.substring(0, 200)}...`);
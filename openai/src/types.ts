@@ -10,6 +10,7 @@ export const DomainSchema = z.enum([
   "file",
   "project",
   "user",
+  "pull_request",
   "other"
 ]);
 
@@ -1,3 +1,4 @@
+import { checkSql } from "@tig/shared";
 import { QueryPlan, ValidationResult } from "./types.js";
 import { 
   ENTITY_DEFINITIONS, 
@@ -7,18 +8,10 @@ import {
   getForeignKeyRelationship,
   getTextJoinCondition,
   ALLOWED_AGGREGATIONS,
-  AGGREGATION_RULES
+  AGGREGATION_RULES,
+  getSqlGuardPolicy
 } from "./ontology.js";
 
-/**
- * Dangerous SQL keywords that should be blocked
- */
-const DANGEROUS_KEYWORDS = [
-  "DROP", "INSERT", "UPDATE", "DELETE", "TRUNCATE", 
-  "ALTER", "CREATE", "EXEC", "EXECUTE", "CALL",
-  "GRANT", "REVOKE", "COMMIT", "ROLLBACK"
-];
-
 /**
  * Maximum number of rows allowed per query
  */
@@ -32,8 +25,12 @@ const DEFAULT_TIME_WINDOW_DAYS = 30;
 
 /**
  * Validate a query plan and generate safe SQL
+ *
+ * The generated SQL must pass the SQL guard (checkSql in @tig/shared) - one read-only
+ * SELECT over ontology tables and columns, every project-scoped table filtered
+ * by projectId.
  */
-export function validateAndBuildSQL(plan: QueryPlan, projectId: string): ValidationResult {
+export async function validateAndBuildSQL(plan: QueryPlan, projectId: string): Promise<ValidationResult> {
   const issues: string[] = [];
   
   try {
@@ -99,20 +96,6 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
       }
     }
     
-    // Check for dangerous keywords in filters (basic check)
-    // Use word boundaries to avoid false positives like "commits" matching "COMMIT"
-    const filterText = JSON.stringify(plan.filters);
-    for (const keyword of DANGEROUS_KEYWORDS) {
-      // Skip "COMMIT" if it's part of a table name like "commits"
-      if (keyword === 'COMMIT' && (filterText.includes('commits') || filterText.includes('commit'))) {
-        continue;
-      }
-      const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-      if (regex.test(filterText)) {
-        issues.push(`Dangerous keyword detected: ${keyword}`);
-      }
-    }
-    
     if (issues.length > 0) {
       return { isValid: false, issues };
     }
@@ -120,6 +103,12 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
     // Generate safe SQL
     const safeSQL = buildSafeSQL(plan, projectId);
     
+    // Parse it and check it against the ontology
+    const violations = await checkSql(safeSQL, getSqlGuardPolicy(), { projectId });
+    if (violations.length > 0) {
+      return { isValid: false, issues: violations };
+    }
+    
     return { isValid: true, issues: [], safeSQL };
     
   } catch (error) {
@@ -130,6 +119,16 @@ export function validateAndBuildSQL(plan: QueryPlan, projectId: string): Validat
   }
 }
 
+/**
+ * Project filter for a table joined on text columns (empty if the table isn't
+ * project-scoped) - matching head SHAs, branches or authors doesn't keep the
+ * joined rows in the project, e.g. pull_requests.head_branch = commits.branch
+ */
+function joinProjectFilter(table: string, projectId: string): string {
+  const scopeColumn = getSqlGuardPolicy().projectScope[table];
+  return scopeColumn ? ` AND ${table}.${scopeColumn} = '${projectId}'` : '';
+}
+
 /**
  * Build safe parameterized SQL from query plan
  */
@@ -188,7 +187,10 @@ function buildSafeSQL(plan: QueryPlan, projectId: string): string {
             ? `CASE WHEN '${table}.${column}' = '${table}.${column}' THEN 'REDACTED' ELSE 'REDACTED' END AS ${column}`
             : `${table}.${column}`;
         }).join(', ')
-      : `${mainEntity}.*`;
+      : getEntityColumns(mainEntity)
+          .filter(column => !isRestrictedColumn(mainEntity, column))
+          .map(column => `${mainEntity}.${column}`)
+          .join(', ');
   }
   
   // Build FROM clause
@@ -213,7 +215,7 @@ function buildSafeSQL(plan: QueryPlan, projectId: string): string {
     } else if (textJoin) {
       if (!tablesInFrom.has(join.right_table)) {
         joins.push(
-          `${join.type} JOIN ${join.right_table} ON ${join.left_table}.${textJoin.leftColumn} = ${join.right_table}.${textJoin.rightColumn}`
+          `${join.type} JOIN ${join.right_table} ON ${join.left_table}.${textJoin.leftColumn} = ${join.right_table}.${textJoin.rightColumn}${joinProjectFilter(join.right_table, projectId)}`
         );
         tablesInFrom.add(join.right_table);
       }
@@ -225,14 +227,14 @@ function buildSafeSQL(plan: QueryPlan, projectId: string): string {
       if (reverseFk) {
         if (!tablesInFrom.has(join.right_table)) {
           joins.push(
-            `${join.type} JOIN ${join.right_table} ON ${join.right_table}.${reverseFk.rightColumn} = ${join.left_table}.${reverseFk.leftColumn}`
+            `${join.type} JOIN ${join.right_table} ON ${join.right_table}.${reverseFk.leftColumn} = ${join.left_table}.${reverseFk.rightColumn}`
           );
           tablesInFrom.add(join.right_table);
         }
       } else if (reverseTextJoin) {
         if (!tablesInFrom.has(join.right_table)) {
           joins.push(
-            `${join.type} JOIN ${join.right_table} ON ${join.right_table}.${reverseTextJoin.rightColumn} = ${join.left_table}.${reverseTextJoin.leftColumn}`
+            `${join.type} JOIN ${join.right_table} ON ${join.right_table}.${reverseTextJoin.leftColumn} = ${join.left_table}.${reverseTextJoin.rightColumn}${joinProjectFilter(join.right_table, projectId)}`
           );
           tablesInFrom.add(join.right_table);
         }
@@ -246,9 +248,9 @@ function buildSafeSQL(plan: QueryPlan, projectId: string): string {
   // Always include project_id filter
   if (mainEntity === 'projects') {
     whereConditions.push(`${mainEntity}.id = '${projectId}'`);
-  } else if (mainEntity === 'users' || mainEntity === 'interaction_diffs') {
-    // Users and interaction_diffs tables don't have project_id, so we don't add automatic project join
-    // Project filtering will be handled through joined entities
+  } else if (mainEntity === 'users' || mainEntity === 'interaction_diffs' || mainEntity === 'interactions') {
+    // Users, interaction_diffs and interactions don't have project_id, so we don't add automatic project join
+    // Interactions and their diffs reach a project through their project links below
   } else {
     // For other entities, join to projects to filter by project_id
     if (!plan.joins.some(j => j.right_table === 'projects') && !tablesInFrom.has('projects')) {
@@ -258,43 +260,24 @@ function buildSafeSQL(plan: QueryPlan, projectId: string): string {
     whereConditions.push(`projects.id = '${projectId}'`);
   }
   
-  // Special handling for users, interaction_diffs, and interactions tables - they don't have project_id directly
-  if (mainEntity === 'users' || mainEntity === 'interaction_diffs' || mainEntity === 'interactions') {
-    // For these tables, we need to filter through the joined entities
-    // Check if we have joins that can provide project context
-    const hasProjectContext = plan.joins.some(j => 
-      j.right_table === 'commits' || j.right_table === 'interactions' || j.right_table === 'conversations'
-    );
-    
-    if (hasProjectContext) {
-      // Filter through the joined entity's project_id
-      const projectEntity = plan.joins.find(j => 
-        j.right_table === 'commits' || j.right_table === 'interactions' || j.right_table === 'conversations'
-      )?.right_table;
-      
-      if (projectEntity === 'commits' || projectEntity === 'conversations') {
-        // These entities have direct project_id
-        whereConditions.push(`${projectEntity}.project_id = '${projectId}'`);
-      } else if (projectEntity === 'interactions') {
-        // Interactions don't have direct project_id, need to go through conversations
-        if (plan.joins.some(j => j.right_table === 'conversations')) {
-          whereConditions.push(`conversations.project_id = '${projectId}'`);
-        } else {
-          // Add the missing join to conversations
-          joins.push(`INNER JOIN conversations ON interactions.conversation_id = conversations.id`);
-          tablesInFrom.add('conversations');
-          whereConditions.push(`conversations.project_id = '${projectId}'`);
-        }
-      }
-    } else {
-      // If no project context available, add conversations join for interactions
-      if (mainEntity === 'interactions') {
-        joins.push(`INNER JOIN conversations ON interactions.conversation_id = conversations.id`);
-        tablesInFrom.add('conversations');
-        whereConditions.push(`conversations.project_id = '${projectId}'`);
+  // Tables without a project column are joined through their project links to
+  // one that has it (interaction_diffs → interactions → conversations), and
+  // that table is filtered by the project
+  const { projectScope, projectLinks = {} } = getSqlGuardPolicy();
+  for (const table of [...tablesInFrom]) {
+    let current = table;
+    while (!projectScope[current] && projectLinks[current]?.length) {
+      const link = projectLinks[current].find(candidate => tablesInFrom.has(candidate.table)) ?? projectLinks[current][0];
+      if (!tablesInFrom.has(link.table)) {
+        joins.push(`INNER JOIN ${link.table} ON ${current}.${link.column} = ${link.table}.${link.references}`);
+        tablesInFrom.add(link.table);
       }
-      // For other entities without project context, we can't filter by project
-      // This should be handled by the planner to ensure proper joins
+      current = link.table;
+    }
+
+    const condition = `${current}.${projectScope[current]} = '${projectId}'`;
+    if (current !== table && projectScope[current] && !whereConditions.includes(condition)) {
+      whereConditions.push(condition);
     }
   }
   
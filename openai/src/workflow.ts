@@ -7,7 +7,8 @@ import {
   conversationPlannerAgent, 
   projectPlannerAgent, 
   userPlannerAgent,
-  filePlannerAgent
+  filePlannerAgent,
+  pullRequestPlannerAgent
 } from "./agents/plannerAgents.js";
 import { synthesizerAgent } from "./agents/synthesizerAgent.js";
 import { contextAnalyzer } from "./agents/contextAnalyzer.js";
@@ -87,8 +88,11 @@ export async function runWorkflow(
       case "user":
         plannerAgent = userPlannerAgent;
         break;
+      case "pull_request":
+        plannerAgent = pullRequestPlannerAgent;
+        break;
       case "other":
-        return "I'm not sure how to help with that type of query. Could you try asking about commits, interactions, conversations, files, projects, or users?";
+        return "I'm not sure how to help with that type of query. Could you try asking about commits, interactions, conversations, files, projects, users, or pull requests?";
       default:
         throw new Error(`Unknown domain: ${domain}`);
     }
@@ -105,7 +109,7 @@ export async function runWorkflow(
 
     // Step 3: SQL Validation
     console.log("Validating and building SQL...");
-    const validationResult = validateAndBuildSQL(queryPlan, workflow.project_id);
+    const validationResult = await validateAndBuildSQL(queryPlan, workflow.project_id);
     
     if (!validationResult.isValid) {
       console.error("Query validation failed:", validationResult.issues);
@@ -0,0 +1,65 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || "silent";
+const { validateAndBuildSQL } = await import("../dist/validator.js");
+
+const PROJECT_ID = "11111111-1111-4111-8111-111111111111";
+
+function plan(entities, columns, overrides = {}) {
+  return {
+    intent_summary: "test",
+    entities,
+    columns,
+    filters: [],
+    joins: [],
+    aggregations: null,
+    group_by: null,
+    time_window: { start_date: null, end_date: null, days_back: 30 },
+    project_scope: PROJECT_ID,
+    is_cross_domain: false,
+    domains: null,
+    ...overrides
+  };
+}
+
+function join(left_table, right_table) {
+  return { left_table, right_table, left_column: "", right_column: "", type: "INNER" };
+}
+
+test("interactions are joined to a project-filtered conversation", async () => {
+  const result = await validateAndBuildSQL(plan(["interactions"], ["interactions.prompt_text"]), PROJECT_ID);
+  assert.ok(result.isValid, result.issues.join(", "));
+  assert.match(result.safeSQL, /INNER JOIN conversations ON interactions\.conversation_id = conversations\.id/);
+  assert.match(result.safeSQL, new RegExp(`conversations\\.project_id = '${PROJECT_ID}'`));
+});
+
+test("interaction diffs reach the project through interactions and conversations", async () => {
+  const result = await validateAndBuildSQL(plan(["interaction_diffs"], ["interaction_diffs.file_path"]), PROJECT_ID);
+  assert.ok(result.isValid, result.issues.join(", "));
+  assert.match(result.safeSQL, /INNER JOIN interactions ON interaction_diffs\.interaction_id = interactions\.id/);
+  assert.match(result.safeSQL, /INNER JOIN conversations ON interactions\.conversation_id = conversations\.id/);
+  assert.match(result.safeSQL, new RegExp(`conversations\\.project_id = '${PROJECT_ID}'`));
+});
+
+test("a join against the foreign key's direction puts the columns on the right tables", async () => {
+  const result = await validateAndBuildSQL(
+    plan(["conversations", "interactions"], ["conversations.title", "interactions.prompt_text"], {
+      joins: [join("conversations", "interactions")]
+    }),
+    PROJECT_ID
+  );
+  assert.ok(result.isValid, result.issues.join(", "));
+  assert.match(result.safeSQL, /INNER JOIN interactions ON interactions\.conversation_id = conversations\.id/);
+});
+
+test("a filter value that escapes its quotes is rejected by the SQL guard", async () => {
+  const result = await validateAndBuildSQL(
+    plan(["commits"], ["commits.hash"], {
+      filters: [{ column: "commits.author", operator: "=", value: "x' OR '1'='1", description: null }]
+    }),
+    PROJECT_ID
+  );
+  assert.equal(result.isValid, false);
+  assert.ok(result.issues.some(issue => /not filtered by the project ID/.test(issue)));
+});
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * Ontology drift check - compare the live schema with src/ontology.ts,
+ * the one ontology every package imports
+ *
+ * Usage:
+ *   node run-ontology-check.js [--ignore <table,...>] [--generate]
+ */
+
+require('dotenv').config({ path: require('path').join(__dirname, '..', '.env') });
+const { Pool } = require('pg');
+
+const { introspectSchema, checkOntologyDrift, generateOntology } = require('./dist/index');
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--help' || args[0] === '-h') {
+    console.log(`
+Ontology drift check - exits 1 when the database and the ontology disagree
+
+Usage:
+  node run-ontology-check.js [--ignore <table,...>] [--generate]
+
+Options:
+  --ignore <tables>  Comma-separated database tables the ontology leaves out on purpose
+  --generate         Print ontology definitions for the live schema (JSON),
+                     keeping the current descriptions, to update src/ontology.ts from
+
+Environment Variables:
+  DATABASE_URL  Required - PostgreSQL connection string (as the tables' owner)
+`);
+    process.exit(0);
+  }
+
+  const options = { ignoreTables: [] };
+  let generate = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--ignore') {
+      options.ignoreTables.push(...(args[++i] || '').split(',').filter(Boolean));
+    } else if (args[i] === '--generate') {
+      generate = true;
+    }
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error('Error: DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  try {
+    const live = await introspectSchema(pool);
+
+    if (generate) {
+      console.log(JSON.stringify(generateOntology(live, undefined, options), null, 2));
+      return;
+    }
+
+    const drift = checkOntologyDrift(live, undefined, options);
+    if (drift.length === 0) {
+      console.log(`✓ Ontology matches the database (${Object.keys(live).length} tables)`);
+      return;
+    }
+
+    console.error(`✗ ${drift.length} differences between the database and the ontology:`);
+    for (const item of drift) {
+      console.error(`  [${item.problem}] ${item.message}`);
+    }
+    process.exitCode = 1;
+  } catch (error) {
+    console.error('\n✗ Ontology check failed');
+    console.error('Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
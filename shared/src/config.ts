@@ -0,0 +1,40 @@
+/**
+ * Settings every package shares, read from the environment when first imported
+ *
+ * Load .env before importing @tig/shared (the run scripts call dotenv first).
+ */
+
+/**
+ * Concurrency limits per external service (scheduler.ts)
+ * Postgres' limit is the connection pool size - queries beyond it queue in the pool.
+ * search caps the lead searches one iteration runs at once.
+ */
+export const SCHEDULER_CONFIG = {
+  limits: {
+    anthropic: parseInt(process.env.ANTHROPIC_CONCURRENCY || '8', 10),
+    openai: parseInt(process.env.OPENAI_CONCURRENCY || '8', 10),
+    voyage: parseInt(process.env.VOYAGE_CONCURRENCY || '4', 10),
+    postgres: parseInt(process.env.POSTGRES_POOL_SIZE || '10', 10),
+    search: 4
+  } as Record<string, number>,
+  maxRetries: 5, // Rate-limit (429) retries per call
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+/**
+ * Embedding service (embeddings.ts)
+ * EMBEDDING_PROVIDER=local swaps Voyage for an offline hashing stand-in, whose
+ * vectors don't match the stored Voyage embeddings. EMBEDDING_CACHE_DIR adds an
+ * on-disk cache shared across runs.
+ */
+export const EMBEDDING_CONFIG = {
+  provider: process.env.EMBEDDING_PROVIDER || 'voyage',
+  model: 'voyage-3-large',
+  dimensions: 1024, // Matches interaction_embeddings.embedding
+  cacheSize: parseInt(process.env.EMBEDDING_CACHE_SIZE || '1000', 10),
+  cacheDir: process.env.EMBEDDING_CACHE_DIR,
+  batchSize: 128, // Voyage's per-request input limit
+  batchTokens: 100000, // Estimated tokens per request - under voyage-3-large's 120K limit
+  batchDelayMs: 5
+};
@@ -0,0 +1,387 @@
+import { VoyageAIClient } from 'voyageai';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getLogger } from './logger';
+import { getScheduler } from './scheduler';
+import { EMBEDDING_CONFIG } from './config';
+
+/**
+ * Embedding service - cached, coalesced and batched embeddings
+ *
+ * Every embedding goes through one process-wide service:
+ * - an LRU cache (plus an optional on-disk cache, EMBEDDING_CACHE_DIR) keyed by
+ *   (model, inputType, text), so repeated lead queries cost nothing
+ * - concurrent requests for the same text share one in-flight request
+ * - cache misses queued within batchDelayMs go to the provider as one batch,
+ *   in the provider's scheduler lane (concurrency limit, 429 backoff)
+ * The provider is Voyage AI, or a local hashing stand-in for offline runs
+ * (EMBEDDING_PROVIDER=local, or setEmbeddingProviderOverride()).
+ */
+
+const log = getLogger('voyage');
+
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string; // Part of the cache key - vectors from different models never mix
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+export interface EmbeddingServiceOptions {
+  cacheSize?: number; // Entries kept in memory (0 disables the LRU)
+  cacheDir?: string; // On-disk cache shared across runs
+  batchSize?: number; // Max texts per provider call
+  batchTokens?: number; // Max estimated tokens per provider call
+  batchDelayMs?: number; // How long a miss waits for others to batch with
+}
+
+export interface EmbeddingStats {
+  requests: number;
+  cache_hits: number;
+  disk_hits: number;
+  coalesced: number;
+  provider_calls: number;
+  texts_embedded: number;
+}
+
+/**
+ * Voyage AI embeddings
+ *
+ * voyage-3-large: 1024 dimensions (matches interaction_embeddings table).
+ * Queries and documents are embedded differently - use inputType 'query' for searches.
+ */
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'voyage';
+  private client: VoyageAIClient | null = null;
+
+  constructor(readonly model: string = EMBEDDING_CONFIG.model) {}
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const result = await this.getClient().embed({
+      input: texts,
+      model: this.model,
+      inputType
+    });
+
+    if (!result.data || result.data.length !== texts.length) {
+      throw new Error('Invalid response from Voyage AI');
+    }
+
+    return result.data.map(item => {
+      if (!item.embedding) {
+        throw new Error('Missing embedding in Voyage AI response');
+      }
+      return item.embedding;
+    });
+  }
+
+  private getClient(): VoyageAIClient {
+    if (!this.client) {
+      const apiKey = process.env.VOYAGE_API_KEY;
+      if (!apiKey) {
+        throw new Error('VOYAGE_API_KEY environment variable not set');
+      }
+      this.client = new VoyageAIClient({ apiKey });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Deterministic stand-in for offline runs and tests
+ *
+ * Hashes words and word pairs into a fixed number of dimensions and normalizes,
+ * so texts that share vocabulary land close together. Its vectors are not
+ * comparable with Voyage's - only search data embedded by this provider too.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+
+  constructor(
+    private dimensions: number = EMBEDDING_CONFIG.dimensions,
+    readonly model: string = `local-hash-${dimensions}`
+  ) {}
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const digest = createHash('sha256').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      vector[index] += digest[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+interface PendingEmbedding {
+  key: string;
+  text: string;
+  tokens: number; // Estimated
+  resolve: (embedding: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Cache + coalescing + batching in front of an EmbeddingProvider
+ */
+export class EmbeddingService {
+  readonly stats: EmbeddingStats = {
+    requests: 0,
+    cache_hits: 0,
+    disk_hits: 0,
+    coalesced: 0,
+    provider_calls: 0,
+    texts_embedded: 0
+  };
+
+  private cache = new Map<string, number[]>(); // Insertion order = recency
+  private inFlight = new Map<string, Promise<number[]>>();
+  private queues: Record<EmbeddingInputType, PendingEmbedding[]> = { query: [], document: [] };
+  private queuedTokens: Record<EmbeddingInputType, number> = { query: 0, document: 0 };
+  private timers: Partial<Record<EmbeddingInputType, NodeJS.Timeout>> = {};
+  private cacheSize: number;
+  private cacheDir?: string;
+  private batchSize: number;
+  private batchTokens: number;
+  private batchDelayMs: number;
+
+  constructor(readonly provider: EmbeddingProvider, options: EmbeddingServiceOptions = {}) {
+    this.cacheSize = options.cacheSize ?? EMBEDDING_CONFIG.cacheSize;
+    this.cacheDir = options.cacheDir;
+    this.batchSize = options.batchSize ?? EMBEDDING_CONFIG.batchSize;
+    this.batchTokens = options.batchTokens ?? EMBEDDING_CONFIG.batchTokens;
+    this.batchDelayMs = options.batchDelayMs ?? EMBEDDING_CONFIG.batchDelayMs;
+  }
+
+  /**
+   * Embed one text
+   */
+  async embed(text: string, inputType: EmbeddingInputType): Promise<number[]> {
+    this.stats.requests++;
+    const key = this.cacheKey(text, inputType);
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.stats.cache_hits++;
+      this.remember(key, cached); // Refresh recency
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    const request = this.load(key, text, inputType).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Embed many texts - cached ones are skipped, the rest go out in batches of
+   * at most batchSize texts and batchTokens estimated tokens
+   */
+  async embedBatch(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text, inputType)));
+  }
+
+  private async load(key: string, text: string, inputType: EmbeddingInputType): Promise<number[]> {
+    const stored = await this.readDisk(key);
+    if (stored) {
+      this.stats.disk_hits++;
+      this.remember(key, stored);
+      return stored;
+    }
+
+    const embedding = await new Promise<number[]>((resolve, reject) => {
+      this.enqueue(inputType, { key, text, tokens: estimateTokens(text), resolve, reject });
+    });
+
+    this.remember(key, embedding);
+    await this.writeDisk(key, embedding);
+    return embedding;
+  }
+
+  private enqueue(inputType: EmbeddingInputType, item: PendingEmbedding): void {
+    const queue = this.queues[inputType];
+    queue.push(item);
+    this.queuedTokens[inputType] += item.tokens;
+
+    if (queue.length >= this.batchSize || this.queuedTokens[inputType] >= this.batchTokens) {
+      this.flush(inputType);
+    } else if (!this.timers[inputType]) {
+      this.timers[inputType] = setTimeout(() => this.flush(inputType), this.batchDelayMs);
+    }
+  }
+
+  private flush(inputType: EmbeddingInputType): void {
+    clearTimeout(this.timers[inputType]);
+    delete this.timers[inputType];
+
+    // Up to batchSize texts, stopping before the token budget is exceeded (a text over it goes alone)
+    const queue = this.queues[inputType];
+    let count = 0;
+    let tokens = 0;
+    while (count < queue.length && count < this.batchSize) {
+      if (count > 0 && tokens + queue[count].tokens > this.batchTokens) {
+        break;
+      }
+      tokens += queue[count].tokens;
+      count++;
+    }
+
+    const batch = queue.splice(0, count);
+    this.queuedTokens[inputType] -= tokens;
+    if (queue.length > 0) {
+      this.timers[inputType] = setTimeout(() => this.flush(inputType), 0);
+    }
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.stats.provider_calls++;
+    this.stats.texts_embedded += batch.length;
+    log.debug(`Embedding ${batch.length} ${inputType} text(s) with ${this.provider.name}`, { model: this.provider.model });
+
+    getScheduler().run(this.provider.name, () => this.provider.embed(batch.map(item => item.text), inputType))
+      .then(embeddings => {
+        if (embeddings.length !== batch.length) {
+          throw new Error(`${this.provider.name} returned ${embeddings.length} embeddings for ${batch.length} texts`);
+        }
+        batch.forEach((item, i) => item.resolve(embeddings[i]));
+      })
+      .catch(error => batch.forEach(item => item.reject(error)));
+  }
+
+  private cacheKey(text: string, inputType: EmbeddingInputType): string {
+    return createHash('sha256')
+      .update(`${this.provider.model}\0${inputType}\0${text}`)
+      .digest('hex');
+  }
+
+  private remember(key: string, embedding: number[]): void {
+    if (this.cacheSize <= 0) {
+      return;
+    }
+    this.cache.delete(key);
+    this.cache.set(key, embedding);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  private async readDisk(key: string): Promise<number[] | null> {
+    if (!this.cacheDir) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.cacheDir, `${key}.json`), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Unreadable embedding cache entry - re-embedding', { error, key });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Best effort - a failed write only costs a re-embed next run
+   */
+  private async writeDisk(key: string, embedding: number[]): Promise<void> {
+    if (!this.cacheDir) {
+      return;
+    }
+    const filePath = path.join(this.cacheDir, `${key}.json`);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(embedding));
+      await fs.rename(tmpPath, filePath);
+    } catch (error) {
+      log.warn('Could not write embedding cache entry', { error, key });
+    }
+  }
+}
+
+/**
+ * Rough token count for batching - about 4 characters per token for English and code
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+let embeddingService: EmbeddingService | null = null;
+let providerOverride: EmbeddingProvider | null = null;
+
+/**
+ * Process-wide provider override - when set, every embedding comes from it
+ * (e.g. a LocalEmbeddingProvider to run searches offline). Resets the cache.
+ */
+export function setEmbeddingProviderOverride(provider: EmbeddingProvider | null): void {
+  providerOverride = provider;
+  embeddingService = null;
+}
+
+/**
+ * Get the shared embedding service (provider from EMBEDDING_PROVIDER unless overridden)
+ */
+export function getEmbeddingService(): EmbeddingService {
+  if (!embeddingService) {
+    embeddingService = new EmbeddingService(providerOverride || createEmbeddingProvider(), {
+      cacheDir: EMBEDDING_CONFIG.cacheDir
+    });
+  }
+  return embeddingService;
+}
+
+function createEmbeddingProvider(): EmbeddingProvider {
+  switch (EMBEDDING_CONFIG.provider) {
+    case 'voyage':
+      return new VoyageEmbeddingProvider();
+    case 'local':
+      return new LocalEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider "${EMBEDDING_CONFIG.provider}" (expected voyage or local)`);
+  }
+}
+
+/**
+ * Generate embedding for a search query
+ * Input type 'query' - optimized for search queries vs documents
+ */
+export async function generateQueryEmbedding(text: string): Promise<number[]> {
+  try {
+    return await getEmbeddingService().embed(text, 'query');
+  } catch (error) {
+    log.error('Error generating embedding', { error });
+    throw new Error(`Failed to generate query embedding: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Generate embeddings for multiple texts (batch operation)
+ * Useful for embedding documents or large datasets
+ */
+export async function generateBatchEmbeddings(
+  texts: string[],
+  inputType: EmbeddingInputType = 'document'
+): Promise<number[][]> {
+  try {
+    return await getEmbeddingService().embedBatch(texts, inputType);
+  } catch (error) {
+    log.error('Error generating batch embeddings', { error, count: texts.length });
+    throw new Error(`Failed to generate batch embeddings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @tig/shared - modules every Tig agent package imports rather than copies
+ */
+
+// Database ontology (prompt text, read policies, information_schema drift check)
+export {
+  ONTOLOGY_TABLES, TEXT_JOINS, EXAMPLE_QUERIES, getReadableColumns, getRestrictedColumns, isRestrictedColumn,
+  getReadPolicy, getJoinGraph, findJoin, renderOntologyText, introspectSchema, checkOntologyDrift, generateOntology
+} from './ontology';
+export type {
+  OntologyTable, OntologyColumn, OntologyForeignKey, TextJoin, ExampleQuery, JoinEdge, OntologyRenderOptions,
+  OntologyDb, IntrospectedTable, OntologyDrift, DriftCheckOptions
+} from './ontology';
+
+// SQL guard (parsed read-only queries, table/column whitelist, project scoping)
+export { checkSql, guardSql, SqlGuardError, DENIED_FUNCTIONS } from './sqlGuard';
+export type { SqlGuardPolicy, ProjectLink, SqlGuardOptions } from './sqlGuard';
+
+// LLM providers (Anthropic, OpenAI, scripted fake) and schema-validated structured output
+export {
+  AnthropicProvider, OpenAIProvider, ScriptedProvider, createLLMProvider, setLLMProviderOverride, getLLMProviderOverride,
+  extractJSON, completeStructured, StructuredOutputError
+} from './llm';
+export type {
+  LLMProvider, LLMProviderName, LLMMessage, LLMRequest, LLMUsage, LLMResponse, LLMJSONResponse, ScriptedReply,
+  StructuredOutputFailure, StructuredOutputOptions
+} from './llm';
+
+// Structured logging (levels, correlation fields, spans, OTLP export)
+export { Logger, getLogger, configureLogger, flushTelemetry } from './logger';
+export type { LogLevel, LogFields, LogRecord, LoggerOptions } from './logger';
+
+// Concurrency limits per service, with rate-limit (429) backoff
+export { SCHEDULER_CONFIG } from './config';
+export { ConcurrencyScheduler, getScheduler, isRateLimitError } from './scheduler';
+export type { SchedulerOptions, LaneStats } from './scheduler';
+
+// Embeddings (Voyage or local stand-in, cached, coalesced and batched)
+export { EMBEDDING_CONFIG } from './config';
+export {
+  EmbeddingService, VoyageEmbeddingProvider, LocalEmbeddingProvider, getEmbeddingService, setEmbeddingProviderOverride,
+  generateQueryEmbedding, generateBatchEmbeddings
+} from './embeddings';
+export type { EmbeddingProvider, EmbeddingInputType, EmbeddingServiceOptions, EmbeddingStats } from './embeddings';
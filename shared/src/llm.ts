@@ -0,0 +1,444 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+
+/**
+ * LLM Provider - vendor-neutral completion interface
+ *
+ * Agents ask for text, JSON or a token stream without knowing which vendor
+ * answers. Implementations: Anthropic (Messages API), OpenAI (Chat Completions
+ * over fetch) and a deterministic scripted fake for offline runs.
+ * completeStructured() adds schema validation with repair/retry on top.
+ */
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'scripted';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model?: string; // Defaults to the provider's model
+  system?: string;
+  messages: LLMMessage[];
+  max_tokens: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+  stop_reason?: string;
+}
+
+export interface LLMJSONResponse<T = any> {
+  data: T;
+  response: LLMResponse;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  completeJSON<T = any>(request: LLMRequest): Promise<LLMJSONResponse<T>>;
+  stream(request: LLMRequest): AsyncIterableIterator<string>; // Text deltas
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(
+    private defaultModel: string,
+    private client: Anthropic
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: request.model || this.defaultModel,
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: request.messages
+    });
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      model: response.model,
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens
+      },
+      stop_reason: response.stop_reason || undefined
+    };
+  }
+
+  async completeJSON<T = any>(request: LLMRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(request);
+    return { data: extractJSON(response.text), response };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterableIterator<string> {
+    const stream = await this.client.messages.create({
+      model: request.model || this.defaultModel,
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: request.messages,
+      stream: true
+    });
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+}
+
+/**
+ * OpenAI Chat Completions API (plain fetch - no SDK dependency)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private defaultModel: string,
+    private apiKey: string,
+    private baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request, false);
+    const body: any = await response.json();
+    const choice = body.choices?.[0];
+
+    return {
+      text: choice?.message?.content || '',
+      model: body.model,
+      usage: {
+        input_tokens: body.usage?.prompt_tokens || 0,
+        output_tokens: body.usage?.completion_tokens || 0
+      },
+      stop_reason: choice?.finish_reason || undefined
+    };
+  }
+
+  async completeJSON<T = any>(request: LLMRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(request);
+    return { data: extractJSON(response.text), response };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterableIterator<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      return;
+    }
+
+    // Server-sent events: "data: {...}\n\n" chunks, terminated by "data: [DONE]"
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages
+    ];
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        max_completion_tokens: request.max_tokens,
+        temperature: request.temperature,
+        messages,
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error ${response.status}: ${await response.text()}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Scripted reply: fixed text, or computed from the request and the call index
+ */
+export type ScriptedReply = string | ((request: LLMRequest, callIndex: number) => string);
+
+/**
+ * Deterministic fake for offline runs and tests
+ *
+ * Replies are consumed in order (an array script) or computed per call (a
+ * function script). Every request is kept in `calls` for assertions; usage is
+ * estimated at ~4 characters per token.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted' as const;
+  public calls: LLMRequest[] = [];
+
+  constructor(
+    private script: ScriptedReply[] | ((request: LLMRequest, callIndex: number) => string),
+    private defaultModel: string = 'scripted'
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const callIndex = this.calls.length;
+    this.calls.push(request);
+
+    let text: string;
+    if (typeof this.script === 'function') {
+      text = this.script(request, callIndex);
+    } else {
+      if (callIndex >= this.script.length) {
+        throw new Error(`ScriptedProvider: script exhausted after ${this.script.length} calls`);
+      }
+      const reply = this.script[callIndex];
+      text = typeof reply === 'function' ? reply(request, callIndex) : reply;
+    }
+
+    const prompt = (request.system || '') + request.messages.map(m => m.content).join('');
+    return {
+      text,
+      model: request.model || this.defaultModel,
+      usage: {
+        input_tokens: Math.ceil(prompt.length / 4),
+        output_tokens: Math.ceil(text.length / 4)
+      },
+      stop_reason: 'end_turn'
+    };
+  }
+
+  async completeJSON<T = any>(request: LLMRequest): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(request);
+    return { data: extractJSON(response.text), response };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterableIterator<string> {
+    const response = await this.complete(request);
+    // Word-sized deltas, whitespace preserved
+    for (const piece of response.text.match(/\S+\s*|\s+/g) || []) {
+      yield piece;
+    }
+  }
+}
+
+/**
+ * Pull the JSON payload out of a model reply (tolerates prose and ``` fences around it)
+ */
+export function extractJSON<T = any>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  const objectMatch = candidate.match(/\{[\s\S]*\}/);
+  const arrayMatch = candidate.match(/\[[\s\S]*\]/);
+  // Prefer whichever structure starts first
+  const match = objectMatch && arrayMatch
+    ? (objectMatch.index! <= arrayMatch.index! ? objectMatch : arrayMatch)
+    : objectMatch || arrayMatch;
+
+  if (!match) {
+    throw new Error('No JSON found in LLM response');
+  }
+
+  return JSON.parse(match[0]);
+}
+
+/**
+ * One failed attempt at structured output (reply was not JSON or did not match the schema)
+ */
+export interface StructuredOutputFailure {
+  schema: string; // Schema name, e.g. 'JudgeScores'
+  attempt: number; // 1-based
+  max_attempts: number;
+  error: string;
+  raw: string; // Reply text that failed to parse
+  final: boolean; // True when no attempts remain
+}
+
+/**
+ * Thrown when every attempt at structured output failed
+ */
+export class StructuredOutputError extends Error {
+  constructor(public failures: StructuredOutputFailure[]) {
+    const last = failures[failures.length - 1];
+    super(`Invalid ${last.schema} output after ${failures.length} attempts: ${last.error}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredOutputOptions {
+  name: string; // Schema name used in errors and failure records
+  maxAttempts?: number; // Default 3 (the first call plus two repairs)
+  backoffMs?: number; // Delay before the first repair, doubled each time (default 500)
+  onFailure?: (failure: StructuredOutputFailure) => void | Promise<void>;
+}
+
+/**
+ * Complete a request and validate the reply against a zod schema
+ * 
+ * On a parse or validation failure the model is shown its own reply and the
+ * validation errors and asked for corrected JSON, with exponential backoff
+ * between attempts. Provider errors are not retried here - they propagate as-is.
+ */
+export async function completeStructured<T>(
+  provider: Pick<LLMProvider, 'complete'>,
+  request: LLMRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOutputOptions
+): Promise<LLMJSONResponse<T>> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const backoffMs = options.backoffMs ?? 500;
+  const failures: StructuredOutputFailure[] = [];
+  let attemptRequest = request;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.complete(attemptRequest);
+
+    let error: string;
+    try {
+      const result = schema.safeParse(extractJSON(response.text));
+      if (result.success) {
+        return { data: result.data, response };
+      }
+      error = formatIssues(result.error);
+    } catch (parseError) {
+      error = parseError instanceof Error ? parseError.message : String(parseError);
+    }
+
+    const failure: StructuredOutputFailure = {
+      schema: options.name,
+      attempt,
+      max_attempts: maxAttempts,
+      error,
+      raw: response.text,
+      final: attempt === maxAttempts
+    };
+    failures.push(failure);
+    await options.onFailure?.(failure);
+
+    if (failure.final) {
+      break;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** (attempt - 1)));
+    attemptRequest = buildRepairRequest(request, response.text, error);
+  }
+
+  throw new StructuredOutputError(failures);
+}
+
+/**
+ * Original conversation + the bad reply + the validation errors
+ */
+function buildRepairRequest(request: LLMRequest, raw: string, error: string): LLMRequest {
+  return {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: raw || '(empty reply)' },
+      {
+        role: 'user',
+        content: `Your previous reply could not be used: ${error}
+
+Respond again with ONLY the corrected JSON - same structure as requested above, no markdown, no commentary.`
+      }
+    ]
+  };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Process-wide provider override - when set, every agent uses it regardless of
+ * configuration (e.g. a ScriptedProvider to run a pipeline offline)
+ */
+let providerOverride: LLMProvider | null = null;
+
+export function setLLMProviderOverride(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+export function getLLMProviderOverride(): LLMProvider | null {
+  return providerOverride;
+}
+
+let anthropicClient: Anthropic | null = null;
+
+/**
+ * Provider for a vendor (anthropic | openai) and model, with the API key from
+ * the environment. Every Anthropic provider shares one client.
+ * The process-wide override, when set, is returned instead.
+ */
+export function createLLMProvider(vendor: string, model: string): LLMProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  switch (vendor) {
+    case 'anthropic':
+      return new AnthropicProvider(model, getAnthropicClient());
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      return new OpenAIProvider(model, apiKey);
+    }
+    default:
+      throw new Error(`Unknown LLM provider "${vendor}" (expected anthropic or openai)`);
+  }
+}
+
+function getAnthropicClient(): Anthropic {
+  if (!anthropicClient) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+    }
+    anthropicClient = new Anthropic({ apiKey });
+  }
+  return anthropicClient;
+}
@@ -0,0 +1,369 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Structured logger - leveled records with correlation fields and timing spans
+ *
+ * Every record carries its component and any fields bound with child() (e.g.
+ * session_id, worker_id). Records within a session share a trace ID derived from
+ * the session ID, so one run can be pulled out of interleaved logs. span() times
+ * a block of work and logs its duration when it ends.
+ *
+ * Configured from the environment (or configureLogger()):
+ *   LOG_LEVEL                    debug | info (default) | warn | error | silent
+ *   LOG_FORMAT                   pretty (default) | json (one record per line)
+ *   OTEL_EXPORTER_OTLP_ENDPOINT  e.g. http://localhost:4318 - also export spans and
+ *                                logs over OTLP/HTTP (JSON) to a collector
+ *   OTEL_SERVICE_NAME            service.name resource attribute (default tig)
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  component: string;
+  msg: string;
+  trace_id?: string;
+  span_id?: string;
+  [field: string]: unknown;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel | 'silent';
+  format?: 'pretty' | 'json';
+  write?: (record: LogRecord, line: string) => void; // Default: console.log, console.error for warn/error
+  otlpEndpoint?: string | null; // null turns the exporter off
+  serviceName?: string;
+}
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+const OTLP_SEVERITY: Record<LogLevel, number> = { debug: 5, info: 9, warn: 13, error: 17 };
+const OTLP_FLUSH_MS = 2000;
+const OTLP_MAX_BATCH = 500;
+
+const settings: Required<Omit<LoggerOptions, 'otlpEndpoint'>> = {
+  level: parseLevel(process.env.LOG_LEVEL),
+  format: process.env.LOG_FORMAT === 'json' ? 'json' : 'pretty',
+  write: (record, line) => (LEVEL_ORDER[record.level] >= LEVEL_ORDER.warn ? console.error(line) : console.log(line)),
+  serviceName: process.env.OTEL_SERVICE_NAME || 'tig'
+};
+
+let exporter: OTLPExporter | null = null; // Set from OTEL_EXPORTER_OTLP_ENDPOINT at the end of this module
+
+/**
+ * Override the environment configuration (e.g. a CLI routing logs to stderr)
+ */
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) settings.level = options.level;
+  if (options.format) settings.format = options.format;
+  if (options.write) settings.write = options.write;
+  if (options.serviceName) settings.serviceName = options.serviceName;
+  if (options.otlpEndpoint !== undefined) {
+    exporter = options.otlpEndpoint ? new OTLPExporter(options.otlpEndpoint) : null;
+  }
+}
+
+/**
+ * Send anything the OTLP exporter still holds (call before exiting)
+ */
+export async function flushTelemetry(): Promise<void> {
+  await exporter?.flush();
+}
+
+interface SpanContext {
+  trace_id: string;
+  span_id: string;
+}
+
+export class Logger {
+  constructor(
+    private component: string,
+    private fields: LogFields = {},
+    private spanContext?: SpanContext
+  ) {}
+
+  /**
+   * Logger with extra fields bound to every record (same component and span)
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.component, { ...this.fields, ...fields }, this.spanContext);
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  /**
+   * Time fn as a span - records logged through the logger passed to fn are
+   * parented to it, and its duration is logged (and exported) when it settles
+   */
+  async span<T>(name: string, fn: (log: Logger) => Promise<T>, attributes: LogFields = {}): Promise<T> {
+    const context: SpanContext = {
+      trace_id: this.getTraceId() || randomHex(16),
+      span_id: randomHex(8)
+    };
+    const spanLog = new Logger(this.component, this.fields, context);
+    const start = Date.now();
+
+    const end = (error?: unknown) => {
+      const duration_ms = Date.now() - start;
+      const span_status = error === undefined ? 'ok' : 'error';
+      spanLog.log(error === undefined ? 'info' : 'error', `${name} ${span_status === 'ok' ? 'finished' : 'failed'} in ${duration_ms}ms`, {
+        span: name,
+        duration_ms,
+        span_status,
+        ...attributes,
+        ...(error !== undefined ? { error } : {})
+      });
+      exporter?.addSpan({
+        name,
+        context,
+        parent_span_id: this.spanContext?.span_id,
+        start,
+        end: start + duration_ms,
+        attributes: { component: this.component, ...this.fields, ...attributes },
+        error
+      });
+    };
+
+    try {
+      const result = await fn(spanLog);
+      end();
+      return result;
+    } catch (error) {
+      end(error);
+      throw error;
+    }
+  }
+
+  private log(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) {
+      return;
+    }
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      component: this.component,
+      msg,
+      ...serializeFields({ ...this.fields, ...fields })
+    };
+    const traceId = this.getTraceId();
+    if (traceId) record.trace_id = traceId;
+    if (this.spanContext) record.span_id = this.spanContext.span_id;
+
+    settings.write(record, settings.format === 'json' ? JSON.stringify(record) : formatPretty(record));
+    exporter?.addLog(record);
+  }
+
+  private getTraceId(): string | undefined {
+    if (this.spanContext) {
+      return this.spanContext.trace_id;
+    }
+    // One trace per session, without threading span context through every call
+    const sessionId = this.fields.session_id;
+    return typeof sessionId === 'string' ? createHash('sha256').update(sessionId).digest('hex').slice(0, 32) : undefined;
+  }
+}
+
+/**
+ * Logger for a component, optionally with bound fields
+ */
+export function getLogger(component: string, fields?: LogFields): Logger {
+  return new Logger(component, fields);
+}
+
+// Fields the pretty format leaves out (still present in JSON and OTLP output)
+const PRETTY_HIDDEN = ['time', 'level', 'component', 'msg', 'trace_id', 'span_id', 'session_id', 'span', 'duration_ms', 'span_status'];
+
+function formatPretty(record: LogRecord): string {
+  const level = record.level === 'info' ? '' : ` ${record.level.toUpperCase()}`;
+  const stacks: string[] = [];
+  const extras = Object.entries(record)
+    .filter(([key]) => !PRETTY_HIDDEN.includes(key))
+    .map(([key, value]) => {
+      if (isSerializedError(value)) {
+        if (value.stack) stacks.push(value.stack);
+        return `${key}=${value.message}`;
+      }
+      return `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`;
+    });
+  const fields = extras.length > 0 ? ` (${extras.join(' ')})` : '';
+
+  return [`${record.time.slice(11, 23)}${level} [${record.component}] ${record.msg}${fields}`, ...stacks].join('\n');
+}
+
+function isSerializedError(value: unknown): value is { message: string; stack?: string } {
+  return typeof value === 'object' && value !== null && 'message' in value && 'stack' in value;
+}
+
+function serializeFields(fields: LogFields): LogFields {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    serialized[key] = value instanceof Error
+      ? { name: value.name, message: value.message, stack: value.stack }
+      : value;
+  }
+  return serialized;
+}
+
+function parseLevel(value: string | undefined): LogLevel | 'silent' {
+  return value && value in LEVEL_ORDER ? (value as LogLevel | 'silent') : 'info';
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+interface FinishedSpan {
+  name: string;
+  context: SpanContext;
+  parent_span_id?: string;
+  start: number;
+  end: number;
+  attributes: LogFields;
+  error?: unknown;
+}
+
+/**
+ * Batches spans and log records to an OTLP/HTTP collector (JSON encoding)
+ * Export failures are reported once on stderr and otherwise ignored - telemetry never breaks a run
+ */
+class OTLPExporter {
+  private spans: FinishedSpan[] = [];
+  private logs: LogRecord[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private reportedFailure = false;
+
+  constructor(private endpoint: string) {
+    process.once('beforeExit', () => {
+      this.flush();
+    });
+  }
+
+  addSpan(span: FinishedSpan): void {
+    this.spans.push(span);
+    this.schedule();
+  }
+
+  addLog(record: LogRecord): void {
+    this.logs.push(record);
+    this.schedule();
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const spans = this.spans.splice(0, OTLP_MAX_BATCH);
+    const logs = this.logs.splice(0, OTLP_MAX_BATCH);
+    const resource = { attributes: toAttributes({ 'service.name': settings.serviceName }) };
+    const scope = { name: 'tig' };
+
+    await Promise.all([
+      spans.length > 0 && this.post('/v1/traces', {
+        resourceSpans: [{ resource, scopeSpans: [{ scope, spans: spans.map(toOTLPSpan) }] }]
+      }),
+      logs.length > 0 && this.post('/v1/logs', {
+        resourceLogs: [{ resource, scopeLogs: [{ scope, logRecords: logs.map(toOTLPLog) }] }]
+      })
+    ]);
+
+    if (this.spans.length > 0 || this.logs.length > 0) {
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, OTLP_FLUSH_MS);
+    this.timer.unref();
+  }
+
+  private async post(path: string, body: unknown): Promise<void> {
+    try {
+      const response = await fetch(this.endpoint.replace(/\/$/, '') + path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      if (!this.reportedFailure) {
+        this.reportedFailure = true;
+        process.stderr.write(`[logger] OTLP export to ${this.endpoint} failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    }
+  }
+}
+
+function toOTLPSpan(span: FinishedSpan): Record<string, unknown> {
+  return {
+    traceId: span.context.trace_id,
+    spanId: span.context.span_id,
+    parentSpanId: span.parent_span_id,
+    name: span.name,
+    kind: 1, // SPAN_KIND_INTERNAL
+    startTimeUnixNano: `${span.start}000000`,
+    endTimeUnixNano: `${span.end}000000`,
+    attributes: toAttributes(span.attributes),
+    status: span.error === undefined
+      ? { code: 1 }
+      : { code: 2, message: span.error instanceof Error ? span.error.message : String(span.error) }
+  };
+}
+
+function toOTLPLog(record: LogRecord): Record<string, unknown> {
+  const { time, level, msg, trace_id, span_id, ...fields } = record;
+  return {
+    timeUnixNano: `${Date.parse(time)}000000`,
+    severityNumber: OTLP_SEVERITY[level],
+    severityText: level.toUpperCase(),
+    body: { stringValue: msg },
+    attributes: toAttributes(fields),
+    traceId: trace_id,
+    spanId: span_id
+  };
+}
+
+function toAttributes(fields: LogFields): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toAttributeValue(value) }));
+}
+
+function toAttributeValue(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  if (value instanceof Error) return { stringValue: value.message };
+  return { stringValue: JSON.stringify(value) };
+}
+
+if (process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+  exporter = new OTLPExporter(process.env.OTEL_EXPORTER_OTLP_ENDPOINT);
+}
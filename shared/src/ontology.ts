@@ -0,0 +1,730 @@
+/**
+ * Database ontology - the one description of the Tig schema
+ *
+ * Every table with its columns (type, nullability, description), keys, the
+ * column holding its project ID, restricted columns, text-based joins and
+ * example queries. SQL guard policies, planner prompt text and each package's
+ * own schema views are derived from it rather than written out by hand.
+ *
+ * introspectSchema() reads the live schema from information_schema;
+ * checkOntologyDrift() lists where it and the ontology disagree, and
+ * generateOntology() merges the two into updated definitions
+ * (run-ontology-check.js).
+ */
+
+import type { ProjectLink } from './sqlGuard';
+
+export interface OntologyColumn {
+  name: string;
+  type: string; // information_schema data_type (udt_name for extension types, e.g. vector)
+  nullable: boolean;
+  description: string;
+  restricted?: boolean; // Never readable by planners or generated queries
+  aliases?: string[]; // Names models tend to guess instead - rendered as "NOT ..."
+}
+
+export interface OntologyForeignKey {
+  column: string;
+  referencesTable: string; // Schema-qualified outside public (auth.users)
+  referencesColumn: string;
+}
+
+export interface OntologyTable {
+  name: string;
+  description: string;
+  columns: OntologyColumn[];
+  primaryKey: string[];
+  foreignKeys: OntologyForeignKey[];
+  projectColumn?: string; // Column holding the row's project ID; other tables reach a project through foreign keys
+}
+
+export interface TextJoin {
+  left: string; // table.column
+  right: string;
+  description: string;
+}
+
+export interface ExampleQuery {
+  question: string;
+  tables: string[];
+  sql: string; // $1 is the project ID
+}
+
+export interface JoinEdge {
+  left: string;
+  leftColumn: string;
+  right: string;
+  rightColumn: string;
+  kind: 'foreign_key' | 'text';
+}
+
+export const ONTOLOGY_TABLES: Record<string, OntologyTable> = {
+  projects: {
+    name: 'projects',
+    description: 'A GitHub repository tracked by Tig',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique project identifier' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: true, description: 'Project creation timestamp' },
+      { name: 'github_repo_id', type: 'bigint', nullable: true, description: 'GitHub repository ID' },
+      { name: 'repo_owner', type: 'text', nullable: true, description: 'Repository owner', aliases: ['owner'] },
+      { name: 'repo_name', type: 'text', nullable: true, description: 'Repository name', aliases: ['name'] }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [],
+    projectColumn: 'id'
+  },
+
+  users: {
+    name: 'users',
+    description: 'A Tig user, linked to their GitHub account',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique user identifier' },
+      { name: 'auth_user_id', type: 'uuid', nullable: false, description: 'Authentication user ID', restricted: true },
+      { name: 'github_id', type: 'bigint', nullable: false, description: 'GitHub user ID' },
+      { name: 'github_username', type: 'text', nullable: false, description: 'GitHub username' },
+      { name: 'full_name', type: 'text', nullable: true, description: 'User full name' },
+      { name: 'email', type: 'text', nullable: true, description: 'User email', restricted: true },
+      { name: 'company', type: 'text', nullable: true, description: 'User company' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'User creation timestamp' },
+      { name: 'updated_at', type: 'timestamp with time zone', nullable: false, description: 'User last update timestamp' },
+      { name: 'onboarding_completed', type: 'boolean', nullable: false, description: 'Onboarding status' },
+      { name: 'chats_saved', type: 'integer', nullable: false, description: 'Number of chats saved' },
+      { name: 'show_tool_bubbles_beta', type: 'boolean', nullable: false, description: 'Tool bubbles beta flag' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'auth_user_id', referencesTable: 'auth.users', referencesColumn: 'id' }
+    ]
+  },
+
+  conversations: {
+    name: 'conversations',
+    description: 'An AI coding session (Cursor composer, Claude Code chat) in a project',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique conversation identifier' },
+      { name: 'composer_id', type: 'text', nullable: true, description: 'Composer session ID' },
+      { name: 'title', type: 'text', nullable: true, description: 'Conversation title', aliases: ['name', 'subject'] },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'Conversation creation timestamp' },
+      { name: 'project_id', type: 'uuid', nullable: false, description: 'Associated project ID' },
+      { name: 'platform', type: 'text', nullable: true, description: 'Platform (cursor, claude_code, unknown)' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'project_id', referencesTable: 'projects', referencesColumn: 'id' }
+    ],
+    projectColumn: 'project_id'
+  },
+
+  interactions: {
+    name: 'interactions',
+    description: 'One prompt and the AI response to it, within a conversation',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique interaction identifier' },
+      { name: 'conversation_id', type: 'uuid', nullable: true, description: 'Associated conversation ID' },
+      { name: 'prompt_text', type: 'text', nullable: false, description: 'User prompt text', aliases: ['prompt', 'user_message', 'input', 'content'] },
+      { name: 'response_text', type: 'text', nullable: true, description: 'AI response text', aliases: ['response', 'assistant_message', 'content'] },
+      { name: 'prompt_ts', type: 'timestamp with time zone', nullable: true, description: 'Prompt timestamp' },
+      { name: 'request_id', type: 'text', nullable: true, description: 'Request identifier' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'Interaction creation timestamp' },
+      { name: 'response_bubbles', type: 'jsonb', nullable: true, description: 'Response bubbles data' },
+      { name: 'model', type: 'text', nullable: true, description: 'AI model used' },
+      { name: 'author', type: 'text', nullable: true, description: 'GitHub username of the interaction author' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'conversation_id', referencesTable: 'conversations', referencesColumn: 'id' }
+    ]
+  },
+
+  interaction_diffs: {
+    name: 'interaction_diffs',
+    description: 'A file change made during an interaction',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique diff identifier' },
+      { name: 'interaction_id', type: 'uuid', nullable: false, description: 'Associated interaction ID' },
+      { name: 'file_path', type: 'text', nullable: false, description: 'File path for the diff' },
+      {
+        name: 'diff_chunks', type: 'jsonb', nullable: false, description: 'Diff chunks - a single jsonb column',
+        aliases: ['old_code', 'new_code', 'additions', 'deletions']
+      },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'Diff creation timestamp' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'interaction_id', referencesTable: 'interactions', referencesColumn: 'id' }
+    ]
+  },
+
+  commits: {
+    name: 'commits',
+    description: "A git commit in the project's repository",
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique commit identifier' },
+      { name: 'hash', type: 'text', nullable: false, description: 'Commit hash', aliases: ['sha', 'commit_sha', 'commit_hash'] },
+      { name: 'message', type: 'text', nullable: true, description: 'Commit message' },
+      { name: 'committed_at', type: 'timestamp with time zone', nullable: true, description: 'Commit timestamp' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'Record creation timestamp' },
+      { name: 'project_id', type: 'uuid', nullable: false, description: 'Associated project ID' },
+      { name: 'branch', type: 'text', nullable: true, description: 'Branch name' },
+      { name: 'author', type: 'text', nullable: true, description: 'GitHub username of the commit author' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'project_id', referencesTable: 'projects', referencesColumn: 'id' }
+    ],
+    projectColumn: 'project_id'
+  },
+
+  commit_interactions: {
+    name: 'commit_interactions',
+    description: 'Links a commit to the interactions that produced its changes',
+    columns: [
+      { name: 'commit_id', type: 'uuid', nullable: false, description: 'Associated commit ID' },
+      { name: 'interaction_id', type: 'uuid', nullable: false, description: 'Associated interaction ID' }
+    ],
+    primaryKey: ['commit_id', 'interaction_id'],
+    foreignKeys: [
+      { column: 'commit_id', referencesTable: 'commits', referencesColumn: 'id' },
+      { column: 'interaction_id', referencesTable: 'interactions', referencesColumn: 'id' }
+    ]
+  },
+
+  pull_requests: {
+    name: 'pull_requests',
+    description: "A GitHub pull request in the project's repository",
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique pull request identifier' },
+      { name: 'project_id', type: 'uuid', nullable: false, description: 'Associated project ID' },
+      { name: 'pr_number', type: 'integer', nullable: false, description: 'Pull request number' },
+      { name: 'title', type: 'text', nullable: false, description: 'Pull request title' },
+      { name: 'description', type: 'text', nullable: true, description: 'Pull request description' },
+      { name: 'author', type: 'text', nullable: true, description: 'GitHub username of the pull request author' },
+      { name: 'head_branch', type: 'text', nullable: false, description: 'Head branch name' },
+      { name: 'base_branch', type: 'text', nullable: false, description: 'Base branch name' },
+      { name: 'head_sha', type: 'text', nullable: true, description: 'Head commit SHA' },
+      { name: 'state', type: 'text', nullable: false, description: 'Pull request state (open, closed, merged)' },
+      { name: 'github_url', type: 'text', nullable: false, description: 'GitHub URL' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: false, description: 'Pull request creation timestamp' },
+      { name: 'updated_at', type: 'timestamp with time zone', nullable: false, description: 'Pull request last update timestamp' },
+      { name: 'merged_at', type: 'timestamp with time zone', nullable: true, description: 'Pull request merge timestamp' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'project_id', referencesTable: 'projects', referencesColumn: 'id' }
+    ],
+    projectColumn: 'project_id'
+  },
+
+  api_keys: {
+    name: 'api_keys',
+    description: 'An API key issued to a user',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique API key identifier' },
+      { name: 'key_hash', type: 'text', nullable: false, description: 'API key hash', restricted: true },
+      { name: 'key_prefix', type: 'text', nullable: false, description: 'API key prefix' },
+      { name: 'user_id', type: 'uuid', nullable: true, description: 'Associated user ID' },
+      { name: 'description', type: 'text', nullable: true, description: 'API key description' },
+      { name: 'created_at', type: 'timestamp with time zone', nullable: true, description: 'API key creation timestamp' },
+      { name: 'last_used_at', type: 'timestamp with time zone', nullable: true, description: 'API key last used timestamp' },
+      { name: 'is_active', type: 'boolean', nullable: true, description: 'API key active status' },
+      { name: 'rate_limit_per_minute', type: 'integer', nullable: true, description: 'Rate limit per minute' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'user_id', referencesTable: 'users', referencesColumn: 'id' }
+    ]
+  },
+
+  api_key_usage: {
+    name: 'api_key_usage',
+    description: 'One request made with an API key',
+    columns: [
+      { name: 'id', type: 'uuid', nullable: false, description: 'Unique usage record identifier' },
+      { name: 'api_key_id', type: 'uuid', nullable: true, description: 'Associated API key ID' },
+      { name: 'timestamp', type: 'timestamp with time zone', nullable: true, description: 'Usage timestamp' },
+      { name: 'endpoint', type: 'text', nullable: true, description: 'API endpoint accessed' }
+    ],
+    primaryKey: ['id'],
+    foreignKeys: [
+      { column: 'api_key_id', referencesTable: 'api_keys', referencesColumn: 'id' }
+    ]
+  },
+
+  interaction_embeddings: {
+    name: 'interaction_embeddings',
+    description: 'Voyage embeddings of interactions and their diffs, for semantic search',
+    columns: [
+      { name: 'embedding_id', type: 'uuid', nullable: false, description: 'Unique embedding identifier' },
+      { name: 'interaction_id', type: 'uuid', nullable: false, description: 'Associated interaction ID' },
+      { name: 'type', type: 'text', nullable: false, description: 'Embedding type (prompt_response, full_code_diff, chunked_code_diff)' },
+      { name: 'chunk_id', type: 'integer', nullable: true, description: 'Chunk ID for chunked embeddings' },
+      { name: 'embedding', type: 'vector', nullable: false, description: 'Vector embedding' }
+    ],
+    primaryKey: ['embedding_id'],
+    foreignKeys: [
+      { column: 'interaction_id', referencesTable: 'interactions', referencesColumn: 'id' }
+    ]
+  }
+};
+
+/**
+ * Joins on text columns rather than keys - author fields hold GitHub usernames,
+ * and pull requests reach their commits by head SHA or branch
+ */
+export const TEXT_JOINS: TextJoin[] = [
+  { left: 'users.github_username', right: 'commits.author', description: 'commit author' },
+  { left: 'users.github_username', right: 'interactions.author', description: 'interaction author' },
+  { left: 'commits.author', right: 'interactions.author', description: 'both hold GitHub usernames' },
+  { left: 'pull_requests.head_sha', right: 'commits.hash', description: 'the commit at the head of the pull request' },
+  { left: 'pull_requests.head_branch', right: 'commits.branch', description: "commits on the pull request's branch" }
+];
+
+export const EXAMPLE_QUERIES: ExampleQuery[] = [
+  {
+    question: 'Find interactions about auth',
+    tables: ['interactions', 'conversations'],
+    sql: "SELECT i.id, i.prompt_text, i.response_text FROM interactions i JOIN conversations c ON i.conversation_id = c.id WHERE c.project_id = $1 AND (i.prompt_text ILIKE '%auth%' OR i.response_text ILIKE '%auth%')"
+  },
+  {
+    question: 'Find commits about auth',
+    tables: ['commits'],
+    sql: "SELECT c.id, c.hash, c.message, c.author FROM commits c WHERE c.project_id = $1 AND c.message ILIKE '%auth%'"
+  },
+  {
+    question: 'Find files changed in auth discussions',
+    tables: ['interaction_diffs', 'interactions', 'conversations'],
+    sql: "SELECT d.file_path, d.diff_chunks FROM interaction_diffs d JOIN interactions i ON d.interaction_id = i.id JOIN conversations c ON i.conversation_id = c.id WHERE c.project_id = $1 AND (i.prompt_text ILIKE '%auth%' OR i.response_text ILIKE '%auth%')"
+  },
+  {
+    question: 'Which interactions produced a commit',
+    tables: ['commits', 'commit_interactions', 'interactions', 'conversations'],
+    sql: 'SELECT i.id, i.prompt_text, i.author FROM commits c JOIN commit_interactions ci ON ci.commit_id = c.id JOIN interactions i ON i.id = ci.interaction_id JOIN conversations cv ON cv.id = i.conversation_id WHERE c.project_id = $1 AND cv.project_id = $1 AND c.hash = $2'
+  },
+  {
+    question: 'Who made the most commits',
+    tables: ['commits', 'users'],
+    sql: 'SELECT u.github_username, u.full_name, COUNT(c.id) AS commit_count FROM commits c JOIN users u ON u.github_username = c.author WHERE c.project_id = $1 GROUP BY u.github_username, u.full_name ORDER BY commit_count DESC'
+  },
+  {
+    question: 'Which pull request shipped a commit',
+    tables: ['pull_requests', 'commits'],
+    sql: 'SELECT pr.pr_number, pr.title, pr.state, pr.merged_at, pr.github_url FROM commits c JOIN pull_requests pr ON pr.project_id = c.project_id AND (pr.head_sha = c.hash OR pr.head_branch = c.branch) WHERE c.project_id = $1 AND c.hash = $2'
+  }
+];
+
+/**
+ * Readable columns of a table (restricted ones left out)
+ */
+export function getReadableColumns(tableName: string): string[] {
+  const table = ONTOLOGY_TABLES[tableName];
+  return table ? table.columns.filter(column => !column.restricted).map(column => column.name) : [];
+}
+
+/**
+ * Restricted columns as table.column
+ */
+export function getRestrictedColumns(tableNames: string[] = Object.keys(ONTOLOGY_TABLES)): string[] {
+  return tableNames.flatMap(tableName =>
+    (ONTOLOGY_TABLES[tableName]?.columns ?? [])
+      .filter(column => column.restricted)
+      .map(column => `${tableName}.${column.name}`)
+  );
+}
+
+export function isRestrictedColumn(tableName: string, columnName: string): boolean {
+  return ONTOLOGY_TABLES[tableName]?.columns.some(column => column.name === columnName && column.restricted) ?? false;
+}
+
+/**
+ * Read policy over some tables - the shape of a SQL guard policy: readable
+ * columns per table, the project column of each table that has one, and the
+ * foreign keys through which tables without one reach a project
+ */
+export function getReadPolicy(tableNames: string[] = Object.keys(ONTOLOGY_TABLES)): {
+  tables: Record<string, string[]>;
+  projectScope: Record<string, string>;
+  projectLinks: Record<string, ProjectLink[]>;
+} {
+  const tables: Record<string, string[]> = {};
+  const projectScope: Record<string, string> = {};
+
+  for (const tableName of tableNames) {
+    const table = ONTOLOGY_TABLES[tableName];
+    if (!table) {
+      throw new Error(`Unknown ontology table: ${tableName}`);
+    }
+    tables[tableName] = getReadableColumns(tableName);
+    if (table.projectColumn) {
+      projectScope[tableName] = table.projectColumn;
+    }
+  }
+
+  // Tables reaching a project through foreign keys between the included tables
+  const reaches = new Set(Object.keys(projectScope));
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const tableName of tableNames) {
+      if (!reaches.has(tableName) && ONTOLOGY_TABLES[tableName].foreignKeys.some(fk => reaches.has(fk.referencesTable))) {
+        reaches.add(tableName);
+        grew = true;
+      }
+    }
+  }
+
+  const projectLinks: Record<string, ProjectLink[]> = {};
+  for (const tableName of tableNames) {
+    if (reaches.has(tableName) && !projectScope[tableName]) {
+      projectLinks[tableName] = ONTOLOGY_TABLES[tableName].foreignKeys
+        .filter(fk => reaches.has(fk.referencesTable))
+        .map(fk => ({ column: fk.column, table: fk.referencesTable, references: fk.referencesColumn }));
+    }
+  }
+
+  return { tables, projectScope, projectLinks };
+}
+
+/**
+ * Every join between the given tables - foreign keys and text joins, one edge each
+ */
+export function getJoinGraph(tableNames: string[] = Object.keys(ONTOLOGY_TABLES)): JoinEdge[] {
+  const included = new Set(tableNames);
+  const edges: JoinEdge[] = [];
+
+  for (const tableName of tableNames) {
+    for (const fk of ONTOLOGY_TABLES[tableName]?.foreignKeys ?? []) {
+      if (included.has(fk.referencesTable)) {
+        edges.push({
+          left: tableName,
+          leftColumn: fk.column,
+          right: fk.referencesTable,
+          rightColumn: fk.referencesColumn,
+          kind: 'foreign_key'
+        });
+      }
+    }
+  }
+
+  for (const join of TEXT_JOINS) {
+    const [left, leftColumn] = join.left.split('.');
+    const [right, rightColumn] = join.right.split('.');
+    if (included.has(left) && included.has(right)) {
+      edges.push({ left, leftColumn, right, rightColumn, kind: 'text' });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * The join between two tables, oriented left → right (null if they don't join directly)
+ */
+export function findJoin(left: string, right: string): JoinEdge | null {
+  for (const edge of getJoinGraph([left, right])) {
+    if (edge.left === left && edge.right === right) {
+      return edge;
+    }
+    if (edge.left === right && edge.right === left) {
+      return { left, leftColumn: edge.rightColumn, right, rightColumn: edge.leftColumn, kind: edge.kind };
+    }
+  }
+  return null;
+}
+
+/**
+ * Tables from tableName to the first table with a project column, following
+ * foreign keys (null when no project reaches it)
+ */
+function findProjectPath(tableName: string): string[] | null {
+  const queue: string[][] = [[tableName]];
+  const seen = new Set([tableName]);
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    const table = ONTOLOGY_TABLES[path[path.length - 1]];
+    if (table?.projectColumn) {
+      return path;
+    }
+    for (const fk of table?.foreignKeys ?? []) {
+      if (ONTOLOGY_TABLES[fk.referencesTable] && !seen.has(fk.referencesTable)) {
+        seen.add(fk.referencesTable);
+        queue.push([...path, fk.referencesTable]);
+      }
+    }
+  }
+
+  return null;
+}
+
+export interface OntologyRenderOptions {
+  tables?: string[]; // Tables to describe (default: all)
+  heading?: string;
+  types?: boolean; // Column types after each name (default true)
+  descriptions?: boolean; // Table descriptions (default true)
+  examples?: boolean; // Example queries over the rendered tables (default true)
+}
+
+/**
+ * Schema text for planner prompts: tables and readable columns, foreign keys,
+ * text joins, how each table reaches its project, column names models get
+ * wrong, restricted columns and example queries
+ */
+export function renderOntologyText(options: OntologyRenderOptions = {}): string {
+  const tableNames = options.tables ?? Object.keys(ONTOLOGY_TABLES);
+  const tables = tableNames.map(tableName => {
+    const table = ONTOLOGY_TABLES[tableName];
+    if (!table) {
+      throw new Error(`Unknown ontology table: ${tableName}`);
+    }
+    return table;
+  });
+  const joins = getJoinGraph(tableNames);
+  const lines: string[] = [options.heading ?? 'DATABASE SCHEMA:'];
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length > 0) {
+      lines.push('', title, ...entries);
+    }
+  };
+
+  section('TABLES AND COLUMNS:', tables.flatMap(table => {
+    const columns = table.columns
+      .filter(column => !column.restricted)
+      .map(column => options.types === false ? column.name : `${column.name} (${column.type})`);
+    const entry = `- ${table.name}: ${columns.join(', ')}`;
+    return options.descriptions === false ? [entry] : [entry, `  ${table.description}`];
+  }));
+
+  section('FOREIGN KEY RELATIONSHIPS:', joins
+    .filter(edge => edge.kind === 'foreign_key')
+    .map(edge => `- ${edge.left}.${edge.leftColumn} → ${edge.right}.${edge.rightColumn}`));
+
+  section('TEXT-BASED JOINS:', TEXT_JOINS
+    .filter(join => [join.left, join.right].every(column => tableNames.includes(column.split('.')[0])))
+    .map(join => `- ${join.left} = ${join.right} (${join.description})`));
+
+  section('PROJECT SCOPE (filter every query by the project ID):', tables.flatMap(table => {
+    const path = findProjectPath(table.name);
+    if (!path) {
+      return [];
+    }
+    const target = ONTOLOGY_TABLES[path[path.length - 1]];
+    return path.length === 1
+      ? [`- ${table.name}.${table.projectColumn}`]
+      : [`- ${table.name}: through ${path.slice(1, -1).map(name => `${name} → `).join('')}${target.name}.${target.projectColumn}`];
+  }));
+
+  section('CRITICAL COLUMN NAMES (use these exact names):', tables.flatMap(table =>
+    table.columns
+      .filter(column => column.aliases && !column.restricted)
+      .map(column => `- ${table.name}.${column.name} (NOT ${column.aliases!.join(', ')})`)
+  ));
+
+  section('RESTRICTED COLUMNS (never select these):', getRestrictedColumns(tableNames).map(column => `- ${column}`));
+
+  if (options.examples !== false) {
+    section('QUERY EXAMPLES:', EXAMPLE_QUERIES
+      .filter(example => example.tables.every(tableName => tableNames.includes(tableName)))
+      .map(example => `- ${example.question}: ${example.sql}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Anything with a pg-style query() - a Pool or a PoolClient
+ */
+export interface OntologyDb {
+  query(sql: string, params?: unknown[]): Promise<{ rows: any[] }>;
+}
+
+export interface IntrospectedTable {
+  name: string;
+  columns: Array<{ name: string; type: string; nullable: boolean }>;
+  primaryKey: string[];
+  foreignKeys: OntologyForeignKey[];
+}
+
+/**
+ * Read a schema's tables, columns and keys from information_schema
+ *
+ * information_schema only shows what the connecting role has privileges on,
+ * so connect as the tables' owner. Foreign keys are read column by column -
+ * the schema has no composite ones.
+ */
+export async function introspectSchema(db: OntologyDb, schema: string = 'public'): Promise<Record<string, IntrospectedTable>> {
+  const columns = await db.query(
+    `SELECT c.table_name, c.column_name, c.data_type, c.udt_name, c.is_nullable
+     FROM information_schema.columns c
+     JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+     WHERE c.table_schema = $1 AND t.table_type = 'BASE TABLE'
+     ORDER BY c.table_name, c.ordinal_position`,
+    [schema]
+  );
+  const keys = await db.query(
+    `SELECT tc.table_name, tc.constraint_type, kcu.column_name,
+            ccu.table_schema AS ref_schema, ccu.table_name AS ref_table, ccu.column_name AS ref_column
+     FROM information_schema.table_constraints tc
+     JOIN information_schema.key_column_usage kcu
+       ON kcu.constraint_schema = tc.constraint_schema AND kcu.constraint_name = tc.constraint_name
+     LEFT JOIN information_schema.constraint_column_usage ccu
+       ON tc.constraint_type = 'FOREIGN KEY'
+      AND ccu.constraint_schema = tc.constraint_schema AND ccu.constraint_name = tc.constraint_name
+     WHERE tc.table_schema = $1 AND tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+     ORDER BY tc.table_name, kcu.ordinal_position`,
+    [schema]
+  );
+
+  const tables: Record<string, IntrospectedTable> = {};
+
+  for (const row of columns.rows) {
+    const table = tables[row.table_name] ??= { name: row.table_name, columns: [], primaryKey: [], foreignKeys: [] };
+    table.columns.push({
+      name: row.column_name,
+      type: row.data_type === 'USER-DEFINED'
+        ? row.udt_name
+        : row.data_type === 'ARRAY' ? `${row.udt_name.replace(/^_/, '')}[]` : row.data_type,
+      nullable: row.is_nullable === 'YES'
+    });
+  }
+
+  for (const row of keys.rows) {
+    const table = tables[row.table_name];
+    if (!table) {
+      continue;
+    }
+    if (row.constraint_type === 'PRIMARY KEY') {
+      table.primaryKey.push(row.column_name);
+    } else {
+      table.foreignKeys.push({
+        column: row.column_name,
+        referencesTable: row.ref_schema === schema ? row.ref_table : `${row.ref_schema}.${row.ref_table}`,
+        referencesColumn: row.ref_column
+      });
+    }
+  }
+
+  return tables;
+}
+
+export interface OntologyDrift {
+  table: string;
+  column?: string;
+  problem: 'missing_table' | 'unknown_table' | 'missing_column' | 'unknown_column' | 'type' | 'nullable' | 'primary_key' | 'foreign_key';
+  message: string;
+}
+
+export interface DriftCheckOptions {
+  ignoreTables?: string[]; // Database tables the ontology doesn't describe on purpose
+}
+
+/**
+ * Every disagreement between the live schema and the ontology - missing_*
+ * is in the ontology but not the database, unknown_* the other way round
+ */
+export function checkOntologyDrift(
+  live: Record<string, IntrospectedTable>,
+  ontology: Record<string, OntologyTable> = ONTOLOGY_TABLES,
+  options: DriftCheckOptions = {}
+): OntologyDrift[] {
+  const ignored = new Set(options.ignoreTables ?? []);
+  const drift: OntologyDrift[] = [];
+  const fkKey = (fk: OntologyForeignKey) => `${fk.column} → ${fk.referencesTable}.${fk.referencesColumn}`;
+
+  for (const table of Object.values(ontology)) {
+    const liveTable = live[table.name];
+    if (!liveTable) {
+      drift.push({ table: table.name, problem: 'missing_table', message: `${table.name} is not in the database` });
+      continue;
+    }
+
+    for (const column of table.columns) {
+      const liveColumn = liveTable.columns.find(candidate => candidate.name === column.name);
+      const name = `${table.name}.${column.name}`;
+      if (!liveColumn) {
+        drift.push({ table: table.name, column: column.name, problem: 'missing_column', message: `${name} is not in the database` });
+      } else if (liveColumn.type !== column.type) {
+        drift.push({ table: table.name, column: column.name, problem: 'type', message: `${name} is ${liveColumn.type}, the ontology says ${column.type}` });
+      } else if (liveColumn.nullable !== column.nullable) {
+        drift.push({
+          table: table.name, column: column.name, problem: 'nullable',
+          message: `${name} is ${liveColumn.nullable ? 'nullable' : 'NOT NULL'} in the database`
+        });
+      }
+    }
+
+    for (const liveColumn of liveTable.columns) {
+      if (!table.columns.some(column => column.name === liveColumn.name)) {
+        drift.push({
+          table: table.name, column: liveColumn.name, problem: 'unknown_column',
+          message: `${table.name}.${liveColumn.name} (${liveColumn.type}) is not in the ontology`
+        });
+      }
+    }
+
+    if ([...liveTable.primaryKey].sort().join(',') !== [...table.primaryKey].sort().join(',')) {
+      drift.push({
+        table: table.name, problem: 'primary_key',
+        message: `${table.name} primary key is (${liveTable.primaryKey.join(', ')}), the ontology says (${table.primaryKey.join(', ')})`
+      });
+    }
+
+    const liveFks = new Set(liveTable.foreignKeys.map(fkKey));
+    const ontologyFks = new Set(table.foreignKeys.map(fkKey));
+    for (const fk of ontologyFks) {
+      if (!liveFks.has(fk)) {
+        drift.push({ table: table.name, problem: 'foreign_key', message: `${table.name}.${fk} is not a foreign key in the database` });
+      }
+    }
+    for (const fk of liveFks) {
+      if (!ontologyFks.has(fk)) {
+        drift.push({ table: table.name, problem: 'foreign_key', message: `${table.name}.${fk} is not in the ontology` });
+      }
+    }
+  }
+
+  for (const tableName of Object.keys(live)) {
+    if (!ontology[tableName] && !ignored.has(tableName)) {
+      drift.push({ table: tableName, problem: 'unknown_table', message: `${tableName} is not in the ontology` });
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Ontology definitions for the live schema - tables, columns, types and keys
+ * from the database; descriptions, restrictions, aliases and project columns
+ * carried over from the current ontology (empty descriptions for anything new)
+ */
+export function generateOntology(
+  live: Record<string, IntrospectedTable>,
+  base: Record<string, OntologyTable> = ONTOLOGY_TABLES,
+  options: DriftCheckOptions = {}
+): Record<string, OntologyTable> {
+  const ignored = new Set(options.ignoreTables ?? []);
+  const generated: Record<string, OntologyTable> = {};
+
+  for (const liveTable of Object.values(live)) {
+    if (ignored.has(liveTable.name)) {
+      continue;
+    }
+    const baseTable = base[liveTable.name];
+    const columns = liveTable.columns.map(liveColumn => ({
+      description: '',
+      ...baseTable?.columns.find(column => column.name === liveColumn.name),
+      ...liveColumn
+    }));
+    const projectColumn = baseTable?.projectColumn ?? (columns.some(column => column.name === 'project_id') ? 'project_id' : undefined);
+
+    generated[liveTable.name] = {
+      name: liveTable.name,
+      description: baseTable?.description ?? '',
+      columns,
+      primaryKey: liveTable.primaryKey,
+      foreignKeys: liveTable.foreignKeys,
+      ...(projectColumn ? { projectColumn } : {})
+    };
+  }
+
+  return generated;
+}
@@ -0,0 +1,191 @@
+import { getLogger } from './logger';
+import { SCHEDULER_CONFIG } from './config';
+
+/**
+ * Concurrency scheduler - one process-wide queue per external service
+ *
+ * Every call to a rate-limited service runs in that service's lane (anthropic,
+ * openai, voyage, ...), which admits at most `limits[lane]` calls at a time and
+ * queues the rest. A rate-limited call (HTTP 429) is retried after the
+ * service's Retry-After, or with exponential backoff, and the whole lane holds
+ * off for that long so queued calls don't pile onto the limit too. Lanes
+ * without a configured limit (e.g. the scripted provider) are unlimited.
+ */
+
+const log = getLogger('scheduler');
+
+export interface SchedulerOptions {
+  limits: Record<string, number>; // Concurrent calls per lane
+  maxRetries: number; // Rate-limit retries per call
+  baseDelayMs: number; // First backoff when the service gives no Retry-After
+  maxDelayMs: number;
+}
+
+export interface LaneStats {
+  active: number;
+  queued: number;
+  rate_limited: number; // 429s seen so far
+}
+
+interface Lane {
+  limit: number;
+  active: number;
+  waiting: Array<() => void>;
+  pausedUntil: number;
+  rateLimited: number;
+}
+
+export class ConcurrencyScheduler {
+  private lanes = new Map<string, Lane>();
+
+  constructor(private options: SchedulerOptions = SCHEDULER_CONFIG) {}
+
+  /**
+   * Run a call in a lane, retrying it if the service rate-limits it
+   */
+  async run<T>(laneName: string, call: () => Promise<T>): Promise<T> {
+    const lane = this.getLane(laneName);
+
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(lane);
+      let delay: number | null;
+      try {
+        return await call();
+      } catch (error) {
+        delay = attempt <= this.options.maxRetries ? this.retryDelay(error, attempt) : null;
+        if (delay === null) {
+          throw error;
+        }
+      } finally {
+        this.release(lane);
+      }
+
+      lane.rateLimited++;
+      lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay);
+      log.warn(`${laneName} rate limited - retrying in ${delay}ms`, { lane: laneName, attempt, delay_ms: delay });
+    }
+  }
+
+  /**
+   * Map over items with at most the lane's limit in flight, keeping input order
+   */
+  async map<T, R>(laneName: string, items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    return Promise.all(items.map((item, index) => this.run(laneName, () => fn(item, index))));
+  }
+
+  stats(): Record<string, LaneStats> {
+    const stats: Record<string, LaneStats> = {};
+    for (const [name, lane] of this.lanes) {
+      stats[name] = { active: lane.active, queued: lane.waiting.length, rate_limited: lane.rateLimited };
+    }
+    return stats;
+  }
+
+  private getLane(name: string): Lane {
+    let lane = this.lanes.get(name);
+    if (!lane) {
+      lane = { limit: this.options.limits[name] ?? Infinity, active: 0, waiting: [], pausedUntil: 0, rateLimited: 0 };
+      this.lanes.set(name, lane);
+    }
+    return lane;
+  }
+
+  private async acquire(lane: Lane): Promise<void> {
+    for (;;) {
+      const pause = lane.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+      } else if (lane.active < lane.limit) {
+        lane.active++;
+        return;
+      } else {
+        await new Promise<void>(resolve => lane.waiting.push(resolve));
+      }
+    }
+  }
+
+  private release(lane: Lane): void {
+    lane.active--;
+    lane.waiting.shift()?.();
+  }
+
+  /**
+   * How long to wait before retrying, or null if the error isn't a rate limit
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (!isRateLimitError(error)) {
+      return null;
+    }
+
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.options.maxDelayMs);
+    }
+
+    // Exponential backoff with jitter, so queued calls don't retry in lockstep
+    const backoff = this.options.baseDelayMs * 2 ** (attempt - 1);
+    return Math.min(backoff + Math.random() * backoff * 0.5, this.options.maxDelayMs);
+  }
+}
+
+/**
+ * HTTP 429 from any of the SDKs: Anthropic (status), Voyage (statusCode), or
+ * the plain-fetch OpenAI provider (status in the message)
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { status, statusCode, message } = error as { status?: number; statusCode?: number; message?: string };
+  return status === 429 || statusCode === 429 || /\berror 429\b/i.test(message || '');
+}
+
+/**
+ * Retry-After (seconds or HTTP date) or retry-after-ms, when the SDK exposes response headers
+ */
+function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: unknown }).headers;
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+
+  const get = (name: string): string | null => {
+    if (typeof (headers as { get?: unknown }).get === 'function') {
+      return (headers as { get(name: string): string | null }).get(name);
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : null;
+  };
+
+  const ms = Number(get('retry-after-ms'));
+  if (get('retry-after-ms') !== null && Number.isFinite(ms)) {
+    return Math.max(0, ms);
+  }
+
+  const retryAfter = get('retry-after');
+  if (retryAfter === null) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let scheduler: ConcurrencyScheduler | null = null;
+
+/**
+ * The process-wide scheduler (limits from SCHEDULER_CONFIG)
+ */
+export function getScheduler(): ConcurrencyScheduler {
+  if (!scheduler) {
+    scheduler = new ConcurrencyScheduler();
+  }
+  return scheduler;
+}
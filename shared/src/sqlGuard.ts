@@ -0,0 +1,536 @@
+import { parse } from 'libpg-query';
+
+/**
+ * SQL guard - checks a query against a policy before it reaches the database
+ *
+ * The query is parsed with the Postgres parser (libpg-query), so comments,
+ * quoting and nesting can't hide anything from the checks:
+ * - exactly one statement, a SELECT (or WITH ... SELECT) - no data-modifying
+ *   CTEs, SELECT INTO or FOR UPDATE
+ * - only whitelisted tables (public schema) and columns
+ * - no functions from the deny-list (pg_sleep, dblink, file access, ...)
+ * - with a project ID, every project-scoped table in every SELECT is filtered
+ *   by it - `scope_column = <project id>` in WHERE or an inner join's ON,
+ *   directly or through a chain of equalities (c.project_id = p.id AND p.id = $1)
+ * - tables without a project column (interactions, interaction_diffs, ...) are
+ *   joined through one of their projectLinks to a table in the same SELECT that
+ *   is itself filtered that way (i.conversation_id = c.id AND c.project_id = $1)
+ */
+
+export interface SqlGuardPolicy {
+  tables: Record<string, string[]>; // Readable table → readable columns
+  projectScope: Record<string, string>; // Project-scoped table → the column holding its project ID
+  projectLinks?: Record<string, ProjectLink[]>; // Table reaching a project through foreign keys → those keys
+  deniedFunctions?: string[]; // Function name prefixes (defaults to DENIED_FUNCTIONS)
+}
+
+/**
+ * A foreign key to a table that is project-scoped or linked to one itself
+ */
+export interface ProjectLink {
+  column: string;
+  table: string;
+  references: string; // Referenced column
+}
+
+export interface SqlGuardOptions {
+  projectId?: string; // Require project-scoped tables to be filtered by this ID
+  params?: unknown[]; // Query parameters - $n bound to the project ID counts as a filter
+}
+
+export class SqlGuardError extends Error {
+  constructor(readonly violations: string[]) {
+    super(`SQL rejected: ${violations.join('; ')}`);
+    this.name = 'SqlGuardError';
+  }
+}
+
+/**
+ * Functions no generated query needs - sleeping, server/file access, remote
+ * queries, locks, sequences and settings
+ */
+export const DENIED_FUNCTIONS = [
+  'pg_sleep',
+  'dblink',
+  'lo_',
+  'pg_read_',
+  'pg_ls_',
+  'pg_stat_file',
+  'pg_file_',
+  'pg_logdir_ls',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_promote',
+  'pg_create_',
+  'pg_drop_',
+  'pg_switch_wal',
+  'pg_backup',
+  'pg_advisory',
+  'pg_try_advisory',
+  'pg_notify',
+  'current_setting',
+  'set_config',
+  'nextval',
+  'setval',
+  'query_to_xml'
+];
+
+type AstNode = Record<string, any>;
+
+interface Relation {
+  name: string; // What columns qualify it by (alias, else table name)
+  table: string;
+}
+
+const PROJECT = '<project>';
+
+/**
+ * Violations of the policy (empty if the query passes)
+ */
+export async function checkSql(sql: string, policy: SqlGuardPolicy, options: SqlGuardOptions = {}): Promise<string[]> {
+  let statements: AstNode[];
+  try {
+    statements = ((await parse(sql)).stmts || []).map(entry => entry.stmt as AstNode);
+  } catch (error) {
+    return [`Could not parse SQL: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  if (statements.length !== 1) {
+    return [`Expected one statement, found ${statements.length}`];
+  }
+  const statement = statements[0];
+  if (!statement?.SelectStmt) {
+    return [`Only SELECT queries are allowed (found ${Object.keys(statement || {})[0] || 'nothing'})`];
+  }
+
+  return new QueryChecker(policy, options).check(statement);
+}
+
+/**
+ * Throw a SqlGuardError unless the query passes
+ */
+export async function guardSql(sql: string, policy: SqlGuardPolicy, options: SqlGuardOptions = {}): Promise<void> {
+  const violations = await checkSql(sql, policy, options);
+  if (violations.length > 0) {
+    throw new SqlGuardError(violations);
+  }
+}
+
+class QueryChecker {
+  private violations = new Set<string>();
+  private cteNames = new Set<string>();
+  private tableAliases = new Map<string, Set<string>>(); // Qualifier → tables it names
+  private opaqueAliases = new Set<string>(); // Subqueries, functions and CTE references - columns not checked
+  private outputNames = new Set<string>(); // SELECT list aliases, CTE and alias column lists
+  private referencedColumns = new Set<string>(); // Columns of every referenced table
+  private deniedFunctions: string[];
+
+  constructor(private policy: SqlGuardPolicy, private options: SqlGuardOptions) {
+    this.deniedFunctions = policy.deniedFunctions ?? DENIED_FUNCTIONS;
+  }
+
+  check(statement: AstNode): string[] {
+    this.collectNames(statement);
+    this.visit(statement);
+    return [...this.violations];
+  }
+
+  /**
+   * First pass - what names the query defines, so references can be resolved
+   */
+  private collectNames(value: unknown): void {
+    forEachNode(value, (type, node) => {
+      switch (type) {
+        case 'CommonTableExpr':
+          this.cteNames.add(node.ctename);
+          stringList(node.aliascolnames).forEach(name => this.outputNames.add(name));
+          break;
+        case 'RangeVar': {
+          const table = node.relname as string;
+          if (this.cteNames.has(table) || !this.policy.tables[table]) {
+            this.opaqueAliases.add(node.alias?.aliasname ?? table);
+            break;
+          }
+          this.policy.tables[table].forEach(column => this.referencedColumns.add(column));
+          for (const name of [table, node.alias?.aliasname].filter(Boolean)) {
+            const tables = this.tableAliases.get(name) ?? new Set<string>();
+            tables.add(table);
+            this.tableAliases.set(name, tables);
+          }
+          break;
+        }
+        case 'RangeSubselect':
+        case 'RangeFunction':
+        case 'JoinExpr':
+          if (node.alias?.aliasname) {
+            this.opaqueAliases.add(node.alias.aliasname);
+          }
+          break;
+        case 'ResTarget':
+          if (node.name) {
+            this.outputNames.add(node.name);
+          }
+          break;
+      }
+      if (node.alias?.aliasname) {
+        this.outputNames.add(node.alias.aliasname);
+        stringList(node.alias.colnames).forEach(name => this.outputNames.add(name));
+      }
+    });
+    // CTE references are RangeVars too; the first CTE may be defined after a reference was seen
+    this.cteNames.forEach(name => {
+      this.opaqueAliases.add(name);
+      this.tableAliases.delete(name);
+    });
+  }
+
+  /**
+   * Second pass - check every node
+   */
+  private visit(value: unknown): void {
+    forEachNode(value, (type, node) => {
+      if (type.endsWith('Stmt') && type !== 'SelectStmt') {
+        this.violations.add(`${type} is not allowed`);
+        return;
+      }
+      switch (type) {
+        case 'SelectStmt':
+          this.checkSelect(node);
+          break;
+        case 'RangeVar':
+          this.checkTable(node);
+          break;
+        case 'ColumnRef':
+          this.checkColumn(node);
+          break;
+        case 'FuncCall':
+          this.checkFunction(node);
+          break;
+      }
+    });
+  }
+
+  private checkSelect(select: AstNode): void {
+    if (select.intoClause) {
+      this.violations.add('SELECT INTO is not allowed');
+    }
+    if (select.lockingClause) {
+      this.violations.add('Row locking (FOR UPDATE/SHARE) is not allowed');
+    }
+
+    // Set operations keep their branches as bare SELECTs (their contents are still visited)
+    for (const branch of [select.larg, select.rarg]) {
+      if (branch) {
+        this.checkSelect(branch);
+      }
+    }
+
+    const relations = fromRelations(select.fromClause).filter(relation => this.policy.tables[relation.table]);
+    const selectsStar = (select.targetList || []).some((target: AstNode) => {
+      const fields = target.ResTarget?.val?.ColumnRef?.fields || [];
+      return fields.length === 1 && fields[0].A_Star;
+    });
+    if (selectsStar && relations.length > 0) {
+      this.violations.add(`SELECT * is not allowed on ${relations.map(relation => relation.table).join(', ')} - list the columns`);
+    }
+
+    if (this.options.projectId !== undefined) {
+      this.checkProjectScope(select, relations);
+    }
+  }
+
+  private checkTable(rangeVar: AstNode): void {
+    const table = rangeVar.relname as string;
+    if (rangeVar.schemaname && rangeVar.schemaname !== 'public') {
+      this.violations.add(`Table ${rangeVar.schemaname}.${table} is not allowed`);
+    } else if (!this.cteNames.has(table) && !this.policy.tables[table]) {
+      this.violations.add(`Table ${table} is not allowed`);
+    }
+  }
+
+  private checkColumn(columnRef: AstNode): void {
+    const fields: AstNode[] = columnRef.fields || [];
+    const last = fields[fields.length - 1];
+    const column = last?.String?.sval as string | undefined;
+
+    if (fields.length === 1) {
+      if (column && !this.referencedColumns.has(column) && !this.outputNames.has(column) && !this.cteNames.has(column)) {
+        this.violations.add(`Column ${column} is not allowed`);
+      }
+      return;
+    }
+
+    const qualifier = fields[fields.length - 2]?.String?.sval as string;
+    const tables = this.tableAliases.get(qualifier);
+    if (!tables) {
+      if (!this.opaqueAliases.has(qualifier)) {
+        this.violations.add(`Unknown table reference ${qualifier}`);
+      }
+      return;
+    }
+
+    if (!column) {
+      this.violations.add(`${qualifier}.* is not allowed - list the columns`);
+    } else if (![...tables].some(table => this.policy.tables[table].includes(column))) {
+      this.violations.add(`Column ${[...tables].join('/')}.${column} is not allowed`);
+    }
+  }
+
+  private checkFunction(funcCall: AstNode): void {
+    const names = stringList(funcCall.funcname);
+    const name = (names[names.length - 1] || '').toLowerCase();
+    if (this.deniedFunctions.some(prefix => name.startsWith(prefix))) {
+      this.violations.add(`Function ${name} is not allowed`);
+    }
+  }
+
+  /**
+   * Every project-scoped or linked table this SELECT reads must be tied to the project ID
+   */
+  private checkProjectScope(select: AstNode, relations: Relation[]): void {
+    for (const relation of relations) {
+      const links = this.policy.projectLinks?.[relation.table] ?? [];
+      if (this.policy.projectScope[relation.table]) {
+        if (!this.isScoped(select, relations, relation, new Set())) {
+          this.violations.add(`${relation.table} (${relation.name}) is not filtered by the project ID`);
+        }
+      } else if (links.length > 0 && !this.isScoped(select, relations, relation, new Set())) {
+        const parents = [...new Set(links.map(link => link.table))].join(' or ');
+        this.violations.add(`${relation.table} (${relation.name}) is not joined to a project-filtered ${parents}`);
+      }
+    }
+  }
+
+  /**
+   * Whether the rows read from a relation are limited to the project - its
+   * scope column equals the project ID, or one of its project links equals
+   * the referenced column of a relation that is scoped itself
+   */
+  private isScoped(select: AstNode, relations: Relation[], relation: Relation, visited: Set<string>): boolean {
+    const equalities = this.equalities(select, relations, relation);
+    const scopeColumn = this.policy.projectScope[relation.table];
+    if (scopeColumn) {
+      return equalities.same(`${relation.name}.${scopeColumn}`, PROJECT);
+    }
+
+    const seen = new Set(visited).add(relation.name);
+    return (this.policy.projectLinks?.[relation.table] ?? []).some(link =>
+      relations.some(parent =>
+        parent.table === link.table &&
+        !seen.has(parent.name) &&
+        equalities.same(`${relation.name}.${link.column}`, `${parent.name}.${link.references}`) &&
+        this.isScoped(select, relations, parent, seen)
+      )
+    );
+  }
+
+  /**
+   * Columns and the project ID known equal for the rows read from a relation -
+   * from WHERE and the join conditions that limit that relation
+   */
+  private equalities(select: AstNode, relations: Relation[], relation: Relation): UnionFind {
+    const innerJoins = this.innerJoins(select, relations);
+    const conditions = [...conjuncts(select.whereClause), ...joinConditions(select.fromClause, relation, innerJoins)];
+    const equalities = new UnionFind();
+    for (const [left, right] of this.equalPairs(conditions, relations)) {
+      equalities.union(left, right);
+    }
+    return equalities;
+  }
+
+  /**
+   * Outer joins that act as inner joins - an equality above them (in WHERE or
+   * an enclosing join's ON) on a column of the nullable side drops every
+   * null-extended row, as Postgres's reduce_outer_joins works out
+   */
+  private innerJoins(select: AstNode, relations: Relation[]): Set<AstNode> {
+    const nonNullable = (conditions: AstNode[]): string[] =>
+      this.equalPairs(conditions, relations)
+        .flat()
+        .filter(key => key !== PROJECT && !key.startsWith('$'))
+        .map(key => key.slice(0, key.lastIndexOf('.')));
+
+    const inner = new Set<AstNode>();
+    const reduce = (item: AstNode | undefined, above: Set<string>): void => {
+      const join = item?.JoinExpr;
+      if (!join) {
+        return;
+      }
+      const reaches = (side: AstNode | undefined) => fromRelations(side ? [side] : []).some(r => above.has(r.name));
+      let jointype = join.jointype;
+      if ((jointype === 'JOIN_LEFT' && reaches(join.rarg)) || (jointype === 'JOIN_RIGHT' && reaches(join.larg))) {
+        inner.add(join);
+        jointype = 'JOIN_INNER';
+      }
+
+      const below = new Set([...above, ...nonNullable(conjuncts(join.quals))]);
+      reduce(join.larg, jointype === 'JOIN_INNER' || jointype === 'JOIN_RIGHT' ? below : above);
+      reduce(join.rarg, jointype === 'JOIN_INNER' || jointype === 'JOIN_LEFT' ? below : above);
+    };
+
+    const fromWhere = new Set(nonNullable(conjuncts(select.whereClause)));
+    (select.fromClause || []).forEach((item: AstNode) => reduce(item, fromWhere));
+    return inner;
+  }
+
+  /**
+   * Both sides of every `a = b` condition, as union-find keys
+   */
+  private equalPairs(conditions: AstNode[], relations: Relation[]): [string, string][] {
+    const pairs: [string, string][] = [];
+    for (const condition of conditions) {
+      const expr = condition.A_Expr;
+      if (!expr || expr.kind !== 'AEXPR_OP' || stringList(expr.name).join() !== '=') {
+        continue;
+      }
+      const left = this.operand(expr.lexpr, relations);
+      const right = this.operand(expr.rexpr, relations);
+      if (left && right) {
+        pairs.push([left, right]);
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * A comparison operand as a union-find key - a column, or PROJECT for the project ID
+   */
+  private operand(node: AstNode | undefined, relations: Relation[]): string | null {
+    while (node?.TypeCast) {
+      node = node.TypeCast.arg;
+    }
+    if (!node) {
+      return null;
+    }
+
+    if (node.ParamRef) {
+      const value = (this.options.params || [])[node.ParamRef.number - 1];
+      return value !== undefined && value === this.options.projectId ? PROJECT : `$${node.ParamRef.number}`;
+    }
+    if (node.A_Const) {
+      return node.A_Const.sval?.sval === this.options.projectId ? PROJECT : null;
+    }
+    if (node.ColumnRef) {
+      const names = stringList(node.ColumnRef.fields);
+      if (names.length !== (node.ColumnRef.fields || []).length) {
+        return null;
+      }
+      if (names.length >= 2) {
+        return names.slice(-2).join('.');
+      }
+      // Unqualified - the one relation with that column
+      const owners = relations.filter(relation => this.policy.tables[relation.table].includes(names[0]));
+      return owners.length === 1 ? `${owners[0].name}.${names[0]}` : null;
+    }
+    return null;
+  }
+}
+
+/**
+ * Call fn for every node (`{ Type: {...} }`) in the tree, parents first
+ */
+function forEachNode(value: unknown, fn: (type: string, node: AstNode) => void): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => forEachNode(item, fn));
+    return;
+  }
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (/^[A-Z]/.test(key) && child && typeof child === 'object' && !Array.isArray(child)) {
+      fn(key, child as AstNode);
+    }
+    forEachNode(child, fn);
+  }
+}
+
+/**
+ * The sval of each String node in a list (names, funcname, colnames)
+ */
+function stringList(nodes: AstNode[] | undefined): string[] {
+  return (nodes || []).map(node => node.String?.sval).filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Tables a FROM clause reads directly (not through subqueries)
+ */
+function fromRelations(fromClause: AstNode[] | undefined): Relation[] {
+  const relations: Relation[] = [];
+  const collect = (item: AstNode | undefined): void => {
+    if (item?.RangeVar) {
+      relations.push({ name: item.RangeVar.alias?.aliasname ?? item.RangeVar.relname, table: item.RangeVar.relname });
+    } else if (item?.JoinExpr) {
+      collect(item.JoinExpr.larg);
+      collect(item.JoinExpr.rarg);
+    }
+  };
+  (fromClause || []).forEach(collect);
+  return relations;
+}
+
+/**
+ * Top-level AND-ed conditions of an expression
+ */
+function conjuncts(expr: AstNode | undefined): AstNode[] {
+  if (!expr) {
+    return [];
+  }
+  if (expr.BoolExpr?.boolop === 'AND_EXPR') {
+    return (expr.BoolExpr.args || []).flatMap(conjuncts);
+  }
+  return [expr];
+}
+
+/**
+ * Join conditions that limit which rows of the relation are read - inner
+ * joins (including outer joins in innerJoins), and outer joins on the nullable
+ * side (a LEFT JOIN's ON doesn't filter its left side)
+ */
+function joinConditions(fromClause: AstNode[] | undefined, relation: Relation, innerJoins: Set<AstNode>): AstNode[] {
+  const contains = (item: AstNode | undefined): boolean =>
+    fromRelations(item ? [item] : []).some(r => r.name === relation.name && r.table === relation.table);
+
+  const conditions: AstNode[] = [];
+  const collect = (item: AstNode | undefined): void => {
+    const join = item?.JoinExpr;
+    if (!join || !contains(item)) {
+      return;
+    }
+    const inLeft = contains(join.larg);
+    const filters =
+      join.jointype === 'JOIN_INNER' ||
+      innerJoins.has(join) ||
+      (join.jointype === 'JOIN_LEFT' && !inLeft) ||
+      (join.jointype === 'JOIN_RIGHT' && inLeft);
+    if (filters) {
+      conditions.push(...conjuncts(join.quals));
+    }
+    collect(join.larg);
+    collect(join.rarg);
+  };
+  (fromClause || []).forEach(collect);
+  return conditions;
+}
+
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  union(a: string, b: string): void {
+    this.parent.set(this.find(a), this.find(b));
+  }
+
+  same(a: string, b: string): boolean {
+    return this.find(a) === this.find(b);
+  }
+
+  private find(key: string): string {
+    let root = key;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    return root;
+  }
+}
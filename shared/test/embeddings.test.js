@@ -0,0 +1,126 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { mkdtemp, readdir, rm } = require('fs/promises');
+const { tmpdir } = require('os');
+const path = require('path');
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+const { EmbeddingService, LocalEmbeddingProvider } = require('../dist');
+
+/**
+ * Local embeddings that keep the texts of every provider call
+ */
+class RecordingEmbeddingProvider extends LocalEmbeddingProvider {
+  calls = [];
+
+  async embed(texts, inputType) {
+    this.calls.push(texts);
+    return super.embed(texts, inputType);
+  }
+}
+
+function service(options = {}) {
+  const provider = new RecordingEmbeddingProvider(8);
+  return { provider, embeddings: new EmbeddingService(provider, { batchDelayMs: 0, ...options }) };
+}
+
+test('the LRU keeps the most recently used texts and evicts the oldest', async () => {
+  const { provider, embeddings } = service({ cacheSize: 2 });
+
+  await embeddings.embed('alpha', 'query');
+  await embeddings.embed('beta', 'query');
+  await embeddings.embed('alpha', 'query'); // Hit - alpha is now the most recent
+  await embeddings.embed('gamma', 'query'); // Evicts beta
+  await embeddings.embed('alpha', 'query');
+  await embeddings.embed('beta', 'query');
+
+  assert.deepEqual(provider.calls.flat(), ['alpha', 'beta', 'gamma', 'beta']);
+  assert.equal(embeddings.stats.cache_hits, 2);
+});
+
+test('the cache is keyed by input type as well as text', async () => {
+  const { provider, embeddings } = service();
+
+  await embeddings.embed('alpha', 'query');
+  await embeddings.embed('alpha', 'document');
+
+  assert.equal(provider.calls.length, 2);
+});
+
+test('concurrent requests for the same text share one provider call', async () => {
+  const { provider, embeddings } = service();
+
+  const [first, second] = await Promise.all([embeddings.embed('alpha', 'query'), embeddings.embed('alpha', 'query')]);
+
+  assert.deepEqual(provider.calls, [['alpha']]);
+  assert.equal(first, second);
+  assert.equal(embeddings.stats.coalesced, 1);
+});
+
+test('misses are batched, at most batchSize texts per provider call', async () => {
+  const { provider, embeddings } = service({ batchSize: 3 });
+  const texts = ['a1', 'a2', 'a3', 'a4', 'a5', 'a6', 'a7'];
+
+  const vectors = await embeddings.embedBatch(texts, 'document');
+
+  assert.deepEqual(provider.calls, [['a1', 'a2', 'a3'], ['a4', 'a5', 'a6'], ['a7']]);
+  assert.deepEqual(vectors, await new LocalEmbeddingProvider(8).embed(texts, 'document'));
+  assert.equal(embeddings.stats.provider_calls, 3);
+  assert.equal(embeddings.stats.texts_embedded, 7);
+});
+
+test('batches stop before the estimated token budget, and a text over it goes alone', async () => {
+  const { provider, embeddings } = service({ batchTokens: 10 });
+  const text = (word, tokens) => `${word} `.repeat(tokens * 4).slice(0, tokens * 4);
+
+  await embeddings.embedBatch([text('a', 4), text('b', 4), text('c', 4), text('d', 25), text('e', 2)], 'document');
+
+  assert.deepEqual(provider.calls.map(batch => batch.map(t => t[0])), [['a', 'b'], ['c'], ['d'], ['e']]);
+});
+
+test('the disk cache serves embeddings across service instances', async () => {
+  const cacheDir = await mkdtemp(path.join(tmpdir(), 'tig-embeddings-'));
+  try {
+    const first = service({ cacheDir });
+    const vector = await first.embeddings.embed('alpha', 'query');
+    assert.equal((await readdir(cacheDir)).filter(file => file.endsWith('.json')).length, 1);
+
+    const second = service({ cacheDir });
+    assert.deepEqual(await second.embeddings.embed('alpha', 'query'), vector);
+    assert.equal(second.provider.calls.length, 0);
+    assert.equal(second.embeddings.stats.disk_hits, 1);
+  } finally {
+    await rm(cacheDir, { recursive: true, force: true });
+  }
+});
+
+test('a failed batch rejects every request in it, and nothing is cached', async () => {
+  const provider = new RecordingEmbeddingProvider(8);
+  let failing = true;
+  const embed = provider.embed.bind(provider);
+  provider.embed = async (texts, inputType) => {
+    if (failing) {
+      throw new Error('embedding service unavailable');
+    }
+    return embed(texts, inputType);
+  };
+  const embeddings = new EmbeddingService(provider, { batchDelayMs: 0 });
+
+  const results = await Promise.allSettled([embeddings.embed('alpha', 'query'), embeddings.embed('beta', 'query')]);
+  assert.deepEqual(results.map(r => r.status), ['rejected', 'rejected']);
+  results.forEach(r => assert.match(r.reason.message, /embedding service unavailable/));
+
+  failing = false;
+  await embeddings.embed('alpha', 'query');
+  assert.deepEqual(provider.calls, [['alpha']]);
+});
+
+test('a provider returning the wrong number of embeddings fails the batch', async () => {
+  const embeddings = new EmbeddingService({
+    name: 'short',
+    model: 'short',
+    embed: async () => [[1, 0]]
+  }, { batchDelayMs: 0 });
+
+  await assert.rejects(embeddings.embedBatch(['alpha', 'beta'], 'document'), /returned 1 embeddings for 2 texts/);
+});
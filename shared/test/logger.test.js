@@ -0,0 +1,185 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createHash } = require('crypto');
+const http = require('http');
+
+const { configureLogger, flushTelemetry, getLogger } = require('../dist');
+
+let records;
+let lines;
+
+/**
+ * Capture every record (and its formatted line) at the given level and format
+ */
+function capture(level = 'debug', format = 'json') {
+  records = [];
+  lines = [];
+  configureLogger({
+    level,
+    format,
+    write: (record, line) => {
+      records.push(record);
+      lines.push(line);
+    }
+  });
+}
+
+test.after(() => configureLogger({ level: 'silent', otlpEndpoint: null }));
+
+test('records below the configured level are dropped', () => {
+  capture('warn');
+  const log = getLogger('judge');
+
+  log.debug('scoring');
+  log.info('scored');
+  log.warn('slow reply');
+  log.error('gave up');
+
+  assert.deepEqual(records.map(r => [r.level, r.msg]), [['warn', 'slow reply'], ['error', 'gave up']]);
+
+  capture('silent');
+  log.error('not shown');
+  assert.equal(records.length, 0);
+});
+
+test('json lines are the record itself, with errors serialized', () => {
+  capture('info', 'json');
+
+  getLogger('worker', { worker_id: 2 }).error('Investigation failed', { error: new Error('timeout'), attempt: 1 });
+
+  const record = JSON.parse(lines[0]);
+  assert.deepEqual(record, records[0]);
+  assert.equal(record.component, 'worker');
+  assert.equal(record.worker_id, 2);
+  assert.equal(record.attempt, 1);
+  assert.equal(record.error.message, 'timeout');
+  assert.match(record.error.stack, /Error: timeout/);
+  assert.ok(!Number.isNaN(Date.parse(record.time)));
+});
+
+test('pretty lines show the level, component, message and extra fields', () => {
+  capture('info', 'pretty');
+  const log = getLogger('discovery', { session_id: 'explore-1' });
+
+  log.info('Found 3 interactions', { iteration: 1, lead_type: 'initial' });
+  log.warn('Search failed', { error: new Error('connection reset') });
+
+  assert.match(lines[0], /^\d\d:\d\d:\d\d\.\d{3} \[discovery\] Found 3 interactions \(iteration=1 lead_type=initial\)$/);
+  const [warning, stack] = lines[1].split('\n');
+  assert.match(warning, /^\d\d:\d\d:\d\d\.\d{3} WARN \[discovery\] Search failed \(error=connection reset\)$/);
+  assert.match(stack, /^Error: connection reset/);
+  assert.doesNotMatch(lines.join('\n'), /explore-1/);
+});
+
+test('child() adds fields to every record and keeps the parent\'s', () => {
+  capture();
+  const log = getLogger('loop', { session_id: 's1', iteration: 1 });
+
+  log.child({ worker_id: 3, iteration: 2 }).info('claimed');
+  log.info('waiting');
+
+  assert.deepEqual(records.map(({ session_id, iteration, worker_id }) => ({ session_id, iteration, worker_id })), [
+    { session_id: 's1', iteration: 2, worker_id: 3 },
+    { session_id: 's1', iteration: 1, worker_id: undefined }
+  ]);
+});
+
+test('records of a session share a trace ID derived from its session ID', () => {
+  capture();
+  const traceId = createHash('sha256').update('explore-42').digest('hex').slice(0, 32);
+
+  getLogger('judge', { session_id: 'explore-42' }).info('a');
+  getLogger('worker', { session_id: 'explore-42' }).child({ worker_id: 0 }).info('b');
+  getLogger('worker').info('c');
+
+  assert.deepEqual(records.map(r => r.trace_id), [traceId, traceId, undefined]);
+});
+
+test('span() parents the records logged inside it and logs its duration', async () => {
+  capture();
+  const log = getLogger('orchestrator', { session_id: 'explore-7' });
+
+  const result = await log.span('discovery', async spanLog => {
+    spanLog.info('searching');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return 'done';
+  }, { query: 'tokens' });
+
+  assert.equal(result, 'done');
+  const [inner, finished] = records;
+  assert.equal(inner.span_id, finished.span_id);
+  assert.match(inner.span_id, /^[0-9a-f]{16}$/);
+  assert.equal(inner.trace_id, createHash('sha256').update('explore-7').digest('hex').slice(0, 32));
+  assert.equal(finished.msg.startsWith('discovery finished in '), true);
+  assert.equal(finished.span_status, 'ok');
+  assert.equal(finished.query, 'tokens');
+  assert.ok(finished.duration_ms >= 15);
+});
+
+test('a failing span logs an error and rethrows', async () => {
+  capture();
+
+  await assert.rejects(getLogger('synthesis').span('finalize', async () => {
+    throw new Error('model overloaded');
+  }), /model overloaded/);
+
+  assert.equal(records[0].level, 'error');
+  assert.equal(records[0].span_status, 'error');
+  assert.equal(records[0].error.message, 'model overloaded');
+  assert.match(records[0].trace_id, /^[0-9a-f]{32}$/);
+});
+
+test('the OTLP exporter batches spans and logs and sends them on flush', async () => {
+  const requests = [];
+  const collector = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  await new Promise(resolve => collector.listen(0, '127.0.0.1', resolve));
+
+  try {
+    capture('info');
+    configureLogger({ otlpEndpoint: `http://127.0.0.1:${collector.address().port}/`, serviceName: 'tig-test' });
+    const log = getLogger('worker', { session_id: 'explore-9' });
+
+    await log.span('investigate', async spanLog => {
+      spanLog.warn('thread truncated', { messages: 40 });
+    });
+    for (let i = 0; i < 500; i++) {
+      log.info(`finding ${i}`);
+    }
+    assert.equal(requests.length, 0); // Held until the batch is flushed
+
+    await flushTelemetry();
+    const traces = requests.find(r => r.path === '/v1/traces').body.resourceSpans[0];
+    const logs = requests.find(r => r.path === '/v1/logs').body.resourceLogs[0];
+
+    assert.deepEqual(traces.resource.attributes, [{ key: 'service.name', value: { stringValue: 'tig-test' } }]);
+    const [span] = traces.scopeSpans[0].spans;
+    assert.equal(span.name, 'investigate');
+    assert.equal(span.traceId, createHash('sha256').update('explore-9').digest('hex').slice(0, 32));
+    assert.deepEqual(span.status, { code: 1 });
+    assert.ok(span.attributes.some(a => a.key === 'session_id' && a.value.stringValue === 'explore-9'));
+
+    // 502 records: the first flush sends one batch of 500, the next the rest
+    const logRecords = logs.scopeLogs[0].logRecords;
+    assert.equal(logRecords.length, 500);
+    assert.equal(logRecords[0].severityText, 'WARN');
+    assert.equal(logRecords[0].spanId, span.spanId);
+    assert.deepEqual(logRecords[0].body, { stringValue: 'thread truncated' });
+    assert.ok(logRecords[0].attributes.some(a => a.key === 'messages' && a.value.intValue === 40));
+
+    requests.length = 0;
+    await flushTelemetry();
+    assert.deepEqual(requests.map(r => r.path), ['/v1/logs']);
+    assert.deepEqual(requests[0].body.resourceLogs[0].scopeLogs[0].logRecords.map(r => r.body.stringValue), ['finding 498', 'finding 499']);
+  } finally {
+    configureLogger({ otlpEndpoint: null });
+    await new Promise(resolve => collector.close(resolve));
+  }
+});
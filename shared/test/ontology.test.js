@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { ONTOLOGY_TABLES, checkOntologyDrift, generateOntology, getReadPolicy, isRestrictedColumn } = require('../dist');
+
+/**
+ * The live schema exactly as the ontology describes it
+ */
+function liveSchema() {
+  return Object.fromEntries(Object.values(ONTOLOGY_TABLES).map(table => [table.name, {
+    name: table.name,
+    columns: table.columns.map(({ name, type, nullable }) => ({ name, type, nullable })),
+    primaryKey: [...table.primaryKey],
+    foreignKeys: table.foreignKeys.map(fk => ({ ...fk }))
+  }]));
+}
+
+test('a schema matching the ontology has no drift', () => {
+  assert.deepEqual(checkOntologyDrift(liveSchema()), []);
+});
+
+test('drift lists changed types, new columns and unknown tables', () => {
+  const live = liveSchema();
+  live.commits.columns.find(column => column.name === 'message').type = 'character varying';
+  live.commits.columns.push({ name: 'signed', type: 'boolean', nullable: true });
+  live.audit_log = { name: 'audit_log', columns: [], primaryKey: [], foreignKeys: [] };
+
+  const problems = checkOntologyDrift(live).map(item => `${item.problem}:${item.table}.${item.column ?? ''}`);
+  assert.deepEqual(problems.sort(), ['type:commits.message', 'unknown_column:commits.signed', 'unknown_table:audit_log.'].sort());
+  assert.equal(checkOntologyDrift(live, undefined, { ignoreTables: ['audit_log'] }).length, 2);
+});
+
+test('generated definitions keep descriptions and pick up new columns', () => {
+  const live = liveSchema();
+  live.commits.columns.push({ name: 'signed', type: 'boolean', nullable: true });
+
+  const generated = generateOntology(live);
+  assert.equal(generated.commits.description, ONTOLOGY_TABLES.commits.description);
+  assert.deepEqual(generated.commits.columns.find(column => column.name === 'signed'),
+    { name: 'signed', type: 'boolean', nullable: true, description: '' });
+  assert.deepEqual(checkOntologyDrift(live, generated), []);
+});
+
+test('read policy leaves out restricted columns', () => {
+  const policy = getReadPolicy();
+  assert.ok(isRestrictedColumn('users', 'email'));
+  assert.ok(!policy.tables.users.includes('email'));
+  assert.equal(policy.projectScope.conversations, 'project_id');
+});
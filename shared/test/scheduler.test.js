@@ -0,0 +1,147 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+const { ConcurrencyScheduler, isRateLimitError } = require('../dist');
+
+/**
+ * Scheduler with a 'fake' lane; backoff without Retry-After is effectively immediate
+ */
+function scheduler(options = {}) {
+  return new ConcurrencyScheduler({ limits: { fake: 2 }, maxRetries: 3, baseDelayMs: 1, maxDelayMs: 10000, ...options });
+}
+
+/**
+ * A call that is rate limited (with these response headers) the first `failures` times
+ */
+function rateLimitedCall(headers, failures = 1) {
+  const call = async () => {
+    call.attempts.push(Date.now());
+    if (call.attempts.length <= failures) {
+      throw Object.assign(new Error('429 Too Many Requests'), { status: 429, headers });
+    }
+    return 'ok';
+  };
+  call.attempts = [];
+  return call;
+}
+
+const waitBetweenAttempts = call => call.attempts[1] - call.attempts[0];
+
+test('a lane runs at most its limit of calls at once, queuing the rest in order', async () => {
+  const lanes = scheduler();
+  const started = [];
+  let active = 0;
+  let maxActive = 0;
+  const release = [];
+
+  const runs = [0, 1, 2, 3, 4].map(i => lanes.run('fake', async () => {
+    started.push(i);
+    maxActive = Math.max(maxActive, ++active);
+    await new Promise(resolve => release.push(resolve));
+    active--;
+    return i;
+  }));
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(lanes.stats().fake, { active: 2, queued: 3, rate_limited: 0 });
+
+  while (release.length > 0 || started.length < 5) {
+    release.shift()?.();
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  assert.deepEqual(await Promise.all(runs), [0, 1, 2, 3, 4]);
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  assert.equal(maxActive, 2);
+});
+
+test('lanes without a configured limit are unlimited, and map keeps input order', async () => {
+  const lanes = scheduler();
+  let active = 0;
+  let maxActive = 0;
+
+  const results = await lanes.map('scripted', [30, 10, 20], async ms => {
+    maxActive = Math.max(maxActive, ++active);
+    await new Promise(resolve => setTimeout(resolve, ms));
+    active--;
+    return ms;
+  });
+
+  assert.deepEqual(results, [30, 10, 20]);
+  assert.equal(maxActive, 3);
+});
+
+test('Retry-After in seconds sets the retry delay', async () => {
+  const lanes = scheduler();
+  const call = rateLimitedCall({ 'retry-after': '0.1' });
+
+  assert.equal(await lanes.run('fake', call), 'ok');
+  assert.ok(waitBetweenAttempts(call) >= 90);
+  assert.equal(lanes.stats().fake.rate_limited, 1);
+});
+
+test('Retry-After as an HTTP date is parsed, through a Headers object too', async () => {
+  const lanes = scheduler({ maxDelayMs: 100, baseDelayMs: 5000 });
+
+  // In the past: retry at once (the 5s backoff would time the test out)
+  const past = rateLimitedCall(new Headers({ 'retry-after': new Date(Date.now() - 60000).toUTCString() }));
+  assert.equal(await lanes.run('fake', past), 'ok');
+  assert.ok(waitBetweenAttempts(past) < 50);
+
+  // An hour ahead: capped at maxDelayMs
+  const future = rateLimitedCall({ 'retry-after': new Date(Date.now() + 3600000).toUTCString() });
+  assert.equal(await lanes.run('fake', future), 'ok');
+  assert.ok(waitBetweenAttempts(future) >= 90);
+});
+
+test('retry-after-ms wins over Retry-After', async () => {
+  const lanes = scheduler();
+  const call = rateLimitedCall({ 'retry-after-ms': '100', 'retry-after': '60' });
+
+  assert.equal(await lanes.run('fake', call), 'ok');
+  assert.ok(waitBetweenAttempts(call) >= 90);
+  assert.ok(waitBetweenAttempts(call) < 1000);
+});
+
+test('a rate limit pauses the whole lane, not just the call that hit it', async () => {
+  const lanes = scheduler();
+  const limited = rateLimitedCall({ 'retry-after-ms': '100' });
+  const first = lanes.run('fake', limited);
+
+  // Queue a second call once the first has been rate limited
+  while (limited.attempts.length === 0) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  await new Promise(resolve => setImmediate(resolve));
+  let startedAt;
+  await lanes.run('fake', async () => { startedAt = Date.now(); });
+
+  await first;
+  assert.ok(startedAt - limited.attempts[0] >= 90);
+});
+
+test('a call is given up after maxRetries rate limits, and other errors are not retried', async () => {
+  const lanes = scheduler({ maxRetries: 2 });
+  const limited = rateLimitedCall({ 'retry-after-ms': '0' }, Infinity);
+
+  await assert.rejects(lanes.run('fake', limited), /429 Too Many Requests/);
+  assert.equal(limited.attempts.length, 3);
+
+  let attempts = 0;
+  await assert.rejects(lanes.run('fake', async () => {
+    attempts++;
+    throw Object.assign(new Error('Bad request'), { status: 400 });
+  }), /Bad request/);
+  assert.equal(attempts, 1);
+  assert.equal(lanes.stats().fake.active, 0);
+});
+
+test('rate limits are recognised from every SDK\'s error shape', () => {
+  assert.ok(isRateLimitError({ status: 429 }));
+  assert.ok(isRateLimitError({ statusCode: 429 }));
+  assert.ok(isRateLimitError(new Error('OpenAI API error 429: {"error":"rate_limit_exceeded"}')));
+  assert.ok(!isRateLimitError(new Error('OpenAI API error 500: overloaded')));
+  assert.ok(!isRateLimitError({ status: 503 }));
+  assert.ok(!isRateLimitError(null));
+});
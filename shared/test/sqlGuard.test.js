@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { EXAMPLE_QUERIES, checkSql, getReadPolicy } = require('../dist');
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+const policy = getReadPolicy();
+
+const violations = sql => checkSql(sql, policy, { projectId: PROJECT_ID, params: [PROJECT_ID] });
+
+test('the read policy links interactions and diffs to conversations', () => {
+  assert.deepEqual(policy.projectLinks.interactions, [{ column: 'conversation_id', table: 'conversations', references: 'id' }]);
+  assert.deepEqual(policy.projectLinks.interaction_diffs, [{ column: 'interaction_id', table: 'interactions', references: 'id' }]);
+  assert.deepEqual(policy.projectLinks.commit_interactions.map(link => link.table), ['commits', 'interactions']);
+});
+
+test('interactions must be joined to a project-filtered conversation', async () => {
+  assert.match((await violations('SELECT i.prompt_text FROM interactions i')).join(), /interactions \(i\) is not joined/);
+  assert.deepEqual(await violations(`
+    SELECT i.prompt_text FROM interactions i
+    JOIN conversations c ON c.id = i.conversation_id
+    WHERE c.project_id = $1`), []);
+  assert.notDeepEqual(await violations(`
+    SELECT i.prompt_text FROM interactions i
+    JOIN conversations c ON c.id = i.conversation_id`), []);
+});
+
+test('interaction_diffs are scoped through interactions and conversations', async () => {
+  assert.deepEqual(await violations(`
+    SELECT d.file_path FROM interaction_diffs d
+    JOIN interactions i ON i.id = d.interaction_id
+    JOIN conversations c ON c.id = i.conversation_id AND c.project_id = $1`), []);
+  assert.notDeepEqual(await violations(`
+    SELECT d.file_path FROM interaction_diffs d
+    JOIN interactions i ON i.id = d.interaction_id`), []);
+});
+
+test('a LEFT JOIN only scopes its left side when WHERE drops the null rows', async () => {
+  assert.notDeepEqual(await violations(`
+    SELECT i.prompt_text FROM interactions i
+    LEFT JOIN conversations c ON c.id = i.conversation_id AND c.project_id = $1`), []);
+  assert.deepEqual(await violations(`
+    SELECT i.prompt_text FROM interactions i
+    LEFT JOIN conversations c ON c.id = i.conversation_id
+    WHERE c.project_id = $1`), []);
+});
+
+test('session settings cannot be read or written', async () => {
+  for (const sql of [
+    "SELECT current_setting('app.project_id')",
+    "SELECT set_config('app.project_id', 'other', false)"
+  ]) {
+    assert.match((await violations(sql)).join(), /not allowed/, sql);
+  }
+});
+
+test('every example query passes the guard', async () => {
+  for (const example of EXAMPLE_QUERIES) {
+    assert.deepEqual(await violations(example.sql), [], example.sql);
+  }
+});